@@ -0,0 +1,40 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Career chatbot tests
+ * Retrieval runs in the browser over `assets/chatbot/corpus.json`, so answers
+ * are deterministic
+ */
+
+test.describe('Career chatbot', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.getByRole('button', { name: "Ask about Jay's career" }).click();
+  });
+
+  test('should open a dialog with suggested questions', async ({ page }) => {
+    const dialog = page.getByRole('dialog', { name: 'Ask about Jay' });
+
+    await expect(dialog).toBeVisible();
+    await expect(
+      dialog.getByRole('button', { name: 'Which testing tools does Jay use?' })
+    ).toBeVisible();
+  });
+
+  test('should answer with cited sources', async ({ page }) => {
+    await page.getByRole('textbox', { name: 'Your question' }).fill('Has Jay mentored developers?');
+    await page.keyboard.press('Enter');
+
+    const log = page.getByRole('log', { name: 'Conversation' });
+    await expect(log).toHaveAttribute('aria-busy', 'false', { timeout: 10000 });
+    await expect(log.locator('.chat-message--assistant')).toContainText('mentors');
+    await expect(log.locator('.chat-message__source').first()).toContainText('Mentoring');
+  });
+
+  test('should close with Escape and restore focus to the launcher', async ({ page }) => {
+    await page.keyboard.press('Escape');
+
+    await expect(page.getByRole('dialog')).toBeHidden();
+    await expect(page.getByRole('button', { name: "Ask about Jay's career" })).toBeFocused();
+  });
+});
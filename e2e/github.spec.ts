@@ -0,0 +1,40 @@
+import { test, expect } from '@playwright/test';
+
+import profile from '../src/app/core/services/fixtures/github-snapshot/profile.json';
+import repos from '../src/app/core/services/fixtures/github-snapshot/repos.json';
+
+/**
+ * GitHub page tests
+ * The e2e configuration serves GitHub data from the recorded fixtures, so
+ * these run offline and expect the snapshot values
+ */
+
+test.describe('GitHub page', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/github');
+    await expect(page).toHaveTitle('MoodyJW - GitHub');
+  });
+
+  test('should show the recorded profile and totals', async ({ page }) => {
+    const stars = repos.reduce((sum, repo) => sum + repo.stargazers_count, 0);
+
+    await expect(page.locator('[data-test="overview-profile"] h2')).toHaveText(
+      profile.name ?? profile.login
+    );
+    await expect(page.locator('[data-test="overview-stars"]')).toHaveText(String(stars));
+  });
+
+  test('should show the contribution heatmap', async ({ page }) => {
+    await page.getByRole('tab', { name: 'Contributions' }).click();
+
+    await expect(page.getByRole('grid', { name: 'Contributions in the last year' })).toBeVisible();
+  });
+
+  test('should list active source repositories', async ({ page }) => {
+    const active = repos.filter((repo) => !repo.fork && !repo.archived);
+
+    await page.getByRole('tab', { name: 'Repositories' }).click();
+
+    await expect(page.locator('[data-test="repository"]')).toHaveCount(active.length);
+  });
+});
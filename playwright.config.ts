@@ -90,9 +90,9 @@ export default defineConfig({
     },
   ],
 
-  /* Run your local dev server before starting the tests */
+  /* Run the dev server with the e2e configuration (GitHub data from fixtures) */
   webServer: {
-    command: 'npm run start',
+    command: 'npm run start:e2e',
     url: 'http://localhost:4200',
     reuseExistingServer: !process.env.CI,
     timeout: 180 * 1000, // 3 minutes for CI environment
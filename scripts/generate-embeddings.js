@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+/**
+ * Generates `src/assets/chatbot/embeddings.json` from `corpus.json`.
+ *
+ * Usage: node scripts/generate-embeddings.js
+ *
+ * Chunks are embedded with `TemplateLlmProvider`, the default chatbot
+ * provider, so questions embedded in the browser land in the same vector
+ * space. The provider is bundled from source with esbuild (installed with
+ * the Angular build tools) to keep a single implementation.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const esbuild = require('esbuild');
+
+const ROOT = path.join(__dirname, '..');
+const CORPUS = path.join(ROOT, 'src/assets/chatbot/corpus.json');
+const OUT_FILE = path.join(ROOT, 'src/assets/chatbot/embeddings.json');
+const PROVIDER = './src/app/core/services/template-llm.provider';
+
+/**
+ * Bundles and evaluates the template provider
+ */
+function loadProvider() {
+  const { outputFiles } = esbuild.buildSync({
+    stdin: {
+      contents: `export { TemplateLlmProvider } from '${PROVIDER}';`,
+      resolveDir: ROOT,
+      loader: 'ts',
+    },
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    tsconfig: path.join(ROOT, 'tsconfig.json'),
+    write: false,
+    logLevel: 'error',
+  });
+
+  const module = { exports: {} };
+  new Function('module', 'exports', 'require', outputFiles[0].text)(
+    module,
+    module.exports,
+    require
+  );
+  return new module.exports.TemplateLlmProvider();
+}
+
+/**
+ * Packs vectors into base64 rows of little-endian 32-bit floats
+ */
+function pack(vectors, dimensions) {
+  const buffer = Buffer.alloc(vectors.length * dimensions * 4);
+  vectors.forEach((vector, row) =>
+    vector.forEach((value, i) => buffer.writeFloatLE(value, (row * dimensions + i) * 4))
+  );
+  return buffer.toString('base64');
+}
+
+async function main() {
+  const corpus = JSON.parse(fs.readFileSync(CORPUS, 'utf8'));
+  const provider = loadProvider();
+
+  const vectors = await new Promise((resolve, reject) =>
+    provider.embed(corpus.map((chunk) => chunk.text)).subscribe({ next: resolve, error: reject })
+  );
+  const dimensions = vectors[0]?.length ?? 0;
+
+  const file = {
+    model: provider.embeddingModel,
+    dimensions,
+    ids: corpus.map((chunk) => chunk.id),
+    vectors: pack(vectors, dimensions),
+  };
+  fs.writeFileSync(OUT_FILE, `${JSON.stringify(file, null, 2)}\n`);
+
+  console.log(
+    `✓ Saved ${path.relative(ROOT, OUT_FILE)} (${corpus.length} embeddings, ${file.model})`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
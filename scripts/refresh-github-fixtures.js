@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+/**
+ * Records the GitHub API responses replayed by `FixtureGitHubTransport`.
+ *
+ * Usage: GITHUB_TOKEN=<token> node scripts/refresh-github-fixtures.js [username]
+ *
+ * Writes the profile, repositories, contribution calendar (last year) and
+ * statistics of the owned repositories and of the repositories linked from
+ * `src/assets/data/projects.json`. The GraphQL API requires a token; a
+ * classic token without scopes is enough for public data.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.join(__dirname, '..');
+const OUT_DIR = path.join(ROOT, 'src/app/core/services/fixtures/github-snapshot');
+const API_CONSTANTS = path.join(ROOT, 'src/app/shared/constants/api.constants.ts');
+const PROJECTS = path.join(ROOT, 'src/assets/data/projects.json');
+const REST = 'https://api.github.com';
+const GRAPHQL = 'https://api.github.com/graphql';
+
+/**
+ * Reads a query from `GITHUB_GRAPHQL_QUERIES` so the snapshots always match
+ * what `GitHubService` sends
+ */
+function readQuery(name) {
+  const source = fs.readFileSync(API_CONSTANTS, 'utf8');
+  const match = new RegExp(`${name}: \`([\\s\\S]*?)\``).exec(source);
+  if (!match) {
+    throw new Error(`GraphQL query ${name} not found in ${API_CONSTANTS}`);
+  }
+  return match[1];
+}
+
+async function request(url, token, init = {}) {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${token}`,
+      ...init.headers,
+    },
+  });
+  if (!response.ok) {
+    throw new Error(
+      `${init.method || 'GET'} ${url} failed: ${response.status} ${response.statusText}`
+    );
+  }
+  return response.json();
+}
+
+async function graphql(query, variables, token) {
+  const body = await request(GRAPHQL, token, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, variables }),
+  });
+  if (body.errors && body.errors.length) {
+    throw new Error(`GraphQL request failed: ${body.errors.map((e) => e.message).join('; ')}`);
+  }
+  return body;
+}
+
+/**
+ * Lists `owner/name` of the repositories to record statistics for
+ */
+function statsTargets(repos) {
+  const targets = repos.filter((repo) => !repo.fork).map((repo) => repo.full_name);
+  const projects = JSON.parse(fs.readFileSync(PROJECTS, 'utf8'));
+
+  for (const project of projects) {
+    const match = /github\.com\/([^/]+)\/([^/#?]+)/i.exec(project.links?.github || '');
+    if (match) {
+      targets.push(`${match[1]}/${match[2].replace(/\.git$/i, '')}`);
+    }
+  }
+
+  const seen = new Set();
+  return targets.filter((target) => {
+    const key = target.toLowerCase();
+    return seen.has(key) ? false : seen.add(key);
+  });
+}
+
+function write(file, data) {
+  fs.writeFileSync(path.join(OUT_DIR, file), `${JSON.stringify(data, null, 2)}\n`);
+  console.log(`Wrote ${path.relative(ROOT, path.join(OUT_DIR, file))}`);
+}
+
+async function run() {
+  const token = process.env.GITHUB_TOKEN;
+  const username = process.argv[2] || process.env.GITHUB_USERNAME || 'MoodyJW';
+
+  if (!token) {
+    console.error('GITHUB_TOKEN is required (the GraphQL API does not accept anonymous requests).');
+    process.exit(1);
+  }
+
+  const to = new Date();
+  const from = new Date(new Date(to).setFullYear(to.getFullYear() - 1));
+
+  const profile = await request(`${REST}/users/${username}`, token);
+  const repos = await request(
+    `${REST}/users/${username}/repos?type=owner&sort=pushed&per_page=100`,
+    token
+  );
+  const calendar = await graphql(
+    readQuery('CONTRIBUTION_CALENDAR'),
+    { username, from: from.toISOString(), to: to.toISOString() },
+    token
+  );
+
+  const stats = {};
+  for (const target of statsTargets(repos)) {
+    const [owner, name] = target.split('/');
+    try {
+      stats[target] = await graphql(readQuery('REPOSITORY_STATS'), { owner, name }, token);
+    } catch (error) {
+      console.warn(`Skipping ${target}: ${error.message}`);
+    }
+  }
+
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+  write('profile.json', profile);
+  write('repos.json', repos);
+  write('contribution-calendar.json', calendar);
+  write('repository-stats.json', stats);
+}
+
+if (require.main === module) {
+  run().catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
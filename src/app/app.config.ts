@@ -3,7 +3,10 @@ import type { ApplicationConfig } from '@angular/core';
 import { provideBrowserGlobalErrorListeners } from '@angular/core';
 import { provideRouter } from '@angular/router';
 
+import { cacheInterceptor } from './core/interceptors/cache.interceptor';
 import { latencyInterceptor } from './core/interceptors/latency.interceptor';
+import { mockBackendInterceptor } from './core/interceptors/mock-backend.interceptor';
+import { retryInterceptor } from './core/interceptors/retry.interceptor';
 import { translocoConfig } from './app.config.transloco';
 import { routes } from './app.routes';
 
@@ -11,7 +14,14 @@ export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideRouter(routes),
-    provideHttpClient(withInterceptors([latencyInterceptor])),
+    provideHttpClient(
+      withInterceptors([
+        cacheInterceptor,
+        retryInterceptor,
+        latencyInterceptor,
+        mockBackendInterceptor,
+      ])
+    ),
     translocoConfig,
   ],
 };
@@ -1,6 +1,7 @@
 import type { Routes } from '@angular/router';
 
 import { ROUTES } from '@shared/constants';
+import { featureFlagGuard } from '@core/guards';
 
 export const routes: Routes = [
   {
@@ -40,6 +41,11 @@ export const routes: Routes = [
         path: ROUTES.CONTACT,
         loadComponent: () => import('./features/contact').then((m) => m.ContactComponent),
       },
+      {
+        path: ROUTES.GITHUB,
+        canMatch: [featureFlagGuard('enableGitHubIntegration')],
+        loadComponent: () => import('./features/github').then((m) => m.GitHubComponent),
+      },
     ],
   },
   {
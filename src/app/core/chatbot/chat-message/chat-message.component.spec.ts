@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import type { ChatMessage } from '../../models/chatbot.model';
+
+import { ChatMessageComponent } from './chat-message.component';
+
+describe('ChatMessageComponent', () => {
+  let fixture: ComponentFixture<ChatMessageComponent>;
+  let element: HTMLElement;
+
+  const answer: ChatMessage = {
+    id: 'chat-2',
+    role: 'assistant',
+    text: 'Jay mentors junior developers. [1]',
+    sources: [
+      {
+        chunk: {
+          id: 15,
+          text: 'Jay mentors junior and mid-level developers through pairing, code review and internal workshops on Angular signals, testing and accessibility.',
+          metadata: { category: 'leadership', topic: 'team-leadership', source: 'resume' },
+        },
+        score: 8.5,
+      },
+      { chunk: { id: 3, text: 'Untagged chunk.' }, score: 4 },
+    ],
+    streaming: false,
+    createdAt: '2026-10-18T12:00:00.000Z',
+  };
+
+  function render(message: ChatMessage): void {
+    fixture.componentRef.setInput('message', message);
+    fixture.detectChanges();
+  }
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [ChatMessageComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ChatMessageComponent);
+    element = fixture.nativeElement;
+  });
+
+  it('should render a question as a user bubble', () => {
+    render({ ...answer, id: 'chat-1', role: 'user', text: 'Has Jay mentored?', sources: [] });
+
+    expect(element.querySelector('.chat-message--user')).toBeTruthy();
+    expect(element.querySelector('.chat-message__text')?.textContent).toContain('You:');
+    expect(element.querySelector('.chat-message__sources')).toBeNull();
+  });
+
+  it('should list the numbered sources of an answer', () => {
+    render(answer);
+
+    const sources = element.querySelectorAll('.chat-message__source');
+    expect(element.querySelector('.chat-message--assistant')).toBeTruthy();
+    expect(sources).toHaveLength(2);
+    expect(sources[0].getAttribute('value')).toBe('1');
+    expect(sources[0].querySelector('.chat-message__source-label')?.textContent).toBe(
+      'Resume · Team Leadership'
+    );
+    expect(sources[0].querySelector('.chat-message__source-excerpt')?.textContent).toMatch(
+      /\.\.\.$/
+    );
+    expect(sources[1].querySelector('.chat-message__source-label')?.textContent).toBe('Source 2');
+  });
+
+  it('should show a cursor while streaming', () => {
+    render({ ...answer, streaming: true, sources: [] });
+
+    expect(element.querySelector('.chat-message__cursor')).toBeTruthy();
+    expect(element.querySelector('article')?.getAttribute('aria-busy')).toBe('true');
+  });
+});
@@ -0,0 +1,75 @@
+import { ChangeDetectionStrategy, Component, computed, input } from '@angular/core';
+
+import { capitalize, titleCase, truncate } from '@shared/utilities/string/string.utils';
+
+import type { ChatMessage, RetrievedChunk } from '../../models/chatbot.model';
+
+/**
+ * A source cited by an answer
+ */
+export interface ChatCitation {
+  /** Corpus chunk id */
+  id: number;
+  /** Citation number, as used in the answer's `[n]` markers */
+  number: number;
+  /** Source and topic, e.g. `Resume · Angular` */
+  label: string;
+  /** Start of the chunk text */
+  excerpt: string;
+}
+
+/** Length of source excerpts */
+const EXCERPT_LENGTH = 120;
+
+/**
+ * Formats a cited chunk for display
+ */
+function toCitation({ chunk }: RetrievedChunk, index: number): ChatCitation {
+  const { source, topic } = chunk.metadata ?? {};
+  const label = [source, topic?.replace(/-/g, ' ')]
+    .filter((part): part is string => !!part)
+    .map((part) => (part === source ? capitalize(part) : titleCase(part)))
+    .join(' · ');
+
+  return {
+    id: chunk.id,
+    number: index + 1,
+    label: label || `Source ${index + 1}`,
+    excerpt: truncate(chunk.text, { length: EXCERPT_LENGTH }),
+  };
+}
+
+/**
+ * A message in the chatbot conversation
+ *
+ * Questions are right-aligned bubbles; answers show a cursor while they are
+ * streaming and list their numbered sources once complete.
+ *
+ * @example
+ * ```html
+ * <app-chat-message [message]="message" />
+ * ```
+ */
+@Component({
+  selector: 'app-chat-message',
+  standalone: true,
+  templateUrl: './chat-message.component.html',
+  styleUrl: './chat-message.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ChatMessageComponent {
+  /**
+   * Message to display
+   */
+  readonly message = input.required<ChatMessage>();
+
+  /**
+   * Whether the visitor wrote the message
+   */
+  readonly isUser = computed(() => this.message().role === 'user');
+
+  /**
+   * Sources cited by the answer
+   */
+  readonly citations = computed(() => this.message().sources.map(toCitation));
+}
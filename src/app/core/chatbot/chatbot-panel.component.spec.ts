@@ -0,0 +1,194 @@
+// @vitest-environment jsdom
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { signal } from '@angular/core';
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { CHATBOT_CONFIG, CHATBOT_ENDPOINTS } from '@shared/constants';
+
+import corpus from '../../../assets/chatbot/corpus.json';
+import embeddings from '../../../assets/chatbot/embeddings.json';
+import { ChatbotService } from '../services/chatbot.service';
+import type { LlmLoadProgress } from '../services/llm.provider';
+
+import { CHATBOT_SUGGESTIONS, ChatbotPanelComponent } from './chatbot-panel.component';
+
+describe('ChatbotPanelComponent', () => {
+  let component: ChatbotPanelComponent;
+  let fixture: ComponentFixture<ChatbotPanelComponent>;
+  let element: HTMLElement;
+  let chatbot: ChatbotService;
+  let httpMock: HttpTestingController;
+
+  function query<T extends Element = HTMLElement>(selector: string): T | null {
+    return element.querySelector<T>(selector);
+  }
+
+  function button(label: string): HTMLButtonElement {
+    return query<HTMLButtonElement>(`button[aria-label="${label}"]`)!;
+  }
+
+  function openPanel(): void {
+    button("Ask about Jay's career").click();
+    fixture.detectChanges();
+  }
+
+  function type(text: string): HTMLTextAreaElement {
+    const textarea = query<HTMLTextAreaElement>('textarea')!;
+    textarea.value = text;
+    textarea.dispatchEvent(new Event('input'));
+    fixture.detectChanges();
+    return textarea;
+  }
+
+  function pressEnter(target: HTMLElement, shiftKey = false): void {
+    target.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', shiftKey, bubbles: true }));
+    fixture.detectChanges();
+  }
+
+  /**
+   * Answers the corpus request, then the embeddings request once the cache
+   * has been checked
+   */
+  async function flushKnowledgeBase(): Promise<void> {
+    httpMock.expectOne(CHATBOT_ENDPOINTS.CORPUS).flush(corpus);
+    const request = await vi.waitFor(() => httpMock.expectOne(CHATBOT_ENDPOINTS.EMBEDDINGS));
+    request.flush(embeddings);
+    fixture.detectChanges();
+  }
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+    vi.useFakeTimers();
+
+    await TestBed.configureTestingModule({
+      imports: [ChatbotPanelComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ChatbotPanelComponent);
+    component = fixture.componentInstance;
+    element = fixture.nativeElement;
+    chatbot = TestBed.inject(ChatbotService);
+    httpMock = TestBed.inject(HttpTestingController);
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    chatbot.clear();
+    httpMock.verify();
+    vi.useRealTimers();
+    document.body.style.overflow = '';
+  });
+
+  it('should render a closed launcher', () => {
+    const launcher = button("Ask about Jay's career");
+
+    expect(launcher).toBeTruthy();
+    expect(query('.chatbot-panel__launcher')).toBeTruthy();
+    expect(query('[role="dialog"]')).toBeNull();
+  });
+
+  it('should open a labelled sidebar dialog with suggestions', () => {
+    openPanel();
+
+    const dialog = query('[role="dialog"]')!;
+    expect(dialog.classList).toContain('modal--sidebar');
+    expect(dialog.getAttribute('aria-labelledby')).toBe('chatbot-panel-title');
+    expect(query('#chatbot-panel-title')?.textContent).toContain('Ask about Jay');
+    expect(element.querySelectorAll('.chatbot-panel__suggestions li')).toHaveLength(
+      CHATBOT_SUGGESTIONS.length
+    );
+  });
+
+  it('should ask a suggested question', () => {
+    const ask = vi.spyOn(chatbot, 'ask').mockImplementation(() => undefined);
+    openPanel();
+
+    button(CHATBOT_SUGGESTIONS[1]).click();
+
+    expect(ask).toHaveBeenCalledWith(CHATBOT_SUGGESTIONS[1]);
+  });
+
+  it('should send the draft on Enter and stream the answer into the log', async () => {
+    openPanel();
+    const textarea = type('Which testing tools does Jay use?');
+
+    pressEnter(textarea);
+    await flushKnowledgeBase();
+
+    expect(component.draft()).toBe('');
+    expect(query('[role="log"]')?.getAttribute('aria-busy')).toBe('true');
+    expect(button('Stop answer')).toBeTruthy();
+
+    while (chatbot.responding()) {
+      await vi.advanceTimersByTimeAsync(CHATBOT_CONFIG.STREAM_INTERVAL);
+    }
+    fixture.detectChanges();
+
+    expect(element.querySelectorAll('app-chat-message')).toHaveLength(2);
+    expect(query('.chat-message--assistant')?.textContent).toContain('Vitest');
+    expect(query('.chat-message__sources')).toBeTruthy();
+    expect(query('[role="log"]')?.getAttribute('aria-busy')).toBe('false');
+  });
+
+  it('should keep Shift+Enter for line breaks', () => {
+    const ask = vi.spyOn(chatbot, 'ask');
+    openPanel();
+
+    pressEnter(type('First line'), true);
+
+    expect(ask).not.toHaveBeenCalled();
+  });
+
+  it('should not send a blank draft', () => {
+    const ask = vi.spyOn(chatbot, 'ask');
+    openPanel();
+
+    pressEnter(type('   '));
+
+    expect(ask).not.toHaveBeenCalled();
+    expect(button('Send question').disabled).toBe(true);
+  });
+
+  it('should clear the conversation', async () => {
+    openPanel();
+    expect(button('Clear conversation').disabled).toBe(true);
+
+    pressEnter(type('Which testing tools does Jay use?'));
+    await flushKnowledgeBase();
+    button('Stop answer').click();
+    fixture.detectChanges();
+    button('Clear conversation').click();
+    fixture.detectChanges();
+
+    expect(chatbot.messages()).toEqual([]);
+    expect(query('.chatbot-panel__suggestions')).toBeTruthy();
+  });
+
+  it('should show the language model download progress', () => {
+    const progress = signal<LlmLoadProgress>({ status: 'loading', progress: 0.25, text: '' });
+    vi.spyOn(chatbot, 'modelProgress').mockImplementation(progress);
+    openPanel();
+
+    expect(query('.chatbot-panel__model')?.getAttribute('role')).toBe('status');
+    expect(query<HTMLProgressElement>('progress')?.value).toBe(0.25);
+
+    progress.set({ status: 'ready', progress: 1, text: '' });
+    fixture.detectChanges();
+
+    expect(query('.chatbot-panel__model')).toBeNull();
+  });
+
+  it('should close from the dialog close button', () => {
+    openPanel();
+
+    button('Close dialog').click();
+    fixture.detectChanges();
+
+    expect(component.open()).toBe(false);
+    expect(query('[role="dialog"]')).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+import { provideHttpClient } from '@angular/common/http';
+import { inject, provideAppInitializer } from '@angular/core';
+
+import type { Meta, StoryObj } from '@storybook/angular';
+import { applicationConfig } from '@storybook/angular';
+
+import { ChatbotService } from '../services/chatbot.service';
+
+import { ChatbotPanelComponent } from './chatbot-panel.component';
+
+const meta: Meta<ChatbotPanelComponent> = {
+  title: 'Core/ChatbotPanel',
+  component: ChatbotPanelComponent,
+  tags: ['autodocs'],
+  decorators: [
+    applicationConfig({
+      providers: [provideHttpClient()],
+    }),
+  ],
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Floating career chatbot. The launcher in the bottom-right corner opens a sidebar modal where answers from `ChatbotService` stream in with numbered sources. Retrieval runs in the browser over `assets/chatbot/corpus.json`.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<ChatbotPanelComponent>;
+
+/**
+ * Launcher only; click it to open the panel with suggested questions
+ */
+export const Default: Story = {
+  decorators: [
+    applicationConfig({
+      providers: [provideAppInitializer(() => inject(ChatbotService).clear())],
+    }),
+  ],
+};
+
+/**
+ * Panel with an answered question; click the launcher to open it
+ */
+export const Conversation: Story = {
+  decorators: [
+    applicationConfig({
+      providers: [
+        provideAppInitializer(() => {
+          const chatbot = inject(ChatbotService);
+          chatbot.clear();
+          chatbot.ask('Which testing tools does Jay use?');
+        }),
+      ],
+    }),
+  ],
+};
@@ -0,0 +1,146 @@
+import type { ElementRef } from '@angular/core';
+import {
+  ChangeDetectionStrategy,
+  Component,
+  effect,
+  inject,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { provideIcons } from '@ng-icons/core';
+
+import {
+  ButtonComponent,
+  IconComponent,
+  ModalComponent,
+  TextareaComponent,
+} from '@shared/components';
+import { ICON_NAMES, ICON_REGISTRY } from '@shared/constants';
+
+import { ChatbotService } from '../services/chatbot.service';
+
+import { ChatMessageComponent } from './chat-message/chat-message.component';
+
+/**
+ * Questions offered before the conversation starts
+ */
+export const CHATBOT_SUGGESTIONS = [
+  'How long has Jay worked with Angular?',
+  'Which testing tools does Jay use?',
+  'Has Jay led or mentored a team?',
+  'What projects has Jay built?',
+] as const;
+
+/**
+ * Floating career chatbot
+ *
+ * A launcher button fixed to the bottom-right corner opens the conversation
+ * in a sidebar {@link ModalComponent} (full width on small screens), so
+ * focus trapping, Escape and focus restoration come from the modal.
+ *
+ * - Answers stream in from {@link ChatbotService}, with numbered sources
+ * - While a language model downloads, its progress is shown under the
+ *   heading
+ * - The conversation is announced through a polite live region that is
+ *   marked busy while an answer is being written
+ * - Enter sends the question; Shift+Enter adds a line break
+ * - The conversation persists for the session and can be cleared
+ *
+ * @example
+ * ```html
+ * @if (showChatbot) {
+ *   <app-chatbot-panel />
+ * }
+ * ```
+ */
+@Component({
+  selector: 'app-chatbot-panel',
+  standalone: true,
+  imports: [
+    ButtonComponent,
+    IconComponent,
+    ModalComponent,
+    TextareaComponent,
+    ChatMessageComponent,
+  ],
+  viewProviders: [provideIcons(ICON_REGISTRY)],
+  templateUrl: './chatbot-panel.component.html',
+  styleUrl: './chatbot-panel.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ChatbotPanelComponent {
+  protected readonly chatbot = inject(ChatbotService);
+
+  /** Icon names */
+  protected readonly ICON_NAMES = ICON_NAMES;
+
+  /** Suggested questions */
+  protected readonly suggestions = CHATBOT_SUGGESTIONS;
+
+  /**
+   * Whether the panel is open
+   */
+  readonly open = signal(false);
+
+  /**
+   * Question being typed
+   */
+  readonly draft = signal('');
+
+  /**
+   * Conversation log, scrolled to the latest message
+   */
+  private readonly log = viewChild<ElementRef<HTMLElement>>('log');
+
+  constructor() {
+    effect(() => {
+      this.chatbot.messages();
+      const log = this.log()?.nativeElement;
+      if (log) {
+        log.scrollTop = log.scrollHeight;
+      }
+    });
+  }
+
+  /**
+   * Opens or closes the panel
+   */
+  toggle(): void {
+    this.open.update((open) => !open);
+  }
+
+  /**
+   * Closes the panel; an answer being written keeps streaming
+   */
+  close(): void {
+    this.open.set(false);
+  }
+
+  /**
+   * Sends the drafted question
+   */
+  send(event?: Event): void {
+    event?.preventDefault();
+    if (this.chatbot.responding() || !this.draft().trim()) {
+      return;
+    }
+    this.chatbot.ask(this.draft());
+    this.draft.set('');
+  }
+
+  /**
+   * Asks a suggested question
+   */
+  ask(question: string): void {
+    this.chatbot.ask(question);
+  }
+
+  /**
+   * Sends on Enter, keeping Shift+Enter for line breaks
+   */
+  handleKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' && !event.shiftKey && !event.isComposing) {
+      this.send(event);
+    }
+  }
+}
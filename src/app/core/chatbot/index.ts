@@ -0,0 +1,2 @@
+export * from './chat-message/chat-message.component';
+export * from './chatbot-panel.component';
@@ -0,0 +1,401 @@
+// @vitest-environment jsdom
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter, Router } from '@angular/router';
+
+import { of } from 'rxjs';
+import type { Mock } from 'vitest';
+
+import { STORAGE_KEYS } from '@shared/constants';
+import type { ModalRef } from '@shared/services/modal/modal.service';
+import { MODAL_REF } from '@shared/services/modal/modal.service';
+
+import type { CaseStudy } from '../models/case-study.model';
+import type { Project } from '../models/project.model';
+import { CaseStudiesService } from '../services/case-studies.service';
+import { ProjectService } from '../services/project.service';
+import { ThemeService } from '../theme/theme.service';
+
+import { CommandPaletteComponent } from './command-palette.component';
+
+describe('CommandPaletteComponent', () => {
+  let fixture: ComponentFixture<CommandPaletteComponent>;
+  let component: CommandPaletteComponent;
+  let element: HTMLElement;
+  let modalRef: ModalRef;
+  let navigateByUrl: Mock<Router['navigateByUrl']>;
+
+  const projects: Project[] = [
+    {
+      id: 'dashboard',
+      slug: 'analytics-dashboard',
+      title: 'Analytics Dashboard',
+      description: 'Real-time charts for product teams',
+      shortDescription: 'Charts for product teams',
+      technologies: ['Angular', 'TypeScript'],
+      category: 'Web App',
+      featured: true,
+      images: { thumbnail: '/thumb.jpg', hero: '/hero.jpg', gallery: [] },
+      links: {},
+      createdDate: '2024-01-01',
+    },
+    {
+      id: 'shop',
+      slug: 'online-shop',
+      title: 'Online Shop',
+      description: 'Storefront with a checkout flow',
+      shortDescription: 'Storefront',
+      technologies: ['React'],
+      category: 'E-commerce',
+      featured: false,
+      images: { thumbnail: '/thumb.jpg', hero: '/hero.jpg', gallery: [] },
+      links: {},
+      createdDate: '2024-02-01',
+    },
+  ];
+
+  const caseStudies: CaseStudy[] = [
+    {
+      id: 'cs-1',
+      slug: 'dashboard-redesign',
+      title: 'Dashboard Redesign',
+      description: 'Reworking reporting for analysts',
+      client: 'Acme Corp',
+      role: 'Lead Developer',
+      duration: '3 months',
+      challenge: 'Challenge',
+      solution: 'Solution',
+      results: { metrics: [], impact: 'Impact' },
+      technologies: ['Angular'],
+      images: { thumbnail: '/thumb.jpg', hero: '/hero.jpg', gallery: [] },
+      publishedDate: '2024-01-01',
+      tags: ['UX'],
+    },
+  ];
+
+  function query<T extends Element = HTMLElement>(selector: string): T | null {
+    return element.querySelector<T>(selector);
+  }
+
+  function input(): HTMLInputElement {
+    return query<HTMLInputElement>('[data-test="command-palette-input"]')!;
+  }
+
+  function type(text: string): void {
+    input().value = text;
+    input().dispatchEvent(new Event('input'));
+    fixture.detectChanges();
+  }
+
+  function press(key: string, init: KeyboardEventInit = {}): KeyboardEvent {
+    const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init });
+    input().dispatchEvent(event);
+    fixture.detectChanges();
+    return event;
+  }
+
+  function groupLabels(): string[] {
+    return Array.from(element.querySelectorAll('.command-palette__group-label')).map(
+      (label) => label.textContent?.trim() ?? ''
+    );
+  }
+
+  function optionLabels(): string[] {
+    return Array.from(element.querySelectorAll('.command-palette__option-label')).map(
+      (label) => label.textContent ?? ''
+    );
+  }
+
+  function activeOption(): HTMLElement | null {
+    return query('.command-palette__option--active');
+  }
+
+  function createComponent(): void {
+    fixture = TestBed.createComponent(CommandPaletteComponent);
+    component = fixture.componentInstance;
+    element = fixture.nativeElement;
+    fixture.detectChanges();
+  }
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    modalRef = { close: vi.fn(), afterClosed: () => Promise.resolve(undefined) };
+
+    await TestBed.configureTestingModule({
+      imports: [CommandPaletteComponent],
+      providers: [
+        provideRouter([]),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: MODAL_REF, useValue: modalRef },
+      ],
+    }).compileComponents();
+
+    vi.spyOn(TestBed.inject(ProjectService), 'getAll').mockReturnValue(of(projects));
+    vi.spyOn(TestBed.inject(CaseStudiesService), 'getAll').mockReturnValue(of(caseStudies));
+    navigateByUrl = vi.fn<Router['navigateByUrl']>().mockResolvedValue(true);
+    vi.spyOn(TestBed.inject(Router), 'navigateByUrl').mockImplementation(navigateByUrl);
+
+    createComponent();
+  });
+
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  describe('Results', () => {
+    it('should offer pages and actions before anything is typed', () => {
+      expect(groupLabels()).toEqual(['Pages', 'Actions']);
+      expect(optionLabels()).toContain('Case Studies');
+      expect(optionLabels()).toContain('Use system theme');
+    });
+
+    it('should load projects and case studies to search', () => {
+      expect(TestBed.inject(ProjectService).getAll).toHaveBeenCalledTimes(1);
+      expect(TestBed.inject(CaseStudiesService).getAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should group matches by kind', () => {
+      type('dashboard');
+
+      expect(groupLabels()).toEqual(['Projects', 'Case studies']);
+      expect(optionLabels()).toEqual(['Analytics Dashboard', 'Dashboard Redesign']);
+      expect(element.textContent).toContain('Web App');
+      expect(element.textContent).toContain('Acme Corp');
+    });
+
+    it('should match pages and actions', () => {
+      type('case');
+      expect(groupLabels()).toEqual(['Pages']);
+      expect(optionLabels()).toEqual(['Case Studies']);
+
+      type('dark theme');
+      expect(groupLabels()).toEqual(['Actions']);
+    });
+
+    it('should highlight matched words in labels', () => {
+      type('analytics');
+
+      const mark = query('.command-palette__option-label mark');
+      expect(mark?.textContent).toBe('Analytics');
+    });
+
+    it('should show an empty state without matches', () => {
+      type('kubernetes');
+
+      expect(component.items()).toEqual([]);
+      expect(query('.command-palette__empty')?.textContent).toContain('kubernetes');
+    });
+
+    it('should announce the number of results', () => {
+      const status = query('[role="status"]')!;
+      expect(status.textContent?.trim()).toBe('');
+
+      type('dashboard');
+      expect(status.textContent?.trim()).toBe('2 results');
+
+      type('kubernetes');
+      expect(status.textContent?.trim()).toBe('No results');
+    });
+  });
+
+  describe('Keyboard Navigation', () => {
+    it('should activate the first result', () => {
+      type('dashboard');
+
+      expect(activeOption()?.textContent).toContain('Analytics Dashboard');
+      expect(input().getAttribute('aria-activedescendant')).toBe(activeOption()?.id);
+    });
+
+    it('should move through results with the arrow keys, wrapping around', () => {
+      type('dashboard');
+
+      const event = press('ArrowDown');
+      expect(event.defaultPrevented).toBe(true);
+      expect(activeOption()?.textContent).toContain('Dashboard Redesign');
+
+      press('ArrowDown');
+      expect(activeOption()?.textContent).toContain('Analytics Dashboard');
+
+      press('ArrowUp');
+      expect(activeOption()?.textContent).toContain('Dashboard Redesign');
+    });
+
+    it('should jump between groups with PageDown and PageUp', () => {
+      press('PageDown');
+      expect(component.activeItem()?.id).toContain('-actions-0');
+
+      press('PageDown');
+      expect(component.activeItem()?.id).toContain('-pages-0');
+
+      press('PageUp');
+      expect(component.activeItem()?.id).toContain('-actions-0');
+    });
+
+    it('should reset the active result when the query changes', () => {
+      press('ArrowDown');
+      type('dashboard');
+
+      expect(component.activeIndex()).toBe(0);
+    });
+
+    it('should open the active result on Enter and close', () => {
+      type('dashboard');
+      press('ArrowDown');
+      const event = press('Enter');
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(navigateByUrl).toHaveBeenCalledWith('/case-studies/dashboard-redesign');
+      expect(modalRef.close).toHaveBeenCalled();
+    });
+
+    it('should not run a result while composing text', () => {
+      type('dashboard');
+      press('Enter', { isComposing: true });
+
+      expect(navigateByUrl).not.toHaveBeenCalled();
+    });
+
+    it('should close on Ctrl+K and Cmd+K', () => {
+      press('k', { ctrlKey: true });
+      press('K', { metaKey: true });
+
+      expect(modalRef.close).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Pointer', () => {
+    it('should open a result on click', () => {
+      type('shop');
+      query<HTMLElement>('[role="option"]')!.click();
+
+      expect(navigateByUrl).toHaveBeenCalledWith('/projects/online-shop');
+      expect(modalRef.close).toHaveBeenCalled();
+    });
+
+    it('should activate a result under the pointer', () => {
+      type('dashboard');
+      const options = element.querySelectorAll<HTMLElement>('[role="option"]');
+      options[1].dispatchEvent(new MouseEvent('mousemove'));
+      fixture.detectChanges();
+
+      expect(activeOption()).toBe(options[1]);
+    });
+  });
+
+  describe('Actions', () => {
+    it('should switch theme', () => {
+      const setTheme = vi.spyOn(TestBed.inject(ThemeService), 'setTheme');
+
+      type('nocturne');
+      press('Enter');
+
+      expect(setTheme).toHaveBeenCalledWith('nocturne');
+      expect(modalRef.close).toHaveBeenCalled();
+    });
+
+    it('should follow the system theme', () => {
+      const resetToSystem = vi.spyOn(TestBed.inject(ThemeService), 'resetToSystem');
+
+      type('system');
+      press('Enter');
+
+      expect(resetToSystem).toHaveBeenCalled();
+    });
+  });
+
+  describe('Recent Searches', () => {
+    function searchAndOpen(text: string): void {
+      type(text);
+      press('Enter');
+      type('');
+    }
+
+    it('should remember queries that led to a result', () => {
+      searchAndOpen('dashboard');
+      searchAndOpen('shop');
+      searchAndOpen('Dashboard');
+
+      expect(component.recentSearches()).toEqual(['Dashboard', 'shop']);
+      expect(JSON.parse(window.localStorage.getItem(STORAGE_KEYS.RECENT_SEARCHES)!)).toEqual([
+        'Dashboard',
+        'shop',
+      ]);
+    });
+
+    it('should offer recent searches before anything is typed', () => {
+      searchAndOpen('shop');
+
+      expect(groupLabels()[0]).toBe('Recent searches');
+      expect(optionLabels().slice(0, 2)).toEqual(['shop', 'Clear recent searches']);
+    });
+
+    it('should restore recent searches from storage', () => {
+      window.localStorage.setItem(STORAGE_KEYS.RECENT_SEARCHES, JSON.stringify(['angular', 42]));
+      createComponent();
+
+      expect(component.recentSearches()).toEqual(['angular']);
+    });
+
+    it('should fill in the query from a recent search and stay open', () => {
+      searchAndOpen('shop');
+      vi.mocked(modalRef.close).mockClear();
+
+      press('Enter');
+
+      expect(component.query()).toBe('shop');
+      expect(input().value).toBe('shop');
+      expect(modalRef.close).not.toHaveBeenCalled();
+    });
+
+    it('should clear recent searches', () => {
+      searchAndOpen('shop');
+      vi.mocked(modalRef.close).mockClear();
+
+      press('ArrowDown');
+      press('Enter');
+
+      expect(component.recentSearches()).toEqual([]);
+      expect(window.localStorage.getItem(STORAGE_KEYS.RECENT_SEARCHES)).toBe('[]');
+      expect(groupLabels()).toEqual(['Pages', 'Actions']);
+      expect(modalRef.close).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Accessibility', () => {
+    it('should make the input a combobox controlling the listbox', () => {
+      const listbox = query('[role="listbox"]')!;
+
+      expect(input().getAttribute('role')).toBe('combobox');
+      expect(input().getAttribute('aria-controls')).toBe(listbox.id);
+      expect(input().getAttribute('aria-expanded')).toBe('true');
+
+      type('kubernetes');
+      expect(input().getAttribute('aria-expanded')).toBe('false');
+      expect(input().hasAttribute('aria-activedescendant')).toBe(false);
+    });
+
+    it('should label each group with its heading', () => {
+      const groups = element.querySelectorAll('[role="group"]');
+
+      groups.forEach((group) => {
+        const heading = element.querySelector(`#${group.getAttribute('aria-labelledby')}`);
+        expect(heading?.classList).toContain('command-palette__group-label');
+      });
+      expect(groups.length).toBe(2);
+    });
+
+    it('should mark only the active option as selected', () => {
+      const selected = element.querySelectorAll('[role="option"][aria-selected="true"]');
+
+      expect(selected.length).toBe(1);
+      expect(selected[0]).toBe(activeOption());
+    });
+
+    it('should focus the input', () => {
+      expect(document.activeElement).toBe(input());
+    });
+  });
+});
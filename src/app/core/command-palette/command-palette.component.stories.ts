@@ -0,0 +1,65 @@
+import { provideHttpClient } from '@angular/common/http';
+import { DOCUMENT, inject, provideAppInitializer } from '@angular/core';
+import { provideRouter } from '@angular/router';
+
+import { STORAGE_KEYS } from '@shared/constants';
+import type { Meta, StoryObj } from '@storybook/angular';
+import { applicationConfig } from '@storybook/angular';
+
+import { CommandPaletteComponent } from './command-palette.component';
+
+/**
+ * Seeds the recent searches the palette restores
+ */
+function provideRecentSearches(searches: string[]) {
+  return provideAppInitializer(() =>
+    inject(DOCUMENT).defaultView?.localStorage.setItem(
+      STORAGE_KEYS.RECENT_SEARCHES,
+      JSON.stringify(searches)
+    )
+  );
+}
+
+const meta: Meta<CommandPaletteComponent> = {
+  title: 'Core/CommandPalette',
+  component: CommandPaletteComponent,
+  tags: ['autodocs'],
+  decorators: [
+    applicationConfig({
+      providers: [provideRouter([]), provideHttpClient()],
+    }),
+  ],
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Site-wide search over pages, projects and case studies, with theme actions. Shown here outside the modal `CommandPaletteService` opens it in with Ctrl/Cmd+K. Type to search; ArrowUp/ArrowDown move, PageUp/PageDown switch groups and Enter opens the active result.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<CommandPaletteComponent>;
+
+/**
+ * Pages and actions offered before anything is typed
+ */
+export const Default: Story = {
+  decorators: [
+    applicationConfig({
+      providers: [provideRecentSearches([])],
+    }),
+  ],
+};
+
+/**
+ * Recent searches offered above pages and actions
+ */
+export const RecentSearches: Story = {
+  decorators: [
+    applicationConfig({
+      providers: [provideRecentSearches(['angular', 'dashboard', 'accessibility'])],
+    }),
+  ],
+};
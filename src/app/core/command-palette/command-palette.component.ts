@@ -0,0 +1,488 @@
+import type { ElementRef } from '@angular/core';
+import {
+  afterNextRender,
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  effect,
+  inject,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { Router } from '@angular/router';
+import { provideIcons } from '@ng-icons/core';
+
+import { IconComponent } from '@shared/components';
+import type { IconName } from '@shared/constants';
+import {
+  COMMAND_PALETTE_CONFIG,
+  getCaseStudyRoute,
+  getProjectRoute,
+  ICON_NAMES,
+  ICON_REGISTRY,
+  KEYBOARD_KEYS,
+  NAV_ITEMS,
+  STORAGE_KEYS,
+} from '@shared/constants';
+import type { HighlightRange } from '@shared/pipes/highlight/highlight.pipe';
+import { HighlightPipe } from '@shared/pipes/highlight/highlight.pipe';
+import { MODAL_REF } from '@shared/services/modal/modal.service';
+import { UniqueIdService } from '@shared/services/unique-id/unique-id.service';
+
+import { CASE_STUDY_SEARCH_FIELDS, CaseStudiesStore } from '../store/case-studies.store';
+import { PROJECT_SEARCH_FIELDS, ProjectStore } from '../store/project.store';
+import type { SearchResult } from '../store/search-index';
+import { SearchIndex } from '../store/search-index';
+import { ThemeService } from '../theme/theme.service';
+
+/**
+ * Kind of result, in display order
+ */
+export type CommandPaletteGroupId = 'recent' | 'pages' | 'projects' | 'caseStudies' | 'actions';
+
+/**
+ * Selectable entry of the palette
+ */
+export interface CommandPaletteItem {
+  /** Element id, referenced by `aria-activedescendant` */
+  id: string;
+  label: string;
+  description?: string;
+  icon: IconName;
+  /** Ranges of the label matched by the query */
+  ranges: HighlightRange[];
+  /** Runs the entry; the palette stays open when it returns false */
+  run: () => boolean | void;
+}
+
+/**
+ * Results of one kind, under a heading
+ */
+export interface CommandPaletteGroup {
+  id: CommandPaletteGroupId;
+  label: string;
+  items: CommandPaletteItem[];
+}
+
+/**
+ * Headings of the result groups
+ */
+export const COMMAND_PALETTE_GROUP_LABELS: Record<CommandPaletteGroupId, string> = {
+  recent: 'Recent searches',
+  pages: 'Pages',
+  projects: 'Projects',
+  caseStudies: 'Case studies',
+  actions: 'Actions',
+};
+
+/**
+ * Result before it is given an element id
+ */
+type PaletteEntry = Omit<CommandPaletteItem, 'id'>;
+
+/**
+ * Command run from the palette
+ */
+interface PaletteAction {
+  label: string;
+  description: string;
+  keywords: string[];
+  icon: IconName;
+  run: () => void;
+}
+
+/**
+ * Site-wide search and command palette
+ *
+ * Searches pages (`NAV_ITEMS`), projects and case studies (through their
+ * stores' search fields) and actions such as switching theme, with results
+ * grouped by kind. Usually opened with Ctrl/Cmd+K through
+ * {@link CommandPaletteService}, which renders it in a modal.
+ *
+ * - The input is a combobox; ArrowUp/ArrowDown move through every result,
+ *   PageUp/PageDown jump between groups and Enter runs the active one
+ * - Matched words in result labels are highlighted with `HighlightPipe`
+ * - Queries that led to a result are kept as recent searches (local
+ *   storage) and offered while the input is empty
+ * - The number of results is announced politely
+ *
+ * @example
+ * ```typescript
+ * inject(CommandPaletteService).open();
+ * ```
+ */
+@Component({
+  selector: 'app-command-palette',
+  standalone: true,
+  imports: [IconComponent, HighlightPipe],
+  viewProviders: [provideIcons(ICON_REGISTRY)],
+  templateUrl: './command-palette.component.html',
+  styleUrl: './command-palette.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CommandPaletteComponent {
+  private readonly modalRef = inject(MODAL_REF, { optional: true });
+  private readonly router = inject(Router);
+  private readonly themeService = inject(ThemeService);
+  private readonly projectStore = inject(ProjectStore);
+  private readonly caseStudiesStore = inject(CaseStudiesStore);
+
+  /** Icon names */
+  protected readonly ICON_NAMES = ICON_NAMES;
+
+  /** Id prefix of the listbox, group headings and options */
+  protected readonly baseId = inject(UniqueIdService).generateId('command-palette');
+
+  /**
+   * Text typed in the search input
+   */
+  readonly query = signal('');
+
+  /**
+   * Position of the active result in {@link items}
+   */
+  readonly activeIndex = signal(0);
+
+  /**
+   * Queries that led to a result, most recent first
+   */
+  readonly recentSearches = signal<string[]>(this._restoreRecentSearches());
+
+  /**
+   * Search input
+   */
+  private readonly input = viewChild<ElementRef<HTMLInputElement>>('input');
+
+  private readonly pageIndex = new SearchIndex(NAV_ITEMS, [
+    { name: 'label', weight: 3, value: (item) => item.label },
+  ]);
+
+  private readonly projectIndex = computed(
+    () => new SearchIndex(this.projectStore.projects(), PROJECT_SEARCH_FIELDS)
+  );
+
+  private readonly caseStudyIndex = computed(
+    () => new SearchIndex(this.caseStudiesStore.caseStudies(), CASE_STUDY_SEARCH_FIELDS)
+  );
+
+  private readonly actionIndex = new SearchIndex(this._getActions(), [
+    { name: 'label', weight: 3, value: (action) => action.label },
+    { name: 'keywords', weight: 1, value: (action) => action.keywords },
+  ]);
+
+  /**
+   * Non-empty result groups, in display order
+   */
+  readonly groups = computed<CommandPaletteGroup[]>(() => {
+    const query = this.query().trim();
+    const limit = COMMAND_PALETTE_CONFIG.MAX_RESULTS_PER_GROUP;
+    const groups: { id: CommandPaletteGroupId; entries: PaletteEntry[] }[] = [];
+
+    if (!query) {
+      groups.push({ id: 'recent', entries: this._getRecentEntries() });
+    }
+
+    groups.push(
+      {
+        id: 'pages',
+        entries: this.pageIndex.search(query, { limit }).map((result) => ({
+          label: result.item.label,
+          icon: ICON_NAMES.FILE,
+          ranges: this._labelRanges(result, 'label'),
+          run: () => this._navigate(result.item.path),
+        })),
+      },
+      {
+        id: 'projects',
+        entries: query
+          ? this.projectIndex()
+              .search(query, { limit })
+              .map((result) => ({
+                label: result.item.title,
+                description: result.item.category,
+                icon: ICON_NAMES.FOLDER,
+                ranges: this._labelRanges(result, 'title'),
+                run: () => this._navigate(getProjectRoute(result.item.slug)),
+              }))
+          : [],
+      },
+      {
+        id: 'caseStudies',
+        entries: query
+          ? this.caseStudyIndex()
+              .search(query, { limit })
+              .map((result) => ({
+                label: result.item.title,
+                description: result.item.client,
+                icon: ICON_NAMES.BRIEFCASE,
+                ranges: this._labelRanges(result, 'title'),
+                run: () => this._navigate(getCaseStudyRoute(result.item.slug)),
+              }))
+          : [],
+      },
+      {
+        id: 'actions',
+        entries: this.actionIndex.search(query, { limit }).map((result) => ({
+          label: result.item.label,
+          description: result.item.description,
+          icon: result.item.icon,
+          ranges: this._labelRanges(result, 'label'),
+          run: result.item.run,
+        })),
+      }
+    );
+
+    return groups
+      .filter((group) => group.entries.length > 0)
+      .map((group) => ({
+        id: group.id,
+        label: COMMAND_PALETTE_GROUP_LABELS[group.id],
+        items: group.entries.map((entry, index) => ({
+          ...entry,
+          id: `${this.baseId}-${group.id}-${index}`,
+        })),
+      }));
+  });
+
+  /**
+   * Every result, in display order
+   */
+  readonly items = computed(() => this.groups().flatMap((group) => group.items));
+
+  /**
+   * Result run by Enter
+   */
+  readonly activeItem = computed<CommandPaletteItem | null>(
+    () => this.items()[this.activeIndex()] ?? null
+  );
+
+  /**
+   * Announcement of the number of results
+   */
+  readonly status = computed(() => {
+    const count = this.items().length;
+    if (!this.query().trim()) {
+      return '';
+    }
+    return count === 0 ? 'No results' : `${count} ${count === 1 ? 'result' : 'results'}`;
+  });
+
+  constructor() {
+    if (this.projectStore.projectCount() === 0 && !this.projectStore.isLoading()) {
+      this.projectStore.loadProjects();
+    }
+    if (this.caseStudiesStore.caseStudyCount() === 0 && !this.caseStudiesStore.isLoading()) {
+      this.caseStudiesStore.loadCaseStudies();
+    }
+
+    afterNextRender(() => this.input()?.nativeElement.focus());
+
+    // Keep the active result in view
+    effect(() => {
+      const id = this.activeItem()?.id;
+      const option = id ? document.getElementById(id) : null;
+      option?.scrollIntoView?.({ block: 'nearest' });
+    });
+  }
+
+  /**
+   * Updates the query and activates the first result
+   */
+  setQuery(query: string): void {
+    this.query.set(query);
+    this.activeIndex.set(0);
+  }
+
+  /**
+   * Makes a result the active one
+   */
+  activate(item: CommandPaletteItem): void {
+    const index = this.items().indexOf(item);
+    if (index >= 0) {
+      this.activeIndex.set(index);
+    }
+  }
+
+  /**
+   * Runs a result, remembering the query, and closes the palette
+   */
+  run(item: CommandPaletteItem): void {
+    const query = this.query().trim();
+    const group = this.groups().find((candidate) => candidate.items.includes(item));
+    if (query && group?.id !== 'recent') {
+      this._rememberSearch(query);
+    }
+
+    if (item.run() !== false) {
+      this.modalRef?.close();
+    }
+  }
+
+  /**
+   * Keyboard navigation of the results; Ctrl/Cmd+K closes the palette
+   */
+  onKeydown(event: KeyboardEvent): void {
+    const count = this.items().length;
+
+    // The modal keeps keydown from reaching the document, so the shortcut
+    // that opened the palette is handled here to close it
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      event.preventDefault();
+      this.modalRef?.close();
+      return;
+    }
+
+    switch (event.key) {
+      case KEYBOARD_KEYS.ARROW_DOWN:
+        event.preventDefault();
+        this.activeIndex.update((index) => (count ? (index + 1) % count : 0));
+        break;
+      case KEYBOARD_KEYS.ARROW_UP:
+        event.preventDefault();
+        this.activeIndex.update((index) => (count ? (index - 1 + count) % count : 0));
+        break;
+      case KEYBOARD_KEYS.PAGE_DOWN:
+      case KEYBOARD_KEYS.PAGE_UP:
+        event.preventDefault();
+        this._jumpToGroup(event.key === KEYBOARD_KEYS.PAGE_DOWN ? 1 : -1);
+        break;
+      case KEYBOARD_KEYS.ENTER: {
+        const item = this.activeItem();
+        if (item && !event.isComposing) {
+          event.preventDefault();
+          this.run(item);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Forgets every recent search
+   */
+  clearRecentSearches(): void {
+    this.recentSearches.set([]);
+    this._saveRecentSearches();
+  }
+
+  /**
+   * Activates the first result of the next (1) or previous (-1) group, wrapping around
+   */
+  private _jumpToGroup(direction: 1 | -1): void {
+    const groups = this.groups();
+    if (groups.length === 0) {
+      return;
+    }
+
+    const activeId = this.activeItem()?.id;
+    const current = groups.findIndex((group) => group.items.some((item) => item.id === activeId));
+    const target = groups[(current + direction + groups.length) % groups.length];
+    this.activate(target.items[0]);
+  }
+
+  /**
+   * Recent searches, which fill in the query, and an entry clearing them
+   */
+  private _getRecentEntries(): PaletteEntry[] {
+    const recent = this.recentSearches();
+    if (recent.length === 0) {
+      return [];
+    }
+
+    return [
+      ...recent.map((search) => ({
+        label: search,
+        icon: ICON_NAMES.CLOCK,
+        ranges: [],
+        run: () => {
+          this.setQuery(search);
+          return false;
+        },
+      })),
+      {
+        label: 'Clear recent searches',
+        icon: ICON_NAMES.DELETE,
+        ranges: [],
+        run: () => {
+          this.clearRecentSearches();
+          this.activeIndex.set(0);
+          return false;
+        },
+      },
+    ];
+  }
+
+  /**
+   * Theme switching actions, system theme first so it is offered before
+   * anything is typed
+   */
+  private _getActions(): PaletteAction[] {
+    return [
+      {
+        label: 'Use system theme',
+        description: 'Follow the light or dark setting of your device',
+        keywords: ['theme', 'appearance', 'auto', 'dark', 'light'],
+        icon: ICON_NAMES.SETTINGS,
+        run: () => this.themeService.resetToSystem(),
+      },
+      ...this.themeService.availableThemes.map((theme) => ({
+        label: `Switch to ${theme.label} theme`,
+        description: theme.description,
+        keywords: ['theme', 'appearance', theme.isDark ? 'dark' : 'light'],
+        icon: theme.isDark ? ICON_NAMES.MOON : ICON_NAMES.SUN,
+        run: () => this.themeService.setTheme(theme.slug),
+      })),
+    ];
+  }
+
+  /**
+   * Ranges of a result's label, for highlighting
+   */
+  private _labelRanges<T>(result: SearchResult<T>, field: string): HighlightRange[] {
+    return result.matches.find((match) => match.field === field)?.ranges ?? [];
+  }
+
+  private _navigate(url: string): void {
+    void this.router.navigateByUrl(url);
+  }
+
+  /**
+   * Moves a query to the top of the recent searches
+   */
+  private _rememberSearch(query: string): void {
+    this.recentSearches.update((recent) =>
+      [query, ...recent.filter((search) => search.toLowerCase() !== query.toLowerCase())].slice(
+        0,
+        COMMAND_PALETTE_CONFIG.MAX_RECENT_SEARCHES
+      )
+    );
+    this._saveRecentSearches();
+  }
+
+  private _restoreRecentSearches(): string[] {
+    try {
+      if (typeof window === 'undefined') return [];
+      const raw = window.localStorage.getItem(STORAGE_KEYS.RECENT_SEARCHES);
+      const searches: unknown = raw ? JSON.parse(raw) : [];
+      return Array.isArray(searches)
+        ? searches
+            .filter((search): search is string => typeof search === 'string')
+            .slice(0, COMMAND_PALETTE_CONFIG.MAX_RECENT_SEARCHES)
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private _saveRecentSearches(): void {
+    try {
+      if (typeof window === 'undefined') return;
+      window.localStorage.setItem(
+        STORAGE_KEYS.RECENT_SEARCHES,
+        JSON.stringify(this.recentSearches())
+      );
+    } catch {
+      // Storage full or unavailable; recent searches stay in memory
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { TestBed } from '@angular/core/testing';
+
+import type { Mock } from 'vitest';
+
+import type { ModalConfig, ModalRef } from '@shared/services/modal/modal.service';
+import { ModalService } from '@shared/services/modal/modal.service';
+
+import { CommandPaletteComponent } from './command-palette.component';
+import { CommandPaletteService } from './command-palette.service';
+
+describe('CommandPaletteService', () => {
+  let service: CommandPaletteService;
+  let open: Mock<(config: ModalConfig) => ModalRef>;
+  let close: Mock<ModalRef['close']>;
+  let resolveClosed: () => void;
+
+  beforeEach(() => {
+    close = vi.fn<ModalRef['close']>();
+    open = vi.fn<(config: ModalConfig) => ModalRef>(() => ({
+      close,
+      afterClosed: () =>
+        new Promise<undefined>((resolve) => (resolveClosed = () => resolve(undefined))),
+    }));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: ModalService, useValue: { open } }],
+    });
+    service = TestBed.inject(CommandPaletteService);
+  });
+
+  it('should open the palette in a modal', () => {
+    service.open();
+
+    expect(open).toHaveBeenCalledWith(
+      expect.objectContaining({ component: CommandPaletteComponent, ariaLabel: 'Search the site' })
+    );
+    expect(service.isOpen()).toBe(true);
+  });
+
+  it('should open only one palette at a time', () => {
+    service.open();
+    service.open();
+
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close the palette', () => {
+    service.open();
+    service.close();
+
+    expect(close).toHaveBeenCalled();
+    expect(service.isOpen()).toBe(false);
+  });
+
+  it('should toggle the palette', () => {
+    service.toggle();
+    expect(service.isOpen()).toBe(true);
+
+    service.toggle();
+    expect(close).toHaveBeenCalled();
+    expect(service.isOpen()).toBe(false);
+  });
+
+  it('should reset when the modal is closed from inside', async () => {
+    service.open();
+    resolveClosed();
+    await Promise.resolve();
+
+    expect(service.isOpen()).toBe(false);
+
+    service.open();
+    expect(open).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,80 @@
+import { inject, Injectable, signal } from '@angular/core';
+
+import type { ModalRef } from '@shared/services/modal/modal.service';
+import { ModalService } from '@shared/services/modal/modal.service';
+
+import { CommandPaletteComponent } from './command-palette.component';
+
+/**
+ * Opens the site-wide command palette
+ *
+ * The palette is a {@link CommandPaletteComponent} rendered in a
+ * {@link ModalService} dialog, so focus trapping, Escape and focus
+ * restoration come from the modal. Only one palette is open at a time.
+ *
+ * @example
+ * ```typescript
+ * readonly commandPalette = inject(CommandPaletteService);
+ *
+ * openSearch() {
+ *   this.commandPalette.open();
+ * }
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class CommandPaletteService {
+  private readonly modalService = inject(ModalService);
+
+  private modalRef: ModalRef | null = null;
+
+  private readonly _isOpen = signal(false);
+
+  /** Whether the palette is open */
+  readonly isOpen = this._isOpen.asReadonly();
+
+  /**
+   * Opens the palette, unless it is already open
+   */
+  open(): void {
+    if (this.modalRef) {
+      return;
+    }
+
+    const modalRef = this.modalService.open({
+      ariaLabel: 'Search the site',
+      size: 'lg',
+      showCloseButton: false,
+      component: CommandPaletteComponent,
+    });
+    this.modalRef = modalRef;
+    this._isOpen.set(true);
+
+    modalRef.afterClosed().then(() => {
+      if (this.modalRef === modalRef) {
+        this.modalRef = null;
+        this._isOpen.set(false);
+      }
+    });
+  }
+
+  /**
+   * Closes the palette
+   */
+  close(): void {
+    const modalRef = this.modalRef;
+    this.modalRef = null;
+    this._isOpen.set(false);
+    modalRef?.close();
+  }
+
+  /**
+   * Opens the palette, or closes it when open
+   */
+  toggle(): void {
+    if (this.modalRef) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+}
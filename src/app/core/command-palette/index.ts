@@ -0,0 +1,2 @@
+export * from './command-palette.component';
+export * from './command-palette.service';
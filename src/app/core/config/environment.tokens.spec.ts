@@ -0,0 +1,42 @@
+import { TestBed } from '@angular/core/testing';
+
+import { environment } from '@environments/environment';
+
+import {
+  ENVIRONMENT_FEATURES,
+  ENVIRONMENT_GITHUB,
+  ENVIRONMENT_PRODUCTION,
+  provideFeatureFlags,
+} from './environment.tokens';
+
+describe('environment tokens', () => {
+  it('should default ENVIRONMENT_FEATURES to environment.features', () => {
+    expect(TestBed.inject(ENVIRONMENT_FEATURES)).toBe(environment.features);
+  });
+
+  it('should default ENVIRONMENT_PRODUCTION to environment.production', () => {
+    expect(TestBed.inject(ENVIRONMENT_PRODUCTION)).toBe(environment.production);
+  });
+
+  it('should default ENVIRONMENT_GITHUB to environment.github', () => {
+    expect(TestBed.inject(ENVIRONMENT_GITHUB)).toBe(environment.github);
+  });
+
+  describe('provideFeatureFlags', () => {
+    it('should override the given flags', () => {
+      TestBed.configureTestingModule({
+        providers: [provideFeatureFlags({ enableGitHubIntegration: true })],
+      });
+      expect(TestBed.inject(ENVIRONMENT_FEATURES).enableGitHubIntegration).toBe(true);
+    });
+
+    it('should keep the other flags from the environment', () => {
+      TestBed.configureTestingModule({
+        providers: [provideFeatureFlags({ enableGitHubIntegration: true })],
+      });
+      expect(TestBed.inject(ENVIRONMENT_FEATURES).enableChatbot).toBe(
+        environment.features.enableChatbot
+      );
+    });
+  });
+});
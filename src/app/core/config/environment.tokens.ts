@@ -0,0 +1,66 @@
+import type { Provider } from '@angular/core';
+import { InjectionToken } from '@angular/core';
+
+import { environment } from '@environments/environment';
+import type { Environment } from '@environments/environment.type';
+
+/**
+ * Name of a feature toggle in `environment.features`
+ */
+export type FeatureFlag = keyof Environment['features'];
+
+/**
+ * Feature toggles in effect (default: `environment.features`)
+ *
+ * Inject this instead of reading `environment.features`, so tests can
+ * override a flag with {@link provideFeatureFlags}.
+ */
+export const ENVIRONMENT_FEATURES = new InjectionToken<Environment['features']>(
+  'ENVIRONMENT_FEATURES',
+  {
+    providedIn: 'root',
+    factory: () => environment.features,
+  }
+);
+
+/**
+ * Whether this is a production build (default: `environment.production`)
+ *
+ * Inject this instead of reading `environment.production`, so tests can
+ * cover both builds.
+ */
+export const ENVIRONMENT_PRODUCTION = new InjectionToken<boolean>('ENVIRONMENT_PRODUCTION', {
+  providedIn: 'root',
+  factory: () => environment.production,
+});
+
+/**
+ * GitHub integration settings in effect (default: `environment.github`)
+ *
+ * Inject this instead of reading `environment.github`, so tests can choose
+ * the account, token and whether fixtures replace the API.
+ */
+export const ENVIRONMENT_GITHUB = new InjectionToken<Environment['github']>(
+  'ENVIRONMENT_GITHUB',
+  {
+    providedIn: 'root',
+    factory: () => environment.github,
+  }
+);
+
+/**
+ * Provides feature toggles, overriding some of `environment.features`
+ *
+ * @param flags - Toggles to change
+ * @returns Provider for {@link ENVIRONMENT_FEATURES}
+ *
+ * @example
+ * ```typescript
+ * TestBed.configureTestingModule({
+ *   providers: [provideFeatureFlags({ enableGitHubIntegration: true })],
+ * });
+ * ```
+ */
+export function provideFeatureFlags(flags: Partial<Environment['features']>): Provider {
+  return { provide: ENVIRONMENT_FEATURES, useValue: { ...environment.features, ...flags } };
+}
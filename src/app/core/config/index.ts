@@ -0,0 +1,5 @@
+/**
+ * Core Configuration
+ * Export injectable environment settings
+ */
+export * from './environment.tokens';
@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import type { Route, UrlSegment } from '@angular/router';
+
+import { environment } from '@environments/environment';
+
+import { ENVIRONMENT_FEATURES, provideFeatureFlags } from '../config/environment.tokens';
+
+import { featureFlagGuard } from './feature-flag.guard';
+
+describe('featureFlagGuard', () => {
+  const route: Route = { path: 'github' };
+  const segments: UrlSegment[] = [];
+
+  function runGuard(guard = featureFlagGuard('enableGitHubIntegration')): unknown {
+    return TestBed.runInInjectionContext(() => guard(route, segments));
+  }
+
+  it('should default to environment.features', () => {
+    expect(runGuard()).toBe(environment.features.enableGitHubIntegration);
+  });
+
+  it('should match while the feature is enabled', () => {
+    TestBed.configureTestingModule({
+      providers: [provideFeatureFlags({ enableGitHubIntegration: true })],
+    });
+    expect(runGuard()).toBe(true);
+  });
+
+  it('should not match while the feature is disabled', () => {
+    TestBed.configureTestingModule({
+      providers: [provideFeatureFlags({ enableGitHubIntegration: false })],
+    });
+    expect(runGuard()).toBe(false);
+  });
+
+  it('should read the flag on every navigation', () => {
+    const features = { ...environment.features, enableGitHubIntegration: false };
+    TestBed.configureTestingModule({
+      providers: [{ provide: ENVIRONMENT_FEATURES, useValue: features }],
+    });
+    const guard = featureFlagGuard('enableGitHubIntegration');
+
+    expect(runGuard(guard)).toBe(false);
+
+    features.enableGitHubIntegration = true;
+    expect(runGuard(guard)).toBe(true);
+  });
+});
@@ -0,0 +1,27 @@
+import { inject } from '@angular/core';
+import type { CanMatchFn } from '@angular/router';
+
+import type { FeatureFlag } from '../config/environment.tokens';
+import { ENVIRONMENT_FEATURES } from '../config/environment.tokens';
+
+/**
+ * Creates a `canMatch` guard that only matches a route while a feature is enabled
+ *
+ * When the flag is off the route does not match, so navigation falls through
+ * to the next route (e.g. the `**` redirect) and the lazy chunk is never loaded.
+ *
+ * @param flag - Feature toggle in {@link ENVIRONMENT_FEATURES}
+ * @returns Guard for `Route.canMatch`
+ *
+ * @example
+ * ```typescript
+ * {
+ *   path: ROUTES.GITHUB,
+ *   canMatch: [featureFlagGuard('enableGitHubIntegration')],
+ *   loadComponent: () => import('./features/github').then((m) => m.GitHubComponent),
+ * }
+ * ```
+ */
+export function featureFlagGuard(flag: FeatureFlag): CanMatchFn {
+  return () => inject(ENVIRONMENT_FEATURES)[flag];
+}
@@ -0,0 +1,5 @@
+/**
+ * Route Guards
+ * Export all functional guards
+ */
+export * from './feature-flag.guard';
@@ -4,6 +4,8 @@ import { provideRouter } from '@angular/router';
 
 import { NAV_ITEMS } from '@shared/constants';
 
+import { CommandPaletteService } from '../command-palette/command-palette.service';
+
 import { HeaderComponent } from './header.component';
 
 describe('HeaderComponent', () => {
@@ -171,6 +173,45 @@ describe('HeaderComponent', () => {
     });
   });
 
+  describe('Site Search', () => {
+    let commandPalette: CommandPaletteService;
+
+    beforeEach(() => {
+      commandPalette = TestBed.inject(CommandPaletteService);
+      vi.spyOn(commandPalette, 'open').mockImplementation(() => undefined);
+      vi.spyOn(commandPalette, 'toggle').mockImplementation(() => undefined);
+    });
+
+    it('should open the command palette from the search button', () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+      const button = compiled.querySelector<HTMLButtonElement>(
+        '[data-test="command-palette-toggle"] button'
+      );
+      button?.click();
+      expect(commandPalette.open).toHaveBeenCalled();
+    });
+
+    it('should label the search button with its shortcut', () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+      const button = compiled.querySelector('[data-test="command-palette-toggle"] button');
+      expect(button?.getAttribute('aria-label')).toBe('Search the site (Ctrl+K)');
+    });
+
+    it('should toggle the command palette on Ctrl+K and Cmd+K', () => {
+      const ctrl = new KeyboardEvent('keydown', { key: 'k', ctrlKey: true, cancelable: true });
+      document.dispatchEvent(ctrl);
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'K', metaKey: true }));
+
+      expect(ctrl.defaultPrevented).toBe(true);
+      expect(commandPalette.toggle).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore K without a modifier', () => {
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'k' }));
+      expect(commandPalette.toggle).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Accessibility', () => {
     it('should have proper navigation landmark', () => {
       const compiled = fixture.nativeElement as HTMLElement;
@@ -1,6 +1,8 @@
+import { provideHttpClient } from '@angular/common/http';
 import { provideRouter } from '@angular/router';
 
 import type { Meta, StoryObj } from '@storybook/angular';
+import { applicationConfig } from '@storybook/angular';
 
 import { HeaderComponent } from './header.component';
 
@@ -13,14 +15,15 @@ const meta: Meta<HeaderComponent> = {
     docs: {
       description: {
         component:
-          'Application header component with navigation menu, mobile drawer, and theme picker integration. Provides sticky navigation with responsive behavior and keyboard accessibility.',
+          'Application header component with navigation menu, mobile drawer, theme picker integration, and a search button that opens the command palette (also Ctrl/Cmd+K). Provides sticky navigation with responsive behavior and keyboard accessibility.',
       },
     },
   },
   decorators: [
-    (story) => ({
-      ...story(),
-      providers: [provideRouter([])],
+    // The search button opens the command palette, which loads projects and
+    // case studies, in a modal created from the application injector
+    applicationConfig({
+      providers: [provideRouter([]), provideHttpClient()],
     }),
   ],
 };
@@ -1,4 +1,4 @@
-import { ChangeDetectionStrategy, Component, signal } from '@angular/core';
+import { ChangeDetectionStrategy, Component, inject, signal } from '@angular/core';
 import { RouterLink, RouterLinkActive } from '@angular/router';
 import { provideIcons } from '@ng-icons/core';
 
@@ -6,6 +6,7 @@ import { ButtonComponent, IconComponent, StackComponent } from '@shared/componen
 import {
   APP_NAME,
   ARIA_LABELS,
+  ICON_NAMES,
   ICON_REGISTRY,
   KEYBOARD_KEYS,
   NAV_ITEMS,
@@ -13,6 +14,7 @@ import {
 } from '@shared/constants';
 
 import { ThemePickerComponent } from '../../shared/components/theme-picker/theme-picker.component';
+import { CommandPaletteService } from '../command-palette/command-palette.service';
 
 /**
  * Application header component with navigation and mobile menu
@@ -21,6 +23,7 @@ import { ThemePickerComponent } from '../../shared/components/theme-picker/theme
  * - Desktop navigation menu with active route highlighting
  * - Mobile hamburger menu with slide-out drawer
  * - Theme picker integration
+ * - Site search button, also opened with Ctrl/Cmd+K
  * - Keyboard navigation support
  * - WCAG 2.1 AAA compliant
  *
@@ -44,8 +47,14 @@ import { ThemePickerComponent } from '../../shared/components/theme-picker/theme
   templateUrl: './header.component.html',
   styleUrl: './header.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(document:keydown)': 'onDocumentKeydown($event)',
+  },
 })
 export class HeaderComponent {
+  /** Site search palette */
+  protected readonly commandPalette = inject(CommandPaletteService);
+
   /** Route paths for navigation */
   protected readonly ROUTE_PATHS = ROUTE_PATHS;
 
@@ -61,6 +70,9 @@ export class HeaderComponent {
   /** Keyboard keys for accessibility */
   protected readonly KEYBOARD_KEYS = KEYBOARD_KEYS;
 
+  /** Icon names */
+  protected readonly ICON_NAMES = ICON_NAMES;
+
   /** Mobile menu open/closed state */
   protected readonly isMobileMenuOpen = signal(false);
 
@@ -101,4 +113,15 @@ export class HeaderComponent {
       this.closeMobileMenu();
     }
   }
+
+  /**
+   * Toggle the site search palette on Ctrl+K (Cmd+K on macOS)
+   * @param event - Keyboard event
+   */
+  protected onDocumentKeydown(event: KeyboardEvent): void {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      event.preventDefault();
+      this.commandPalette.toggle();
+    }
+  }
 }
@@ -0,0 +1,288 @@
+import type { HttpResponse } from '@angular/common/http';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { CacheService } from '@shared/services/cache/cache.service';
+import { CACHE_STORAGE_ADAPTER } from '@shared/services/cache/cache-storage.adapter';
+import { FakeCacheStorageAdapter } from '@shared/services/cache/fake-cache-storage.adapter';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+
+import { CACHE_BYPASS, CACHE_TTL, cacheInterceptor, withCache } from './cache.interceptor';
+import { retryInterceptor } from './retry.interceptor';
+
+describe('cacheInterceptor', () => {
+  const url = '/api/projects';
+  const ttl = 60_000;
+  const staleTtl = 30_000;
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let cache: CacheService;
+
+  function get(options: Parameters<typeof withCache>[0] = { ttl, staleTtl }) {
+    return http.get(url, { context: withCache(options) });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.localStorage.clear();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([cacheInterceptor])),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    cache = TestBed.inject(CacheService);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    cache.stopPeriodicCleanup();
+    vi.useRealTimers();
+  });
+
+  it('should not cache requests without a TTL', () => {
+    http.get(url).subscribe();
+    httpMock.expectOne(url).flush([1]);
+
+    http.get(url).subscribe();
+    httpMock.expectOne(url).flush([1]);
+
+    expect(cache.size()).toBe(0);
+  });
+
+  it('should not cache non-GET requests', () => {
+    http.post(url, {}, { context: new HttpContext().set(CACHE_TTL, ttl) }).subscribe();
+    httpMock.expectOne(url).flush({});
+
+    expect(cache.size()).toBe(0);
+  });
+
+  it('should serve fresh responses from the cache', () => {
+    const next = vi.fn();
+
+    get().subscribe();
+    httpMock.expectOne(url).flush([1], { headers: { 'X-Total-Count': '1' } });
+
+    http.get(url, { context: withCache({ ttl }), observe: 'response' }).subscribe(next);
+    httpMock.expectNone(url);
+
+    const response = next.mock.calls[0][0] as HttpResponse<unknown>;
+    expect(response.body).toEqual([1]);
+    expect(response.headers.get('X-Total-Count')).toBe('1');
+  });
+
+  it('should refetch once the response and stale window have expired', () => {
+    get().subscribe();
+    httpMock.expectOne(url).flush([1]);
+
+    vi.advanceTimersByTime(ttl + staleTtl + 1);
+    const next = vi.fn();
+    get().subscribe(next);
+
+    httpMock.expectOne(url).flush([2]);
+    expect(next).toHaveBeenCalledWith([2]);
+  });
+
+  it('should bypass the cache and store the fresh response', () => {
+    get().subscribe();
+    httpMock.expectOne(url).flush([1]);
+
+    const bypassed = vi.fn();
+    http.get(url, { context: withCache({ ttl }).set(CACHE_BYPASS, true) }).subscribe(bypassed);
+    httpMock.expectOne(url).flush([2]);
+
+    const cached = vi.fn();
+    get().subscribe(cached);
+
+    expect(bypassed).toHaveBeenCalledWith([2]);
+    expect(cached).toHaveBeenCalledWith([2]);
+  });
+
+  it('should persist to localStorage without a storage adapter', async () => {
+    get({ ttl, persist: true }).subscribe();
+    (await vi.waitFor(() => httpMock.expectOne(url))).flush([1]);
+
+    expect(window.localStorage.getItem(`cache_http:${url}`)).toContain('"body":[1]');
+  });
+
+  it('should read persisted responses from the storage adapter', async () => {
+    const storage = new FakeCacheStorageAdapter();
+    cache.stopPeriodicCleanup();
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([cacheInterceptor])),
+        provideHttpClientTesting(),
+        { provide: CACHE_STORAGE_ADAPTER, useValue: storage },
+      ],
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    cache = TestBed.inject(CacheService);
+
+    get({ ttl, persist: true }).subscribe();
+    (await vi.waitFor(() => httpMock.expectOne(url))).flush([1]);
+    await vi.waitFor(() => expect(storage.entries.has(`http:${url}`)).toBe(true));
+
+    cache['cache'].clear();
+    const next = vi.fn();
+    get({ ttl, persist: true }).subscribe(next);
+    await vi.waitFor(() => expect(next).toHaveBeenCalledWith([1]));
+    httpMock.expectNone(url);
+  });
+
+  it('should tag cached responses for invalidation', () => {
+    get({ ttl, tags: ['projects'] }).subscribe();
+    httpMock.expectOne(url).flush([1]);
+
+    cache.invalidateTag('projects');
+
+    get().subscribe();
+    httpMock.expectOne(url).flush([2]);
+  });
+
+  describe('stale-while-revalidate', () => {
+    it('should serve stale responses and revalidate in the background', () => {
+      get().subscribe();
+      httpMock.expectOne(url).flush([1]);
+      vi.advanceTimersByTime(ttl + 1);
+
+      const stale = vi.fn();
+      get().subscribe(stale);
+      expect(stale).toHaveBeenCalledWith([1]);
+
+      httpMock.expectOne(url).flush([2]);
+
+      const fresh = vi.fn();
+      get().subscribe(fresh);
+      httpMock.expectNone(url);
+      expect(fresh).toHaveBeenCalledWith([2]);
+    });
+
+    it('should keep the stale response when revalidation fails', () => {
+      get().subscribe();
+      httpMock.expectOne(url).flush([1]);
+      vi.advanceTimersByTime(ttl + 1);
+
+      get().subscribe();
+      httpMock.expectOne(url).flush(null, { status: 503, statusText: 'Unavailable' });
+
+      const next = vi.fn();
+      get().subscribe(next);
+      expect(next).toHaveBeenCalledWith([1]);
+      httpMock.expectOne(url).flush([2]);
+    });
+  });
+
+  describe('ETag', () => {
+    it('should revalidate with If-None-Match and reuse the body on 304', () => {
+      get().subscribe();
+      httpMock.expectOne(url).flush([1], { headers: { ETag: '"v1"' } });
+      vi.advanceTimersByTime(ttl + 1);
+
+      get().subscribe();
+      const revalidation = httpMock.expectOne(url);
+      expect(revalidation.request.headers.get('If-None-Match')).toBe('"v1"');
+      revalidation.flush(null, { status: 304, statusText: 'Not Modified' });
+
+      const next = vi.fn();
+      get().subscribe(next);
+      httpMock.expectNone(url);
+      expect(next).toHaveBeenCalledWith([1]);
+    });
+
+    it('should not send If-None-Match without an ETag', () => {
+      get().subscribe();
+      httpMock.expectOne(url).flush([1]);
+      vi.advanceTimersByTime(ttl + 1);
+
+      get().subscribe();
+      expect(httpMock.expectOne(url).request.headers.has('If-None-Match')).toBe(false);
+    });
+  });
+
+  describe('in-flight de-duplication', () => {
+    it('should share one network call between identical requests', () => {
+      const first = vi.fn();
+      const second = vi.fn();
+
+      get().subscribe(first);
+      get().subscribe(second);
+      httpMock.expectOne(url).flush([1]);
+
+      expect(first).toHaveBeenCalledWith([1]);
+      expect(second).toHaveBeenCalledWith([1]);
+    });
+
+    it('should start a new call after the previous one completes', () => {
+      get({ ttl: 0, staleTtl: 0 }).subscribe();
+      httpMock.expectOne(url).flush([1]);
+      vi.advanceTimersByTime(1);
+
+      get({ ttl: 0, staleTtl: 0 }).subscribe();
+      httpMock.expectOne(url).flush([2]);
+    });
+  });
+
+  describe('with retryInterceptor', () => {
+    let handleHttpError: ReturnType<typeof vi.spyOn>;
+
+    // Production order (app.config.ts): the cache sees responses after retries
+    beforeEach(() => {
+      cache.stopPeriodicCleanup();
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          provideHttpClient(withInterceptors([cacheInterceptor, retryInterceptor])),
+          provideHttpClientTesting(),
+        ],
+      });
+
+      http = TestBed.inject(HttpClient);
+      httpMock = TestBed.inject(HttpTestingController);
+      cache = TestBed.inject(CacheService);
+      handleHttpError = vi
+        .spyOn(TestBed.inject(ErrorHandlerService), 'handleHttpError')
+        .mockImplementation(() => undefined);
+    });
+
+    it('should not report a 304 revalidation', () => {
+      get().subscribe();
+      httpMock.expectOne(url).flush([1], { headers: { ETag: '"v1"' } });
+      vi.advanceTimersByTime(ttl + 1);
+
+      get().subscribe();
+      httpMock.expectOne(url).flush(null, { status: 304, statusText: 'Not Modified' });
+
+      const next = vi.fn();
+      get().subscribe(next);
+      expect(next).toHaveBeenCalledWith([1]);
+      expect(handleHttpError).not.toHaveBeenCalled();
+    });
+
+    it('should not report a failed background revalidation', () => {
+      get().subscribe();
+      httpMock.expectOne(url).flush([1]);
+      vi.advanceTimersByTime(ttl + 1);
+
+      const stale = vi.fn();
+      get().subscribe(stale);
+      httpMock.expectOne(url).flush(null, { status: 404, statusText: 'Not Found' });
+
+      expect(stale).toHaveBeenCalledWith([1]);
+      expect(handleHttpError).not.toHaveBeenCalled();
+    });
+
+    it('should still report failures without a cached response', () => {
+      get().subscribe({ error: () => undefined });
+      httpMock.expectOne(url).flush(null, { status: 404, statusText: 'Not Found' });
+
+      expect(handleHttpError).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,318 @@
+import type {
+  HttpEvent,
+  HttpHandlerFn,
+  HttpInterceptorFn,
+  HttpRequest,
+} from '@angular/common/http';
+import {
+  HttpContext,
+  HttpContextToken,
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpResponse,
+  HttpStatusCode,
+} from '@angular/common/http';
+import { inject, Injectable } from '@angular/core';
+
+import type { Observable } from 'rxjs';
+import { catchError, finalize, from, of, share, switchMap, tap, throwError } from 'rxjs';
+
+import { CACHE_CONFIG } from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
+
+import { REPORT_HTTP_ERRORS } from './retry.interceptor';
+
+/**
+ * Time-to-live (milliseconds) for a cached GET response. Requests are only
+ * cached when this token is set (`null` disables caching).
+ */
+export const CACHE_TTL = new HttpContextToken<number | null>(() => null);
+
+/**
+ * Whether a cached response is also persisted (IndexedDB via
+ * `CacheService.setAsync`, or localStorage when unavailable)
+ */
+export const CACHE_PERSIST = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Skips cached responses and fetches from the network; the fresh response
+ * still replaces the cached one
+ */
+export const CACHE_BYPASS = new HttpContextToken<boolean>(() => false);
+
+/**
+ * How long (milliseconds) an expired response may still be served while it
+ * is revalidated in the background (0 disables stale-while-revalidate)
+ */
+export const CACHE_STALE_TTL = new HttpContextToken<number>(
+  () => CACHE_CONFIG.STALE_WHILE_REVALIDATE_TTL
+);
+
+/**
+ * Tags stored with the cached response, for `CacheService.invalidateTag`
+ */
+export const CACHE_ENTRY_TAGS = new HttpContextToken<string[]>(() => []);
+
+/**
+ * Per-request caching options
+ */
+export interface HttpCacheOptions {
+  /** Time-to-live in milliseconds */
+  ttl: number;
+  /** Persist across reloads (default: false) */
+  persist?: boolean;
+  /** Skip cached responses (default: false) */
+  bypass?: boolean;
+  /** Stale-while-revalidate window in milliseconds */
+  staleTtl?: number;
+  /** Tags for group invalidation */
+  tags?: string[];
+}
+
+/**
+ * Serializable snapshot of a cached response
+ */
+export interface CachedHttpResponse {
+  body: unknown;
+  status: number;
+  statusText: string;
+  url: string | null;
+  headers: Record<string, string[]>;
+  /** ETag sent back as `If-None-Match` when revalidating */
+  etag: string | null;
+  /** Timestamp (ms since epoch) until which the response is fresh */
+  freshUntil: number;
+}
+
+/**
+ * Builds an `HttpContext` that opts a request into caching
+ * @param options - Caching options
+ * @param context - Existing context to extend
+ * @returns Context with the cache tokens set
+ *
+ * @example
+ * ```typescript
+ * this.http.get(url, {
+ *   context: withCache({ ttl: CACHE_CONFIG.GITHUB_DATA_TTL, persist: true }),
+ * });
+ * ```
+ */
+export function withCache(options: HttpCacheOptions, context = new HttpContext()): HttpContext {
+  context.set(CACHE_TTL, options.ttl);
+  if (options.persist !== undefined) context.set(CACHE_PERSIST, options.persist);
+  if (options.bypass !== undefined) context.set(CACHE_BYPASS, options.bypass);
+  if (options.staleTtl !== undefined) context.set(CACHE_STALE_TTL, options.staleTtl);
+  if (options.tags !== undefined) context.set(CACHE_ENTRY_TAGS, options.tags);
+  return context;
+}
+
+/**
+ * Returns the `CacheService` key used for a request
+ * @param req - GET request
+ * @returns Cache key
+ */
+export function getHttpCacheKey(req: HttpRequest<unknown>): string {
+  return `http:${req.urlWithParams}`;
+}
+
+/**
+ * Tracks requests in flight so identical requests share one network call
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class InFlightRequests {
+  private readonly requests = new Map<string, Observable<HttpEvent<unknown>>>();
+
+  /**
+   * Returns the in-flight request for a key, starting it if needed
+   * @param key - Request key
+   * @param start - Starts the request
+   * @returns Shared request observable
+   */
+  fetch(key: string, start: () => Observable<HttpEvent<unknown>>): Observable<HttpEvent<unknown>> {
+    let request = this.requests.get(key);
+
+    if (!request) {
+      request = start().pipe(
+        finalize(() => this.requests.delete(key)),
+        share()
+      );
+      this.requests.set(key, request);
+    }
+
+    return request;
+  }
+}
+
+/**
+ * Functional HTTP interceptor that caches GET responses in `CacheService`
+ *
+ * Requests opt in with {@link CACHE_TTL} (or {@link withCache}):
+ * - Fresh responses are served from the cache without a network call
+ * - Expired responses within {@link CACHE_STALE_TTL} are served immediately
+ *   and revalidated in the background (stale-while-revalidate)
+ * - Revalidation sends `If-None-Match` when the response had an `ETag`;
+ *   a 304 refreshes the cached response
+ * - Identical requests in flight share a single network call
+ * - Revalidations are not reported to `ErrorHandlerService`
+ *   ({@link REPORT_HTTP_ERRORS}): a 304 is expected and a failed background
+ *   refresh keeps serving the cached response
+ *
+ * Register it first so cache hits skip retries and latency simulation.
+ *
+ * @example
+ * ```typescript
+ * provideHttpClient(
+ *   withInterceptors([cacheInterceptor, retryInterceptor, latencyInterceptor])
+ * )
+ * ```
+ */
+export const cacheInterceptor: HttpInterceptorFn = (req, next) => {
+  const ttl = req.context.get(CACHE_TTL);
+  if (req.method !== 'GET' || ttl === null) {
+    return next(req);
+  }
+
+  const cache = inject(CacheService);
+  const inFlight = inject(InFlightRequests);
+  const key = getHttpCacheKey(req);
+
+  return lookup(req, cache).pipe(
+    switchMap((cached) => {
+      const fetch = () => inFlight.fetch(key, () => fetchAndStore(req, next, cache, cached));
+
+      if (!cached) {
+        return fetch();
+      }
+
+      if (Date.now() > cached.freshUntil) {
+        fetch().subscribe({ error: () => undefined });
+      }
+
+      return of(toHttpResponse(cached));
+    })
+  );
+};
+
+/**
+ * Reads the cached response; persisted requests also check the async tier
+ */
+function lookup(
+  req: HttpRequest<unknown>,
+  cache: CacheService
+): Observable<CachedHttpResponse | null> {
+  const key = getHttpCacheKey(req);
+
+  if (req.context.get(CACHE_BYPASS)) {
+    return of(null);
+  }
+
+  // Memory hits stay synchronous
+  if (cache.has(key) || !req.context.get(CACHE_PERSIST)) {
+    return of(cache.get<CachedHttpResponse>(key));
+  }
+
+  return from(cache.getAsync<CachedHttpResponse>(key));
+}
+
+/**
+ * Fetches a response (conditionally, when an ETag is known) and caches it
+ */
+function fetchAndStore(
+  req: HttpRequest<unknown>,
+  next: HttpHandlerFn,
+  cache: CacheService,
+  cached: CachedHttpResponse | null
+): Observable<HttpEvent<unknown>> {
+  const ttl = req.context.get(CACHE_TTL)!;
+  const request = cached ? toRevalidation(req, cached) : req;
+
+  return next(request).pipe(
+    tap((event) => {
+      if (event instanceof HttpResponse) {
+        store(req, cache, fromHttpResponse(event, ttl));
+      }
+    }),
+    catchError((error: unknown) => {
+      if (
+        cached &&
+        error instanceof HttpErrorResponse &&
+        error.status === (HttpStatusCode.NotModified as number)
+      ) {
+        const refreshed = { ...cached, freshUntil: Date.now() + ttl };
+        store(req, cache, refreshed);
+        return of(toHttpResponse(refreshed));
+      }
+      return throwError(() => error);
+    })
+  );
+}
+
+/**
+ * Turns a request into a revalidation of its cached response: conditional
+ * when an ETag is known, and with error reporting off
+ */
+function toRevalidation(
+  req: HttpRequest<unknown>,
+  cached: CachedHttpResponse
+): HttpRequest<unknown> {
+  // Copy the context so the caller's request keeps reporting errors
+  const context = new HttpContext();
+  for (const token of req.context.keys()) {
+    context.set(token, req.context.get(token));
+  }
+  context.set(REPORT_HTTP_ERRORS, false);
+
+  return req.clone({
+    context,
+    setHeaders: cached.etag ? { 'If-None-Match': cached.etag } : {},
+  });
+}
+
+/**
+ * Writes a response to the cache, keeping it for the stale window as well
+ */
+function store(req: HttpRequest<unknown>, cache: CacheService, entry: CachedHttpResponse): void {
+  const key = getHttpCacheKey(req);
+  const options = {
+    ttl: req.context.get(CACHE_TTL)! + req.context.get(CACHE_STALE_TTL),
+    tags: req.context.get(CACHE_ENTRY_TAGS),
+  };
+
+  if (req.context.get(CACHE_PERSIST)) {
+    void cache.setAsync(key, entry, options);
+  } else {
+    cache.set(key, entry, options);
+  }
+}
+
+/**
+ * Creates a serializable snapshot of a response
+ */
+function fromHttpResponse(response: HttpResponse<unknown>, ttl: number): CachedHttpResponse {
+  return {
+    body: response.body,
+    status: response.status,
+    statusText: response.statusText,
+    url: response.url,
+    headers: Object.fromEntries(
+      response.headers.keys().map((name) => [name, response.headers.getAll(name) ?? []])
+    ),
+    etag: response.headers.get('ETag'),
+    freshUntil: Date.now() + ttl,
+  };
+}
+
+/**
+ * Recreates an `HttpResponse` from a cached snapshot
+ */
+function toHttpResponse(cached: CachedHttpResponse): HttpResponse<unknown> {
+  return new HttpResponse({
+    body: cached.body,
+    status: cached.status,
+    statusText: cached.statusText,
+    url: cached.url ?? undefined,
+    headers: new HttpHeaders(cached.headers),
+  });
+}
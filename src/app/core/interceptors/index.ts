@@ -2,4 +2,9 @@
  * HTTP Interceptors
  * Export all functional interceptors
  */
+export * from './cache.interceptor';
 export * from './latency.interceptor';
+export * from './mock-backend.database';
+export * from './mock-backend.interceptor';
+export * from './network-chaos.service';
+export * from './retry.interceptor';
@@ -0,0 +1,92 @@
+import type { HttpErrorResponse } from '@angular/common/http';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { latencyInterceptor } from './latency.interceptor';
+import type { NetworkChaosConfig } from './network-chaos.service';
+import { provideNetworkChaos } from './network-chaos.service';
+
+describe('latencyInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  function setup(config: Partial<NetworkChaosConfig>): void {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([latencyInterceptor])),
+        provideHttpClientTesting(),
+        provideNetworkChaos(config),
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    vi.useRealTimers();
+  });
+
+  it('should pass requests through untouched when disabled', () => {
+    setup({ enabled: false });
+    const next = vi.fn();
+
+    http.get('/api/projects').subscribe(next);
+    httpMock.expectOne('/api/projects').flush([1]);
+
+    expect(next).toHaveBeenCalledWith([1]);
+  });
+
+  it('should delay responses according to the profile', () => {
+    setup({
+      enabled: true,
+      defaultProfile: { minDelay: 300, maxDelay: 300, errorRate: 0, errorStatuses: [] },
+    });
+    const next = vi.fn();
+
+    http.get('/api/projects').subscribe(next);
+    httpMock.expectOne('/api/projects').flush([1]);
+
+    vi.advanceTimersByTime(299);
+    expect(next).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(next).toHaveBeenCalledWith([1]);
+  });
+
+  it('should fail without reaching the backend when the plan says so', () => {
+    setup({
+      enabled: true,
+      rules: [
+        {
+          pattern: '/api/contact',
+          profile: { minDelay: 100, maxDelay: 100, errorRate: 1, errorStatuses: [503] },
+        },
+      ],
+    });
+    let error: HttpErrorResponse | undefined;
+
+    http.post('/api/contact', {}).subscribe({ error: (e) => (error = e) });
+    httpMock.expectNone('/api/contact');
+
+    vi.advanceTimersByTime(100);
+    expect(error?.status).toBe(503);
+    expect(error?.url).toBe('/api/contact');
+  });
+
+  it('should fail offline requests with a network error', () => {
+    setup({ enabled: true, defaultProfile: 'offline' });
+    let error: HttpErrorResponse | undefined;
+
+    http.get('/assets/data/projects.json').subscribe({ error: (e) => (error = e) });
+    vi.advanceTimersByTime(0);
+
+    expect(error?.status).toBe(0);
+  });
+});
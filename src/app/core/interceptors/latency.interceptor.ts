@@ -1,15 +1,21 @@
 import type { HttpInterceptorFn } from '@angular/common/http';
+import { HttpErrorResponse } from '@angular/common/http';
+import { inject } from '@angular/core';
 
-import { delay } from 'rxjs/operators';
+import { throwError, timer } from 'rxjs';
+import { delay, switchMap } from 'rxjs/operators';
 
-import { LATENCY_CONFIG } from '@shared/constants';
+import { NetworkChaosService } from './network-chaos.service';
 
 /**
- * Functional HTTP interceptor that simulates network latency
- * Adds a random delay between MIN_DELAY and MAX_DELAY to HTTP requests
+ * Functional HTTP interceptor that simulates network conditions
+ * Delays requests and optionally fails them according to the active
+ * network profile from {@link NetworkChaosService}
  *
  * This is useful for development to simulate real-world network conditions
- * and test loading states, spinners, and user experience under latency.
+ * and test loading states, spinners, retries and error states. Profiles
+ * (`default`, `fast`, `slow3g`, `flaky`, `offline`) can be applied per URL
+ * pattern and switched at runtime with `?network=<profile|off>`.
  *
  * @example
  * ```typescript
@@ -19,16 +25,32 @@ import { LATENCY_CONFIG } from '@shared/constants';
  * ```
  */
 export const latencyInterceptor: HttpInterceptorFn = (req, next) => {
-  // Skip latency simulation if disabled
-  if (!LATENCY_CONFIG.ENABLED) {
+  const chaos = inject(NetworkChaosService);
+
+  // Skip simulation if disabled
+  if (!chaos.enabled()) {
     return next(req);
   }
 
-  // Generate random delay between MIN_DELAY and MAX_DELAY
-  const randomDelay =
-    Math.floor(Math.random() * (LATENCY_CONFIG.MAX_DELAY - LATENCY_CONFIG.MIN_DELAY)) +
-    LATENCY_CONFIG.MIN_DELAY;
+  const { delay: delayMs, errorStatus } = chaos.plan(req.urlWithParams);
+
+  // Fail after the delay without reaching the backend
+  if (errorStatus !== null) {
+    return timer(delayMs).pipe(
+      switchMap(() =>
+        throwError(
+          () =>
+            new HttpErrorResponse({
+              status: errorStatus,
+              statusText: errorStatus === 0 ? 'Unknown Error' : 'Simulated Error',
+              url: req.urlWithParams,
+              error: { message: 'Simulated network failure' },
+            })
+        )
+      )
+    );
+  }
 
   // Apply delay to the response
-  return next(req).pipe(delay(randomDelay));
+  return next(req).pipe(delay(delayMs));
 };
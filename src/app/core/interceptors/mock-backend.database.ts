@@ -0,0 +1,154 @@
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { inject, Injectable } from '@angular/core';
+
+import type { Observable } from 'rxjs';
+import { catchError, map, of, shareReplay, throwError } from 'rxjs';
+
+import { MOCK_ENDPOINTS } from '@shared/constants';
+
+import type { CaseStudy } from '../models/case-study.model';
+import { CaseStudySchema } from '../models/case-study.model';
+import type { ContactForm, ContactSubmissionReceipt } from '../models/contact-form.model';
+import { validateContentCollection } from '../models/content-validation';
+import type { Project } from '../models/project.model';
+import { ProjectSchema } from '../models/project.model';
+
+/**
+ * Stored contact form submission
+ */
+export interface MockContactSubmission extends ContactSubmissionReceipt {
+  /** Submitted form values */
+  form: ContactForm;
+}
+
+/**
+ * Data used to seed the in-memory database
+ */
+export interface MockBackendSeed {
+  projects: Project[];
+  caseStudies: CaseStudy[];
+}
+
+/**
+ * In-memory data set behind `mockBackendInterceptor`
+ *
+ * Collections are seeded lazily from the JSON content files on first access.
+ * Seed requests go straight to `HttpBackend`, bypassing interceptors, so
+ * loading the data set never re-enters the mock backend or adds latency twice.
+ * Invalid records are skipped using the content schemas.
+ *
+ * @example
+ * ```typescript
+ * // In a test, replace the seeded data with fixtures
+ * TestBed.inject(MockBackendDatabase).seed({ projects: [fixtureProject] });
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MockBackendDatabase {
+  /** HttpClient that bypasses all interceptors */
+  private readonly http = new HttpClient(inject(HttpBackend));
+
+  private projects$?: Observable<Project[]>;
+  private caseStudies$?: Observable<CaseStudy[]>;
+  private contactSubmissions: MockContactSubmission[] = [];
+  private submissionCounter = 0;
+
+  /**
+   * Gets all projects, loading the seed file on first access
+   * @returns Observable of all stored projects
+   */
+  getProjects(): Observable<Project[]> {
+    this.projects$ ??= this.loadSeed(
+      MOCK_ENDPOINTS.PROJECTS,
+      (data) => validateContentCollection(ProjectSchema, data, ['id', 'slug']).records,
+      () => (this.projects$ = undefined)
+    );
+    return this.projects$;
+  }
+
+  /**
+   * Gets all case studies, loading the seed file on first access
+   * @returns Observable of all stored case studies
+   */
+  getCaseStudies(): Observable<CaseStudy[]> {
+    this.caseStudies$ ??= this.loadSeed(
+      MOCK_ENDPOINTS.CASE_STUDIES,
+      (data) => validateContentCollection(CaseStudySchema, data, ['id', 'slug']).records,
+      () => (this.caseStudies$ = undefined)
+    );
+    return this.caseStudies$;
+  }
+
+  /**
+   * Stores a contact form submission
+   * @param form - Validated form values
+   * @returns The stored submission
+   */
+  addContactSubmission(form: ContactForm): MockContactSubmission {
+    const submission: MockContactSubmission = {
+      id: `contact_${++this.submissionCounter}`,
+      submittedAt: new Date().toISOString(),
+      form,
+    };
+    this.contactSubmissions = [...this.contactSubmissions, submission];
+    return submission;
+  }
+
+  /**
+   * Gets all stored contact submissions
+   * @returns Submissions in the order they were received
+   */
+  getContactSubmissions(): readonly MockContactSubmission[] {
+    return this.contactSubmissions;
+  }
+
+  /**
+   * Replaces collections with the given data instead of loading seed files
+   * @param seed - Collections to store (omitted collections are left untouched)
+   */
+  seed(seed: Partial<MockBackendSeed>): void {
+    if (seed.projects) {
+      this.projects$ = of(seed.projects);
+    }
+    if (seed.caseStudies) {
+      this.caseStudies$ = of(seed.caseStudies);
+    }
+  }
+
+  /**
+   * Clears all stored data; collections are reloaded from the seed files on next access
+   */
+  reset(): void {
+    this.projects$ = undefined;
+    this.caseStudies$ = undefined;
+    this.contactSubmissions = [];
+    this.submissionCounter = 0;
+  }
+
+  /**
+   * Loads and caches a seed file
+   *
+   * A failed load is not cached, so the next access retries it.
+   *
+   * @param url - Seed file URL
+   * @param parse - Converts the raw payload into valid records
+   * @param evict - Clears the cached observable after a failed load
+   * @returns Shared observable of the parsed records
+   */
+  private loadSeed<T>(
+    url: string,
+    parse: (data: unknown) => T[],
+    evict: () => void
+  ): Observable<T[]> {
+    return this.http.get<unknown>(url).pipe(
+      map(parse),
+      catchError((error: unknown) => {
+        evict();
+        return throwError(() => error);
+      }),
+      shareReplay({ bufferSize: 1, refCount: false })
+    );
+  }
+}
@@ -0,0 +1,317 @@
+import {
+  HttpClient,
+  HttpContext,
+  HttpErrorResponse,
+  provideHttpClient,
+  withInterceptors,
+} from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { firstValueFrom } from 'rxjs';
+
+import { MOCK_API_ENDPOINTS, MOCK_ENDPOINTS } from '@shared/constants';
+
+import caseStudiesData from '../../../assets/data/case-studies.json';
+import projectsData from '../../../assets/data/projects.json';
+import type { PaginatedResponse } from '../models/api-response.model';
+import type { CaseStudy } from '../models/case-study.model';
+import type { ContactSubmissionReceipt } from '../models/contact-form.model';
+import type { Project } from '../models/project.model';
+
+import { MockBackendDatabase } from './mock-backend.database';
+import {
+  MOCK_BACKEND_STATUS,
+  MOCK_STATUS_HEADER,
+  mockBackendInterceptor,
+} from './mock-backend.interceptor';
+
+describe('mockBackendInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let db: MockBackendDatabase;
+
+  const projects = projectsData as Project[];
+  const caseStudies = caseStudiesData as CaseStudy[];
+
+  /**
+   * Resolves the error of a request expected to fail
+   */
+  async function expectError(request: Promise<unknown>): Promise<HttpErrorResponse> {
+    try {
+      await request;
+    } catch (error) {
+      return error as HttpErrorResponse;
+    }
+    throw new Error('Expected request to fail');
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([mockBackendInterceptor])),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    db = TestBed.inject(MockBackendDatabase);
+    db.seed({ projects, caseStudies });
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  describe('pass-through', () => {
+    it('should not handle requests outside the API base', async () => {
+      const promise = firstValueFrom(http.get(MOCK_ENDPOINTS.PROJECTS));
+      httpMock.expectOne(MOCK_ENDPOINTS.PROJECTS).flush([]);
+
+      await expect(promise).resolves.toEqual([]);
+    });
+  });
+
+  describe('seeding', () => {
+    it('should lazily load collections from the content files', async () => {
+      db.reset();
+      const promise = firstValueFrom(
+        http.get<PaginatedResponse<Project>>(MOCK_API_ENDPOINTS.PROJECTS)
+      );
+      httpMock.expectOne(MOCK_ENDPOINTS.PROJECTS).flush(projectsData);
+
+      const response = await promise;
+      expect(response.meta.total).toBe(projects.length);
+    });
+
+    it('should respond with 503 when the seed file cannot be loaded', async () => {
+      db.reset();
+      const promise = firstValueFrom(http.get(MOCK_API_ENDPOINTS.CASE_STUDIES));
+      httpMock
+        .expectOne(MOCK_ENDPOINTS.CASE_STUDIES)
+        .flush('Missing', { status: 404, statusText: 'Not Found' });
+
+      const error = await expectError(promise);
+      expect(error.status).toBe(503);
+      expect(error.url).toBe(MOCK_API_ENDPOINTS.CASE_STUDIES);
+    });
+  });
+
+  describe('GET /api/projects', () => {
+    it('should return a paginated envelope sorted by most recent', async () => {
+      const response = await firstValueFrom(
+        http.get<PaginatedResponse<Project>>(MOCK_API_ENDPOINTS.PROJECTS, { observe: 'response' })
+      );
+
+      const { data, meta } = response.body!;
+      const dates = data.map((p) => Date.parse(p.createdDate));
+      expect(dates).toEqual([...dates].sort((a, b) => b - a));
+      expect(meta).toEqual({
+        total: projects.length,
+        page: 1,
+        pageSize: 12,
+        totalPages: 1,
+      });
+      expect(response.headers.get('X-Total-Count')).toBe(String(projects.length));
+    });
+
+    it('should filter by search text case-insensitively', async () => {
+      const { data } = await firstValueFrom(
+        http.get<PaginatedResponse<Project>>(MOCK_API_ENDPOINTS.PROJECTS, {
+          params: { search: 'PORTFOLIO' },
+        })
+      );
+
+      expect(data.length).toBeGreaterThan(0);
+      data.forEach((p) => expect(JSON.stringify(p).toLowerCase()).toContain('portfolio'));
+    });
+
+    it('should filter by any of the given tags', async () => {
+      const { data } = await firstValueFrom(
+        http.get<PaginatedResponse<Project>>(`${MOCK_API_ENDPOINTS.PROJECTS}?tag=Angular&tag=React`)
+      );
+
+      expect(data.length).toBeGreaterThan(0);
+      data.forEach((p) =>
+        expect(p.technologies.some((t) => t === 'Angular' || t === 'React')).toBe(true)
+      );
+    });
+
+    it('should sort by name and popularity', async () => {
+      const byName = await firstValueFrom(
+        http.get<PaginatedResponse<Project>>(MOCK_API_ENDPOINTS.PROJECTS, {
+          params: { sort: 'name' },
+        })
+      );
+      const titles = byName.data.map((p) => p.title);
+      expect(titles).toEqual([...titles].sort((a, b) => a.localeCompare(b)));
+
+      const byStars = await firstValueFrom(
+        http.get<PaginatedResponse<Project>>(MOCK_API_ENDPOINTS.PROJECTS, {
+          params: { sort: 'popular' },
+        })
+      );
+      expect(byStars.data[0].githubStars).toBe(
+        Math.max(...projects.map((p) => p.githubStars ?? 0))
+      );
+    });
+
+    it('should paginate results', async () => {
+      const { data, meta } = await firstValueFrom(
+        http.get<PaginatedResponse<Project>>(MOCK_API_ENDPOINTS.PROJECTS, {
+          params: { page: 2, pageSize: 3 },
+        })
+      );
+
+      expect(data).toHaveLength(Math.min(3, projects.length - 3));
+      expect(meta).toEqual({
+        total: projects.length,
+        page: 2,
+        pageSize: 3,
+        totalPages: Math.ceil(projects.length / 3),
+      });
+    });
+
+    it('should reject invalid query params with 400', async () => {
+      const badSort = await expectError(
+        firstValueFrom(http.get(MOCK_API_ENDPOINTS.PROJECTS, { params: { sort: 'random' } }))
+      );
+      expect(badSort.status).toBe(400);
+      expect(badSort.error.errors.sort).toBeDefined();
+
+      const badPage = await expectError(
+        firstValueFrom(http.get(MOCK_API_ENDPOINTS.PROJECTS, { params: { page: 0 } }))
+      );
+      expect(badPage.status).toBe(400);
+
+      const badPageSize = await expectError(
+        firstValueFrom(http.get(MOCK_API_ENDPOINTS.PROJECTS, { params: { pageSize: 1000 } }))
+      );
+      expect(badPageSize.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/projects/:slug', () => {
+    it('should return the matching project', async () => {
+      const project = await firstValueFrom(
+        http.get<Project>(MOCK_API_ENDPOINTS.PROJECT(projects[0].slug))
+      );
+
+      expect(project).toEqual(projects[0]);
+    });
+
+    it('should respond with 404 for unknown slugs', async () => {
+      const error = await expectError(
+        firstValueFrom(http.get(MOCK_API_ENDPOINTS.PROJECT('does-not-exist')))
+      );
+
+      expect(error.status).toBe(404);
+      expect(error.error).toEqual({ status: 404, message: 'Project not found' });
+    });
+  });
+
+  describe('case studies', () => {
+    it('should list case studies', async () => {
+      const { meta } = await firstValueFrom(
+        http.get<PaginatedResponse<CaseStudy>>(MOCK_API_ENDPOINTS.CASE_STUDIES)
+      );
+
+      expect(meta.total).toBe(caseStudies.length);
+    });
+
+    it('should return a case study by slug', async () => {
+      const caseStudy = await firstValueFrom(
+        http.get<CaseStudy>(MOCK_API_ENDPOINTS.CASE_STUDY(caseStudies[0].slug))
+      );
+
+      expect(caseStudy.id).toBe(caseStudies[0].id);
+    });
+  });
+
+  describe('POST /api/contact', () => {
+    const form = {
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      subject: 'Project Inquiry',
+      message: 'I would like to talk about a project.',
+    };
+
+    it('should store valid submissions and respond with 201', async () => {
+      const response = await firstValueFrom(
+        http.post<ContactSubmissionReceipt>(MOCK_API_ENDPOINTS.CONTACT, form, {
+          observe: 'response',
+        })
+      );
+
+      expect(response.status).toBe(201);
+      expect(response.body?.id).toBeDefined();
+      expect(db.getContactSubmissions()).toHaveLength(1);
+      expect(db.getContactSubmissions()[0].form).toEqual(form);
+    });
+
+    it('should respond with 400 and field errors for invalid submissions', async () => {
+      const error = await expectError(
+        firstValueFrom(http.post(MOCK_API_ENDPOINTS.CONTACT, { ...form, email: 'nope' }))
+      );
+
+      expect(error.status).toBe(400);
+      expect(error.error.errors.email).toBeDefined();
+      expect(db.getContactSubmissions()).toHaveLength(0);
+    });
+  });
+
+  describe('routing errors', () => {
+    it('should respond with 404 for unknown routes', async () => {
+      const error = await expectError(firstValueFrom(http.get('/api/unknown')));
+      expect(error.status).toBe(404);
+    });
+
+    it('should respond with 405 for unsupported methods', async () => {
+      const error = await expectError(firstValueFrom(http.delete(MOCK_API_ENDPOINTS.PROJECTS)));
+      expect(error.status).toBe(405);
+    });
+
+    it('should respond with 400 for malformed escapes in the path', async () => {
+      const error = await expectError(firstValueFrom(http.get('/api/projects/%E0%A4%A')));
+
+      expect(error).toBeInstanceOf(HttpErrorResponse);
+      expect(error.status).toBe(400);
+      expect(error.error).toEqual({ status: 400, message: 'Malformed path /projects/%E0%A4%A' });
+    });
+  });
+
+  describe('simulated errors', () => {
+    it('should respond with the status from the context token', async () => {
+      const error = await expectError(
+        firstValueFrom(
+          http.get(MOCK_API_ENDPOINTS.PROJECTS, {
+            context: new HttpContext().set(MOCK_BACKEND_STATUS, 503),
+          })
+        )
+      );
+
+      expect(error.status).toBe(503);
+    });
+
+    it('should respond with the status from the mock status header', async () => {
+      const error = await expectError(
+        firstValueFrom(
+          http.post(MOCK_API_ENDPOINTS.CONTACT, {}, { headers: { [MOCK_STATUS_HEADER]: '429' } })
+        )
+      );
+
+      expect(error.status).toBe(429);
+    });
+
+    it('should ignore statuses outside the 4xx/5xx range', async () => {
+      const response = await firstValueFrom(
+        http.get<PaginatedResponse<Project>>(MOCK_API_ENDPOINTS.PROJECTS, {
+          headers: { [MOCK_STATUS_HEADER]: '200' },
+        })
+      );
+
+      expect(response.meta.total).toBe(projects.length);
+    });
+  });
+});
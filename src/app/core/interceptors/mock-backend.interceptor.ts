@@ -0,0 +1,345 @@
+import type { HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import {
+  HttpContextToken,
+  HttpErrorResponse,
+  HttpHeaders,
+  HttpResponse,
+  HttpStatusCode,
+} from '@angular/common/http';
+import { inject } from '@angular/core';
+
+import type { Observable } from 'rxjs';
+import { catchError, defer, of, switchMap, throwError } from 'rxjs';
+
+import { API_CONFIG, PAGINATION_CONFIG } from '@shared/constants';
+
+import type { ApiErrorBody, PaginatedResponse } from '../models/api-response.model';
+import type { CaseStudy } from '../models/case-study.model';
+import { ContactFormSchema } from '../models/contact-form.model';
+import type { Project } from '../models/project.model';
+
+import { MockBackendDatabase } from './mock-backend.database';
+
+/**
+ * Forces the mock backend to answer a request with the given error status
+ *
+ * @example
+ * ```typescript
+ * this.http.get(MOCK_API_ENDPOINTS.PROJECTS, {
+ *   context: new HttpContext().set(MOCK_BACKEND_STATUS, 503),
+ * });
+ * ```
+ */
+export const MOCK_BACKEND_STATUS = new HttpContextToken<number | null>(() => null);
+
+/**
+ * Request header alternative to {@link MOCK_BACKEND_STATUS}
+ */
+export const MOCK_STATUS_HEADER = 'X-Mock-Status';
+
+/**
+ * Parsed request passed to route handlers
+ */
+interface MockRequest {
+  req: HttpRequest<unknown>;
+  /** Path segments after the API base, e.g. ['projects', 'angular-portfolio'] */
+  segments: string[];
+  query: URLSearchParams;
+  db: MockBackendDatabase;
+}
+
+/**
+ * Route definition for the mock API
+ */
+interface MockRoute {
+  method: string;
+  /** Matches the path below the API base, e.g. '/projects/angular-portfolio' */
+  pattern: RegExp;
+  handle: (request: MockRequest) => Observable<HttpResponse<unknown>>;
+}
+
+/**
+ * Collection-specific query behavior
+ */
+interface CollectionQuery<T> {
+  /** Text fields matched by the `search` parameter */
+  searchText: (item: T) => string[];
+  /** Values matched by the `tag` parameter */
+  tags: (item: T) => string[];
+  /** Comparators for the `sort` parameter (first entry is the default) */
+  sorters: Record<string, (a: T, b: T) => number>;
+}
+
+const PROJECT_QUERY: CollectionQuery<Project> = {
+  searchText: (p) => [p.title, p.description, p.shortDescription, p.category, ...p.technologies],
+  tags: (p) => p.technologies,
+  sorters: {
+    recent: (a, b) => Date.parse(b.createdDate) - Date.parse(a.createdDate),
+    popular: (a, b) => (b.githubStars ?? 0) - (a.githubStars ?? 0),
+    name: (a, b) => a.title.localeCompare(b.title),
+  },
+};
+
+const CASE_STUDY_QUERY: CollectionQuery<CaseStudy> = {
+  searchText: (cs) => [cs.title, cs.description, cs.client, cs.role, ...cs.technologies],
+  tags: (cs) => [...cs.technologies, ...(cs.tags ?? [])],
+  sorters: {
+    recent: (a, b) => Date.parse(b.publishedDate) - Date.parse(a.publishedDate),
+    name: (a, b) => a.title.localeCompare(b.title),
+  },
+};
+
+const MOCK_ROUTES: MockRoute[] = [
+  {
+    method: 'GET',
+    pattern: /^\/projects$/,
+    handle: ({ req, query, db }) =>
+      db.getProjects().pipe(switchMap((items) => listResponse(req, items, query, PROJECT_QUERY))),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/projects\/[^/]+$/,
+    handle: ({ req, segments, db }) =>
+      db.getProjects().pipe(
+        switchMap((items) =>
+          recordResponse(
+            req,
+            items.find((p) => p.slug === segments[1]),
+            'Project'
+          )
+        )
+      ),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/case-studies$/,
+    handle: ({ req, query, db }) =>
+      db
+        .getCaseStudies()
+        .pipe(switchMap((items) => listResponse(req, items, query, CASE_STUDY_QUERY))),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/case-studies\/[^/]+$/,
+    handle: ({ req, segments, db }) =>
+      db.getCaseStudies().pipe(
+        switchMap((items) =>
+          recordResponse(
+            req,
+            items.find((cs) => cs.slug === segments[1]),
+            'Case study'
+          )
+        )
+      ),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/contact$/,
+    handle: ({ req, db }) => {
+      const result = ContactFormSchema.safeParse(req.body);
+      if (!result.success) {
+        return errorResponse(req, HttpStatusCode.BadRequest, 'Invalid contact form submission', {
+          errors: result.error.flatten().fieldErrors as Record<string, string[]>,
+        });
+      }
+
+      const { id, submittedAt } = db.addContactSubmission(result.data);
+      return of(
+        new HttpResponse({
+          status: HttpStatusCode.Created,
+          statusText: 'Created',
+          url: req.url,
+          body: { id, submittedAt },
+        })
+      );
+    },
+  },
+];
+
+/**
+ * Functional HTTP interceptor that serves the mock REST API in-memory
+ *
+ * Requests below `API_CONFIG.MOCK_API_BASE` (`/api`) are answered from
+ * {@link MockBackendDatabase} without reaching the network; all other requests
+ * pass through untouched. Supported routes:
+ *
+ * - `GET /api/projects` and `GET /api/case-studies` - paginated lists supporting
+ *   `search`, `tag` (repeatable), `sort`, `page` and `pageSize` query params
+ * - `GET /api/projects/:slug` and `GET /api/case-studies/:slug`
+ * - `POST /api/contact` - validates the body against `ContactFormSchema`
+ *
+ * Error responses can be simulated per request with the
+ * {@link MOCK_BACKEND_STATUS} context token or the `X-Mock-Status` header.
+ *
+ * @example
+ * ```typescript
+ * provideHttpClient(
+ *   withInterceptors([latencyInterceptor, mockBackendInterceptor])
+ * )
+ * ```
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!req.url.startsWith(`${API_CONFIG.MOCK_API_BASE}/`)) {
+    return next(req);
+  }
+
+  const db = inject(MockBackendDatabase);
+
+  return defer(() => {
+    const simulatedStatus = getSimulatedStatus(req);
+    if (simulatedStatus !== null) {
+      return errorResponse(req, simulatedStatus, 'Simulated error response');
+    }
+
+    const url = new URL(req.urlWithParams, 'http://mock-backend');
+    const path = url.pathname.slice(API_CONFIG.MOCK_API_BASE.length);
+    const matching = MOCK_ROUTES.filter((route) => route.pattern.test(path));
+    const route = matching.find((r) => r.method === req.method);
+
+    if (!route) {
+      return matching.length > 0
+        ? errorResponse(
+            req,
+            HttpStatusCode.MethodNotAllowed,
+            `${req.method} not allowed on ${path}`
+          )
+        : errorResponse(req, HttpStatusCode.NotFound, `No mock route for ${path}`);
+    }
+
+    const segments = decodeSegments(path);
+    if (!segments) {
+      return errorResponse(req, HttpStatusCode.BadRequest, `Malformed path ${path}`);
+    }
+
+    return route
+      .handle({ req, segments, query: url.searchParams, db })
+      .pipe(
+        catchError((error: unknown) =>
+          error instanceof HttpErrorResponse && error.url === req.url
+            ? throwError(() => error)
+            : errorResponse(req, HttpStatusCode.ServiceUnavailable, 'Mock data set unavailable')
+        )
+      );
+  });
+};
+
+/**
+ * Splits a path into decoded segments, or null when an escape is malformed
+ */
+function decodeSegments(path: string): string[] | null {
+  try {
+    return path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the simulated error status from the request context or header
+ */
+function getSimulatedStatus(req: HttpRequest<unknown>): number | null {
+  const status =
+    req.context.get(MOCK_BACKEND_STATUS) ?? Number(req.headers.get(MOCK_STATUS_HEADER));
+  return Number.isInteger(status) && status >= 400 && status <= 599 ? status : null;
+}
+
+/**
+ * Filters, sorts and paginates a collection according to the query params
+ */
+function listResponse<T>(
+  req: HttpRequest<unknown>,
+  items: T[],
+  query: URLSearchParams,
+  config: CollectionQuery<T>
+): Observable<HttpResponse<PaginatedResponse<T>>> {
+  const sortKeys = Object.keys(config.sorters);
+  const sort = query.get('sort') ?? sortKeys[0];
+  const page = Number(query.get('page') ?? 1);
+  const pageSize = Number(query.get('pageSize') ?? PAGINATION_CONFIG.DEFAULT_PAGE_SIZE);
+
+  if (!sortKeys.includes(sort)) {
+    return errorResponse(req, HttpStatusCode.BadRequest, `Invalid sort "${sort}"`, {
+      errors: { sort: [`Must be one of: ${sortKeys.join(', ')}`] },
+    });
+  }
+  if (!Number.isInteger(page) || page < 1) {
+    return errorResponse(req, HttpStatusCode.BadRequest, 'Invalid page', {
+      errors: { page: ['Must be a positive integer'] },
+    });
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > PAGINATION_CONFIG.MAX_PAGE_SIZE) {
+    return errorResponse(req, HttpStatusCode.BadRequest, 'Invalid pageSize', {
+      errors: { pageSize: [`Must be an integer between 1 and ${PAGINATION_CONFIG.MAX_PAGE_SIZE}`] },
+    });
+  }
+
+  const search = query.get('search')?.trim().toLowerCase() ?? '';
+  const tags = query.getAll('tag');
+
+  const matches = items
+    .filter(
+      (item) =>
+        !search || config.searchText(item).some((text) => text.toLowerCase().includes(search))
+    )
+    .filter((item) => tags.length === 0 || tags.some((tag) => config.tags(item).includes(tag)))
+    .sort(config.sorters[sort]);
+
+  const start = (page - 1) * pageSize;
+  const body: PaginatedResponse<T> = {
+    data: matches.slice(start, start + pageSize),
+    meta: {
+      total: matches.length,
+      page,
+      pageSize,
+      totalPages: Math.ceil(matches.length / pageSize),
+    },
+  };
+
+  return of(
+    new HttpResponse({
+      status: HttpStatusCode.Ok,
+      statusText: 'OK',
+      url: req.url,
+      headers: new HttpHeaders({ 'X-Total-Count': String(matches.length) }),
+      body,
+    })
+  );
+}
+
+/**
+ * Responds with a single record, or 404 when it does not exist
+ */
+function recordResponse<T>(
+  req: HttpRequest<unknown>,
+  record: T | undefined,
+  label: string
+): Observable<HttpResponse<T>> {
+  if (!record) {
+    return errorResponse(req, HttpStatusCode.NotFound, `${label} not found`);
+  }
+
+  return of(
+    new HttpResponse({ status: HttpStatusCode.Ok, statusText: 'OK', url: req.url, body: record })
+  );
+}
+
+/**
+ * Creates an error response observable with an {@link ApiErrorBody}
+ */
+function errorResponse(
+  req: HttpRequest<unknown>,
+  status: number,
+  message: string,
+  extra: Pick<ApiErrorBody, 'errors'> = {}
+): Observable<never> {
+  const error: ApiErrorBody = { status, message, ...extra };
+  return throwError(
+    () =>
+      new HttpErrorResponse({
+        status,
+        statusText: HttpStatusCode[status] ?? 'Error',
+        url: req.url,
+        error,
+      })
+  );
+}
@@ -0,0 +1,228 @@
+// @vitest-environment jsdom
+import type { Provider } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+import { NETWORK_PROFILES } from '@shared/constants';
+
+import { ENVIRONMENT_PRODUCTION, provideFeatureFlags } from '../config/environment.tokens';
+
+import type { NetworkChaosConfig } from './network-chaos.service';
+import {
+  createSeededRandom,
+  NetworkChaosService,
+  provideNetworkChaos,
+} from './network-chaos.service';
+
+describe('NetworkChaosService', () => {
+  function createService(
+    config: Partial<NetworkChaosConfig> = {},
+    providers: Provider[] = []
+  ): NetworkChaosService {
+    TestBed.configureTestingModule({
+      providers: [provideNetworkChaos(config), ...providers],
+    });
+    return TestBed.inject(NetworkChaosService);
+  }
+
+  describe('createSeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+
+      expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+    });
+
+    it('should produce numbers in [0, 1)', () => {
+      const random = createSeededRandom(7);
+      for (let i = 0; i < 100; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('configuration', () => {
+    it('should use the injected configuration', () => {
+      const service = createService({ enabled: false, defaultProfile: 'fast', seed: 3 });
+
+      expect(service.enabled()).toBe(false);
+      expect(service.defaultProfile()).toBe('fast');
+      expect(service.seed()).toBe(3);
+    });
+
+    it('should follow the enableLatencySimulation flag unless configured', () => {
+      expect(
+        createService({}, [provideFeatureFlags({ enableLatencySimulation: true })]).enabled()
+      ).toBe(true);
+
+      TestBed.resetTestingModule();
+      expect(
+        createService({}, [provideFeatureFlags({ enableLatencySimulation: false })]).enabled()
+      ).toBe(false);
+    });
+
+    it('should default to the default profile without rules', () => {
+      const service = createService();
+
+      expect(service.defaultProfile()).toBe('default');
+      expect(service.rules()).toEqual([]);
+    });
+  });
+
+  describe('resolveProfile', () => {
+    it('should apply the first matching rule', () => {
+      const service = createService({
+        rules: [
+          { pattern: '/api/projects', profile: 'slow3g' },
+          { pattern: /^\/api\//, profile: 'flaky' },
+        ],
+      });
+
+      expect(service.resolveProfile('/api/projects?page=2')).toBe(NETWORK_PROFILES.slow3g);
+      expect(service.resolveProfile('/api/contact')).toBe(NETWORK_PROFILES.flaky);
+      expect(service.resolveProfile('/assets/data/projects.json')).toBe(NETWORK_PROFILES.default);
+    });
+
+    it('should give added rules precedence', () => {
+      const service = createService({ rules: [{ pattern: '/api', profile: 'flaky' }] });
+      service.addRule({ pattern: '/api/contact', profile: 'offline' });
+
+      expect(service.resolveProfile('/api/contact')).toBe(NETWORK_PROFILES.offline);
+
+      service.clearRules();
+      expect(service.resolveProfile('/api/contact')).toBe(NETWORK_PROFILES.default);
+    });
+
+    it('should accept custom profiles', () => {
+      const custom = { minDelay: 10, maxDelay: 10, errorRate: 0, errorStatuses: [] };
+      const service = createService({ defaultProfile: custom });
+
+      expect(service.resolveProfile('/anything')).toBe(custom);
+    });
+  });
+
+  describe('plan', () => {
+    it('should keep delays within the profile range', () => {
+      const service = createService({ defaultProfile: 'slow3g', seed: 1 });
+
+      for (let i = 0; i < 20; i++) {
+        const { delay } = service.plan('/api/projects');
+        expect(delay).toBeGreaterThanOrEqual(NETWORK_PROFILES.slow3g.minDelay);
+        expect(delay).toBeLessThan(NETWORK_PROFILES.slow3g.maxDelay);
+      }
+    });
+
+    it('should always fail offline requests with a network error', () => {
+      const service = createService({ defaultProfile: 'offline' });
+
+      expect(service.plan('/api/projects')).toEqual({ delay: 0, errorStatus: 0 });
+    });
+
+    it('should never fail when the error rate is 0', () => {
+      const service = createService({ defaultProfile: 'fast', seed: 9 });
+
+      for (let i = 0; i < 20; i++) {
+        expect(service.plan('/api/projects').errorStatus).toBeNull();
+      }
+    });
+
+    it('should be deterministic for a given seed', () => {
+      const service = createService({ defaultProfile: 'flaky', seed: 42 });
+      const first = Array.from({ length: 30 }, () => service.plan('/api/projects'));
+
+      service.setSeed(42);
+      const second = Array.from({ length: 30 }, () => service.plan('/api/projects'));
+
+      expect(second).toEqual(first);
+      expect(first.some((plan) => plan.errorStatus !== null)).toBe(true);
+      first
+        .filter((plan) => plan.errorStatus !== null)
+        .forEach((plan) =>
+          expect(NETWORK_PROFILES.flaky.errorStatuses).toContain(plan.errorStatus)
+        );
+    });
+  });
+
+  describe('applyQueryParams', () => {
+    it('should enable and select a known profile', () => {
+      const service = createService({ enabled: false });
+      service.applyQueryParams('?network=flaky');
+
+      expect(service.enabled()).toBe(true);
+      expect(service.defaultProfile()).toBe('flaky');
+    });
+
+    it('should disable simulation with network=off', () => {
+      const service = createService({ enabled: true });
+      service.applyQueryParams('?network=off');
+
+      expect(service.enabled()).toBe(false);
+    });
+
+    it('should ignore unknown profiles', () => {
+      const service = createService({ defaultProfile: 'fast' });
+      service.applyQueryParams('?network=warp-speed');
+
+      expect(service.defaultProfile()).toBe('fast');
+    });
+
+    it('should ignore inherited Object properties as profile names', () => {
+      const service = createService({ enabled: false, defaultProfile: 'fast' });
+
+      for (const name of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+        service.applyQueryParams(`?network=${name}`);
+      }
+
+      expect(service.enabled()).toBe(false);
+      expect(service.defaultProfile()).toBe('fast');
+    });
+
+    it('should apply an integer seed', () => {
+      const service = createService();
+      service.applyQueryParams('?networkSeed=123');
+
+      expect(service.seed()).toBe(123);
+    });
+  });
+
+  describe('query params on startup', () => {
+    function createBuild(
+      production: boolean,
+      enableLatencySimulation: boolean
+    ): NetworkChaosService {
+      return createService({ enabled: false }, [
+        { provide: ENVIRONMENT_PRODUCTION, useValue: production },
+        provideFeatureFlags({ enableLatencySimulation }),
+      ]);
+    }
+
+    beforeEach(() => {
+      window.history.replaceState(null, '', '/?network=offline');
+    });
+
+    afterEach(() => {
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('should apply the page query params outside production', () => {
+      const service = createBuild(false, false);
+
+      expect(service.enabled()).toBe(true);
+      expect(service.defaultProfile()).toBe('offline');
+    });
+
+    it('should ignore the page query params in production without simulation', () => {
+      const service = createBuild(true, false);
+
+      expect(service.enabled()).toBe(false);
+      expect(service.defaultProfile()).toBe('default');
+    });
+
+    it('should apply the page query params in production with simulation on', () => {
+      const service = createBuild(true, true);
+
+      expect(service.defaultProfile()).toBe('offline');
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import type { Provider } from '@angular/core';
+import { inject, Injectable, InjectionToken, signal } from '@angular/core';
+
+import { LATENCY_CONFIG, NETWORK_PROFILES } from '@shared/constants';
+
+import { ENVIRONMENT_FEATURES, ENVIRONMENT_PRODUCTION } from '../config/environment.tokens';
+
+/**
+ * Name of a predefined network profile
+ */
+export type NetworkProfileName = keyof typeof NETWORK_PROFILES;
+
+/**
+ * Simulated network conditions
+ */
+export interface NetworkProfile {
+  /** Minimum delay in milliseconds */
+  minDelay: number;
+  /** Maximum delay in milliseconds */
+  maxDelay: number;
+  /** Probability (0-1) that a request fails */
+  errorRate: number;
+  /** Status codes a failing request responds with (0 = network error) */
+  errorStatuses: readonly number[];
+}
+
+/**
+ * Applies a profile to requests whose URL matches a pattern
+ */
+export interface NetworkChaosRule {
+  /** Substring or regular expression matched against the request URL */
+  pattern: string | RegExp;
+  /** Profile name or custom profile */
+  profile: NetworkProfileName | NetworkProfile;
+}
+
+/**
+ * Network simulation configuration
+ */
+export interface NetworkChaosConfig {
+  /** Whether simulation is active */
+  enabled: boolean;
+  /** Profile for requests that match no rule */
+  defaultProfile: NetworkProfileName | NetworkProfile;
+  /** Per-URL rules, first match wins */
+  rules: NetworkChaosRule[];
+  /** Seed for deterministic randomness (null uses Math.random) */
+  seed: number | null;
+}
+
+/**
+ * Outcome decided for a single request
+ */
+export interface NetworkChaosPlan {
+  /** Delay before the response (or failure) in milliseconds */
+  delay: number;
+  /** Status to fail with, or null to let the request through */
+  errorStatus: number | null;
+}
+
+/**
+ * Initial network simulation configuration
+ */
+export const NETWORK_CHAOS_CONFIG = new InjectionToken<Partial<NetworkChaosConfig>>(
+  'NETWORK_CHAOS_CONFIG'
+);
+
+/**
+ * Provides the initial network simulation configuration
+ *
+ * @example
+ * ```typescript
+ * TestBed.configureTestingModule({
+ *   providers: [
+ *     provideNetworkChaos({ seed: 42, rules: [{ pattern: '/api/projects', profile: 'flaky' }] }),
+ *   ],
+ * });
+ * ```
+ */
+export function provideNetworkChaos(config: Partial<NetworkChaosConfig>): Provider {
+  return { provide: NETWORK_CHAOS_CONFIG, useValue: config };
+}
+
+/**
+ * Creates a deterministic pseudo-random number generator (mulberry32)
+ * @param seed - Integer seed
+ * @returns Function returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Runtime controls for the simulated network used by `latencyInterceptor`
+ *
+ * Starts from {@link NETWORK_CHAOS_CONFIG} (if provided) and the
+ * `enableLatencySimulation` flag of `ENVIRONMENT_FEATURES`, then applies the
+ * `?network=<profile|off>` and `?networkSeed=<n>` query params so skeletons,
+ * retries and error states can be demoed without code changes. Production
+ * builds only read the query params when `enableLatencySimulation` is on.
+ *
+ * @example
+ * ```typescript
+ * const chaos = inject(NetworkChaosService);
+ * chaos.setDefaultProfile('slow3g');
+ * chaos.addRule({ pattern: /^\/api\/contact/, profile: 'offline' });
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class NetworkChaosService {
+  private readonly config = inject(NETWORK_CHAOS_CONFIG, { optional: true }) ?? {};
+  private readonly features = inject(ENVIRONMENT_FEATURES);
+  private readonly production = inject(ENVIRONMENT_PRODUCTION);
+
+  private readonly _enabled = signal(
+    this.config.enabled ?? (LATENCY_CONFIG.ENABLED && this.features.enableLatencySimulation)
+  );
+  private readonly _defaultProfile = signal<NetworkProfileName | NetworkProfile>(
+    this.config.defaultProfile ?? 'default'
+  );
+  private readonly _rules = signal<NetworkChaosRule[]>(this.config.rules ?? []);
+  private readonly _seed = signal<number | null>(this.config.seed ?? null);
+
+  private random: () => number = Math.random;
+
+  /** Whether simulation is active */
+  readonly enabled = this._enabled.asReadonly();
+
+  /** Profile for requests that match no rule */
+  readonly defaultProfile = this._defaultProfile.asReadonly();
+
+  /** Per-URL rules, first match wins */
+  readonly rules = this._rules.asReadonly();
+
+  /** Current random seed (null when using Math.random) */
+  readonly seed = this._seed.asReadonly();
+
+  constructor() {
+    this.setSeed(this._seed());
+    // Production builds without simulation ignore the query params, so a
+    // shared `?network=offline` link cannot break the site
+    const allowQueryParams = !this.production || this.features.enableLatencySimulation;
+    if (allowQueryParams && typeof window !== 'undefined') {
+      this.applyQueryParams(window.location.search);
+    }
+  }
+
+  /**
+   * Enables or disables simulation
+   * @param enabled - Whether simulation is active
+   */
+  setEnabled(enabled: boolean): void {
+    this._enabled.set(enabled);
+  }
+
+  /**
+   * Sets the profile for requests that match no rule
+   * @param profile - Profile name or custom profile
+   */
+  setDefaultProfile(profile: NetworkProfileName | NetworkProfile): void {
+    this._defaultProfile.set(profile);
+  }
+
+  /**
+   * Adds a per-URL rule (takes precedence over existing rules)
+   * @param rule - Rule to add
+   */
+  addRule(rule: NetworkChaosRule): void {
+    this._rules.update((rules) => [rule, ...rules]);
+  }
+
+  /**
+   * Removes all per-URL rules
+   */
+  clearRules(): void {
+    this._rules.set([]);
+  }
+
+  /**
+   * Seeds the random number generator, restarting its sequence
+   * @param seed - Integer seed, or null to use Math.random
+   */
+  setSeed(seed: number | null): void {
+    this._seed.set(seed);
+    this.random = seed === null ? Math.random : createSeededRandom(seed);
+  }
+
+  /**
+   * Applies runtime toggles from a URL query string
+   * @param search - Query string, e.g. `?network=flaky&networkSeed=7`
+   */
+  applyQueryParams(search: string): void {
+    const params = new URLSearchParams(search);
+    const profile = params.get(LATENCY_CONFIG.PROFILE_QUERY_PARAM);
+    const seed = params.get(LATENCY_CONFIG.SEED_QUERY_PARAM);
+
+    if (profile === 'off') {
+      this.setEnabled(false);
+    } else if (profile && Object.hasOwn(NETWORK_PROFILES, profile)) {
+      this.setEnabled(true);
+      this.setDefaultProfile(profile as NetworkProfileName);
+    }
+
+    if (seed !== null && Number.isInteger(Number(seed))) {
+      this.setSeed(Number(seed));
+    }
+  }
+
+  /**
+   * Resolves the profile that applies to a URL
+   * @param url - Request URL
+   * @returns Matching rule's profile, or the default profile
+   */
+  resolveProfile(url: string): NetworkProfile {
+    const rule = this._rules().find(({ pattern }) =>
+      typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)
+    );
+    const profile = rule?.profile ?? this._defaultProfile();
+    return typeof profile === 'string' ? NETWORK_PROFILES[profile] : profile;
+  }
+
+  /**
+   * Decides the delay and outcome for a request
+   * @param url - Request URL
+   * @returns Delay in milliseconds and the error status to fail with, if any
+   */
+  plan(url: string): NetworkChaosPlan {
+    const { minDelay, maxDelay, errorRate, errorStatuses } = this.resolveProfile(url);
+    const delay = Math.floor(this.random() * (maxDelay - minDelay)) + minDelay;
+    const fails = errorStatuses.length > 0 && this.random() < errorRate;
+
+    return {
+      delay,
+      errorStatus: fails ? errorStatuses[Math.floor(this.random() * errorStatuses.length)] : null,
+    };
+  }
+}
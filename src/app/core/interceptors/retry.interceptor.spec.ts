@@ -0,0 +1,269 @@
+import type { HttpErrorResponse } from '@angular/common/http';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { API_RETRY, API_TIMEOUTS } from '@shared/constants';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+
+import {
+  MAX_RETRIES,
+  parseRetryAfter,
+  REPORT_HTTP_ERRORS,
+  REQUEST_TIMEOUT,
+  retryInterceptor,
+} from './retry.interceptor';
+
+describe('retryInterceptor', () => {
+  const url = '/api/projects';
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let handleHttpError: ReturnType<typeof vi.spyOn>;
+
+  function failWith(status: number, headers: Record<string, string> = {}): void {
+    httpMock.expectOne(url).flush(null, { status, statusText: 'Error', headers });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([retryInterceptor])),
+        provideHttpClientTesting(),
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    handleHttpError = vi
+      .spyOn(TestBed.inject(ErrorHandlerService), 'handleHttpError')
+      .mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('retries', () => {
+    it('should pass successful responses through', () => {
+      const next = vi.fn();
+
+      http.get(url).subscribe(next);
+      httpMock.expectOne(url).flush([1]);
+
+      expect(next).toHaveBeenCalledWith([1]);
+      expect(handleHttpError).not.toHaveBeenCalled();
+    });
+
+    it('should retry retryable statuses with exponential backoff', () => {
+      const next = vi.fn();
+      http.get(url).subscribe(next);
+
+      failWith(503);
+      vi.advanceTimersByTime(API_RETRY.RETRY_DELAY - 1);
+      httpMock.expectNone(url);
+      vi.advanceTimersByTime(1);
+
+      failWith(502);
+      vi.advanceTimersByTime(API_RETRY.RETRY_DELAY * 2 - 1);
+      httpMock.expectNone(url);
+      vi.advanceTimersByTime(1);
+
+      httpMock.expectOne(url).flush([1]);
+      expect(next).toHaveBeenCalledWith([1]);
+    });
+
+    it('should add jitter to the backoff', () => {
+      vi.mocked(Math.random).mockReturnValue(1);
+      http.get(url).subscribe({ error: () => undefined });
+
+      failWith(500);
+      const jittered = API_RETRY.RETRY_DELAY * (1 + API_RETRY.JITTER_RATIO);
+      vi.advanceTimersByTime(jittered - 1);
+      httpMock.expectNone(url);
+      vi.advanceTimersByTime(1);
+
+      httpMock.expectOne(url).flush([]);
+    });
+
+    it('should cap the jittered backoff at the maximum delay', () => {
+      vi.mocked(Math.random).mockReturnValue(1);
+      http
+        .get(url, { context: new HttpContext().set(MAX_RETRIES, 10) })
+        .subscribe({ error: () => undefined });
+
+      // Reach a retry whose backoff alone is above the cap
+      let backoff = API_RETRY.RETRY_DELAY;
+      while (backoff < API_RETRY.MAX_DELAY) {
+        failWith(503);
+        vi.runOnlyPendingTimers();
+        backoff *= 2;
+      }
+
+      failWith(503);
+      vi.advanceTimersByTime(API_RETRY.MAX_DELAY - 1);
+      httpMock.expectNone(url);
+      vi.advanceTimersByTime(1);
+
+      httpMock.expectOne(url).flush([]);
+    });
+
+    it('should not retry non-retryable statuses', () => {
+      let error: HttpErrorResponse | undefined;
+      http.get(url).subscribe({ error: (e) => (error = e) });
+
+      failWith(404);
+      vi.runAllTimers();
+
+      httpMock.expectNone(url);
+      expect(error?.status).toBe(404);
+    });
+
+    it('should not retry POST requests by default', () => {
+      http.post(url, {}).subscribe({ error: () => undefined });
+
+      failWith(503);
+      vi.runAllTimers();
+
+      httpMock.expectNone(url);
+    });
+
+    it('should retry POST requests that opt in with MAX_RETRIES', () => {
+      const next = vi.fn();
+      http.post(url, {}, { context: new HttpContext().set(MAX_RETRIES, 1) }).subscribe(next);
+
+      failWith(503);
+      vi.advanceTimersByTime(API_RETRY.RETRY_DELAY);
+      httpMock.expectOne(url).flush({ ok: true });
+
+      expect(next).toHaveBeenCalledWith({ ok: true });
+    });
+
+    it('should give up after the maximum number of attempts', () => {
+      let error: HttpErrorResponse | undefined;
+      http.get(url).subscribe({ error: (e) => (error = e) });
+
+      for (let attempt = 0; attempt < API_RETRY.MAX_ATTEMPTS; attempt++) {
+        failWith(503);
+        vi.runOnlyPendingTimers();
+      }
+
+      httpMock.expectNone(url);
+      expect(error?.status).toBe(503);
+    });
+  });
+
+  describe('Retry-After', () => {
+    it('should wait for Retry-After seconds on 429', () => {
+      http.get(url).subscribe({ error: () => undefined });
+
+      failWith(429, { 'Retry-After': '3' });
+      vi.advanceTimersByTime(2999);
+      httpMock.expectNone(url);
+      vi.advanceTimersByTime(1);
+
+      httpMock.expectOne(url).flush([]);
+    });
+
+    it('should give up when Retry-After exceeds the maximum delay', () => {
+      let error: HttpErrorResponse | undefined;
+      http.get(url).subscribe({ error: (e) => (error = e) });
+
+      failWith(429, { 'Retry-After': String(API_RETRY.MAX_DELAY / 1000 + 1) });
+      vi.runAllTimers();
+
+      httpMock.expectNone(url);
+      expect(error?.status).toBe(429);
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should fail with 408 after the default timeout', () => {
+      let error: HttpErrorResponse | undefined;
+      http.get(url, { context: new HttpContext().set(MAX_RETRIES, 0) }).subscribe({
+        error: (e) => (error = e),
+      });
+
+      const req = httpMock.expectOne(url);
+      vi.advanceTimersByTime(API_TIMEOUTS.DEFAULT);
+
+      expect(req.cancelled).toBe(true);
+      expect(error?.status).toBe(408);
+    });
+
+    it('should honor a per-request timeout and retry it', () => {
+      http.get(url, { context: new HttpContext().set(REQUEST_TIMEOUT, 100) }).subscribe({
+        error: () => undefined,
+      });
+
+      httpMock.expectOne(url);
+      vi.advanceTimersByTime(100 + API_RETRY.RETRY_DELAY);
+
+      httpMock.expectOne(url).flush([]);
+    });
+
+    it('should not time out when disabled', () => {
+      const next = vi.fn();
+      http.get(url, { context: new HttpContext().set(REQUEST_TIMEOUT, null) }).subscribe(next);
+
+      vi.advanceTimersByTime(API_TIMEOUTS.DEFAULT * 2);
+      httpMock.expectOne(url).flush([]);
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe('error reporting', () => {
+    it('should report the final failure with the attempt count', () => {
+      http.get(url).subscribe({ error: () => undefined });
+
+      for (let attempt = 0; attempt < API_RETRY.MAX_ATTEMPTS; attempt++) {
+        failWith(500);
+        vi.runOnlyPendingTimers();
+      }
+
+      expect(handleHttpError).toHaveBeenCalledTimes(1);
+      expect(handleHttpError).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 500 }),
+        expect.objectContaining({
+          source: 'retryInterceptor',
+          action: `GET ${url}`,
+          data: { attempts: API_RETRY.MAX_ATTEMPTS },
+        })
+      );
+    });
+
+    it('should not report failures that opt out', () => {
+      http
+        .get(url, { context: new HttpContext().set(REPORT_HTTP_ERRORS, false) })
+        .subscribe({ error: () => undefined });
+
+      failWith(404);
+
+      expect(handleHttpError).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+  });
+
+  it('should parse HTTP dates relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:05 GMT', now)).toBe(5000);
+  });
+
+  it('should return null for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter('-1')).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+import type { HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { HttpContextToken, HttpErrorResponse, HttpStatusCode } from '@angular/common/http';
+import { inject } from '@angular/core';
+
+import type { Observable } from 'rxjs';
+import { catchError, defer, retry, throwError, timeout, timer } from 'rxjs';
+
+import { API_RETRY, API_TIMEOUTS } from '@shared/constants';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+
+/**
+ * Maximum time (milliseconds) to wait for a response event before the
+ * attempt fails with a 408. Use `null` to disable the timeout.
+ *
+ * @example
+ * ```typescript
+ * this.http.get(url, {
+ *   context: new HttpContext().set(REQUEST_TIMEOUT, HTTP_TIMEOUTS.SHORT),
+ * });
+ * ```
+ */
+export const REQUEST_TIMEOUT = new HttpContextToken<number | null>(() => API_TIMEOUTS.DEFAULT);
+
+/**
+ * Maximum number of retries for a request (0 disables retries)
+ *
+ * Defaults to `API_RETRY.MAX_ATTEMPTS - 1`, so a request is attempted at
+ * most `MAX_ATTEMPTS` times. Only idempotent methods are retried by default;
+ * setting this token explicitly opts other methods (e.g. POST) in as well.
+ */
+export const MAX_RETRIES = new HttpContextToken<number>(() => API_RETRY.MAX_ATTEMPTS - 1);
+
+/**
+ * Whether a final failure is reported to `ErrorHandlerService`
+ *
+ * Disable for requests whose failures are expected and handled by the
+ * caller (e.g. probing for optional content).
+ */
+export const REPORT_HTTP_ERRORS = new HttpContextToken<boolean>(() => true);
+
+/**
+ * Parses a `Retry-After` header value
+ * @param value - Delay in seconds or an HTTP date
+ * @param now - Current time in milliseconds (for HTTP dates)
+ * @returns Delay in milliseconds, or null when absent or invalid
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (value === null || value.trim() === '') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : null;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Functional HTTP interceptor that applies timeouts and retries
+ *
+ * - Fails attempts that exceed {@link REQUEST_TIMEOUT} with a 408
+ * - Retries `API_RETRY.RETRY_STATUS_CODES` (and network errors) with
+ *   exponential backoff plus jitter, capped at `API_RETRY.MAX_DELAY`
+ * - Waits for `Retry-After` on 429 responses, giving up when the server asks
+ *   for longer than `API_RETRY.MAX_DELAY`
+ * - Reports the final failure to `ErrorHandlerService.handleHttpError`
+ *   with the number of attempts made
+ *
+ * Register it first so retries pass through the other interceptors again.
+ *
+ * @example
+ * ```typescript
+ * provideHttpClient(
+ *   withInterceptors([retryInterceptor, latencyInterceptor, mockBackendInterceptor])
+ * )
+ * ```
+ */
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  const errorHandler = inject(ErrorHandlerService);
+  const timeoutMs = req.context.get(REQUEST_TIMEOUT);
+  const maxRetries = isRetryableMethod(req) ? req.context.get(MAX_RETRIES) : 0;
+  let attempts = 0;
+
+  return defer(() => {
+    attempts++;
+    const attempt = next(req);
+    return timeoutMs === null ? attempt : attempt.pipe(withTimeout(req, timeoutMs));
+  }).pipe(
+    retry({
+      count: maxRetries,
+      delay: (error: unknown, retryCount) => {
+        const wait = error instanceof HttpErrorResponse ? getRetryDelay(error, retryCount) : null;
+        return wait === null ? throwError(() => error) : timer(wait);
+      },
+    }),
+    catchError((error: unknown) => {
+      if (error instanceof HttpErrorResponse && req.context.get(REPORT_HTTP_ERRORS)) {
+        errorHandler.handleHttpError(error, {
+          source: 'retryInterceptor',
+          action: `${req.method} ${req.urlWithParams}`,
+          data: { attempts },
+        });
+      }
+      return throwError(() => error);
+    })
+  );
+};
+
+/**
+ * Whether a request may be retried
+ */
+function isRetryableMethod(req: HttpRequest<unknown>): boolean {
+  return (
+    (API_RETRY.RETRY_METHODS as readonly string[]).includes(req.method) ||
+    req.context.has(MAX_RETRIES)
+  );
+}
+
+/**
+ * Fails an attempt with a 408 when no response event arrives in time
+ */
+function withTimeout<T>(
+  req: HttpRequest<unknown>,
+  timeoutMs: number
+): (source: Observable<T>) => Observable<T> {
+  return timeout({
+    each: timeoutMs,
+    with: () =>
+      throwError(
+        () =>
+          new HttpErrorResponse({
+            status: HttpStatusCode.RequestTimeout,
+            statusText: 'Request Timeout',
+            url: req.urlWithParams,
+            error: { message: `Request timed out after ${timeoutMs}ms` },
+          })
+      ),
+  });
+}
+
+/**
+ * Computes the wait before the next retry
+ * @param error - Failed response
+ * @param retryCount - 1-based retry number
+ * @returns Delay in milliseconds, or null when the error should not be retried
+ */
+function getRetryDelay(error: HttpErrorResponse, retryCount: number): number | null {
+  const retryable =
+    error.status === 0 ||
+    (API_RETRY.RETRY_STATUS_CODES as readonly number[]).includes(error.status);
+  if (!retryable) {
+    return null;
+  }
+
+  if (error.status === HttpStatusCode.TooManyRequests) {
+    const retryAfter = parseRetryAfter(error.headers?.get('Retry-After') ?? null);
+    if (retryAfter !== null) {
+      return retryAfter <= API_RETRY.MAX_DELAY ? retryAfter : null;
+    }
+  }
+
+  const backoff = API_RETRY.RETRY_DELAY * 2 ** (retryCount - 1);
+  const jittered = backoff * (1 + API_RETRY.JITTER_RATIO * Math.random());
+  return Math.round(Math.min(jittered, API_RETRY.MAX_DELAY));
+}
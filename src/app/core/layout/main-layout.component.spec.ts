@@ -1,23 +1,31 @@
 // @vitest-environment jsdom
+import { provideHttpClient } from '@angular/common/http';
 import type { ComponentFixture } from '@angular/core/testing';
 import { TestBed } from '@angular/core/testing';
 import { provideRouter } from '@angular/router';
 
+import { provideFeatureFlags } from '../config/environment.tokens';
+
 import { MainLayoutComponent } from './main-layout.component';
 
 describe('MainLayoutComponent', () => {
   let component: MainLayoutComponent;
   let fixture: ComponentFixture<MainLayoutComponent>;
 
-  beforeEach(async () => {
+  async function createComponent(enableChatbot = false): Promise<void> {
+    TestBed.resetTestingModule();
     await TestBed.configureTestingModule({
       imports: [MainLayoutComponent],
-      providers: [provideRouter([])],
+      providers: [provideRouter([]), provideHttpClient(), provideFeatureFlags({ enableChatbot })],
     }).compileComponents();
 
     fixture = TestBed.createComponent(MainLayoutComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
+  }
+
+  beforeEach(async () => {
+    await createComponent();
   });
 
   it('should create', () => {
@@ -67,6 +75,23 @@ describe('MainLayoutComponent', () => {
       const footer = compiled.querySelector('app-footer');
       expect(footer).toBeTruthy();
     });
+
+    it('should render the chatbot when the feature is enabled', async () => {
+      await createComponent(true);
+      await fixture.whenStable();
+      fixture.detectChanges();
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('app-chatbot-panel')).toBeTruthy();
+    });
+
+    it('should not render the chatbot when the feature is disabled', async () => {
+      await fixture.whenStable();
+      fixture.detectChanges();
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('app-chatbot-panel')).toBeNull();
+    });
   });
 
   describe('Accessibility', () => {
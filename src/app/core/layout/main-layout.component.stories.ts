@@ -1,3 +1,4 @@
+import { provideHttpClient } from '@angular/common/http';
 import { provideRouter } from '@angular/router';
 
 import type { Meta, StoryObj } from '@storybook/angular';
@@ -31,6 +32,7 @@ const meta: Meta<MainLayoutComponent> = {
           { path: 'home', component: MainLayoutComponent },
           { path: 'case-studies', component: MainLayoutComponent },
         ]),
+        provideHttpClient(),
       ],
     }),
   ],
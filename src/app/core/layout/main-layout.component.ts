@@ -1,6 +1,8 @@
-import { ChangeDetectionStrategy, Component } from '@angular/core';
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 
+import { ChatbotPanelComponent } from '../chatbot/chatbot-panel.component';
+import { ENVIRONMENT_FEATURES } from '../config/environment.tokens';
 import { FooterComponent } from '../footer/footer.component';
 import { HeaderComponent } from '../header/header.component';
 
@@ -12,6 +14,7 @@ import { HeaderComponent } from '../header/header.component';
  * - Header with navigation
  * - Main content area with router outlet
  * - Footer
+ * - Career chatbot, loaded in a deferred chunk when the `enableChatbot` feature flag is on
  *
  * @example
  * ```html
@@ -21,9 +24,11 @@ import { HeaderComponent } from '../header/header.component';
 @Component({
   selector: 'app-main-layout',
   standalone: true,
-  imports: [RouterOutlet, HeaderComponent, FooterComponent],
+  imports: [RouterOutlet, HeaderComponent, FooterComponent, ChatbotPanelComponent],
   templateUrl: './main-layout.component.html',
   styleUrl: './main-layout.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
-export class MainLayoutComponent {}
+export class MainLayoutComponent {
+  protected readonly showChatbot = inject(ENVIRONMENT_FEATURES).enableChatbot;
+}
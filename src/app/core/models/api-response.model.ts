@@ -0,0 +1,65 @@
+/**
+ * Pagination metadata returned alongside list responses
+ */
+export interface PaginationMeta {
+  /**
+   * Total number of records matching the query (across all pages)
+   */
+  total: number;
+
+  /**
+   * Current page number (1-based)
+   */
+  page: number;
+
+  /**
+   * Number of records per page
+   */
+  pageSize: number;
+
+  /**
+   * Total number of pages (0 when there are no matches)
+   */
+  totalPages: number;
+}
+
+/**
+ * Paginated list response envelope
+ *
+ * @example
+ * ```typescript
+ * this.http.get<PaginatedResponse<Project>>('/api/projects', { params: { page: 2 } })
+ *   .subscribe(({ data, meta }) => console.log(`${data.length} of ${meta.total}`));
+ * ```
+ */
+export interface PaginatedResponse<T> {
+  /**
+   * Records on the current page
+   */
+  data: T[];
+
+  /**
+   * Pagination metadata
+   */
+  meta: PaginationMeta;
+}
+
+/**
+ * Error body returned by API endpoints for 4xx/5xx responses
+ */
+export interface ApiErrorBody {
+  /**
+   * HTTP status code
+   */
+  status: number;
+
+  /**
+   * Human-readable error message
+   */
+  message: string;
+
+  /**
+   * Field-level validation errors (optional, for 400 responses)
+   */
+  errors?: Record<string, string[]>;
+}
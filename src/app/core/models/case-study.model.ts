@@ -1,5 +1,9 @@
+import { z } from 'zod';
+
+import { IsoDateSchema, NonEmptyStringSchema, SlugSchema } from './content.schema';
+
 /**
- * Case study model representing a detailed project case study
+ * Case study schema representing a detailed project case study
  *
  * Case studies provide in-depth analysis of real projects including
  * challenges, solutions, results, and lessons learned.
@@ -37,165 +41,178 @@
  * };
  * ```
  */
-export interface CaseStudy {
+export const CaseStudySchema = z.object({
   /**
    * Unique identifier for the case study
    */
-  id: string;
+  id: NonEmptyStringSchema,
 
   /**
    * URL-friendly slug for routing (e.g., 'mobile-app-redesign')
    */
-  slug: string;
+  slug: SlugSchema,
 
   /**
    * Display title of the case study
    */
-  title: string;
+  title: NonEmptyStringSchema,
 
   /**
    * Detailed description/overview of the case study (supports markdown)
    */
-  description: string;
+  description: NonEmptyStringSchema,
 
   /**
    * Client or company name
    */
-  client: string;
+  client: NonEmptyStringSchema,
 
   /**
    * Your role in the project
    * @example 'Lead Developer', 'Frontend Engineer', 'Full-Stack Developer'
    */
-  role: string;
+  role: NonEmptyStringSchema,
 
   /**
    * Project duration
    * @example '3 months', '6 months', 'Q1 2024'
    */
-  duration: string;
+  duration: z.string(),
 
   /**
    * The problem or challenge to solve (supports markdown)
    */
-  challenge: string;
+  challenge: z.string(),
 
   /**
    * The solution and approach taken (supports markdown)
    */
-  solution: string;
+  solution: z.string(),
 
   /**
    * Results and impact of the project
    */
-  results: {
+  results: z.object({
     /**
      * Measurable metrics showing success
      */
-    metrics: Array<{
-      /**
-       * Metric label (e.g., 'User Satisfaction', 'Performance Improvement')
-       */
-      label: string;
-
-      /**
-       * Metric value (e.g., '+45%', '3x faster', '2M+ users')
-       */
-      value: string;
-
-      /**
-       * Optional icon name for the metric
-       */
-      icon?: string;
-    }>;
+    metrics: z.array(
+      z.object({
+        /**
+         * Metric label (e.g., 'User Satisfaction', 'Performance Improvement')
+         */
+        label: NonEmptyStringSchema,
+
+        /**
+         * Metric value (e.g., '+45%', '3x faster', '2M+ users')
+         */
+        value: NonEmptyStringSchema,
+
+        /**
+         * Optional icon name for the metric
+         */
+        icon: z.string().optional(),
+      })
+    ),
 
     /**
      * Overall impact summary (supports markdown)
      */
-    impact: string;
-  };
+    impact: z.string(),
+  }),
 
   /**
    * Technology stack used in the project
    */
-  technologies: string[];
+  technologies: z.array(NonEmptyStringSchema).min(1),
 
   /**
    * Case study images
    */
-  images: {
+  images: z.object({
     /**
      * Thumbnail image for cards (recommended: 400x300)
      */
-    thumbnail: string;
+    thumbnail: z.string(),
 
     /**
      * Hero image for detail page (recommended: 1200x600)
      */
-    hero: string;
+    hero: z.string(),
 
     /**
      * Gallery images showing different aspects of the project
      */
-    gallery: string[];
+    gallery: z.array(z.string()),
 
     /**
      * Before/after comparison images (optional)
      */
-    beforeAfter?: {
-      before: string;
-      after: string;
-      caption?: string;
-    }[];
-  };
+    beforeAfter: z
+      .array(
+        z.object({
+          before: z.string(),
+          after: z.string(),
+          caption: z.string().optional(),
+        })
+      )
+      .optional(),
+  }),
 
   /**
    * Client testimonial (optional)
    */
-  testimonial?: {
-    /**
-     * Testimonial quote
-     */
-    quote: string;
+  testimonial: z
+    .object({
+      /**
+       * Testimonial quote
+       */
+      quote: NonEmptyStringSchema,
 
-    /**
-     * Author name
-     */
-    author: string;
+      /**
+       * Author name
+       */
+      author: NonEmptyStringSchema,
 
-    /**
-     * Author title/position
-     */
-    title: string;
+      /**
+       * Author title/position
+       */
+      title: z.string(),
 
-    /**
-     * Author avatar image URL (optional)
-     */
-    avatar?: string;
-  };
+      /**
+       * Author avatar image URL (optional)
+       */
+      avatar: z.string().optional(),
+    })
+    .optional(),
 
   /**
    * Lessons learned section (optional, supports markdown)
    */
-  lessonsLearned?: string;
+  lessonsLearned: z.string().optional(),
 
   /**
    * Next steps or future plans (optional, supports markdown)
    */
-  nextSteps?: string;
+  nextSteps: z.string().optional(),
 
   /**
    * Date the case study was published (ISO 8601 format)
    */
-  publishedDate: string;
+  publishedDate: IsoDateSchema,
 
   /**
    * Date the case study was last updated (ISO 8601 format, optional)
    */
-  updatedDate?: string;
+  updatedDate: IsoDateSchema.optional(),
 
   /**
    * Tags for filtering and categorization
    */
-  tags?: string[];
-}
+  tags: z.array(z.string()).optional(),
+});
+
+/**
+ * Case study model derived from {@link CaseStudySchema}
+ */
+export type CaseStudy = z.infer<typeof CaseStudySchema>;
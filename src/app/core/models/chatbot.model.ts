@@ -0,0 +1,212 @@
+import { z } from 'zod';
+
+import { NonEmptyStringSchema } from './content.schema';
+
+/**
+ * Content categories of the chatbot knowledge base
+ */
+export const CORPUS_CATEGORIES = [
+  'technical-skills',
+  'leadership',
+  'projects',
+  'education',
+  'achievements',
+  'work-history',
+] as const;
+
+/**
+ * Corpus chunk schema: one focused, self-contained passage of the career
+ * knowledge base (`corpus.json`)
+ *
+ * @example
+ * ```typescript
+ * const chunk: CorpusChunk = {
+ *   id: 1,
+ *   text: 'Jay has 5 years of experience with Angular...',
+ *   metadata: { category: 'technical-skills', topic: 'angular', source: 'resume' }
+ * };
+ * ```
+ */
+export const CorpusChunkSchema = z.object({
+  /**
+   * Unique identifier, also used by `embeddings.json`
+   */
+  id: z.number().int().nonnegative(),
+
+  /**
+   * Passage text
+   */
+  text: NonEmptyStringSchema,
+
+  /**
+   * Metadata for filtering and citations (optional)
+   */
+  metadata: z
+    .object({
+      /**
+       * Type of content
+       */
+      category: z.enum(CORPUS_CATEGORIES).optional(),
+
+      /**
+       * Subject matter, lowercase and hyphenated (e.g., 'angular', 'node-js')
+       */
+      topic: z.string().optional(),
+
+      /**
+       * Source document (e.g., 'resume', 'case-study')
+       */
+      source: z.string().optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Corpus chunk derived from {@link CorpusChunkSchema}
+ */
+export type CorpusChunk = z.infer<typeof CorpusChunkSchema>;
+
+/**
+ * Corpus content category
+ */
+export type CorpusCategory = (typeof CORPUS_CATEGORIES)[number];
+
+/**
+ * Embeddings file schema (`embeddings.json`)
+ *
+ * Vectors are packed into a single base64 string of little-endian 32-bit
+ * floats, one row of `dimensions` values per id, in the order of `ids`.
+ *
+ * @example
+ * ```typescript
+ * const file: EmbeddingsFile = {
+ *   model: 'template-hash-384',
+ *   dimensions: 384,
+ *   ids: [1, 2],
+ *   vectors: 'AAAAAAAAgD8...'
+ * };
+ * ```
+ */
+export const EmbeddingsFileSchema = z.object({
+  /**
+   * Embedding model the vectors were produced with
+   */
+  model: NonEmptyStringSchema,
+
+  /**
+   * Length of each vector
+   */
+  dimensions: z.number().int().positive(),
+
+  /**
+   * Corpus chunk id of each row
+   */
+  ids: z.array(z.number().int().nonnegative()),
+
+  /**
+   * Base64-encoded rows
+   */
+  vectors: z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, 'Must be base64'),
+});
+
+/**
+ * Embeddings file derived from {@link EmbeddingsFileSchema}
+ */
+export type EmbeddingsFile = z.infer<typeof EmbeddingsFileSchema>;
+
+/**
+ * Decoded embeddings, as cached between visits
+ */
+export interface PackedEmbeddings {
+  /** Embedding model the vectors were produced with */
+  model: string;
+  /** Length of each vector */
+  dimensions: number;
+  /** Corpus chunk id of each row */
+  ids: number[];
+  /** Rows, one after the other */
+  vectors: Float32Array;
+}
+
+/**
+ * A corpus chunk ranked against a query
+ */
+export const RetrievedChunkSchema = z.object({
+  /**
+   * The matching chunk
+   */
+  chunk: CorpusChunkSchema,
+
+  /**
+   * Relevance score (higher is better; only comparable within one query)
+   */
+  score: z.number(),
+});
+
+/**
+ * Retrieved chunk derived from {@link RetrievedChunkSchema}
+ */
+export type RetrievedChunk = z.infer<typeof RetrievedChunkSchema>;
+
+/**
+ * Authors of chat messages
+ */
+export const CHAT_ROLES = ['user', 'assistant'] as const;
+
+/**
+ * Author of a chat message
+ */
+export type ChatRole = (typeof CHAT_ROLES)[number];
+
+/**
+ * Chat message schema: a message in the chatbot conversation, validated when
+ * the conversation is restored from session storage
+ *
+ * @example
+ * ```typescript
+ * const message: ChatMessage = {
+ *   id: 'm1',
+ *   role: 'user',
+ *   text: 'What does Jay work with?',
+ *   sources: [],
+ *   streaming: false,
+ *   createdAt: '2026-10-01T12:00:00.000Z'
+ * };
+ * ```
+ */
+export const ChatMessageSchema = z.object({
+  /**
+   * Unique identifier
+   */
+  id: NonEmptyStringSchema,
+
+  /**
+   * Who wrote the message
+   */
+  role: z.enum(CHAT_ROLES),
+
+  /**
+   * Message text; grows while an answer is streaming
+   */
+  text: z.string(),
+
+  /**
+   * Chunks the answer is grounded in, in citation order (`[1]` is the first)
+   */
+  sources: z.array(RetrievedChunkSchema),
+
+  /**
+   * Whether the answer is still being written
+   */
+  streaming: z.boolean(),
+
+  /**
+   * When the message was created (ISO 8601)
+   */
+  createdAt: z.string().datetime(),
+});
+
+/**
+ * Chat message derived from {@link ChatMessageSchema}
+ */
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
@@ -1,7 +1,35 @@
+import { z } from 'zod';
+
+/**
+ * Contact form validation constraints
+ *
+ * These constants define the validation rules for the contact form.
+ */
+export const CONTACT_FORM_CONSTRAINTS = {
+  name: {
+    minLength: 2,
+    maxLength: 100,
+  },
+  email: {
+    pattern: /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/,
+  },
+  subject: {
+    minLength: 5,
+    maxLength: 200,
+  },
+  message: {
+    minLength: 10,
+    maxLength: 2000,
+  },
+  phone: {
+    pattern: /^(\+\d{1,3}[- ]?)?\(?\d{3}\)?[- ]?\d{3}[- ]?\d{4}$/,
+  },
+} as const;
+
 /**
- * Contact form model for user inquiries
+ * Contact form schema for user inquiries
  *
- * This interface represents the data structure for the contact form
+ * This schema describes the data structure for the contact form
  * on the Contact page. It includes validation requirements and metadata.
  *
  * @example
@@ -14,85 +42,79 @@
  * };
  * ```
  */
-export interface ContactForm {
+export const ContactFormSchema = z.object({
   /**
    * Sender's full name
    * Required, min length: 2, max length: 100
    */
-  name: string;
+  name: z
+    .string()
+    .trim()
+    .min(CONTACT_FORM_CONSTRAINTS.name.minLength)
+    .max(CONTACT_FORM_CONSTRAINTS.name.maxLength),
 
   /**
    * Sender's email address
    * Required, must be valid email format
    */
-  email: string;
+  email: z.string().trim().regex(CONTACT_FORM_CONSTRAINTS.email.pattern, 'Invalid email address'),
 
   /**
    * Message subject or inquiry type
    * Required, min length: 5, max length: 200
    * @example 'Project Inquiry', 'General Question', 'Collaboration Opportunity'
    */
-  subject: string;
+  subject: z
+    .string()
+    .trim()
+    .min(CONTACT_FORM_CONSTRAINTS.subject.minLength)
+    .max(CONTACT_FORM_CONSTRAINTS.subject.maxLength),
 
   /**
    * Message content
    * Required, min length: 10, max length: 2000
    */
-  message: string;
+  message: z
+    .string()
+    .trim()
+    .min(CONTACT_FORM_CONSTRAINTS.message.minLength)
+    .max(CONTACT_FORM_CONSTRAINTS.message.maxLength),
 
   /**
    * Phone number (optional)
    * Format: (123) 456-7890 or +1-123-456-7890
    */
-  phone?: string;
+  phone: z
+    .string()
+    .regex(CONTACT_FORM_CONSTRAINTS.phone.pattern, 'Invalid phone number')
+    .optional(),
 
   /**
    * Company or organization name (optional)
    */
-  company?: string;
+  company: z.string().optional(),
 
   /**
    * Preferred contact method (optional)
    */
-  preferredContactMethod?: 'email' | 'phone';
+  preferredContactMethod: z.enum(['email', 'phone']).optional(),
 
   /**
    * Timestamp when the form was submitted (set automatically)
    */
-  submittedAt?: string;
+  submittedAt: z.string().optional(),
 
   /**
    * User's consent to privacy policy
    * Required for GDPR compliance
    */
-  consentToPrivacyPolicy?: boolean;
-}
+  consentToPrivacyPolicy: z.boolean().optional(),
+});
 
 /**
- * Contact form validation constraints
- *
- * These constants define the validation rules for the contact form.
+ * Contact form model derived from {@link ContactFormSchema}
  */
-export const CONTACT_FORM_CONSTRAINTS = {
-  name: {
-    minLength: 2,
-    maxLength: 100,
-  },
-  email: {
-    pattern: /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/,
-  },
-  subject: {
-    minLength: 5,
-    maxLength: 200,
-  },
-  message: {
-    minLength: 10,
-    maxLength: 2000,
-  },
-  phone: {
-    pattern: /^(\+\d{1,3}[- ]?)?\(?\d{3}\)?[- ]?\d{3}[- ]?\d{4}$/,
-  },
-} as const;
+export type ContactForm = z.infer<typeof ContactFormSchema>;
 
 /**
  * Contact form submission status
@@ -139,3 +161,18 @@ export const CONTACT_SUBJECTS = [
  * Type-safe subject option
  */
 export type ContactSubject = (typeof CONTACT_SUBJECTS)[number];
+
+/**
+ * Receipt returned by the contact endpoint for an accepted submission
+ */
+export interface ContactSubmissionReceipt {
+  /**
+   * Identifier assigned to the submission
+   */
+  id: string;
+
+  /**
+   * Timestamp when the submission was received (ISO 8601 format)
+   */
+  submittedAt: string;
+}
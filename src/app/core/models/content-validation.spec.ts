@@ -0,0 +1,92 @@
+import { z } from 'zod';
+
+import { IsoDateSchema, SlugSchema } from './content.schema';
+import { ContentValidationError, validateContentCollection } from './content-validation';
+
+describe('validateContentCollection', () => {
+  const ItemSchema = z.object({
+    id: z.string(),
+    slug: SlugSchema,
+    date: IsoDateSchema,
+  });
+
+  const valid = { id: '1', slug: 'first-item', date: '2024-01-15' };
+
+  it('should return all records when the collection is valid', () => {
+    const result = validateContentCollection(ItemSchema, [
+      valid,
+      { ...valid, id: '2', slug: 'second' },
+    ]);
+
+    expect(result.records).toHaveLength(2);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should report a non-array payload at index -1', () => {
+    const result = validateContentCollection(ItemSchema, { items: [] });
+
+    expect(result.records).toEqual([]);
+    expect(result.issues).toEqual([
+      { index: -1, path: '', message: 'Expected an array of records' },
+    ]);
+  });
+
+  it('should drop records that fail the schema and report the field path', () => {
+    const result = validateContentCollection(ItemSchema, [
+      valid,
+      { ...valid, id: '2', slug: 'Not A Slug' },
+    ]);
+
+    expect(result.records).toEqual([valid]);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues[0]).toMatchObject({ index: 1, id: '2', path: 'slug' });
+  });
+
+  it('should reject impossible calendar dates', () => {
+    const result = validateContentCollection(ItemSchema, [{ ...valid, date: '2024-13-45' }]);
+
+    expect(result.records).toEqual([]);
+    expect(result.issues[0].path).toBe('date');
+  });
+
+  it.each(['2024-02-30', '2023-02-29', '2024-04-31', '2024-02-30T10:00:00Z'])(
+    'should reject %s, which Date.parse rolls over',
+    (date) => {
+      expect(IsoDateSchema.safeParse(date).success).toBe(false);
+    }
+  );
+
+  it.each(['2024-02-29', '2000-02-29', '2023-02-28', '2024-12-31T23:59:59Z'])(
+    'should accept %s',
+    (date) => {
+      expect(IsoDateSchema.safeParse(date).success).toBe(true);
+    }
+  );
+
+  it('should keep the first record for each unique key', () => {
+    const result = validateContentCollection(
+      ItemSchema,
+      [valid, { ...valid, id: '2' }, { ...valid, slug: 'other' }],
+      ['id', 'slug']
+    );
+
+    expect(result.records).toEqual([valid]);
+    expect(result.issues.map((issue) => issue.path)).toEqual(['slug', 'id']);
+    expect(result.issues[0].message).toBe('Duplicate slug "first-item"');
+  });
+});
+
+describe('ContentValidationError', () => {
+  it('should summarize issues in its message', () => {
+    const error = new ContentValidationError('/assets/data/items.json', [
+      { index: 2, id: 'abc', path: 'slug', message: 'Required' },
+      { index: -1, path: '', message: 'Expected an array of records' },
+    ]);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ContentValidationError');
+    expect(error.message).toBe(
+      'Invalid content in /assets/data/items.json: record abc slug: Required; payload: Expected an array of records'
+    );
+  });
+});
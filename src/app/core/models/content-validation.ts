@@ -0,0 +1,131 @@
+import type { z } from 'zod';
+
+/**
+ * A single problem found while validating a content collection
+ */
+export interface ContentValidationIssue {
+  /** Index of the offending record (-1 when the payload itself is invalid) */
+  index: number;
+  /** Record id, when one could be read */
+  id?: string;
+  /** Dot-separated path to the invalid field (empty for the whole record) */
+  path: string;
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Result of validating a content collection
+ */
+export interface ContentValidationResult<T> {
+  /** Records that passed validation, in their original order */
+  records: T[];
+  /** Problems found; empty when every record is valid */
+  issues: ContentValidationIssue[];
+}
+
+/**
+ * Error describing invalid content loaded from a data source
+ *
+ * @example
+ * ```typescript
+ * const { issues } = validateContentCollection(ProjectSchema, data);
+ * if (issues.length > 0) {
+ *   errorHandler.handleError(new ContentValidationError('/assets/data/projects.json', issues));
+ * }
+ * ```
+ */
+export class ContentValidationError extends Error {
+  constructor(
+    /** Data source the content was loaded from */
+    readonly source: string,
+    /** Problems found in the content */
+    readonly issues: ContentValidationIssue[]
+  ) {
+    super(`Invalid content in ${source}: ${issues.map(formatIssue).join('; ')}`);
+    this.name = 'ContentValidationError';
+  }
+}
+
+/**
+ * Validates a collection of content records against a zod schema
+ *
+ * Records that fail the schema, or that repeat a value of one of the
+ * `uniqueKeys` already seen, are dropped and reported as issues. A payload
+ * that is not an array yields no records and a single issue at index -1.
+ *
+ * @param schema - Schema each record must satisfy
+ * @param data - Raw payload (usually a parsed JSON response)
+ * @param uniqueKeys - Record fields that must be unique across the collection
+ * @returns Valid records and the issues found
+ *
+ * @example
+ * ```typescript
+ * const { records, issues } = validateContentCollection(ProjectSchema, data, ['id', 'slug']);
+ * ```
+ */
+export function validateContentCollection<S extends z.ZodTypeAny>(
+  schema: S,
+  data: unknown,
+  uniqueKeys: readonly (keyof z.infer<S> & string)[] = []
+): ContentValidationResult<z.infer<S>> {
+  if (!Array.isArray(data)) {
+    return {
+      records: [],
+      issues: [{ index: -1, path: '', message: 'Expected an array of records' }],
+    };
+  }
+
+  const records: z.infer<S>[] = [];
+  const issues: ContentValidationIssue[] = [];
+  const seen = new Map<string, Set<unknown>>(uniqueKeys.map((key) => [key, new Set()]));
+
+  data.forEach((item: unknown, index) => {
+    const id = readId(item);
+    const result = schema.safeParse(item);
+
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        issues.push({ index, id, path: issue.path.join('.'), message: issue.message });
+      }
+      return;
+    }
+
+    const record = result.data as Record<string, unknown>;
+    const duplicateKey = uniqueKeys.find((key) => seen.get(key)!.has(record[key]));
+    if (duplicateKey) {
+      issues.push({
+        index,
+        id,
+        path: duplicateKey,
+        message: `Duplicate ${duplicateKey} "${String(record[duplicateKey])}"`,
+      });
+      return;
+    }
+
+    uniqueKeys.forEach((key) => seen.get(key)!.add(record[key]));
+    records.push(result.data);
+  });
+
+  return { records, issues };
+}
+
+/**
+ * Reads a record id for issue reporting, if present
+ */
+function readId(item: unknown): string | undefined {
+  if (typeof item === 'object' && item !== null && 'id' in item) {
+    return String((item as { id: unknown }).id);
+  }
+  return undefined;
+}
+
+/**
+ * Formats an issue for error messages
+ */
+function formatIssue(issue: ContentValidationIssue): string {
+  const location = issue.index < 0 ? 'payload' : `record ${issue.id ?? issue.index}`;
+  return issue.path
+    ? `${location} ${issue.path}: ${issue.message}`
+    : `${location}: ${issue.message}`;
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+/**
+ * Shared zod primitives for content models
+ *
+ * Content is loaded from JSON files at runtime, so every model is described
+ * by a schema and its TypeScript type is derived with `z.infer`.
+ */
+
+/**
+ * URL-friendly slug (lowercase letters, digits and single hyphens)
+ * @example 'angular-portfolio'
+ */
+export const SlugSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Must be a lowercase, hyphen-separated slug');
+
+/**
+ * Whether an ISO 8601 string parses and names a real calendar day
+ *
+ * `Date.parse` rolls impossible days over (`2024-02-30` is March 1), so the
+ * parsed year, month and day must match the ones written.
+ */
+function isCalendarDate(value: string): boolean {
+  if (Number.isNaN(Date.parse(value))) {
+    return false;
+  }
+
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  const date = new Date(Date.UTC(2000, month - 1, day));
+  date.setUTCFullYear(year);
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  );
+}
+
+/**
+ * ISO 8601 date string that parses to a valid calendar date
+ * @example '2024-01-15', '2024-01-15T10:30:00Z'
+ */
+export const IsoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:\d{2})?)?$/, 'Must be an ISO 8601 date')
+  .refine(isCalendarDate, 'Must be a valid calendar date');
+
+/**
+ * Non-empty, trimmed text
+ */
+export const NonEmptyStringSchema = z.string().trim().min(1, 'Must not be empty');
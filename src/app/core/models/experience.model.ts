@@ -1,5 +1,9 @@
+import { z } from 'zod';
+
+import { IsoDateSchema, NonEmptyStringSchema } from './content.schema';
+
 /**
- * Experience model representing professional work experience
+ * Experience schema representing professional work experience
  *
  * Experience entries are displayed on the About page in a timeline format.
  * Each entry represents a role at a company with key achievements.
@@ -23,93 +27,107 @@
  * };
  * ```
  */
-export interface Experience {
-  /**
-   * Company or organization name
-   */
-  company: string;
-
-  /**
-   * Job title or role
-   * @example 'Senior Frontend Developer', 'Lead Software Engineer'
-   */
-  role: string;
-
-  /**
-   * Duration in human-readable format
-   * @example 'Jan 2020 - Dec 2022', 'Mar 2023 - Present'
-   */
-  duration: string;
-
-  /**
-   * Start date (ISO 8601 format) for sorting
-   */
-  startDate: string;
-
-  /**
-   * End date (ISO 8601 format, optional if current role)
-   */
-  endDate?: string;
-
-  /**
-   * Whether this is the current role
-   */
-  current?: boolean;
-
-  /**
-   * Job description (supports markdown)
-   */
-  description: string;
-
-  /**
-   * Technologies and tools used in this role
-   */
-  technologies: string[];
-
-  /**
-   * Key achievements and contributions
-   */
-  achievements: string[];
-
-  /**
-   * Company logo URL (optional)
-   */
-  logo?: string;
-
-  /**
-   * Company website URL (optional)
-   */
-  website?: string;
-
-  /**
-   * Location (optional)
-   * @example 'San Francisco, CA', 'Remote', 'New York, NY (Remote)'
-   */
-  location?: string;
-
-  /**
-   * Employment type (optional)
-   * @example 'Full-time', 'Part-time', 'Contract', 'Freelance'
-   */
-  employmentType?: 'Full-time' | 'Part-time' | 'Contract' | 'Freelance';
-
-  /**
-   * Highlights or notable projects (optional)
-   */
-  highlights?: Array<{
+export const ExperienceSchema = z
+  .object({
+    /**
+     * Company or organization name
+     */
+    company: NonEmptyStringSchema,
+
+    /**
+     * Job title or role
+     * @example 'Senior Frontend Developer', 'Lead Software Engineer'
+     */
+    role: NonEmptyStringSchema,
+
+    /**
+     * Duration in human-readable format
+     * @example 'Jan 2020 - Dec 2022', 'Mar 2023 - Present'
+     */
+    duration: z.string(),
+
+    /**
+     * Start date (ISO 8601 format) for sorting
+     */
+    startDate: IsoDateSchema,
+
+    /**
+     * End date (ISO 8601 format, optional if current role)
+     */
+    endDate: IsoDateSchema.optional(),
+
+    /**
+     * Whether this is the current role
+     */
+    current: z.boolean().optional(),
+
     /**
-     * Highlight title
+     * Job description (supports markdown)
      */
-    title: string;
+    description: z.string(),
 
     /**
-     * Highlight description
+     * Technologies and tools used in this role
      */
-    description: string;
+    technologies: z.array(z.string()),
 
     /**
-     * Link to project or case study (optional)
+     * Key achievements and contributions
      */
-    link?: string;
-  }>;
-}
+    achievements: z.array(z.string()),
+
+    /**
+     * Company logo URL (optional)
+     */
+    logo: z.string().optional(),
+
+    /**
+     * Company website URL (optional)
+     */
+    website: z.string().url().optional(),
+
+    /**
+     * Location (optional)
+     * @example 'San Francisco, CA', 'Remote', 'New York, NY (Remote)'
+     */
+    location: z.string().optional(),
+
+    /**
+     * Employment type (optional)
+     * @example 'Full-time', 'Part-time', 'Contract', 'Freelance'
+     */
+    employmentType: z.enum(['Full-time', 'Part-time', 'Contract', 'Freelance']).optional(),
+
+    /**
+     * Highlights or notable projects (optional)
+     */
+    highlights: z
+      .array(
+        z.object({
+          /**
+           * Highlight title
+           */
+          title: NonEmptyStringSchema,
+
+          /**
+           * Highlight description
+           */
+          description: z.string(),
+
+          /**
+           * Link to project or case study (optional)
+           */
+          link: z.string().optional(),
+        })
+      )
+      .optional(),
+  })
+  .refine((experience) => !experience.endDate || experience.endDate >= experience.startDate, {
+    message: 'End date must not be before start date',
+    path: ['endDate'],
+  });
+
+/**
+ * Experience model derived from {@link ExperienceSchema}
+ */
+export type Experience = z.infer<typeof ExperienceSchema>;
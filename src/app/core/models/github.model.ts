@@ -0,0 +1,179 @@
+/**
+ * GitHub user profile
+ *
+ * Mapped from the REST `users/{username}` response.
+ */
+export interface GitHubProfile {
+  /** Login name */
+  login: string;
+  /** Display name */
+  name: string | null;
+  /** Avatar image URL */
+  avatarUrl: string;
+  /** Profile page URL */
+  htmlUrl: string;
+  /** Profile bio */
+  bio: string | null;
+  /** Company */
+  company: string | null;
+  /** Location */
+  location: string | null;
+  /** Website URL */
+  blog: string | null;
+  /** Number of public repositories */
+  publicRepos: number;
+  /** Number of followers */
+  followers: number;
+  /** Number of followed users */
+  following: number;
+  /** Account creation date (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * GitHub repository summary
+ *
+ * Mapped from the REST `users/{username}/repos` response.
+ */
+export interface GitHubRepository {
+  /** Repository ID */
+  id: number;
+  /** Repository name */
+  name: string;
+  /** `owner/name` */
+  fullName: string;
+  /** Repository description */
+  description: string | null;
+  /** Repository page URL */
+  htmlUrl: string;
+  /** Project website URL */
+  homepage: string | null;
+  /** Primary language */
+  language: string | null;
+  /** Repository topics */
+  topics: string[];
+  /** Number of stargazers */
+  stars: number;
+  /** Number of forks */
+  forks: number;
+  /** Number of open issues and pull requests */
+  openIssues: number;
+  /** Whether the repository is a fork */
+  fork: boolean;
+  /** Whether the repository is archived */
+  archived: boolean;
+  /** Date of the last push (ISO 8601) */
+  pushedAt: string;
+  /** Date of the last update (ISO 8601) */
+  updatedAt: string;
+}
+
+/**
+ * Owner and name identifying a GitHub repository
+ */
+export interface GitHubRepositoryRef {
+  /** Repository owner (user or organization) */
+  owner: string;
+  /** Repository name */
+  name: string;
+}
+
+/**
+ * Contributions made on a single day
+ */
+export interface ContributionDay {
+  /** Date (YYYY-MM-DD) */
+  date: string;
+  /** Number of contributions */
+  count: number;
+}
+
+/**
+ * A week (Sunday to Saturday) of the contribution calendar
+ */
+export interface ContributionWeek {
+  /** Days of the week; the first and last weeks may be partial */
+  days: ContributionDay[];
+}
+
+/**
+ * GitHub contribution calendar
+ *
+ * Mapped from the `CONTRIBUTION_CALENDAR` GraphQL query.
+ */
+export interface ContributionCalendar {
+  /** Total contributions in the range */
+  totalContributions: number;
+  /** Weeks in chronological order */
+  weeks: ContributionWeek[];
+}
+
+/**
+ * Share of a repository's code written in one language
+ */
+export interface RepositoryLanguage {
+  /** Language name */
+  name: string;
+  /** GitHub's color for the language (hex) */
+  color: string | null;
+  /** Size of the code in bytes */
+  size: number;
+}
+
+/**
+ * Share of one language across several repositories
+ *
+ * Produced by `aggregateLanguages()` from `RepositoryStats`.
+ */
+export interface LanguageShare {
+  /** Language name (`Other` for the combined remainder) */
+  name: string;
+  /** GitHub's color for the language (hex), null when unknown */
+  color: string | null;
+  /** Size of the code in bytes */
+  size: number;
+  /** Share of all code (0-100, one decimal) */
+  percentage: number;
+  /** Number of repositories using the language */
+  repositories: number;
+}
+
+/**
+ * Statistics for a single repository
+ *
+ * Mapped from the `REPOSITORY_STATS` GraphQL query.
+ */
+export interface RepositoryStats {
+  /** Repository owner */
+  owner: string;
+  /** Repository name */
+  name: string;
+  /** Number of stargazers */
+  stars: number;
+  /** Number of forks */
+  forks: number;
+  /** Number of issues (open and closed) */
+  issues: number;
+  /** Number of pull requests (open, closed and merged) */
+  pullRequests: number;
+  /** Up to 10 languages, largest first */
+  languages: RepositoryLanguage[];
+}
+
+/**
+ * State of a GitHub API rate limit window
+ *
+ * Read from the `X-RateLimit-*` response headers.
+ */
+export interface GitHubRateLimit {
+  /** Rate limit bucket, e.g. `core` (REST) or `graphql` */
+  resource: string;
+  /** Maximum requests in the window */
+  limit: number;
+  /** Requests left in the window */
+  remaining: number;
+  /** Requests made in the window */
+  used: number;
+  /** Timestamp (ms since epoch) when the window resets */
+  resetAt: number;
+}
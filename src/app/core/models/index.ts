@@ -6,6 +6,10 @@
  * All models include comprehensive JSDoc documentation and TypeScript types.
  */
 
+// Shared content schemas and validation
+export * from './content.schema';
+export * from './content-validation';
+
 // Project models
 export * from './project.model';
 
@@ -20,3 +24,12 @@ export * from './experience.model';
 
 // Contact form models
 export * from './contact-form.model';
+
+// API response models
+export * from './api-response.model';
+
+// GitHub models
+export * from './github.model';
+
+// Chatbot models
+export * from './chatbot.model';
@@ -1,5 +1,47 @@
+import { z } from 'zod';
+
+import { IsoDateSchema, NonEmptyStringSchema, SlugSchema } from './content.schema';
+
+/**
+ * Live statistics of a project's GitHub repository
+ *
+ * Not part of the content files; merged into projects by `ProjectStore`
+ * from the repository named in `links.github`.
+ */
+export const ProjectGitHubStatsSchema = z.object({
+  /**
+   * Number of stargazers
+   */
+  stars: z.number().int().nonnegative(),
+
+  /**
+   * Number of forks
+   */
+  forks: z.number().int().nonnegative(),
+
+  /**
+   * Number of open issues and pull requests
+   */
+  openIssues: z.number().int().nonnegative(),
+
+  /**
+   * Primary language reported by GitHub (null when undetected)
+   */
+  primaryLanguage: z.string().nullable(),
+
+  /**
+   * Date of the last push (ISO 8601 format)
+   */
+  pushedAt: IsoDateSchema,
+
+  /**
+   * When the statistics were merged (ISO 8601 format)
+   */
+  syncedAt: IsoDateSchema,
+});
+
 /**
- * Project model representing a portfolio project
+ * Project schema representing a portfolio project
  *
  * Projects are displayed on the projects list page and project detail pages.
  * Each project can be marked as featured to appear on the home page.
@@ -30,120 +72,139 @@
  * };
  * ```
  */
-export interface Project {
+export const ProjectSchema = z.object({
   /**
    * Unique identifier for the project
    */
-  id: string;
+  id: NonEmptyStringSchema,
 
   /**
    * URL-friendly slug for routing (e.g., 'e-commerce-platform')
    */
-  slug: string;
+  slug: SlugSchema,
 
   /**
    * Display title of the project
    */
-  title: string;
+  title: NonEmptyStringSchema,
 
   /**
    * Detailed description of the project (supports markdown)
    */
-  description: string;
+  description: NonEmptyStringSchema,
 
   /**
    * Short description for cards and previews (1-2 sentences)
    */
-  shortDescription: string;
+  shortDescription: z.string(),
 
   /**
    * Technology stack used in the project
    */
-  technologies: string[];
+  technologies: z.array(NonEmptyStringSchema).min(1),
 
   /**
    * Project category for filtering
    * @example 'Web App', 'Mobile App', 'Library', 'Tool', 'Demo'
    */
-  category: string;
+  category: NonEmptyStringSchema,
 
   /**
    * Whether this project should be featured on the home page
    */
-  featured: boolean;
+  featured: z.boolean(),
 
   /**
    * Project images for different contexts
    */
-  images: {
+  images: z.object({
     /**
      * Thumbnail image for cards (recommended: 400x300)
      */
-    thumbnail: string;
+    thumbnail: z.string(),
 
     /**
      * Hero image for detail page (recommended: 1200x600)
      */
-    hero: string;
+    hero: z.string(),
 
     /**
      * Gallery images for detail page
      */
-    gallery: string[];
-  };
+    gallery: z.array(z.string()),
+  }),
 
   /**
    * Project links
    */
-  links: {
+  links: z.object({
     /**
      * Live demo URL (optional)
      */
-    live?: string;
+    live: z.string().url().optional(),
 
     /**
      * GitHub repository URL (optional)
      */
-    github?: string;
+    github: z.string().url().optional(),
 
     /**
      * Other relevant links (docs, blog post, etc.)
      */
-    other?: Record<string, string>;
-  };
+    other: z.record(z.string(), z.string()).optional(),
+  }),
 
   /**
    * Date the project was created (ISO 8601 format)
    */
-  createdDate: string;
+  createdDate: IsoDateSchema,
 
   /**
    * Date the project was last updated (ISO 8601 format, optional)
    */
-  updatedDate?: string;
+  updatedDate: IsoDateSchema.optional(),
 
   /**
    * GitHub stars count (optional, for popular open-source projects)
+   *
+   * Replaced by the live count when GitHub statistics are synced.
    */
-  githubStars?: number;
+  githubStars: z.number().int().nonnegative().optional(),
+
+  /**
+   * Live GitHub repository statistics (set by `ProjectStore.syncGitHubStats`)
+   */
+  githubStats: ProjectGitHubStatsSchema.optional(),
 
   /**
    * Additional metadata (optional)
    */
-  metadata?: {
-    /**
-     * Team size (e.g., 'Solo', '2-3', '4+')
-     */
-    teamSize?: string;
+  metadata: z
+    .object({
+      /**
+       * Team size (e.g., 'Solo', '2-3', '4+')
+       */
+      teamSize: z.string().optional(),
+
+      /**
+       * Project duration (e.g., '3 months', '1 year')
+       */
+      duration: z.string().optional(),
+
+      /**
+       * Current status (e.g., 'Active', 'Completed', 'Archived')
+       */
+      status: z.enum(['Active', 'Completed', 'Archived']).optional(),
+    })
+    .optional(),
+});
 
-    /**
-     * Project duration (e.g., '3 months', '1 year')
-     */
-    duration?: string;
+/**
+ * Project model derived from {@link ProjectSchema}
+ */
+export type Project = z.infer<typeof ProjectSchema>;
 
-    /**
-     * Current status (e.g., 'Active', 'Completed', 'Archived')
-     */
-    status?: 'Active' | 'Completed' | 'Archived';
-  };
-}
+/**
+ * Live GitHub statistics derived from {@link ProjectGitHubStatsSchema}
+ */
+export type ProjectGitHubStats = z.infer<typeof ProjectGitHubStatsSchema>;
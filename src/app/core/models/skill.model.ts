@@ -1,5 +1,9 @@
+import { z } from 'zod';
+
+import { NonEmptyStringSchema } from './content.schema';
+
 /**
- * Skill model representing a technical or professional skill
+ * Skill schema representing a technical or professional skill
  *
  * Skills are displayed on the About page and can be grouped by category.
  * Proficiency levels help visualize expertise.
@@ -15,49 +19,54 @@
  * };
  * ```
  */
-export interface Skill {
+export const SkillSchema = z.object({
   /**
    * Skill name
    * @example 'Angular', 'TypeScript', 'Node.js', 'Docker'
    */
-  name: string;
+  name: NonEmptyStringSchema,
 
   /**
    * Proficiency level
    */
-  proficiency: 'Beginner' | 'Intermediate' | 'Advanced' | 'Expert';
+  proficiency: z.enum(['Beginner', 'Intermediate', 'Advanced', 'Expert']),
 
   /**
    * Skill category for grouping
    * @example 'Frontend', 'Backend', 'DevOps', 'Database', 'Tools', 'Design'
    */
-  category: string;
+  category: NonEmptyStringSchema,
 
   /**
    * Years of experience with this skill
    */
-  yearsOfExperience: number;
+  yearsOfExperience: z.number().nonnegative(),
 
   /**
    * Icon name for visual representation (optional)
    * @example 'angular', 'typescript', 'nodejs'
    */
-  icon?: string;
+  icon: z.string().optional(),
 
   /**
    * Proficiency percentage (0-100) for progress bars (optional)
    * Derived from proficiency level if not provided
    */
-  proficiencyPercentage?: number;
+  proficiencyPercentage: z.number().min(0).max(100).optional(),
 
   /**
    * Additional notes or highlights (optional)
    */
-  notes?: string;
-}
+  notes: z.string().optional(),
+});
+
+/**
+ * Skill model derived from {@link SkillSchema}
+ */
+export type Skill = z.infer<typeof SkillSchema>;
 
 /**
- * Skill category grouping for organized display
+ * Skill category schema grouping for organized display
  *
  * @example
  * ```typescript
@@ -72,29 +81,34 @@ export interface Skill {
  * };
  * ```
  */
-export interface SkillCategory {
+export const SkillCategorySchema = z.object({
   /**
    * Category name
    */
-  name: string;
+  name: NonEmptyStringSchema,
 
   /**
    * Category description (optional)
    */
-  description?: string;
+  description: z.string().optional(),
 
   /**
    * Skills in this category
    */
-  skills: Skill[];
+  skills: z.array(SkillSchema),
 
   /**
    * Icon for the category (optional)
    */
-  icon?: string;
+  icon: z.string().optional(),
 
   /**
    * Display order (optional, lower numbers first)
    */
-  order?: number;
-}
+  order: z.number().int().optional(),
+});
+
+/**
+ * Skill category model derived from {@link SkillCategorySchema}
+ */
+export type SkillCategory = z.infer<typeof SkillCategorySchema>;
@@ -1,33 +1,83 @@
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
 import { TestBed } from '@angular/core/testing';
 
 import { firstValueFrom } from 'rxjs';
 
+import { MOCK_ENDPOINTS } from '@shared/constants';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+
+import contentData from '../../../assets/data/case-studies.json';
+import { ContentValidationError } from '../models/content-validation';
+
 import { CaseStudiesService } from './case-studies.service';
 
 describe('CaseStudiesService', () => {
   let service: CaseStudiesService;
+  let httpMock: HttpTestingController;
+  let errorHandler: ErrorHandlerService;
+
+  /**
+   * Responds to the pending content file request
+   */
+  function flushCaseStudies(data: object = contentData): void {
+    httpMock.expectOne(MOCK_ENDPOINTS.CASE_STUDIES).flush(data);
+  }
 
   beforeEach(() => {
     TestBed.configureTestingModule({
-      providers: [CaseStudiesService],
+      providers: [CaseStudiesService, provideHttpClient(), provideHttpClientTesting()],
     });
 
     service = TestBed.inject(CaseStudiesService);
-    vi.useFakeTimers();
+    httpMock = TestBed.inject(HttpTestingController);
+    errorHandler = TestBed.inject(ErrorHandlerService);
+    vi.spyOn(errorHandler, 'handleError').mockImplementation(() => undefined);
   });
 
   afterEach(() => {
-    vi.useRealTimers();
+    httpMock.verify();
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
 
+  describe('HTTP', () => {
+    it('should request the case studies content file with GET', async () => {
+      const promise = firstValueFrom(service.getAll());
+      const req = httpMock.expectOne(MOCK_ENDPOINTS.CASE_STUDIES);
+      expect(req.request.method).toBe('GET');
+      req.flush(contentData);
+
+      await expect(promise).resolves.toHaveLength(contentData.length);
+    });
+
+    it('should error when the payload is not an array', async () => {
+      const promise = firstValueFrom(service.getAll());
+      flushCaseStudies({ unexpected: true });
+
+      await expect(promise).rejects.toBeInstanceOf(ContentValidationError);
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        expect.any(ContentValidationError),
+        expect.objectContaining({ source: 'CaseStudiesService', severity: 'high' })
+      );
+    });
+
+    it('should propagate HTTP errors', async () => {
+      const promise = firstValueFrom(service.getAll());
+      httpMock
+        .expectOne(MOCK_ENDPOINTS.CASE_STUDIES)
+        .flush('Not found', { status: 404, statusText: 'Not Found' });
+
+      await expect(promise).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
   describe('getAll', () => {
     it('should return all case studies', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       expect(caseStudies).toBeDefined();
@@ -37,7 +87,7 @@ describe('CaseStudiesService', () => {
 
     it('should return case studies with all required fields', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       const caseStudy = caseStudies[0];
@@ -58,7 +108,7 @@ describe('CaseStudiesService', () => {
 
     it('should return case studies with valid results structure', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       const caseStudy = caseStudies[0];
@@ -70,7 +120,7 @@ describe('CaseStudiesService', () => {
 
     it('should return case studies with valid image structure', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       const caseStudy = caseStudies[0];
@@ -81,7 +131,7 @@ describe('CaseStudiesService', () => {
 
     it('should return case studies with valid technologies array', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       const caseStudy = caseStudies[0];
@@ -94,7 +144,7 @@ describe('CaseStudiesService', () => {
   describe('getBySlug', () => {
     it('should return a case study by slug', async () => {
       const promise = firstValueFrom(service.getBySlug('enterprise-dashboard-redesign'));
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudy = await promise;
 
       expect(caseStudy).toBeDefined();
@@ -104,7 +154,7 @@ describe('CaseStudiesService', () => {
 
     it('should return undefined for non-existent slug', async () => {
       const promise = firstValueFrom(service.getBySlug('non-existent-case-study'));
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudy = await promise;
 
       expect(caseStudy).toBeUndefined();
@@ -112,7 +162,7 @@ describe('CaseStudiesService', () => {
 
     it('should be case-sensitive for slug matching', async () => {
       const promise = firstValueFrom(service.getBySlug('ENTERPRISE-DASHBOARD-REDESIGN'));
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudy = await promise;
 
       expect(caseStudy).toBeUndefined();
@@ -120,7 +170,7 @@ describe('CaseStudiesService', () => {
 
     it('should return case study with all required fields', async () => {
       const promise = firstValueFrom(service.getBySlug('enterprise-dashboard-redesign'));
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudy = await promise;
 
       expect(caseStudy?.id).toBeDefined();
@@ -133,10 +183,55 @@ describe('CaseStudiesService', () => {
     });
   });
 
+  describe('Schema Validation', () => {
+    const [validRecord] = contentData;
+
+    it('should omit and report records with invalid dates', async () => {
+      const promise = firstValueFrom(service.getAll());
+      flushCaseStudies([validRecord, { ...validRecord, id: 'bad-date', slug: 'bad-date', publishedDate: 'not-a-date' }]);
+
+      const records = await promise;
+      expect(records.map((r) => r.id)).toEqual([validRecord.id]);
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        expect.any(ContentValidationError),
+        expect.objectContaining({ source: 'CaseStudiesService', showToast: false, severity: 'medium' })
+      );
+    });
+
+    it('should omit records with a missing slug', async () => {
+      const withoutSlug: Partial<typeof validRecord> = { ...validRecord, id: 'no-slug' };
+      delete withoutSlug.slug;
+      const promise = firstValueFrom(service.getAll());
+      flushCaseStudies([withoutSlug, validRecord]);
+
+      const records = await promise;
+      expect(records).toHaveLength(1);
+      expect(records[0].slug).toBe(validRecord.slug);
+    });
+
+    it('should keep the first of duplicate ids and report the rest', async () => {
+      const promise = firstValueFrom(service.getAll());
+      flushCaseStudies([validRecord, { ...validRecord, slug: 'another-slug' }]);
+
+      const records = await promise;
+      expect(records).toHaveLength(1);
+      const [error] = vi.mocked(errorHandler.handleError).mock.calls[0];
+      expect((error as ContentValidationError).issues[0]).toMatchObject({ index: 1, path: 'id' });
+    });
+
+    it('should not report anything for the shipped content file', async () => {
+      const promise = firstValueFrom(service.getAll());
+      flushCaseStudies();
+
+      await expect(promise).resolves.toHaveLength(contentData.length);
+      expect(errorHandler.handleError).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Data Validation', () => {
     it('should have unique case study IDs', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       const ids = caseStudies.map((cs) => cs.id);
@@ -146,7 +241,7 @@ describe('CaseStudiesService', () => {
 
     it('should have unique case study slugs', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       const slugs = caseStudies.map((cs) => cs.slug);
@@ -156,7 +251,7 @@ describe('CaseStudiesService', () => {
 
     it('should have valid date formats', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       caseStudies.forEach((caseStudy) => {
@@ -167,7 +262,7 @@ describe('CaseStudiesService', () => {
 
     it('should have non-empty titles', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       caseStudies.forEach((caseStudy) => {
@@ -177,7 +272,7 @@ describe('CaseStudiesService', () => {
 
     it('should have non-empty descriptions', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       caseStudies.forEach((caseStudy) => {
@@ -187,7 +282,7 @@ describe('CaseStudiesService', () => {
 
     it('should have at least one technology per case study', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       caseStudies.forEach((caseStudy) => {
@@ -197,7 +292,7 @@ describe('CaseStudiesService', () => {
 
     it('should have at least one metric in results', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       caseStudies.forEach((caseStudy) => {
@@ -207,7 +302,7 @@ describe('CaseStudiesService', () => {
 
     it('should have valid metric structure', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushCaseStudies();
       const caseStudies = await promise;
 
       const caseStudy = caseStudies[0];
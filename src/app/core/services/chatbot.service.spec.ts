@@ -0,0 +1,460 @@
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import type { Provider } from '@angular/core';
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+import { firstValueFrom, of, throwError } from 'rxjs';
+
+import { CHATBOT_CONFIG, CHATBOT_ENDPOINTS, STORAGE_KEYS } from '@shared/constants';
+import { CACHE_STORAGE_ADAPTER } from '@shared/services/cache/cache-storage.adapter';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+
+import corpus from '../../../assets/chatbot/corpus.json';
+import embeddings from '../../../assets/chatbot/embeddings.json';
+import type { ChatMessage, CorpusChunk } from '../models/chatbot.model';
+import { ContentValidationError } from '../models/content-validation';
+
+import { ChatbotService } from './chatbot.service';
+import { CorpusIndex } from './corpus-index';
+import type { LlmLoadProgress, LlmProvider, LlmStreamCallbacks } from './llm.provider';
+import { LLM_PROVIDER } from './llm.provider';
+import { NO_MATCH_ANSWER, TemplateLlmProvider } from './template-llm.provider';
+import { VectorIndexService } from './vector-index.service';
+
+describe('ChatbotService', () => {
+  let service: ChatbotService;
+  let httpMock: HttpTestingController;
+  let errorHandler: ErrorHandlerService;
+
+  const index = new CorpusIndex(corpus as CorpusChunk[]);
+
+  /** Retrieval falls back to BM25 alone, as when `embeddings.json` is unavailable */
+  const withoutEmbeddings: Provider = {
+    provide: VectorIndexService,
+    useValue: { load: () => throwError(() => new Error('No embeddings')) },
+  };
+
+  function createService(): void {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting(), withoutEmbeddings],
+    });
+    service = TestBed.inject(ChatbotService);
+    httpMock = TestBed.inject(HttpTestingController);
+    errorHandler = TestBed.inject(ErrorHandlerService);
+    vi.spyOn(errorHandler, 'handleError').mockImplementation(() => undefined);
+  }
+
+  function flushCorpus(data: object = corpus): void {
+    httpMock.expectOne(CHATBOT_ENDPOINTS.CORPUS).flush(data);
+  }
+
+  /**
+   * Advances the streaming timer until the answer is complete
+   */
+  function finishStreaming(): void {
+    while (service.responding()) {
+      vi.advanceTimersByTime(CHATBOT_CONFIG.STREAM_INTERVAL);
+    }
+  }
+
+  function lastAnswer(): ChatMessage {
+    return service.messages()[service.messages().length - 1];
+  }
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    createService();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    vi.useRealTimers();
+  });
+
+  describe('loadCorpus', () => {
+    it('should request the corpus once and share the index', async () => {
+      expect(service.status()).toBe('idle');
+
+      const first = firstValueFrom(service.loadCorpus());
+      const second = firstValueFrom(service.loadCorpus());
+      expect(service.status()).toBe('loading');
+      flushCorpus();
+
+      expect((await first).size).toBe(corpus.length);
+      expect(await second).toBe(await first);
+      expect(service.status()).toBe('ready');
+    });
+
+    it('should report and skip invalid chunks', async () => {
+      const promise = firstValueFrom(service.loadCorpus());
+      flushCorpus([...corpus, { id: 1, text: 'Duplicate id' }, { id: 999, text: '' }]);
+
+      expect((await promise).size).toBe(corpus.length);
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        expect.any(ContentValidationError),
+        expect.objectContaining({ source: 'ChatbotService', action: 'parseCorpus' })
+      );
+    });
+
+    it('should fail for a malformed payload and retry on the next call', async () => {
+      const failed = firstValueFrom(service.loadCorpus());
+      flushCorpus({ chunks: [] });
+
+      await expect(failed).rejects.toBeInstanceOf(ContentValidationError);
+      expect(service.status()).toBe('error');
+
+      const retried = firstValueFrom(service.loadCorpus());
+      flushCorpus();
+      expect((await retried).size).toBe(corpus.length);
+    });
+  });
+
+  describe('retrieve', () => {
+    it('should rank chunks against the question', async () => {
+      const promise = firstValueFrom(service.retrieve('Has Jay mentored junior developers?', 2));
+      flushCorpus();
+
+      const results = await promise;
+      expect(results).toHaveLength(2);
+      expect(results[0].chunk.metadata?.topic).toBe('mentoring');
+    });
+  });
+
+  describe('findSources', () => {
+    it('should return the best matching chunks first', () => {
+      const sources = service.findSources('Has Jay mentored junior developers?', index);
+
+      expect(sources[0].chunk.metadata?.topic).toBe('mentoring');
+      expect(sources.length).toBeLessThanOrEqual(CHATBOT_CONFIG.TOP_K);
+    });
+
+    it('should only keep chunks close to the best match', () => {
+      const sources = service.findSources('Is Jay available for hire?', index);
+
+      expect(sources).toHaveLength(1);
+      expect(sources[0].chunk.metadata?.topic).toBe('availability');
+    });
+
+    it('should return nothing when nothing matches', () => {
+      expect(service.findSources('quantum gardening', index)).toEqual([]);
+    });
+
+    it('should fall back to the previous question for follow-ups', () => {
+      const sources = service.findSources('Tell me more', index, 'What is Jay like as a leader?');
+
+      expect(sources.length).toBeGreaterThan(0);
+    });
+
+    it('should add chunks found by embedding similarity', () => {
+      const availability = index.chunks.find((chunk) => chunk.metadata?.topic === 'availability')!;
+      const lexical = service.findSources('Has Jay mentored junior developers?', index);
+      expect(lexical.map((source) => source.chunk.id)).not.toContain(availability.id);
+
+      const sources = service.findSources('Has Jay mentored junior developers?', index, undefined, [
+        { chunk: availability, score: 0.9 },
+      ]);
+
+      expect(sources.map((source) => source.chunk.metadata?.topic)).toEqual(
+        expect.arrayContaining(['mentoring', 'availability'])
+      );
+    });
+
+    it('should ignore weak embedding matches', () => {
+      const availability = index.chunks.find((chunk) => chunk.metadata?.topic === 'availability')!;
+
+      expect(
+        service.findSources('quantum gardening', index, undefined, [
+          { chunk: availability, score: CHATBOT_CONFIG.MIN_SIMILARITY / 2 },
+        ])
+      ).toEqual([]);
+    });
+  });
+
+  describe('ask', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('should add the question and stream a cited answer', () => {
+      service.ask('  Which testing tools does Jay use?  ');
+      flushCorpus();
+
+      expect(service.messages().map((message) => message.role)).toEqual(['user', 'assistant']);
+      expect(service.messages()[0].text).toBe('Which testing tools does Jay use?');
+      expect(service.responding()).toBe(true);
+
+      vi.advanceTimersByTime(CHATBOT_CONFIG.STREAM_INTERVAL);
+      const partial = lastAnswer();
+      expect(partial.streaming).toBe(true);
+      expect(partial.text.trim().split(/\s+/).length).toBeLessThanOrEqual(
+        CHATBOT_CONFIG.STREAM_WORDS_PER_TICK
+      );
+      expect(partial.sources).toEqual([]);
+
+      finishStreaming();
+      const answer = lastAnswer();
+      expect(answer.streaming).toBe(false);
+      expect(answer.text).toContain('Vitest');
+      expect(answer.sources[0].chunk.metadata?.topic).toBe('testing');
+    });
+
+    it('should say so when nothing matches', () => {
+      service.ask('quantum gardening');
+      flushCorpus();
+      finishStreaming();
+
+      expect(lastAnswer().text).toBe(NO_MATCH_ANSWER);
+      expect(lastAnswer().sources).toEqual([]);
+    });
+
+    it('should persist the finished conversation for the session', () => {
+      service.ask('Which testing tools does Jay use?');
+      flushCorpus();
+      finishStreaming();
+
+      const stored = JSON.parse(window.sessionStorage.getItem(STORAGE_KEYS.CHAT_HISTORY)!);
+      expect(stored).toEqual(service.messages());
+    });
+
+    it('should restore the conversation from the session', () => {
+      service.ask('Which testing tools does Jay use?');
+      flushCorpus();
+      finishStreaming();
+      const messages = service.messages();
+
+      TestBed.resetTestingModule();
+      createService();
+
+      expect(service.messages()).toEqual(messages);
+    });
+
+    it('should drop malformed messages restored from the session', () => {
+      const valid = {
+        id: 'm1',
+        role: 'user',
+        text: 'Which testing tools does Jay use?',
+        sources: [],
+        streaming: false,
+        createdAt: '2026-10-01T12:00:00.000Z',
+      };
+      window.sessionStorage.setItem(
+        STORAGE_KEYS.CHAT_HISTORY,
+        JSON.stringify([
+          valid,
+          null,
+          'hello',
+          { ...valid, id: 'm2', role: 'system' },
+          { ...valid, id: 'm3', sources: [{ score: 1 }] },
+          { id: 'm4', text: 'Stale shape' },
+        ])
+      );
+
+      TestBed.resetTestingModule();
+      createService();
+
+      expect(service.messages()).toEqual([valid]);
+    });
+
+    it('should start empty when the saved session is not a list', () => {
+      window.sessionStorage.setItem(STORAGE_KEYS.CHAT_HISTORY, '{"id":"m1"}');
+
+      TestBed.resetTestingModule();
+      createService();
+
+      expect(service.messages()).toEqual([]);
+    });
+
+    it('should ignore blank questions and questions while answering', () => {
+      service.ask('   ');
+      expect(service.messages()).toEqual([]);
+
+      service.ask('Which testing tools does Jay use?');
+      flushCorpus();
+      service.ask('Has Jay mentored junior developers?');
+
+      expect(service.messages()).toHaveLength(2);
+      finishStreaming();
+    });
+
+    it('should apologise when the corpus cannot be loaded', () => {
+      service.ask('Which testing tools does Jay use?');
+      httpMock
+        .expectOne(CHATBOT_ENDPOINTS.CORPUS)
+        .flush(null, { status: 404, statusText: 'Not Found' });
+
+      expect(lastAnswer().streaming).toBe(false);
+      expect(lastAnswer().text).toContain("couldn't load");
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ source: 'ChatbotService', action: 'ask' })
+      );
+    });
+  });
+
+  describe('with a custom provider', () => {
+    let llm: LlmProvider;
+
+    beforeEach(() => {
+      llm = {
+        loadProgress: signal<LlmLoadProgress>({ status: 'ready', progress: 1, text: '' }),
+        embeddingModel: 'test-embeddings',
+        load: vi.fn(() => of(undefined)),
+        generate: vi.fn((_, callbacks?: LlmStreamCallbacks) => {
+          callbacks?.onToken?.('Jay ', 'Jay ');
+          return of('Jay writes tests. [1]');
+        }),
+        embed: vi.fn(() => of([])),
+      };
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          provideHttpClient(),
+          provideHttpClientTesting(),
+          withoutEmbeddings,
+          { provide: LLM_PROVIDER, useValue: llm },
+        ],
+      });
+      service = TestBed.inject(ChatbotService);
+      httpMock = TestBed.inject(HttpTestingController);
+    });
+
+    it('should ask the provider with the sources and earlier messages', () => {
+      service.ask('Which testing tools does Jay use?');
+      flushCorpus();
+      const [first] = service.messages();
+      service.ask('Tell me more');
+
+      expect(llm.load).toHaveBeenCalled();
+      expect(llm.generate).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          question: 'Tell me more',
+          history: [first, expect.objectContaining({ role: 'assistant', streaming: false })],
+        }),
+        expect.any(Object)
+      );
+      const [request] = vi.mocked(llm.generate).mock.calls[0];
+      expect(request.sources[0].chunk.metadata?.topic).toBe('testing');
+      expect(lastAnswer()).toEqual(
+        expect.objectContaining({
+          text: 'Jay writes tests. [1]',
+          sources: request.sources,
+          streaming: false,
+        })
+      );
+    });
+
+    it('should expose the model loading state', () => {
+      expect(service.modelProgress()).toEqual({ status: 'ready', progress: 1, text: '' });
+    });
+  });
+
+  describe('with embeddings', () => {
+    let vectors: VectorIndexService;
+
+    function createHybridService(providers: Provider[] = []): void {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          provideHttpClient(),
+          provideHttpClientTesting(),
+          { provide: CACHE_STORAGE_ADAPTER, useValue: null },
+          ...providers,
+        ],
+      });
+      service = TestBed.inject(ChatbotService);
+      vectors = TestBed.inject(VectorIndexService);
+      httpMock = TestBed.inject(HttpTestingController);
+      vi.spyOn(vectors, 'search');
+    }
+
+    /**
+     * Answers the embeddings request once the cache has been checked
+     */
+    async function flushEmbeddings(): Promise<void> {
+      const request = await vi.waitFor(() => httpMock.expectOne(CHATBOT_ENDPOINTS.EMBEDDINGS));
+      request.flush(embeddings);
+    }
+
+    it('should rank with BM25 and embedding similarity when the models match', async () => {
+      createHybridService();
+
+      const promise = firstValueFrom(service.retrieve('Has Jay mentored junior developers?', 2));
+      flushCorpus();
+      await flushEmbeddings();
+
+      const results = await promise;
+      expect(vectors.search).toHaveBeenCalledWith(
+        'Has Jay mentored junior developers?',
+        expect.any(CorpusIndex),
+        expect.anything()
+      );
+      expect(results).toHaveLength(2);
+      expect(results[0].chunk.metadata?.topic).toBe('mentoring');
+    });
+
+    it('should cite embedding matches in answers', async () => {
+      createHybridService();
+      vi.useFakeTimers();
+
+      service.ask('Which testing tools does Jay use?');
+      flushCorpus();
+      await flushEmbeddings();
+      while (service.responding()) {
+        await vi.advanceTimersByTimeAsync(CHATBOT_CONFIG.STREAM_INTERVAL);
+      }
+
+      expect(vectors.search).toHaveBeenCalledTimes(1);
+      expect(lastAnswer().sources[0].chunk.metadata?.topic).toBe('testing');
+    });
+
+    it('should rank with BM25 alone when the provider embeds with another model', async () => {
+      createHybridService([
+        {
+          provide: LLM_PROVIDER,
+          useValue: Object.assign(new TemplateLlmProvider(), { embeddingModel: 'other-model' }),
+        },
+      ]);
+
+      const promise = firstValueFrom(service.retrieve('Has Jay mentored junior developers?', 2));
+      flushCorpus();
+      await flushEmbeddings();
+
+      const results = await promise;
+      expect(vectors.search).not.toHaveBeenCalled();
+      expect(results.map((result) => result.chunk)).toEqual(
+        index.search('Has Jay mentored junior developers?', { limit: 2 }).map((result) => result.chunk)
+      );
+    });
+  });
+
+  describe('stop and clear', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('should stop streaming and keep the partial answer', () => {
+      service.ask('Which testing tools does Jay use?');
+      flushCorpus();
+      vi.advanceTimersByTime(CHATBOT_CONFIG.STREAM_INTERVAL * 2);
+      const partial = lastAnswer().text;
+
+      service.stop();
+      vi.advanceTimersByTime(CHATBOT_CONFIG.STREAM_INTERVAL * 10);
+
+      expect(service.responding()).toBe(false);
+      expect(lastAnswer().text).toBe(partial);
+    });
+
+    it('should clear the conversation and its stored copy', () => {
+      service.ask('Which testing tools does Jay use?');
+      flushCorpus();
+      finishStreaming();
+
+      service.clear();
+
+      expect(service.messages()).toEqual([]);
+      expect(JSON.parse(window.sessionStorage.getItem(STORAGE_KEYS.CHAT_HISTORY)!)).toEqual([]);
+    });
+  });
+});
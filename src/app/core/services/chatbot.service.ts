@@ -0,0 +1,388 @@
+import { HttpClient } from '@angular/common/http';
+import { computed, inject, Injectable, signal } from '@angular/core';
+
+import type { Observable, Subscription } from 'rxjs';
+import { catchError, forkJoin, map, of, shareReplay, switchMap, tap } from 'rxjs';
+
+import {
+  CACHE_CONFIG,
+  CACHE_TAGS,
+  CHATBOT_CONFIG,
+  CHATBOT_ENDPOINTS,
+  STORAGE_KEYS,
+} from '@shared/constants';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+
+import { withCache } from '../interceptors/cache.interceptor';
+import type { ChatMessage, ChatRole, RetrievedChunk } from '../models/chatbot.model';
+import { ChatMessageSchema, CorpusChunkSchema } from '../models/chatbot.model';
+import { ContentValidationError, validateContentCollection } from '../models/content-validation';
+
+import { CorpusIndex } from './corpus-index';
+import { LLM_PROVIDER } from './llm.provider';
+import { VectorIndexService } from './vector-index.service';
+
+/**
+ * Loading state of the knowledge base
+ */
+export type ChatbotStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/** Answer when the knowledge base fails to load */
+const LOAD_ERROR_ANSWER = "Sorry, I couldn't load Jay's career notes. Please try again.";
+
+/**
+ * Client-side career chatbot
+ *
+ * Answers questions about Jay's career from the `corpus.json` knowledge base:
+ * - Chunks are ranked with BM25 ({@link CorpusIndex}), combined with cosine
+ *   similarity over `embeddings.json` ({@link VectorIndexService}) when the
+ *   `LLM_PROVIDER` embeds with the model the file was produced with
+ * - The best chunks are handed to the `LLM_PROVIDER`, which streams an
+ *   answer citing them with `[n]` markers; the default provider quotes them
+ *   without any model or network call
+ * - A short follow-up that matches nothing is retried together with the
+ *   previous question
+ *
+ * The conversation is kept in session storage, so it survives navigation
+ * and reloads but not closing the tab.
+ *
+ * @example
+ * ```typescript
+ * export class ChatComponent {
+ *   readonly chatbot = inject(ChatbotService);
+ *
+ *   send(question: string) {
+ *     this.chatbot.ask(question);
+ *   }
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ChatbotService {
+  private readonly http = inject(HttpClient);
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly llm = inject(LLM_PROVIDER);
+  private readonly vectors = inject(VectorIndexService);
+
+  private readonly _messages = signal<ChatMessage[]>(this.restoreHistory());
+  private readonly _status = signal<ChatbotStatus>('idle');
+
+  private index$?: Observable<CorpusIndex>;
+  private reply?: Subscription;
+  private idCounter = 0;
+
+  /**
+   * Conversation, oldest first
+   */
+  readonly messages = this._messages.asReadonly();
+
+  /**
+   * Loading state of the knowledge base
+   */
+  readonly status = this._status.asReadonly();
+
+  /**
+   * Whether an answer is being written
+   */
+  readonly responding = computed(() => this._messages().some((message) => message.streaming));
+
+  /**
+   * Loading state of the language model
+   */
+  readonly modelProgress = this.llm.loadProgress;
+
+  /**
+   * Loads and indexes the knowledge base
+   *
+   * The corpus is requested once and shared; a failed load is retried by the
+   * next call. Invalid chunks are reported and skipped.
+   *
+   * @returns Observable of the index
+   */
+  loadCorpus(): Observable<CorpusIndex> {
+    if (!this.index$) {
+      this._status.set('loading');
+      this.index$ = this.http
+        .get<unknown>(CHATBOT_ENDPOINTS.CORPUS, {
+          context: withCache({
+            ttl: CACHE_CONFIG.STATIC_CONTENT_TTL,
+            tags: [CACHE_TAGS.CONTENT],
+          }),
+        })
+        .pipe(
+          map((data) => new CorpusIndex(this.parseCorpus(data))),
+          tap({
+            next: () => this._status.set('ready'),
+            error: () => {
+              this._status.set('error');
+              this.index$ = undefined;
+            },
+          }),
+          shareReplay({ bufferSize: 1, refCount: false })
+        );
+    }
+    return this.index$;
+  }
+
+  /**
+   * Ranks knowledge base chunks against a question
+   *
+   * @param question - Free-text question
+   * @param limit - Maximum number of chunks
+   * @returns Observable of the matching chunks, best first
+   */
+  retrieve(question: string, limit: number = CHATBOT_CONFIG.TOP_K): Observable<RetrievedChunk[]> {
+    return this.loadCorpus().pipe(
+      switchMap((index) =>
+        this.searchVectors(question, index).pipe(
+          map((semantic) => this.combine(index.search(question, { limit }), semantic).slice(0, limit))
+        )
+      )
+    );
+  }
+
+  /**
+   * Asks a question
+   *
+   * Adds the question and a streaming answer to the conversation. Sources
+   * are attached once the answer is complete, so citations never point past
+   * the visible text. Ignored while another answer is being written or when
+   * the question is blank.
+   *
+   * @param question - The visitor's question
+   */
+  ask(question: string): void {
+    const text = question.trim();
+    if (!text || this.responding()) {
+      return;
+    }
+
+    const history = this._messages();
+    const previous = this.lastQuestion();
+    const answer = this.createMessage('assistant', '', true);
+    this._messages.update((messages) => [
+      ...messages,
+      this.createMessage('user', text, false),
+      answer,
+    ]);
+
+    this.reply = forkJoin([this.loadCorpus(), this.llm.load()])
+      .pipe(
+        switchMap(([index]) =>
+          this.searchVectors(text, index).pipe(
+            map((semantic) => this.findSources(text, index, previous, semantic))
+          )
+        ),
+        switchMap((sources) =>
+          this.llm
+            .generate(
+              { question: text, sources, history },
+              { onToken: (_, partial) => this.updateMessage(answer.id, { text: partial }) }
+            )
+            .pipe(map((completed) => ({ text: completed, sources })))
+        )
+      )
+      .subscribe({
+        next: (changes) => this.updateMessage(answer.id, changes),
+        complete: () => this.finish(answer.id),
+        error: (error: unknown) => {
+          this.errorHandler.handleError(error, {
+            source: 'ChatbotService',
+            action: 'ask',
+            showToast: false,
+            severity: 'medium',
+          });
+          this.updateMessage(answer.id, { text: LOAD_ERROR_ANSWER });
+          this.finish(answer.id);
+        },
+      });
+  }
+
+  /**
+   * Stops the answer being written, keeping what was shown so far
+   */
+  stop(): void {
+    const streaming = this._messages().find((message) => message.streaming);
+    this.reply?.unsubscribe();
+    if (streaming) {
+      this.finish(streaming.id);
+    }
+  }
+
+  /**
+   * Clears the conversation
+   */
+  clear(): void {
+    this.reply?.unsubscribe();
+    this._messages.set([]);
+    this.saveHistory();
+  }
+
+  /**
+   * Picks the chunks an answer is grounded in
+   *
+   * Chunks scoring below `CHATBOT_CONFIG.MIN_RELATIVE_SCORE` of the best
+   * match are dropped, so weak matches are not cited.
+   *
+   * @param question - The visitor's question
+   * @param index - Knowledge base index
+   * @param previous - Previous question, used when `question` alone matches nothing
+   * @param semantic - Chunks ranked by embedding similarity to `question`
+   * @returns Cited chunks, best first; empty when nothing matches
+   */
+  findSources(
+    question: string,
+    index: CorpusIndex,
+    previous?: string,
+    semantic: RetrievedChunk[] = []
+  ): RetrievedChunk[] {
+    let lexical = index.search(question, { limit: CHATBOT_CONFIG.TOP_K });
+    if (lexical.length === 0 && previous) {
+      lexical = index.search(`${previous} ${question}`, { limit: CHATBOT_CONFIG.TOP_K });
+    }
+    const results = this.combine(lexical, semantic).slice(0, CHATBOT_CONFIG.TOP_K);
+    if (results.length === 0) {
+      return [];
+    }
+
+    const threshold = results[0].score * CHATBOT_CONFIG.MIN_RELATIVE_SCORE;
+    return results.filter((result) => result.score >= threshold);
+  }
+
+  /**
+   * Ranks chunks by embedding similarity, or finds none when the provider
+   * embeds with another model than `embeddings.json` or the file is unavailable
+   */
+  private searchVectors(question: string, index: CorpusIndex): Observable<RetrievedChunk[]> {
+    return this.vectors.load(index).pipe(
+      switchMap((vectors) =>
+        vectors.model === this.llm.embeddingModel
+          ? this.vectors.search(question, index, { limit: CHATBOT_CONFIG.TOP_K })
+          : of([])
+      ),
+      catchError(() => of([]))
+    );
+  }
+
+  /**
+   * Merges BM25 and embedding rankings
+   *
+   * BM25 scores are scaled to the best match and weighted against cosine
+   * similarity by `CHATBOT_CONFIG.SEMANTIC_WEIGHT`; embedding matches below
+   * `CHATBOT_CONFIG.MIN_SIMILARITY` are ignored.
+   *
+   * @returns Chunks found by either ranking, best first
+   */
+  private combine(lexical: RetrievedChunk[], semantic: RetrievedChunk[]): RetrievedChunk[] {
+    const weight = CHATBOT_CONFIG.SEMANTIC_WEIGHT;
+    const best = lexical[0]?.score ?? 0;
+    const combined = new Map<number, RetrievedChunk>();
+
+    lexical.forEach(({ chunk, score }) =>
+      combined.set(chunk.id, { chunk, score: best > 0 ? ((1 - weight) * score) / best : 0 })
+    );
+    semantic
+      .filter(({ score }) => score >= CHATBOT_CONFIG.MIN_SIMILARITY)
+      .forEach(({ chunk, score }) =>
+        combined.set(chunk.id, {
+          chunk,
+          score: (combined.get(chunk.id)?.score ?? 0) + weight * score,
+        })
+      );
+
+    return [...combined.values()].sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Text of the most recent question
+   */
+  private lastQuestion(): string | undefined {
+    return [...this._messages()].reverse().find((message) => message.role === 'user')?.text;
+  }
+
+  /**
+   * Marks an answer as complete and persists the conversation
+   */
+  private finish(id: string): void {
+    this.updateMessage(id, { streaming: false });
+    this._messages.update((messages) => messages.slice(-CHATBOT_CONFIG.MAX_HISTORY));
+    this.saveHistory();
+  }
+
+  private updateMessage(id: string, changes: Partial<ChatMessage>): void {
+    this._messages.update((messages) =>
+      messages.map((message) => (message.id === id ? { ...message, ...changes } : message))
+    );
+  }
+
+  private createMessage(role: ChatRole, text: string, streaming: boolean): ChatMessage {
+    return {
+      id: `chat-${Date.now()}-${++this.idCounter}`,
+      role,
+      text,
+      sources: [],
+      streaming,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Validates the raw corpus payload against {@link CorpusChunkSchema}
+   *
+   * @throws ContentValidationError if the payload is not an array of chunks
+   */
+  private parseCorpus(data: unknown) {
+    const { records, issues } = validateContentCollection(CorpusChunkSchema, data, ['id']);
+
+    if (issues.length > 0) {
+      const error = new ContentValidationError(CHATBOT_ENDPOINTS.CORPUS, issues);
+      this.errorHandler.handleError(error, {
+        source: 'ChatbotService',
+        action: 'parseCorpus',
+        showToast: false,
+        severity: Array.isArray(data) ? 'medium' : 'high',
+        data: { issues },
+      });
+
+      if (!Array.isArray(data)) {
+        throw error;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Reads the saved conversation, dropping messages that are malformed or
+   * were saved in an older shape
+   */
+  private restoreHistory(): ChatMessage[] {
+    try {
+      if (typeof window === 'undefined') return [];
+      const raw = window.sessionStorage.getItem(STORAGE_KEYS.CHAT_HISTORY);
+      const messages: unknown = raw ? JSON.parse(raw) : [];
+      if (!Array.isArray(messages)) return [];
+
+      return messages.flatMap((message: unknown) => {
+        const result = ChatMessageSchema.safeParse(message);
+        return result.success ? [result.data] : [];
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  private saveHistory(): void {
+    try {
+      if (typeof window === 'undefined') return;
+      window.sessionStorage.setItem(
+        STORAGE_KEYS.CHAT_HISTORY,
+        JSON.stringify(this._messages().filter((message) => !message.streaming))
+      );
+    } catch {
+      // Storage full or unavailable; the conversation stays in memory
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import corpus from '../../../assets/chatbot/corpus.json';
+import type { CorpusChunk } from '../models/chatbot.model';
+
+import { CorpusIndex } from './corpus-index';
+
+describe('CorpusIndex', () => {
+  const chunks = corpus as CorpusChunk[];
+  const index = new CorpusIndex(chunks);
+
+  it('should index every chunk', () => {
+    expect(index.size).toBe(chunks.length);
+    expect(index.chunks).toEqual(chunks);
+  });
+
+  it.each([
+    ['How long has Jay worked with Angular?', 'angular'],
+    ['Which testing tools does Jay use?', 'testing'],
+    ['Has Jay mentored junior developers?', 'mentoring'],
+    ['Where did Jay build a real-time collaboration platform?', 'collaboration-platform'],
+  ])('should rank the most relevant chunk first for "%s"', (query, topic) => {
+    const [best] = index.search(query);
+
+    expect(best.chunk.metadata?.topic).toBe(topic);
+  });
+
+  it('should match chunks by their topic', () => {
+    const results = index.search('leadership');
+
+    expect(results.map((result) => result.chunk.metadata?.category)).toContain('leadership');
+  });
+
+  it('should order results by descending score and respect the limit', () => {
+    const results = index.search('Angular TypeScript testing', { limit: 4 });
+
+    expect(results).toHaveLength(4);
+    expect(results.map((result) => result.score)).toEqual(
+      [...results.map((result) => result.score)].sort((a, b) => b - a)
+    );
+  });
+
+  it('should filter by category', () => {
+    const results = index.search('Angular', { category: 'projects' });
+
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every((result) => result.chunk.metadata?.category === 'projects')).toBe(true);
+  });
+
+  it('should return nothing for unrelated or empty queries', () => {
+    expect(index.search('quantum gardening')).toEqual([]);
+    expect(index.search('what is the')).toEqual([]);
+    expect(new CorpusIndex([]).search('Angular')).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { tokenize } from '@shared/utilities/text/text.utils';
+
+import type { CorpusCategory, CorpusChunk, RetrievedChunk } from '../models/chatbot.model';
+
+/**
+ * Options for {@link CorpusIndex.search}
+ */
+export interface CorpusSearchOptions {
+  /** Maximum number of results */
+  limit?: number;
+  /** Only return chunks of this category */
+  category?: CorpusCategory;
+}
+
+/** BM25 term frequency saturation */
+const K1 = 1.2;
+
+/** BM25 document length normalization */
+const B = 0.75;
+
+/**
+ * Indexed chunk
+ */
+interface IndexedChunk {
+  chunk: CorpusChunk;
+  terms: Map<string, number>;
+  length: number;
+}
+
+/**
+ * In-memory BM25 index over the chatbot corpus
+ *
+ * Ranks chunks against free-text questions without a network or model. A
+ * chunk's metadata topic is indexed with its text at double weight, so a
+ * question about "mentoring" favours the chunk filed under that topic.
+ *
+ * @example
+ * ```typescript
+ * const index = new CorpusIndex(chunks);
+ * const [best] = index.search('Angular experience', { limit: 3 });
+ * ```
+ */
+export class CorpusIndex {
+  private readonly documents: IndexedChunk[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(chunks: readonly CorpusChunk[]) {
+    this.documents = chunks.map((chunk) => {
+      const topic = chunk.metadata?.topic ?? '';
+      const tokens = tokenize(`${chunk.text} ${topic} ${topic}`);
+      const terms = new Map<string, number>();
+      tokens.forEach((term) => terms.set(term, (terms.get(term) ?? 0) + 1));
+      terms.forEach((_, term) =>
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1)
+      );
+      return { chunk, terms, length: tokens.length };
+    });
+
+    const totalLength = this.documents.reduce((sum, document) => sum + document.length, 0);
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0;
+  }
+
+  /**
+   * Number of indexed chunks
+   */
+  get size(): number {
+    return this.documents.length;
+  }
+
+  /**
+   * Indexed chunks, in corpus order
+   */
+  get chunks(): CorpusChunk[] {
+    return this.documents.map((document) => document.chunk);
+  }
+
+  /**
+   * Ranks chunks against a query
+   *
+   * @param query - Free-text question
+   * @param options - Result limit and category filter
+   * @returns Matching chunks, best first; chunks sharing no term with the
+   * query are omitted
+   */
+  search(query: string, options: CorpusSearchOptions = {}): RetrievedChunk[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const { limit = Infinity, category } = options;
+
+    return this.documents
+      .filter((document) => !category || document.chunk.metadata?.category === category)
+      .map((document) => ({ chunk: document.chunk, score: this.score(document, queryTerms) }))
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.chunk.id - b.chunk.id)
+      .slice(0, limit);
+  }
+
+  /**
+   * BM25 score of a chunk for the query terms
+   */
+  private score(document: IndexedChunk, queryTerms: string[]): number {
+    const count = this.documents.length;
+    const lengthRatio = this.averageLength > 0 ? document.length / this.averageLength : 0;
+
+    return queryTerms.reduce((score, term) => {
+      const frequency = document.terms.get(term) ?? 0;
+      if (frequency === 0) {
+        return score;
+      }
+      const df = this.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+      return score + (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+    }, 0);
+  }
+}
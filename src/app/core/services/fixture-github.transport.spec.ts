@@ -0,0 +1,98 @@
+import { HttpErrorResponse, provideHttpClient } from '@angular/common/http';
+import { TestBed } from '@angular/core/testing';
+
+import { firstValueFrom } from 'rxjs';
+
+import { CACHE_STORAGE_ADAPTER } from '@shared/services/cache/cache-storage.adapter';
+import { FakeCacheStorageAdapter } from '@shared/services/cache/fake-cache-storage.adapter';
+import { environment } from '@environments/environment';
+
+import { ENVIRONMENT_GITHUB } from '../config/environment.tokens';
+
+import calendarSnapshot from './fixtures/github-snapshot/contribution-calendar.json';
+import profileSnapshot from './fixtures/github-snapshot/profile.json';
+import reposSnapshot from './fixtures/github-snapshot/repos.json';
+import { FixtureGitHubTransport } from './fixture-github.transport';
+import { GitHubGraphQLError, GitHubService, provideGitHubConfig } from './github.service';
+import { GITHUB_TRANSPORT, HttpGitHubTransport, provideGitHubFixtures } from './github.transport';
+
+describe('FixtureGitHubTransport', () => {
+  let service: GitHubService;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideGitHubFixtures(),
+        provideGitHubConfig({ username: 'moodyjw', apiToken: '' }),
+        { provide: CACHE_STORAGE_ADAPTER, useValue: new FakeCacheStorageAdapter() },
+      ],
+    });
+    service = TestBed.inject(GitHubService);
+  });
+
+  it('should serve the recorded profile, matching the login case-insensitively', async () => {
+    const profile = await firstValueFrom(service.getProfile());
+
+    expect(profile.login).toBe(profileSnapshot.login);
+    expect(profile.publicRepos).toBe(profileSnapshot.public_repos);
+  });
+
+  it('should serve the recorded repositories', async () => {
+    const repos = await firstValueFrom(service.getRepositories());
+
+    expect(repos.map((repo) => repo.fullName)).toEqual(reposSnapshot.map((repo) => repo.full_name));
+  });
+
+  it('should serve the recorded calendar for any range', async () => {
+    const calendar = await firstValueFrom(
+      service.getContributionCalendar({ from: new Date('2020-01-01'), to: new Date('2020-02-01') })
+    );
+
+    expect(calendar.totalContributions).toBe(
+      calendarSnapshot.data.user.contributionsCollection.contributionCalendar.totalContributions
+    );
+    expect(calendar.weeks.length).toBeGreaterThan(50);
+  });
+
+  it('should serve recorded repository statistics', async () => {
+    const stats = await firstValueFrom(service.getRepositoryStats('moodyjw', 'Portfolio'));
+
+    expect(stats.stars).toBeGreaterThan(0);
+    expect(stats.languages[0].name).toBe('TypeScript');
+  });
+
+  it('should answer unknown users and repositories like GitHub', async () => {
+    const profile = firstValueFrom(service.getProfile('octocat'));
+    await expect(profile).rejects.toBeInstanceOf(HttpErrorResponse);
+    await expect(profile).rejects.toMatchObject({ status: 404 });
+
+    await expect(
+      firstValueFrom(service.getContributionCalendar({ username: 'octocat' }))
+    ).rejects.toBeInstanceOf(GitHubGraphQLError);
+    await expect(
+      firstValueFrom(service.getRepositoryStats('MoodyJW', 'missing'))
+    ).rejects.toBeInstanceOf(GitHubGraphQLError);
+  });
+});
+
+describe('GITHUB_TRANSPORT', () => {
+  function injectTransport(useFixtures: boolean): unknown {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        { provide: ENVIRONMENT_GITHUB, useValue: { ...environment.github, useFixtures } },
+      ],
+    });
+    return TestBed.inject(GITHUB_TRANSPORT);
+  }
+
+  it('should use the fixtures when the environment asks for them', () => {
+    expect(injectTransport(true)).toBeInstanceOf(FixtureGitHubTransport);
+  });
+
+  it('should use HttpClient otherwise', () => {
+    expect(injectTransport(false)).toBeInstanceOf(HttpGitHubTransport);
+  });
+});
@@ -0,0 +1,120 @@
+import { HttpErrorResponse, HttpResponse, HttpStatusCode } from '@angular/common/http';
+
+import type { Observable } from 'rxjs';
+import { defer, map } from 'rxjs';
+
+import { API_CONFIG, GITHUB_ENDPOINTS } from '@shared/constants';
+
+import type { GitHubRequest, GitHubTransport } from './github.transport';
+
+/**
+ * Recorded GitHub API responses
+ *
+ * Refreshed from the live API with `npm run github:fixtures`.
+ */
+interface GitHubSnapshot {
+  /** REST `users/{username}` response */
+  profile: { login: string };
+  /** REST `users/{username}/repos` response */
+  repos: unknown[];
+  /** GraphQL response to `CONTRIBUTION_CALENDAR` */
+  calendar: unknown;
+  /** GraphQL responses to `REPOSITORY_STATS`, keyed by `owner/name` */
+  stats: Record<string, unknown>;
+}
+
+/**
+ * Loads the snapshot files; they are split into a separate chunk that is
+ * only fetched when the fixture transport is used
+ */
+async function loadSnapshot(): Promise<GitHubSnapshot> {
+  const [profile, repos, calendar, stats] = await Promise.all([
+    import('./fixtures/github-snapshot/profile.json'),
+    import('./fixtures/github-snapshot/repos.json'),
+    import('./fixtures/github-snapshot/contribution-calendar.json'),
+    import('./fixtures/github-snapshot/repository-stats.json'),
+  ]);
+
+  return {
+    profile: profile.default,
+    repos: repos.default,
+    calendar: calendar.default,
+    stats: stats.default,
+  };
+}
+
+/**
+ * Transport that answers GitHub requests from recorded JSON snapshots
+ * without touching the network
+ *
+ * Serves the profile and repositories of the recorded user, its contribution
+ * calendar (whatever range is requested) and the statistics of the recorded
+ * repositories. Owners and names match case-insensitively. Other users get a
+ * 404 from the REST API and a `null` result from GraphQL, like GitHub.
+ *
+ * Used when `useFixtures` of `ENVIRONMENT_GITHUB` is on, or through
+ * `provideGitHubFixtures()`.
+ */
+export class FixtureGitHubTransport implements GitHubTransport {
+  private snapshot: Promise<GitHubSnapshot> | null = null;
+
+  send<T>(request: GitHubRequest): Observable<HttpResponse<T>> {
+    return defer(() => (this.snapshot ??= loadSnapshot())).pipe(
+      map((snapshot) => {
+        const body = resolveRequest(snapshot, request);
+
+        if (body === undefined) {
+          throw new HttpErrorResponse({
+            status: HttpStatusCode.NotFound,
+            statusText: 'Not Found',
+            url: request.url,
+            error: { message: 'Not Found' },
+          });
+        }
+
+        return new HttpResponse<T>({
+          status: HttpStatusCode.Ok,
+          statusText: 'OK',
+          url: request.url,
+          body: body as T,
+        });
+      })
+    );
+  }
+}
+
+/**
+ * Picks the recorded response to a request
+ *
+ * @returns The response body, or undefined when the endpoint is not recorded
+ */
+function resolveRequest(snapshot: GitHubSnapshot, request: GitHubRequest): unknown {
+  const login = snapshot.profile.login.toLowerCase();
+
+  if (request.method === 'POST' && request.url === API_CONFIG.GITHUB_GRAPHQL) {
+    const { variables = {} } = (request.body ?? {}) as { variables?: Record<string, string> };
+
+    if (variables['owner'] && variables['name']) {
+      const key = `${variables['owner']}/${variables['name']}`.toLowerCase();
+      const match = Object.keys(snapshot.stats).find((name) => name.toLowerCase() === key);
+      return match ? snapshot.stats[match] : { data: { repository: null } };
+    }
+
+    return variables['username']?.toLowerCase() === login
+      ? snapshot.calendar
+      : { data: { user: null } };
+  }
+
+  if (request.method === 'GET') {
+    const url = request.url.toLowerCase();
+
+    if (url === GITHUB_ENDPOINTS.USER_PROFILE(login).toLowerCase()) {
+      return snapshot.profile;
+    }
+    if (url === GITHUB_ENDPOINTS.USER_REPOS(login).toLowerCase()) {
+      return snapshot.repos;
+    }
+  }
+
+  return undefined;
+}
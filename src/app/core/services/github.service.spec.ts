@@ -0,0 +1,452 @@
+import { provideHttpClient } from '@angular/common/http';
+import type { TestRequest } from '@angular/common/http/testing';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { firstValueFrom } from 'rxjs';
+
+import {
+  API_CONFIG,
+  CACHE_TAGS,
+  GITHUB_ENDPOINTS,
+  GITHUB_GRAPHQL_QUERIES,
+} from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
+import { CACHE_STORAGE_ADAPTER } from '@shared/services/cache/cache-storage.adapter';
+import { FakeCacheStorageAdapter } from '@shared/services/cache/fake-cache-storage.adapter';
+
+import { ENVIRONMENT_GITHUB } from '../config/environment.tokens';
+import type { RepositoryStats } from '../models/github.model';
+
+import calendarFixture from './fixtures/github-snapshot/contribution-calendar.json';
+import profileFixture from './fixtures/github-snapshot/profile.json';
+import reposFixture from './fixtures/github-snapshot/repos.json';
+import statsSnapshot from './fixtures/github-snapshot/repository-stats.json';
+import {
+  aggregateLanguages,
+  GitHubGraphQLError,
+  GitHubRateLimitError,
+  GitHubService,
+  parseGitHubRepositoryUrl,
+  provideGitHubConfig,
+} from './github.service';
+import { GITHUB_TRANSPORT, HttpGitHubTransport } from './github.transport';
+
+describe('parseGitHubRepositoryUrl', () => {
+  it('should parse owner and name', () => {
+    expect(parseGitHubRepositoryUrl('https://github.com/MoodyJW/portfolio')).toEqual({
+      owner: 'MoodyJW',
+      name: 'portfolio',
+    });
+  });
+
+  it('should ignore extra segments, .git and trailing slashes', () => {
+    expect(parseGitHubRepositoryUrl('https://www.github.com/MoodyJW/portfolio.git/')).toEqual({
+      owner: 'MoodyJW',
+      name: 'portfolio',
+    });
+    expect(parseGitHubRepositoryUrl('https://github.com/MoodyJW/portfolio/tree/main')).toEqual({
+      owner: 'MoodyJW',
+      name: 'portfolio',
+    });
+  });
+
+  it('should return null for other URLs', () => {
+    expect(parseGitHubRepositoryUrl('https://gitlab.com/MoodyJW/portfolio')).toBeNull();
+    expect(parseGitHubRepositoryUrl('https://github.com/MoodyJW')).toBeNull();
+    expect(parseGitHubRepositoryUrl('not a url')).toBeNull();
+  });
+});
+
+describe('aggregateLanguages', () => {
+  const colors: Record<string, string> = {
+    TypeScript: '#3178c6',
+    SCSS: '#c6538c',
+    HTML: '#e34c26',
+  };
+
+  const repository = (name: string, languages: [string, number][]): RepositoryStats => ({
+    owner: 'MoodyJW',
+    name,
+    stars: 0,
+    forks: 0,
+    issues: 0,
+    pullRequests: 0,
+    languages: languages.map(([language, size]) => ({
+      name: language,
+      color: colors[language] ?? null,
+      size,
+    })),
+  });
+
+  const stats = [
+    repository('portfolio', [
+      ['TypeScript', 600],
+      ['SCSS', 150],
+      ['HTML', 50],
+    ]),
+    repository('cli', [
+      ['typescript', 100],
+      ['Go', 100],
+    ]),
+  ];
+
+  it('should merge languages across repositories, largest first', () => {
+    expect(aggregateLanguages(stats)).toEqual([
+      { name: 'TypeScript', color: '#3178c6', size: 700, percentage: 70, repositories: 2 },
+      { name: 'SCSS', color: '#c6538c', size: 150, percentage: 15, repositories: 1 },
+      { name: 'Go', color: null, size: 100, percentage: 10, repositories: 1 },
+      { name: 'HTML', color: '#e34c26', size: 50, percentage: 5, repositories: 1 },
+    ]);
+  });
+
+  it('should combine languages beyond the limit into Other', () => {
+    const shares = aggregateLanguages(stats, 2);
+
+    expect(shares.map(({ name }) => name)).toEqual(['TypeScript', 'SCSS', 'Other']);
+    expect(shares[2]).toEqual({
+      name: 'Other',
+      color: null,
+      size: 150,
+      percentage: 15,
+      repositories: 2,
+    });
+  });
+
+  it('should round percentages to one decimal', () => {
+    const shares = aggregateLanguages([
+      repository('a', [
+        ['TypeScript', 2],
+        ['HTML', 1],
+      ]),
+    ]);
+    expect(shares.map(({ percentage }) => percentage)).toEqual([66.7, 33.3]);
+  });
+
+  it('should return an empty list without code', () => {
+    expect(aggregateLanguages([])).toEqual([]);
+    expect(aggregateLanguages([repository('empty', [])])).toEqual([]);
+  });
+});
+
+describe('GitHubService', () => {
+  const username = 'MoodyJW';
+  const token = 'test-token';
+  const resetAt = Date.UTC(2026, 9, 18, 13, 0, 0);
+  let service: GitHubService;
+  let httpMock: HttpTestingController;
+  let cache: CacheService;
+
+  /**
+   * Rate limit headers as sent by GitHub
+   */
+  function rateLimitHeaders(remaining: number, resource = 'core'): Record<string, string> {
+    return {
+      'X-RateLimit-Limit': '5000',
+      'X-RateLimit-Remaining': String(remaining),
+      'X-RateLimit-Used': String(5000 - remaining),
+      'X-RateLimit-Reset': String(resetAt / 1000),
+      'X-RateLimit-Resource': resource,
+    };
+  }
+
+  /**
+   * Waits for a pending request (cache lookups may resolve asynchronously)
+   */
+  function expectRequest(url: string): Promise<TestRequest> {
+    return vi.waitFor(() => httpMock.expectOne((req) => req.url === url));
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(resetAt - 10 * 60 * 1000);
+    window.localStorage.clear();
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideGitHubConfig({ username, apiToken: token }),
+        { provide: GITHUB_TRANSPORT, useExisting: HttpGitHubTransport },
+        { provide: CACHE_STORAGE_ADAPTER, useValue: new FakeCacheStorageAdapter() },
+      ],
+    });
+
+    service = TestBed.inject(GitHubService);
+    httpMock = TestBed.inject(HttpTestingController);
+    cache = TestBed.inject(CacheService);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    cache.stopPeriodicCleanup();
+    vi.useRealTimers();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should default to the ENVIRONMENT_GITHUB settings', async () => {
+    cache.stopPeriodicCleanup();
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        {
+          provide: ENVIRONMENT_GITHUB,
+          useValue: { username: 'octocat', apiToken: 'env-token', cacheDuration: 0, useFixtures: false },
+        },
+        { provide: GITHUB_TRANSPORT, useExisting: HttpGitHubTransport },
+        { provide: CACHE_STORAGE_ADAPTER, useValue: new FakeCacheStorageAdapter() },
+      ],
+    });
+    service = TestBed.inject(GitHubService);
+    httpMock = TestBed.inject(HttpTestingController);
+    cache = TestBed.inject(CacheService);
+
+    const promise = firstValueFrom(service.getProfile());
+    const req = await expectRequest(GITHUB_ENDPOINTS.USER_PROFILE('octocat'));
+    expect(req.request.headers.get('Authorization')).toBe('Bearer env-token');
+    req.flush(profileFixture);
+
+    expect(service.username).toBe('octocat');
+    await expect(promise).resolves.toMatchObject({ login: 'MoodyJW' });
+  });
+
+  describe('getProfile', () => {
+    it('should request the profile with authorization and map it', async () => {
+      const promise = firstValueFrom(service.getProfile());
+      const req = await expectRequest(GITHUB_ENDPOINTS.USER_PROFILE(username));
+      expect(req.request.method).toBe('GET');
+      expect(req.request.headers.get('Authorization')).toBe(`Bearer ${token}`);
+      expect(req.request.headers.get('Accept')).toBe('application/vnd.github+json');
+      req.flush(profileFixture);
+
+      await expect(promise).resolves.toEqual({
+        login: 'MoodyJW',
+        name: 'Jay Moody',
+        avatarUrl: profileFixture.avatar_url,
+        htmlUrl: 'https://github.com/MoodyJW',
+        bio: profileFixture.bio,
+        company: null,
+        location: 'United States',
+        blog: profileFixture.blog,
+        publicRepos: 7,
+        followers: 24,
+        following: 9,
+        createdAt: '2014-12-09T15:02:11Z',
+      });
+    });
+
+    it('should serve cached profiles without another request', async () => {
+      const first = firstValueFrom(service.getProfile());
+      (await expectRequest(GITHUB_ENDPOINTS.USER_PROFILE(username))).flush(profileFixture);
+      await first;
+
+      await expect(firstValueFrom(service.getProfile())).resolves.toMatchObject({
+        login: 'MoodyJW',
+      });
+      httpMock.expectNone(GITHUB_ENDPOINTS.USER_PROFILE(username));
+    });
+
+    it('should request again after the GitHub cache is invalidated', async () => {
+      const first = firstValueFrom(service.getProfile());
+      (await expectRequest(GITHUB_ENDPOINTS.USER_PROFILE(username))).flush(profileFixture);
+      await first;
+
+      cache.invalidateTag(CACHE_TAGS.GITHUB);
+      const second = firstValueFrom(service.getProfile());
+      (await expectRequest(GITHUB_ENDPOINTS.USER_PROFILE(username))).flush(profileFixture);
+
+      await expect(second).resolves.toMatchObject({ login: 'MoodyJW' });
+    });
+  });
+
+  describe('getRepositories', () => {
+    it('should request owned repositories and map them', async () => {
+      const promise = firstValueFrom(service.getRepositories());
+      const req = await expectRequest(GITHUB_ENDPOINTS.USER_REPOS(username));
+      expect(req.request.params.get('type')).toBe('owner');
+      expect(req.request.params.get('per_page')).toBe('100');
+      req.flush(reposFixture);
+
+      const repos = await promise;
+      expect(repos).toHaveLength(7);
+      expect(repos[0]).toEqual({
+        id: 812345678,
+        name: 'portfolio',
+        fullName: 'MoodyJW/portfolio',
+        description: reposFixture[0].description,
+        htmlUrl: 'https://github.com/MoodyJW/portfolio',
+        homepage: 'https://moodyjw.github.io/moodyjw-portfolio',
+        language: 'TypeScript',
+        topics: ['angular', 'portfolio', 'signals'],
+        stars: 12,
+        forks: 3,
+        openIssues: 4,
+        fork: false,
+        archived: false,
+        pushedAt: '2026-10-16T21:44:03Z',
+        updatedAt: '2026-10-16T21:44:59Z',
+      });
+      expect(repos[1].homepage).toBeNull();
+      expect(repos[5].homepage).toBeNull();
+      expect(repos[5].topics).toEqual([]);
+    });
+
+    it('should not send authorization without a token', async () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          provideHttpClient(),
+          provideHttpClientTesting(),
+          provideGitHubConfig({ username, apiToken: '' }),
+          { provide: GITHUB_TRANSPORT, useExisting: HttpGitHubTransport },
+          { provide: CACHE_STORAGE_ADAPTER, useValue: new FakeCacheStorageAdapter() },
+        ],
+      });
+      service = TestBed.inject(GitHubService);
+      httpMock = TestBed.inject(HttpTestingController);
+      cache = TestBed.inject(CacheService);
+
+      const promise = firstValueFrom(service.getRepositories());
+      const req = await expectRequest(GITHUB_ENDPOINTS.USER_REPOS(username));
+      expect(req.request.headers.has('Authorization')).toBe(false);
+      req.flush(reposFixture);
+
+      await expect(promise).resolves.toHaveLength(7);
+    });
+  });
+
+  describe('getContributionCalendar', () => {
+    it('should post the contribution query for the last year', async () => {
+      const promise = firstValueFrom(service.getContributionCalendar());
+      const req = await expectRequest(API_CONFIG.GITHUB_GRAPHQL);
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body).toEqual({
+        query: GITHUB_GRAPHQL_QUERIES.CONTRIBUTION_CALENDAR,
+        variables: {
+          username,
+          from: '2025-10-18T12:50:00.000Z',
+          to: '2026-10-18T12:50:00.000Z',
+        },
+      });
+      req.flush(calendarFixture, { headers: rateLimitHeaders(4990, 'graphql') });
+
+      const calendar = await promise;
+      expect(calendar.totalContributions).toBe(1390);
+      expect(calendar.weeks).toHaveLength(53);
+      expect(calendar.weeks[0].days[1]).toEqual({ date: '2025-10-18', count: 3 });
+    });
+
+    it('should error when the user does not exist', async () => {
+      const promise = firstValueFrom(service.getContributionCalendar({ username: 'nobody' }));
+      (await expectRequest(API_CONFIG.GITHUB_GRAPHQL)).flush({ data: { user: null } });
+
+      await expect(promise).rejects.toBeInstanceOf(GitHubGraphQLError);
+    });
+  });
+
+  describe('getRepositoryStats', () => {
+    it('should map repository statistics and languages', async () => {
+      const promise = firstValueFrom(service.getRepositoryStats(username, 'portfolio'));
+      const req = await expectRequest(API_CONFIG.GITHUB_GRAPHQL);
+      expect(req.request.body.variables).toEqual({ owner: username, name: 'portfolio' });
+      req.flush(statsSnapshot['MoodyJW/portfolio']);
+
+      const stats = await promise;
+      expect(stats).toMatchObject({
+        owner: username,
+        name: 'portfolio',
+        stars: 12,
+        forks: 3,
+        issues: 21,
+        pullRequests: 48,
+      });
+      expect(stats.languages[0]).toEqual({ name: 'TypeScript', color: '#3178c6', size: 412580 });
+    });
+
+    it('should surface GraphQL errors', async () => {
+      const promise = firstValueFrom(service.getRepositoryStats(username, 'missing'));
+      (await expectRequest(API_CONFIG.GITHUB_GRAPHQL)).flush({
+        data: { repository: null },
+        errors: [{ message: "Could not resolve to a Repository with the name 'MoodyJW/missing'." }],
+      });
+
+      await expect(promise).rejects.toThrow(/Could not resolve to a Repository/);
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should record rate limit headers per resource', async () => {
+      const promise = firstValueFrom(service.getProfile());
+      (await expectRequest(GITHUB_ENDPOINTS.USER_PROFILE(username))).flush(profileFixture, {
+        headers: rateLimitHeaders(4321),
+      });
+      await promise;
+
+      expect(service.rateLimits()['core']).toEqual({
+        resource: 'core',
+        limit: 5000,
+        remaining: 4321,
+        used: 679,
+        resetAt,
+      });
+      expect(service.isRateLimited()).toBe(false);
+    });
+
+    it('should refuse requests once the reserve is reached until the window resets', async () => {
+      const first = firstValueFrom(service.getProfile());
+      (await expectRequest(GITHUB_ENDPOINTS.USER_PROFILE(username))).flush(profileFixture, {
+        headers: rateLimitHeaders(5),
+      });
+      await first;
+
+      expect(service.isRateLimited()).toBe(true);
+      await expect(firstValueFrom(service.getRepositories())).rejects.toBeInstanceOf(
+        GitHubRateLimitError
+      );
+      httpMock.expectNone(GITHUB_ENDPOINTS.USER_REPOS(username));
+
+      vi.setSystemTime(resetAt);
+      expect(service.isRateLimited()).toBe(false);
+      const second = firstValueFrom(service.getRepositories());
+      (await expectRequest(GITHUB_ENDPOINTS.USER_REPOS(username))).flush(reposFixture);
+      await expect(second).resolves.toHaveLength(7);
+    });
+
+    it('should track the GraphQL limit separately from the REST limit', async () => {
+      const promise = firstValueFrom(service.getContributionCalendar());
+      (await expectRequest(API_CONFIG.GITHUB_GRAPHQL)).flush(calendarFixture, {
+        headers: rateLimitHeaders(0, 'graphql'),
+      });
+      await promise;
+
+      expect(service.isRateLimited('graphql')).toBe(true);
+      expect(service.isRateLimited()).toBe(false);
+    });
+
+    it('should convert rate limit rejections into GitHubRateLimitError', async () => {
+      const promise = firstValueFrom(service.getProfile());
+      (await expectRequest(GITHUB_ENDPOINTS.USER_PROFILE(username))).flush(
+        { message: 'API rate limit exceeded' },
+        { status: 403, statusText: 'Forbidden', headers: rateLimitHeaders(0) }
+      );
+
+      await expect(promise).rejects.toBeInstanceOf(GitHubRateLimitError);
+      expect(service.rateLimits()['core']?.remaining).toBe(0);
+    });
+
+    it('should propagate other HTTP errors', async () => {
+      const promise = firstValueFrom(service.getProfile('missing'));
+      (await expectRequest(GITHUB_ENDPOINTS.USER_PROFILE('missing'))).flush(
+        { message: 'Not Found' },
+        { status: 404, statusText: 'Not Found', headers: rateLimitHeaders(4000) }
+      );
+
+      await expect(promise).rejects.toMatchObject({ status: 404 });
+    });
+  });
+});
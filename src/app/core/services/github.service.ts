@@ -0,0 +1,635 @@
+import type { HttpHeaders, HttpResponse } from '@angular/common/http';
+import { HttpErrorResponse } from '@angular/common/http';
+import type { Provider } from '@angular/core';
+import { inject, Injectable, InjectionToken, signal } from '@angular/core';
+
+import type { Observable } from 'rxjs';
+import { catchError, defer, map, tap, throwError } from 'rxjs';
+
+import {
+  API_CONFIG,
+  CACHE_CONFIG,
+  CACHE_TAGS,
+  GITHUB_ENDPOINTS,
+  GITHUB_GRAPHQL_QUERIES,
+  GITHUB_RATE_LIMIT,
+  HTTP_HEADERS,
+} from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
+import { cached } from '@shared/services/cache/cached.operator';
+
+import { ENVIRONMENT_GITHUB } from '../config/environment.tokens';
+import type {
+  ContributionCalendar,
+  GitHubProfile,
+  GitHubRateLimit,
+  GitHubRepository,
+  GitHubRepositoryRef,
+  LanguageShare,
+  RepositoryStats,
+} from '../models/github.model';
+
+import { GITHUB_TRANSPORT } from './github.transport';
+
+/**
+ * GitHub integration settings
+ */
+export interface GitHubConfig {
+  /** Account whose data is loaded by default */
+  username: string;
+  /** Personal access token; required by the GraphQL API (empty for none) */
+  apiToken: string;
+  /** How long responses are cached, in milliseconds */
+  cacheDuration: number;
+}
+
+/**
+ * Overrides for the GitHub settings of the environment (`ENVIRONMENT_GITHUB`)
+ */
+export const GITHUB_CONFIG = new InjectionToken<Partial<GitHubConfig>>('GITHUB_CONFIG');
+
+/**
+ * Provides overrides for the GitHub settings of the environment
+ *
+ * @example
+ * ```typescript
+ * TestBed.configureTestingModule({
+ *   providers: [provideGitHubConfig({ username: 'octocat', apiToken: 'test-token' })],
+ * });
+ * ```
+ */
+export function provideGitHubConfig(config: Partial<GitHubConfig>): Provider {
+  return { provide: GITHUB_CONFIG, useValue: config };
+}
+
+/**
+ * Error raised instead of calling GitHub when a rate limit window is
+ * (nearly) exhausted, or when GitHub rejects a request for that reason
+ */
+export class GitHubRateLimitError extends Error {
+  constructor(
+    /** Rate limit window that was exhausted */
+    readonly rateLimit: GitHubRateLimit
+  ) {
+    super(
+      `GitHub ${rateLimit.resource} rate limit reached; resets at ${new Date(rateLimit.resetAt).toISOString()}`
+    );
+    this.name = 'GitHubRateLimitError';
+  }
+}
+
+/**
+ * Error returned in the `errors` field of a GraphQL response
+ */
+export class GitHubGraphQLError extends Error {
+  constructor(
+    /** Messages of the reported errors */
+    readonly messages: string[]
+  ) {
+    super(`GitHub GraphQL request failed: ${messages.join('; ')}`);
+    this.name = 'GitHubGraphQLError';
+  }
+}
+
+/**
+ * Options for {@link GitHubService.getContributionCalendar}
+ */
+export interface ContributionCalendarOptions {
+  /** Account to load (default: configured username) */
+  username?: string;
+  /** Start of the range (default: one year before `to`) */
+  from?: Date;
+  /** End of the range (default: now) */
+  to?: Date;
+}
+
+/**
+ * Parses the owner and name of a repository from its GitHub URL
+ *
+ * Extra path segments (e.g. `/tree/main`), a `.git` suffix and trailing
+ * slashes are ignored.
+ *
+ * @param url - Repository URL, e.g. `https://github.com/MoodyJW/portfolio`
+ * @returns Owner and name, or null when the URL is not a github.com repository
+ *
+ * @example
+ * ```typescript
+ * parseGitHubRepositoryUrl('https://github.com/MoodyJW/portfolio.git');
+ * // { owner: 'MoodyJW', name: 'portfolio' }
+ * ```
+ */
+export function parseGitHubRepositoryUrl(url: string): GitHubRepositoryRef | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (!/^(www\.)?github\.com$/i.test(parsed.hostname)) {
+    return null;
+  }
+
+  const [owner, name] = parsed.pathname.split('/').filter(Boolean);
+  const repo = name?.replace(/\.git$/i, '');
+  return owner && repo ? { owner, name: repo } : null;
+}
+
+/**
+ * Combines the languages of several repositories into shares of all code
+ *
+ * Languages are merged by name (case-insensitive) and sorted largest first.
+ * Beyond `limit`, the remaining languages are combined into `Other`.
+ *
+ * @param stats - Repository statistics from `getRepositoryStats()`
+ * @param limit - Most languages to list separately (default: all)
+ * @returns Language shares, largest first; empty when there is no code
+ *
+ * @example
+ * ```typescript
+ * aggregateLanguages([portfolioStats, cliStats], 5);
+ * // [{ name: 'TypeScript', color: '#3178c6', size: 120000, percentage: 80, repositories: 2 }, ...]
+ * ```
+ */
+export function aggregateLanguages(stats: RepositoryStats[], limit = Infinity): LanguageShare[] {
+  const languages = new Map<string, Omit<LanguageShare, 'percentage'>>();
+
+  for (const repository of stats) {
+    for (const { name, color, size } of repository.languages) {
+      const key = name.toLowerCase();
+      const entry = languages.get(key) ?? { name, color, size: 0, repositories: 0 };
+      entry.size += size;
+      entry.repositories++;
+      entry.color ??= color;
+      languages.set(key, entry);
+    }
+  }
+
+  const sorted = [...languages.values()].sort((a, b) => b.size - a.size);
+  const total = sorted.reduce((sum, language) => sum + language.size, 0);
+  if (total === 0) {
+    return [];
+  }
+
+  const listed = sorted.slice(0, Math.max(0, limit));
+  const rest = sorted.slice(listed.length);
+  if (rest.length > 0) {
+    listed.push({
+      name: 'Other',
+      color: null,
+      size: rest.reduce((sum, language) => sum + language.size, 0),
+      repositories: stats.filter((repository) =>
+        repository.languages.some(({ name }) =>
+          rest.some((language) => language.name.toLowerCase() === name.toLowerCase())
+        )
+      ).length,
+    });
+  }
+
+  return listed.map((language) => ({
+    ...language,
+    percentage: Math.round((language.size / total) * 1000) / 10,
+  }));
+}
+
+/**
+ * Subset of the REST `users/{username}` response that is used
+ */
+interface GitHubUserResponse {
+  login: string;
+  name: string | null;
+  avatar_url: string;
+  html_url: string;
+  bio: string | null;
+  company: string | null;
+  location: string | null;
+  blog: string | null;
+  public_repos: number;
+  followers: number;
+  following: number;
+  created_at: string;
+}
+
+/**
+ * Subset of a REST repository response that is used
+ */
+interface GitHubRepoResponse {
+  id: number;
+  name: string;
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  homepage: string | null;
+  language: string | null;
+  topics?: string[];
+  stargazers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  fork: boolean;
+  archived: boolean;
+  pushed_at: string;
+  updated_at: string;
+}
+
+/**
+ * GraphQL response envelope
+ */
+interface GraphQLResponse<T> {
+  data?: T | null;
+  errors?: { message: string }[];
+}
+
+/**
+ * `data` of the `CONTRIBUTION_CALENDAR` query
+ */
+interface ContributionCalendarData {
+  user: {
+    contributionsCollection: {
+      contributionCalendar: {
+        totalContributions: number;
+        weeks: { contributionDays: { contributionCount: number; date: string }[] }[];
+      };
+    };
+  } | null;
+}
+
+/**
+ * `data` of the `REPOSITORY_STATS` query
+ */
+interface RepositoryStatsData {
+  repository: {
+    stargazerCount: number;
+    forkCount: number;
+    issues: { totalCount: number };
+    pullRequests: { totalCount: number };
+    languages: { edges: { size: number; node: { name: string; color: string | null } }[] };
+  } | null;
+}
+
+/**
+ * Service for GitHub profile, repository and contribution data
+ *
+ * Profile and repositories come from the REST API (`GITHUB_ENDPOINTS`), the
+ * contribution calendar and per-repository statistics from the GraphQL API
+ * (`GITHUB_GRAPHQL_QUERIES`, which requires `apiToken`). Results are cached
+ * and persisted through `CacheService` for `cacheDuration` (default
+ * `CACHE_CONFIG.GITHUB_DATA_TTL`) and tagged `CACHE_TAGS.GITHUB`.
+ *
+ * Every response updates {@link rateLimits} from its `X-RateLimit-*`
+ * headers. Once a window has `GITHUB_RATE_LIMIT.RESERVE` requests or fewer
+ * left, requests against it fail with {@link GitHubRateLimitError} without
+ * calling GitHub until the window resets; stale cached data keeps being
+ * served meanwhile.
+ *
+ * Requests go through `GITHUB_TRANSPORT`, which replays recorded JSON
+ * snapshots instead of calling GitHub when `useFixtures` of
+ * `ENVIRONMENT_GITHUB` is on (see `provideGitHubFixtures()`).
+ *
+ * @example
+ * ```typescript
+ * export class GitHubStatsComponent {
+ *   private readonly github = inject(GitHubService);
+ *
+ *   ngOnInit() {
+ *     this.github.getRepositories().subscribe(repos => {
+ *       console.log('Repositories:', repos.length);
+ *     });
+ *   }
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GitHubService {
+  private readonly transport = inject(GITHUB_TRANSPORT);
+  private readonly cache = inject(CacheService);
+
+  private readonly settings = inject(ENVIRONMENT_GITHUB);
+
+  private readonly config: GitHubConfig = {
+    username: this.settings.username,
+    apiToken: this.settings.apiToken,
+    cacheDuration: this.settings.cacheDuration || CACHE_CONFIG.GITHUB_DATA_TTL,
+    ...inject(GITHUB_CONFIG, { optional: true }),
+  };
+
+  private readonly _rateLimits = signal<Record<string, GitHubRateLimit>>({});
+
+  /** Latest known rate limit window per resource (`core`, `graphql`, ...) */
+  readonly rateLimits = this._rateLimits.asReadonly();
+
+  /** Account whose data is loaded by default */
+  get username(): string {
+    return this.config.username;
+  }
+
+  /**
+   * Fetches a user profile
+   *
+   * @param username - Account to load (default: configured username)
+   * @returns Observable of the profile
+   */
+  getProfile(username = this.config.username): Observable<GitHubProfile> {
+    return this.rest<GitHubUserResponse>(GITHUB_ENDPOINTS.USER_PROFILE(username)).pipe(
+      map(toProfile),
+      this.cached(`github:profile:${username}`)
+    );
+  }
+
+  /**
+   * Fetches the public repositories owned by a user, most recently pushed first
+   *
+   * @param username - Account to load (default: configured username)
+   * @returns Observable of up to 100 repositories
+   *
+   * @example
+   * ```typescript
+   * this.github.getRepositories().subscribe(repos => {
+   *   const stars = repos.reduce((sum, repo) => sum + repo.stars, 0);
+   * });
+   * ```
+   */
+  getRepositories(username = this.config.username): Observable<GitHubRepository[]> {
+    return this.rest<GitHubRepoResponse[]>(GITHUB_ENDPOINTS.USER_REPOS(username), {
+      type: 'owner',
+      sort: 'pushed',
+      per_page: 100,
+    }).pipe(
+      map((repos) => repos.map(toRepository)),
+      this.cached(`github:repos:${username}`)
+    );
+  }
+
+  /**
+   * Fetches the contribution calendar of a user
+   *
+   * Requires `apiToken`.
+   *
+   * @param options - Account and date range (default: the last year)
+   * @returns Observable of the calendar
+   * @throws GitHubGraphQLError if the user does not exist
+   */
+  getContributionCalendar(
+    options: ContributionCalendarOptions = {}
+  ): Observable<ContributionCalendar> {
+    const username = options.username ?? this.config.username;
+    const to = options.to ?? new Date();
+    const from = options.from ?? new Date(new Date(to).setFullYear(to.getFullYear() - 1));
+    const range = `${toDateKey(from)}:${toDateKey(to)}`;
+
+    return this.graphql<ContributionCalendarData>(GITHUB_GRAPHQL_QUERIES.CONTRIBUTION_CALENDAR, {
+      username,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    }).pipe(
+      map((data) => {
+        if (!data.user) {
+          throw new GitHubGraphQLError([
+            `Could not resolve to a User with the login of '${username}'`,
+          ]);
+        }
+        return toContributionCalendar(data.user.contributionsCollection.contributionCalendar);
+      }),
+      this.cached(`github:contributions:${username}:${range}`)
+    );
+  }
+
+  /**
+   * Fetches stars, forks, issue and pull request counts and languages of a repository
+   *
+   * Requires `apiToken`.
+   *
+   * @param owner - Repository owner
+   * @param name - Repository name
+   * @returns Observable of the statistics
+   * @throws GitHubGraphQLError if the repository does not exist
+   */
+  getRepositoryStats(owner: string, name: string): Observable<RepositoryStats> {
+    return this.graphql<RepositoryStatsData>(GITHUB_GRAPHQL_QUERIES.REPOSITORY_STATS, {
+      owner,
+      name,
+    }).pipe(
+      map(({ repository }) => {
+        if (!repository) {
+          throw new GitHubGraphQLError([
+            `Could not resolve to a Repository with the name '${owner}/${name}'`,
+          ]);
+        }
+        return {
+          owner,
+          name,
+          stars: repository.stargazerCount,
+          forks: repository.forkCount,
+          issues: repository.issues.totalCount,
+          pullRequests: repository.pullRequests.totalCount,
+          languages: repository.languages.edges.map(({ size, node }) => ({
+            name: node.name,
+            color: node.color,
+            size,
+          })),
+        };
+      }),
+      this.cached(`github:stats:${owner}/${name}`)
+    );
+  }
+
+  /**
+   * Whether requests against a rate limit window are currently refused
+   *
+   * @param resource - Rate limit bucket (default: `core`, the REST API)
+   * @returns True until the window resets when it has too few requests left
+   */
+  isRateLimited(resource = 'core'): boolean {
+    return this.getExhaustedLimit(resource) !== null;
+  }
+
+  /**
+   * Caches results under `key` with the configured duration
+   */
+  private cached<T>(key: string): (source: Observable<T>) => Observable<T> {
+    return cached<T>(key, {
+      cache: this.cache,
+      ttl: this.config.cacheDuration,
+      persist: true,
+      tags: [CACHE_TAGS.GITHUB],
+    });
+  }
+
+  /**
+   * GETs a REST endpoint, tracking the `core` rate limit
+   */
+  private rest<T>(url: string, params: Record<string, string | number> = {}): Observable<T> {
+    return this.request('core', () =>
+      this.transport.send<T>({ method: 'GET', url, params, headers: this.headers() })
+    );
+  }
+
+  /**
+   * POSTs a GraphQL query, tracking the `graphql` rate limit
+   */
+  private graphql<T>(query: string, variables: Record<string, string>): Observable<T> {
+    return this.request('graphql', () =>
+      this.transport.send<GraphQLResponse<T>>({
+        method: 'POST',
+        url: API_CONFIG.GITHUB_GRAPHQL,
+        body: { query, variables },
+        headers: this.headers(),
+      })
+    ).pipe(
+      map(({ data, errors }) => {
+        if (errors?.length || !data) {
+          throw new GitHubGraphQLError(errors?.map((error) => error.message) ?? ['No data']);
+        }
+        return data;
+      })
+    );
+  }
+
+  /**
+   * Sends a request unless `resource` is rate limited, recording the rate
+   * limit headers of the response (or error response)
+   */
+  private request<T>(resource: string, send: () => Observable<HttpResponse<T>>): Observable<T> {
+    return defer(() => {
+      const exhausted = this.getExhaustedLimit(resource);
+      if (exhausted) {
+        return throwError(() => new GitHubRateLimitError(exhausted));
+      }
+
+      return send().pipe(
+        tap((response) => this.recordRateLimit(response.headers, resource)),
+        map((response) => response.body as T),
+        catchError((error: unknown) => {
+          if (error instanceof HttpErrorResponse && error.headers) {
+            const rateLimit = this.recordRateLimit(error.headers, resource);
+            if (rateLimit?.remaining === 0 && (error.status === 403 || error.status === 429)) {
+              return throwError(() => new GitHubRateLimitError(rateLimit));
+            }
+          }
+          return throwError(() => error);
+        })
+      );
+    });
+  }
+
+  /**
+   * Builds the request headers, including authorization when a token is set
+   */
+  private headers(): Record<string, string> {
+    return this.config.apiToken
+      ? { ...HTTP_HEADERS.GITHUB_ACCEPT, ...HTTP_HEADERS.GITHUB_AUTH(this.config.apiToken) }
+      : { ...HTTP_HEADERS.GITHUB_ACCEPT };
+  }
+
+  /**
+   * Stores the rate limit window described by response headers
+   *
+   * @param headers - Response headers
+   * @param fallbackResource - Resource to use when the header is missing
+   * @returns The recorded window, or null when the headers carry none
+   */
+  private recordRateLimit(headers: HttpHeaders, fallbackResource: string): GitHubRateLimit | null {
+    const { LIMIT, REMAINING, USED, RESET, RESOURCE } = GITHUB_RATE_LIMIT.HEADERS;
+    const limit = Number(headers.get(LIMIT));
+    const remaining = Number(headers.get(REMAINING));
+    const reset = Number(headers.get(RESET));
+
+    if (!headers.has(REMAINING) || !Number.isFinite(remaining) || !Number.isFinite(reset)) {
+      return null;
+    }
+
+    const rateLimit: GitHubRateLimit = {
+      resource: headers.get(RESOURCE) ?? fallbackResource,
+      limit: Number.isFinite(limit) ? limit : 0,
+      remaining,
+      used: Number(headers.get(USED)) || Math.max(0, limit - remaining),
+      resetAt: reset * 1000,
+    };
+
+    this._rateLimits.update((limits) => ({ ...limits, [rateLimit.resource]: rateLimit }));
+    return rateLimit;
+  }
+
+  /**
+   * Returns the window of `resource` when it is too close to exhaustion
+   */
+  private getExhaustedLimit(resource: string): GitHubRateLimit | null {
+    const rateLimit = this._rateLimits()[resource];
+
+    if (!rateLimit || Date.now() >= rateLimit.resetAt) {
+      return null;
+    }
+
+    return rateLimit.remaining <= GITHUB_RATE_LIMIT.RESERVE ? rateLimit : null;
+  }
+}
+
+/**
+ * Maps a REST user response to a {@link GitHubProfile}
+ */
+function toProfile(user: GitHubUserResponse): GitHubProfile {
+  return {
+    login: user.login,
+    name: user.name,
+    avatarUrl: user.avatar_url,
+    htmlUrl: user.html_url,
+    bio: user.bio,
+    company: user.company,
+    location: user.location,
+    blog: user.blog || null,
+    publicRepos: user.public_repos,
+    followers: user.followers,
+    following: user.following,
+    createdAt: user.created_at,
+  };
+}
+
+/**
+ * Maps a REST repository response to a {@link GitHubRepository}
+ */
+function toRepository(repo: GitHubRepoResponse): GitHubRepository {
+  return {
+    id: repo.id,
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description,
+    htmlUrl: repo.html_url,
+    homepage: repo.homepage || null,
+    language: repo.language,
+    topics: repo.topics ?? [],
+    stars: repo.stargazers_count,
+    forks: repo.forks_count,
+    openIssues: repo.open_issues_count,
+    fork: repo.fork,
+    archived: repo.archived,
+    pushedAt: repo.pushed_at,
+    updatedAt: repo.updated_at,
+  };
+}
+
+/**
+ * Maps the GraphQL contribution calendar to a {@link ContributionCalendar}
+ */
+function toContributionCalendar(
+  calendar: NonNullable<
+    ContributionCalendarData['user']
+  >['contributionsCollection']['contributionCalendar']
+): ContributionCalendar {
+  return {
+    totalContributions: calendar.totalContributions,
+    weeks: calendar.weeks.map((week) => ({
+      days: week.contributionDays.map((day) => ({
+        date: day.date,
+        count: day.contributionCount,
+      })),
+    })),
+  };
+}
+
+/**
+ * Formats a date as YYYY-MM-DD (UTC) for cache keys
+ */
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
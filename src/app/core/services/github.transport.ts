@@ -0,0 +1,85 @@
+import type { HttpResponse } from '@angular/common/http';
+import { HttpClient } from '@angular/common/http';
+import type { Provider } from '@angular/core';
+import { inject, Injectable, InjectionToken } from '@angular/core';
+
+import type { Observable } from 'rxjs';
+
+import { ENVIRONMENT_GITHUB } from '../config/environment.tokens';
+
+import { FixtureGitHubTransport } from './fixture-github.transport';
+
+/**
+ * Request sent by `GitHubService` to the REST or GraphQL API
+ */
+export interface GitHubRequest {
+  /** HTTP method (`GET` for REST, `POST` for GraphQL) */
+  method: 'GET' | 'POST';
+  /** Absolute API URL */
+  url: string;
+  /** Query parameters */
+  params?: Record<string, string | number>;
+  /** Request body (the GraphQL query and variables) */
+  body?: unknown;
+  /** Request headers */
+  headers: Record<string, string>;
+}
+
+/**
+ * Sends `GitHubService` requests and returns the full responses
+ *
+ * Responses must carry the `X-RateLimit-*` headers when available and fail
+ * with an `HttpErrorResponse` like `HttpClient` does.
+ */
+export interface GitHubTransport {
+  /** Sends a request */
+  send<T>(request: GitHubRequest): Observable<HttpResponse<T>>;
+}
+
+/**
+ * Transport that calls the GitHub API through `HttpClient`
+ *
+ * Provide it explicitly to reach the network (or `HttpTestingController`)
+ * when the environment uses fixtures:
+ *
+ * @example
+ * ```typescript
+ * providers: [{ provide: GITHUB_TRANSPORT, useExisting: HttpGitHubTransport }]
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class HttpGitHubTransport implements GitHubTransport {
+  private readonly http = inject(HttpClient);
+
+  send<T>({ method, url, params, body, headers }: GitHubRequest): Observable<HttpResponse<T>> {
+    return this.http.request<T>(method, url, { body, params, headers, observe: 'response' });
+  }
+}
+
+/**
+ * Transport used by `GitHubService`
+ *
+ * Defaults to the JSON snapshots of {@link FixtureGitHubTransport} when
+ * `useFixtures` of `ENVIRONMENT_GITHUB` is on, otherwise to the network.
+ */
+export const GITHUB_TRANSPORT = new InjectionToken<GitHubTransport>('GITHUB_TRANSPORT', {
+  providedIn: 'root',
+  factory: () =>
+    inject(ENVIRONMENT_GITHUB).useFixtures
+      ? new FixtureGitHubTransport()
+      : inject(HttpGitHubTransport),
+});
+
+/**
+ * Serves GitHub data from the JSON snapshots regardless of the environment
+ *
+ * @example
+ * ```typescript
+ * const meta: Meta<GitHubComponent> = {
+ *   decorators: [applicationConfig({ providers: [provideHttpClient(), provideGitHubFixtures()] })],
+ * };
+ * ```
+ */
+export function provideGitHubFixtures(): Provider {
+  return { provide: GITHUB_TRANSPORT, useFactory: () => new FixtureGitHubTransport() };
+}
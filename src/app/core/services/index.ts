@@ -2,4 +2,14 @@
  * Core Services
  * Export all global singleton services
  */
+export * from './chatbot.service';
+export * from './corpus-index';
+export * from './fixture-github.transport';
+export * from './github.service';
+export * from './github.transport';
+export * from './llm.provider';
 export * from './project.service';
+export * from './template-llm.provider';
+export * from './vector-index';
+export * from './vector-index.service';
+export * from './web-llm.provider';
@@ -0,0 +1,117 @@
+import type { Provider, Signal } from '@angular/core';
+import { InjectionToken } from '@angular/core';
+
+import type { Observable } from 'rxjs';
+
+import type { ChatMessage, RetrievedChunk } from '../models/chatbot.model';
+
+import { TemplateLlmProvider } from './template-llm.provider';
+import type { WebLlmOptions } from './web-llm.provider';
+import { WebLlmProvider } from './web-llm.provider';
+
+/**
+ * Loading state of a language model
+ */
+export interface LlmLoadProgress {
+  /** Lifecycle of the model */
+  status: 'idle' | 'loading' | 'ready' | 'error';
+  /** Share of the model loaded, from 0 to 1 */
+  progress: number;
+  /** Human-readable progress report from the engine */
+  text: string;
+}
+
+/**
+ * Question sent to {@link LlmProvider.generate}
+ */
+export interface LlmGenerateRequest {
+  /** The visitor's question */
+  question: string;
+  /** Retrieved chunks the answer must be grounded in; `[1]` cites the first */
+  sources: RetrievedChunk[];
+  /** Earlier messages of the conversation, oldest first */
+  history: ChatMessage[];
+}
+
+/**
+ * Streaming callbacks of {@link LlmProvider.generate}
+ */
+export interface LlmStreamCallbacks {
+  /**
+   * Called whenever text is added to the answer
+   *
+   * @param token - Text added since the previous call
+   * @param text - Answer so far
+   */
+  onToken?: (token: string, text: string) => void;
+}
+
+/**
+ * Text generation and embedding engine behind the chatbot
+ *
+ * `ChatbotService` retrieves the sources and owns the conversation; a
+ * provider only turns a grounded request into an answer, so engines can be
+ * swapped without touching the UI.
+ */
+export interface LlmProvider {
+  /** Loading state of the model */
+  readonly loadProgress: Signal<LlmLoadProgress>;
+
+  /** Name of the model behind `embed()`; vectors of different models are not comparable */
+  readonly embeddingModel: string;
+
+  /**
+   * Prepares the model; later calls share the first load and a failed load
+   * is retried by the next call
+   */
+  load(): Observable<void>;
+
+  /**
+   * Answers a question from its sources
+   *
+   * Text is streamed through `callbacks`; unsubscribing stops generation.
+   *
+   * @returns Observable emitting the full answer once, then completing
+   */
+  generate(request: LlmGenerateRequest, callbacks?: LlmStreamCallbacks): Observable<string>;
+
+  /**
+   * Embeds texts into vectors of the same dimension, compared by cosine
+   * similarity
+   *
+   * @returns Observable of one vector per text, in order
+   */
+  embed(texts: string[]): Observable<Float32Array[]>;
+}
+
+/**
+ * Language model used by `ChatbotService`
+ *
+ * Defaults to the deterministic {@link TemplateLlmProvider}, which needs no
+ * GPU or download; use `provideWebLlm()` to run a real model in the browser.
+ */
+export const LLM_PROVIDER = new InjectionToken<LlmProvider>('LLM_PROVIDER', {
+  providedIn: 'root',
+  factory: () => new TemplateLlmProvider(),
+});
+
+/**
+ * Answers chatbot questions with a WebLLM model running on WebGPU
+ *
+ * The engine package is loaded lazily by `createEngine`, so it stays out of
+ * the main bundle.
+ *
+ * @example
+ * ```typescript
+ * providers: [
+ *   provideWebLlm({
+ *     model: 'Llama-3.2-1B-Instruct-q4f16_1-MLC',
+ *     createEngine: (model, config) =>
+ *       import('@mlc-ai/web-llm').then(({ CreateMLCEngine }) => CreateMLCEngine(model, config)),
+ *   }),
+ * ]
+ * ```
+ */
+export function provideWebLlm(options: WebLlmOptions): Provider {
+  return { provide: LLM_PROVIDER, useFactory: () => new WebLlmProvider(options) };
+}
@@ -1,33 +1,83 @@
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
 import { TestBed } from '@angular/core/testing';
 
 import { firstValueFrom } from 'rxjs';
 
+import { MOCK_ENDPOINTS } from '@shared/constants';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+
+import contentData from '../../../assets/data/projects.json';
+import { ContentValidationError } from '../models/content-validation';
+
 import { ProjectService } from './project.service';
 
 describe('ProjectService', () => {
   let service: ProjectService;
+  let httpMock: HttpTestingController;
+  let errorHandler: ErrorHandlerService;
+
+  /**
+   * Responds to the pending content file request
+   */
+  function flushProjects(data: object = contentData): void {
+    httpMock.expectOne(MOCK_ENDPOINTS.PROJECTS).flush(data);
+  }
 
   beforeEach(() => {
     TestBed.configureTestingModule({
-      providers: [ProjectService],
+      providers: [ProjectService, provideHttpClient(), provideHttpClientTesting()],
     });
 
     service = TestBed.inject(ProjectService);
-    vi.useFakeTimers();
+    httpMock = TestBed.inject(HttpTestingController);
+    errorHandler = TestBed.inject(ErrorHandlerService);
+    vi.spyOn(errorHandler, 'handleError').mockImplementation(() => undefined);
   });
 
   afterEach(() => {
-    vi.useRealTimers();
+    httpMock.verify();
   });
 
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
 
+  describe('HTTP', () => {
+    it('should request the projects content file with GET', async () => {
+      const promise = firstValueFrom(service.getAll());
+      const req = httpMock.expectOne(MOCK_ENDPOINTS.PROJECTS);
+      expect(req.request.method).toBe('GET');
+      req.flush(contentData);
+
+      await expect(promise).resolves.toHaveLength(contentData.length);
+    });
+
+    it('should error when the payload is not an array', async () => {
+      const promise = firstValueFrom(service.getAll());
+      flushProjects({ unexpected: true });
+
+      await expect(promise).rejects.toBeInstanceOf(ContentValidationError);
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        expect.any(ContentValidationError),
+        expect.objectContaining({ source: 'ProjectService', severity: 'high' })
+      );
+    });
+
+    it('should propagate HTTP errors', async () => {
+      const promise = firstValueFrom(service.getAll());
+      httpMock
+        .expectOne(MOCK_ENDPOINTS.PROJECTS)
+        .flush('Not found', { status: 404, statusText: 'Not Found' });
+
+      await expect(promise).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
   describe('getAll', () => {
     it('should return all projects', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       expect(projects).toBeDefined();
@@ -37,7 +87,7 @@ describe('ProjectService', () => {
 
     it('should return projects with all required fields', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       const project = projects[0];
@@ -56,7 +106,7 @@ describe('ProjectService', () => {
 
     it('should return projects with valid image structure', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       const project = projects[0];
@@ -67,7 +117,7 @@ describe('ProjectService', () => {
 
     it('should return projects with valid technologies array', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       const project = projects[0];
@@ -80,7 +130,7 @@ describe('ProjectService', () => {
   describe('getBySlug', () => {
     it('should return a project by slug', async () => {
       const promise = firstValueFrom(service.getBySlug('angular-portfolio'));
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const project = await promise;
 
       expect(project).toBeDefined();
@@ -90,7 +140,7 @@ describe('ProjectService', () => {
 
     it('should return undefined for non-existent slug', async () => {
       const promise = firstValueFrom(service.getBySlug('non-existent-project'));
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const project = await promise;
 
       expect(project).toBeUndefined();
@@ -98,7 +148,7 @@ describe('ProjectService', () => {
 
     it('should be case-sensitive for slug matching', async () => {
       const promise = firstValueFrom(service.getBySlug('ANGULAR-PORTFOLIO'));
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const project = await promise;
 
       expect(project).toBeUndefined();
@@ -106,7 +156,7 @@ describe('ProjectService', () => {
 
     it('should return project with all required fields', async () => {
       const promise = firstValueFrom(service.getBySlug('angular-portfolio'));
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const project = await promise;
 
       expect(project?.id).toBeDefined();
@@ -120,7 +170,7 @@ describe('ProjectService', () => {
   describe('getFeatured', () => {
     it('should return only featured projects', async () => {
       const promise = firstValueFrom(service.getFeatured());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       expect(projects).toBeDefined();
@@ -133,11 +183,11 @@ describe('ProjectService', () => {
 
     it('should return fewer projects than getAll', async () => {
       const allPromise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const allProjects = await allPromise;
 
       const featuredPromise = firstValueFrom(service.getFeatured());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const featuredProjects = await featuredPromise;
 
       expect(featuredProjects.length).toBeLessThanOrEqual(allProjects.length);
@@ -146,7 +196,7 @@ describe('ProjectService', () => {
 
     it('should return featured projects with all required fields', async () => {
       const promise = firstValueFrom(service.getFeatured());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       const project = projects[0];
@@ -161,7 +211,7 @@ describe('ProjectService', () => {
     describe('getProjects (deprecated)', () => {
       it('should return all projects', async () => {
         const promise = firstValueFrom(service.getProjects());
-        vi.advanceTimersByTime(500);
+        flushProjects();
         const projects = await promise;
 
         expect(projects).toBeDefined();
@@ -171,11 +221,11 @@ describe('ProjectService', () => {
 
       it('should return same data as getAll', async () => {
         const allPromise = firstValueFrom(service.getAll());
-        vi.advanceTimersByTime(500);
+        flushProjects();
         const allProjects = await allPromise;
 
         const legacyPromise = firstValueFrom(service.getProjects());
-        vi.advanceTimersByTime(500);
+        flushProjects();
         const legacyProjects = await legacyPromise;
 
         expect(legacyProjects).toEqual(allProjects);
@@ -185,7 +235,7 @@ describe('ProjectService', () => {
     describe('getProjectById (deprecated)', () => {
       it('should return a project by id', async () => {
         const promise = firstValueFrom(service.getProjectById('1'));
-        vi.advanceTimersByTime(500);
+        flushProjects();
         const project = await promise;
 
         expect(project).toBeDefined();
@@ -194,7 +244,7 @@ describe('ProjectService', () => {
 
       it('should return undefined for non-existent id', async () => {
         const promise = firstValueFrom(service.getProjectById('non-existent'));
-        vi.advanceTimersByTime(500);
+        flushProjects();
         const project = await promise;
 
         expect(project).toBeUndefined();
@@ -202,10 +252,55 @@ describe('ProjectService', () => {
     });
   });
 
+  describe('Schema Validation', () => {
+    const [validRecord] = contentData;
+
+    it('should omit and report records with invalid dates', async () => {
+      const promise = firstValueFrom(service.getAll());
+      flushProjects([validRecord, { ...validRecord, id: 'bad-date', slug: 'bad-date', createdDate: 'not-a-date' }]);
+
+      const records = await promise;
+      expect(records.map((r) => r.id)).toEqual([validRecord.id]);
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        expect.any(ContentValidationError),
+        expect.objectContaining({ source: 'ProjectService', showToast: false, severity: 'medium' })
+      );
+    });
+
+    it('should omit records with a missing slug', async () => {
+      const withoutSlug: Partial<typeof validRecord> = { ...validRecord, id: 'no-slug' };
+      delete withoutSlug.slug;
+      const promise = firstValueFrom(service.getAll());
+      flushProjects([withoutSlug, validRecord]);
+
+      const records = await promise;
+      expect(records).toHaveLength(1);
+      expect(records[0].slug).toBe(validRecord.slug);
+    });
+
+    it('should keep the first of duplicate ids and report the rest', async () => {
+      const promise = firstValueFrom(service.getAll());
+      flushProjects([validRecord, { ...validRecord, slug: 'another-slug' }]);
+
+      const records = await promise;
+      expect(records).toHaveLength(1);
+      const [error] = vi.mocked(errorHandler.handleError).mock.calls[0];
+      expect((error as ContentValidationError).issues[0]).toMatchObject({ index: 1, path: 'id' });
+    });
+
+    it('should not report anything for the shipped content file', async () => {
+      const promise = firstValueFrom(service.getAll());
+      flushProjects();
+
+      await expect(promise).resolves.toHaveLength(contentData.length);
+      expect(errorHandler.handleError).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Data Validation', () => {
     it('should have unique project IDs', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       const ids = projects.map((p) => p.id);
@@ -215,7 +310,7 @@ describe('ProjectService', () => {
 
     it('should have unique project slugs', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       const slugs = projects.map((p) => p.slug);
@@ -225,7 +320,7 @@ describe('ProjectService', () => {
 
     it('should have valid date formats', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       projects.forEach((project) => {
@@ -236,7 +331,7 @@ describe('ProjectService', () => {
 
     it('should have non-empty titles', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       projects.forEach((project) => {
@@ -246,7 +341,7 @@ describe('ProjectService', () => {
 
     it('should have non-empty descriptions', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       projects.forEach((project) => {
@@ -256,7 +351,7 @@ describe('ProjectService', () => {
 
     it('should have at least one technology per project', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       projects.forEach((project) => {
@@ -266,7 +361,7 @@ describe('ProjectService', () => {
 
     it('should have valid category values', async () => {
       const promise = firstValueFrom(service.getAll());
-      vi.advanceTimersByTime(500);
+      flushProjects();
       const projects = await promise;
 
       const validCategories = ['Web App', 'Mobile App', 'Library', 'Tool', 'Demo'];
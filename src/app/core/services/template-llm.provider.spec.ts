@@ -0,0 +1,132 @@
+import { firstValueFrom } from 'rxjs';
+
+import { CHATBOT_CONFIG } from '@shared/constants';
+
+import corpus from '../../../assets/chatbot/corpus.json';
+import type { CorpusChunk } from '../models/chatbot.model';
+
+import { CorpusIndex } from './corpus-index';
+import type { LlmGenerateRequest } from './llm.provider';
+import { NO_MATCH_ANSWER, TemplateLlmProvider } from './template-llm.provider';
+
+describe('TemplateLlmProvider', () => {
+  const index = new CorpusIndex(corpus as CorpusChunk[]);
+  let provider: TemplateLlmProvider;
+
+  function request(question: string, limit: number = CHATBOT_CONFIG.TOP_K): LlmGenerateRequest {
+    return { question, sources: index.search(question, { limit }), history: [] };
+  }
+
+  function cosine(a: Float32Array, b: Float32Array): number {
+    return a.reduce((sum, value, i) => sum + value * b[i], 0);
+  }
+
+  beforeEach(() => {
+    provider = new TemplateLlmProvider();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should be ready without loading anything', async () => {
+    expect(provider.loadProgress()).toEqual({ status: 'ready', progress: 1, text: '' });
+    await expect(firstValueFrom(provider.load())).resolves.toBeUndefined();
+  });
+
+  describe('compose', () => {
+    it('should quote each source with its citation marker', () => {
+      const input = request('Has Jay mentored junior developers?');
+      const text = provider.compose(input);
+
+      expect(text).toContain('Jay mentors junior and mid-level developers');
+      expect(text).toMatch(/ \[1\]/);
+      input.sources.forEach((_, i) => expect(text).toContain(`[${i + 1}]`));
+    });
+
+    it('should quote at most the configured number of sentences per source', () => {
+      const text = provider.compose(request('Is Jay available for hire?', 1));
+
+      expect(text.match(/[.!?](\s|$)/g)).toHaveLength(CHATBOT_CONFIG.SENTENCES_PER_SOURCE);
+    });
+
+    it('should say so when there are no sources', () => {
+      expect(provider.compose({ question: 'quantum gardening', sources: [], history: [] })).toBe(
+        NO_MATCH_ANSWER
+      );
+    });
+
+    it('should give the same answer to the same request', () => {
+      const input = request('Which testing tools does Jay use?');
+
+      expect(provider.compose(input)).toBe(provider.compose(input));
+    });
+  });
+
+  describe('generate', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('should stream a few words at a time and emit the full answer', () => {
+      const input = request('Which testing tools does Jay use?');
+      const onToken = vi.fn();
+      const next = vi.fn();
+      const complete = vi.fn();
+
+      provider.generate(input, { onToken }).subscribe({ next, complete });
+      vi.advanceTimersByTime(CHATBOT_CONFIG.STREAM_INTERVAL);
+
+      const [token, partial] = onToken.mock.calls[0];
+      expect(token).toBe(partial);
+      expect(partial.trim().split(/\s+/)).toHaveLength(CHATBOT_CONFIG.STREAM_WORDS_PER_TICK);
+      expect(next).not.toHaveBeenCalled();
+
+      vi.runAllTimers();
+
+      const full = provider.compose(input);
+      expect(next).toHaveBeenCalledExactlyOnceWith(full);
+      expect(onToken).toHaveBeenLastCalledWith(expect.any(String), full);
+      expect(complete).toHaveBeenCalled();
+    });
+
+    it('should stop streaming when unsubscribed', () => {
+      const onToken = vi.fn();
+
+      const subscription = provider
+        .generate(request('Which testing tools does Jay use?'), { onToken })
+        .subscribe();
+      vi.advanceTimersByTime(CHATBOT_CONFIG.STREAM_INTERVAL);
+      subscription.unsubscribe();
+      vi.runAllTimers();
+
+      expect(onToken).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('embed', () => {
+    it('should return one unit-length vector per text', async () => {
+      const vectors = await firstValueFrom(provider.embed(['Angular signals', 'Vitest']));
+
+      expect(vectors).toHaveLength(2);
+      vectors.forEach((vector) => {
+        expect(vector).toHaveLength(CHATBOT_CONFIG.EMBEDDING_DIMENSIONS);
+        expect(cosine(vector, vector)).toBeCloseTo(1);
+      });
+    });
+
+    it('should place texts sharing terms closer together', async () => {
+      const [query, related, unrelated] = await firstValueFrom(
+        provider.embed(['Angular testing', 'Testing Angular components', 'Team mentoring'])
+      );
+
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    });
+
+    it('should embed texts without terms to the zero vector', async () => {
+      const [vector] = await firstValueFrom(provider.embed(['what is the']));
+
+      expect(vector.every((value) => value === 0)).toBe(true);
+    });
+  });
+});
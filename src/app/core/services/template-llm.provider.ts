@@ -0,0 +1,135 @@
+import { signal } from '@angular/core';
+
+import type { Observable } from 'rxjs';
+import { defaultIfEmpty, defer, interval, map, of, scan, take, takeLast, tap } from 'rxjs';
+
+import { CHATBOT_CONFIG } from '@shared/constants';
+import { splitSentences, tokenize } from '@shared/utilities/text/text.utils';
+
+import type {
+  LlmGenerateRequest,
+  LlmLoadProgress,
+  LlmProvider,
+  LlmStreamCallbacks,
+} from './llm.provider';
+
+/** Answer when the question has no sources */
+export const NO_MATCH_ANSWER =
+  "I couldn't find anything about that in Jay's career notes. Try asking about Jay's " +
+  'experience with Angular, testing or accessibility, past roles, projects or leadership.';
+
+/**
+ * Deterministic provider that answers by quoting its sources
+ *
+ * Needs no model, GPU or network, and always gives the same answer to the
+ * same request, which makes it the default for development and tests:
+ * - Answers quote the sentences of each source sharing the most terms with
+ *   the question, each followed by its `[n]` citation marker
+ * - Answers are revealed a few words at a time, like a streaming model
+ * - Embeddings hash each term into a fixed-size bag of words, so texts
+ *   sharing terms get similar vectors
+ */
+export class TemplateLlmProvider implements LlmProvider {
+  readonly loadProgress = signal<LlmLoadProgress>({
+    status: 'ready',
+    progress: 1,
+    text: '',
+  }).asReadonly();
+
+  readonly embeddingModel = `template-hash-${CHATBOT_CONFIG.EMBEDDING_DIMENSIONS}`;
+
+  load(): Observable<void> {
+    return of(undefined);
+  }
+
+  generate(request: LlmGenerateRequest, callbacks: LlmStreamCallbacks = {}): Observable<string> {
+    return defer(() => {
+      const words = this.compose(request).split(/(?<=\s)/);
+      const steps = Math.ceil(words.length / CHATBOT_CONFIG.STREAM_WORDS_PER_TICK);
+
+      return interval(CHATBOT_CONFIG.STREAM_INTERVAL).pipe(
+        take(steps),
+        map((tick) =>
+          words
+            .slice(
+              tick * CHATBOT_CONFIG.STREAM_WORDS_PER_TICK,
+              (tick + 1) * CHATBOT_CONFIG.STREAM_WORDS_PER_TICK
+            )
+            .join('')
+        ),
+        scan(({ text }, token) => ({ token, text: text + token }), { token: '', text: '' }),
+        tap(({ token, text }) => callbacks.onToken?.(token, text)),
+        map(({ text }) => text),
+        takeLast(1),
+        defaultIfEmpty('')
+      );
+    });
+  }
+
+  embed(texts: string[]): Observable<Float32Array[]> {
+    return of(texts.map((text) => this.embedText(text)));
+  }
+
+  /**
+   * Writes the full answer to a request
+   *
+   * From each source, the `CHATBOT_CONFIG.SENTENCES_PER_SOURCE` sentences
+   * sharing the most terms with the question are quoted in their original
+   * order.
+   */
+  compose({ question, sources }: LlmGenerateRequest): string {
+    if (sources.length === 0) {
+      return NO_MATCH_ANSWER;
+    }
+
+    const queryTerms = new Set(tokenize(question));
+    return sources
+      .map((source, i) => `${this.quote(source.chunk.text, queryTerms)} [${i + 1}]`)
+      .join(' ');
+  }
+
+  /**
+   * Picks the sentences of a chunk that best match the question
+   */
+  private quote(text: string, queryTerms: Set<string>): string {
+    const sentences = splitSentences(text);
+    const ranked = sentences
+      .map((sentence, position) => ({
+        position,
+        overlap: tokenize(sentence).filter((term) => queryTerms.has(term)).length,
+      }))
+      .sort((a, b) => b.overlap - a.overlap || a.position - b.position)
+      .slice(0, CHATBOT_CONFIG.SENTENCES_PER_SOURCE)
+      .sort((a, b) => a.position - b.position);
+
+    return ranked.map(({ position }) => sentences[position]).join(' ');
+  }
+
+  /**
+   * Hashes the terms of a text into a unit-length vector
+   *
+   * Texts without any term embed to the zero vector.
+   */
+  private embedText(text: string): Float32Array {
+    const vector = new Float32Array(CHATBOT_CONFIG.EMBEDDING_DIMENSIONS);
+    tokenize(text).forEach((term) => {
+      const hash = fnv1a(term);
+      vector[hash % vector.length] += hash & 0x80000000 ? -1 : 1;
+    });
+
+    const norm = Math.hypot(...vector);
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,320 @@
+import { provideHttpClient } from '@angular/common/http';
+import type { TestRequest } from '@angular/common/http/testing';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import type { Provider } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+import { firstValueFrom } from 'rxjs';
+
+import { CHATBOT_CONFIG, CHATBOT_ENDPOINTS } from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
+import { CACHE_STORAGE_ADAPTER } from '@shared/services/cache/cache-storage.adapter';
+import { FakeCacheStorageAdapter } from '@shared/services/cache/fake-cache-storage.adapter';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+
+import corpus from '../../../assets/chatbot/corpus.json';
+import embeddings from '../../../assets/chatbot/embeddings.json';
+import type { CorpusChunk } from '../models/chatbot.model';
+import { ContentValidationError } from '../models/content-validation';
+
+import { CorpusIndex } from './corpus-index';
+import { LLM_PROVIDER } from './llm.provider';
+import { TemplateLlmProvider } from './template-llm.provider';
+import { VectorIndexService } from './vector-index.service';
+
+describe('VectorIndexService', () => {
+  let service: VectorIndexService;
+  let httpMock: HttpTestingController;
+  let errorHandler: ErrorHandlerService;
+  let cache: CacheService;
+  let storage: FakeCacheStorageAdapter | null;
+
+  const corpusIndex = new CorpusIndex(corpus as CorpusChunk[]);
+
+  function createService(providers: Provider[] = []): void {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: CACHE_STORAGE_ADAPTER, useValue: storage },
+        ...providers,
+      ],
+    });
+    service = TestBed.inject(VectorIndexService);
+    httpMock = TestBed.inject(HttpTestingController);
+    cache = TestBed.inject(CacheService);
+    errorHandler = TestBed.inject(ErrorHandlerService);
+    vi.spyOn(errorHandler, 'handleError').mockImplementation(() => undefined);
+  }
+
+  /**
+   * Packs rows into the `embeddings.json` format
+   */
+  function embeddingsFile(ids: number[], rows: number[][], dimensions = rows[0]?.length ?? 0) {
+    const bytes = new Uint8Array(new Float32Array(rows.flat()).buffer);
+    return {
+      model: 'template-hash-384',
+      dimensions,
+      ids,
+      vectors: window.btoa(String.fromCharCode(...bytes)),
+    };
+  }
+
+  /**
+   * Answers the embeddings request once the cache has been checked
+   */
+  async function flush(data: object = embeddings): Promise<void> {
+    const request = await vi.waitFor<TestRequest>(() =>
+      httpMock.expectOne(CHATBOT_ENDPOINTS.EMBEDDINGS)
+    );
+    request.flush(data);
+  }
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+    storage = new FakeCacheStorageAdapter();
+    createService();
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    cache.stopPeriodicCleanup();
+  });
+
+  describe('load', () => {
+    it('should index every corpus chunk once and share the index', async () => {
+      expect(service.status()).toBe('idle');
+
+      const first = firstValueFrom(service.load(corpusIndex));
+      const second = firstValueFrom(service.load(corpusIndex));
+      expect(service.status()).toBe('loading');
+      await flush();
+
+      const index = await first;
+      expect(index.size).toBe(corpus.length);
+      expect(index.dimensions).toBe(CHATBOT_CONFIG.EMBEDDING_DIMENSIONS);
+      expect(await second).toBe(index);
+      expect(service.status()).toBe('ready');
+      expect(errorHandler.handleError).not.toHaveBeenCalled();
+    });
+
+    it('should index another corpus separately', async () => {
+      const loading = firstValueFrom(service.load(corpusIndex));
+      await flush();
+      await loading;
+
+      const subset = new CorpusIndex((corpus as CorpusChunk[]).slice(0, 2));
+      const reloading = firstValueFrom(service.load(subset));
+      await flush();
+
+      expect((await reloading).size).toBe(2);
+    });
+
+    it('should cache the decoded vectors for the next visit', async () => {
+      const loading = firstValueFrom(service.load(corpusIndex));
+      await flush();
+      const index = await loading;
+      const entry = await storage!.get<{ vectors: unknown }>('chatbot:embeddings');
+      expect(entry?.value.vectors).toBeInstanceOf(Float32Array);
+
+      cache.stopPeriodicCleanup();
+      TestBed.resetTestingModule();
+      createService();
+
+      const restoring = firstValueFrom(service.load(corpusIndex));
+      const restored = await restoring;
+
+      expect(restored.size).toBe(index.size);
+      expect(restored.search(new Float32Array(restored.dimensions).fill(1))).toEqual(
+        index.search(new Float32Array(index.dimensions).fill(1))
+      );
+    });
+
+    it('should download again when the cached vectors mention unknown chunks', async () => {
+      const stale = embeddingsFile(
+        [1, 999],
+        [
+          [1, 0],
+          [0, 1],
+        ]
+      );
+      await cache.setAsync('chatbot:embeddings', {
+        ...stale,
+        vectors: new Float32Array([1, 0, 0, 1]),
+        fileIds: stale.ids,
+      });
+
+      const loading = firstValueFrom(service.load(corpusIndex));
+      await flush();
+
+      expect((await loading).size).toBe(corpus.length);
+    });
+
+    it('should download again when the cached vectors come from another model', async () => {
+      const ids = corpus.map((chunk) => chunk.id);
+      await cache.setAsync('chatbot:embeddings', {
+        ...embeddingsFile(
+          ids,
+          ids.map(() => [1, 0])
+        ),
+        model: 'old-model',
+        vectors: new Float32Array(ids.length * 2),
+        fileIds: ids,
+      });
+
+      const loading = firstValueFrom(service.load(corpusIndex));
+      await flush();
+
+      const index = await loading;
+      expect(index.model).toBe(embeddings.model);
+      expect(index.dimensions).toBe(CHATBOT_CONFIG.EMBEDDING_DIMENSIONS);
+    });
+
+    it('should download again when the corpus has chunks without cached vectors', async () => {
+      const ids = corpus.slice(1).map((chunk) => chunk.id);
+      await cache.setAsync('chatbot:embeddings', {
+        ...embeddingsFile(
+          ids,
+          ids.map(() => [1, 0])
+        ),
+        vectors: new Float32Array(ids.length * 2),
+        fileIds: corpus.map((chunk) => chunk.id),
+      });
+
+      const loading = firstValueFrom(service.load(corpusIndex));
+      await flush();
+
+      expect((await loading).size).toBe(corpus.length);
+    });
+
+    it('should reuse cached vectors of a file missing some chunks without reporting again', async () => {
+      const ids = corpus.slice(1).map((chunk) => chunk.id);
+      const loading = firstValueFrom(service.load(corpusIndex));
+      await flush(
+        embeddingsFile(
+          ids,
+          ids.map(() => [1, 0])
+        )
+      );
+      expect((await loading).size).toBe(ids.length);
+      expect(errorHandler.handleError).toHaveBeenCalledTimes(1);
+
+      cache.stopPeriodicCleanup();
+      TestBed.resetTestingModule();
+      createService();
+
+      const restoring = firstValueFrom(service.load(corpusIndex));
+
+      expect((await restoring).size).toBe(ids.length);
+      expect(errorHandler.handleError).not.toHaveBeenCalled();
+    });
+
+    it('should not persist without IndexedDB', async () => {
+      cache.stopPeriodicCleanup();
+      TestBed.resetTestingModule();
+      storage = null;
+      createService();
+
+      const loading = firstValueFrom(service.load(corpusIndex));
+      await flush();
+      await loading;
+
+      expect(Object.keys(window.localStorage)).not.toContainEqual(
+        expect.stringContaining('chatbot:embeddings')
+      );
+    });
+
+    it('should report and skip unknown, repeated and missing ids', async () => {
+      const loading = firstValueFrom(service.load(corpusIndex));
+      await flush(
+        embeddingsFile(
+          [1, 1, 999],
+          [
+            [1, 0],
+            [0, 1],
+            [1, 1],
+          ]
+        )
+      );
+
+      expect((await loading).size).toBe(1);
+      const [error] = vi.mocked(errorHandler.handleError).mock.calls[0];
+      expect(error).toBeInstanceOf(ContentValidationError);
+      expect((error as ContentValidationError).issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ index: 1, message: 'Duplicate id "1"' }),
+          expect.objectContaining({ index: 2, message: 'No corpus chunk with this id' }),
+          expect.objectContaining({ id: '2', message: 'Missing embedding' }),
+        ])
+      );
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ source: 'VectorIndexService', severity: 'medium' })
+      );
+    });
+
+    it.each([
+      ['a malformed payload', { vectors: [] }],
+      ['vectors of the wrong length', { ...embeddingsFile([1, 2], [[1, 0, 0]]), dimensions: 3 }],
+      ['vectors that are not floats', { ...embeddingsFile([], []), vectors: 'AAA=' }],
+    ])('should fail for %s and retry on the next call', async (_, data) => {
+      const failed = firstValueFrom(service.load(corpusIndex));
+      await flush(data);
+
+      await expect(failed).rejects.toBeInstanceOf(ContentValidationError);
+      expect(service.status()).toBe('error');
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        expect.any(ContentValidationError),
+        expect.objectContaining({ action: 'parseEmbeddings', severity: 'high' })
+      );
+
+      const retried = firstValueFrom(service.load(corpusIndex));
+      const request = await vi.waitFor<TestRequest>(() =>
+        httpMock.expectOne(CHATBOT_ENDPOINTS.EMBEDDINGS)
+      );
+      request.flush(embeddings);
+      expect((await retried).size).toBe(corpus.length);
+    });
+  });
+
+  describe('search', () => {
+    it('should embed the question and return the closest chunks', async () => {
+      const results = firstValueFrom(
+        service.search('Has Jay mentored junior developers?', corpusIndex)
+      );
+      await flush();
+
+      const [best, ...rest] = await results;
+      expect(best.chunk.metadata?.topic).toBe('mentoring');
+      expect(rest.length).toBeLessThan(CHATBOT_CONFIG.TOP_K);
+    });
+
+    it('should apply metadata filters', async () => {
+      const results = firstValueFrom(
+        service.search('Angular', corpusIndex, { category: 'projects', limit: 10 })
+      );
+      await flush();
+
+      const projects = await results;
+      expect(projects.length).toBeGreaterThan(0);
+      expect(projects.every((result) => result.chunk.metadata?.category === 'projects')).toBe(true);
+    });
+
+    it('should refuse questions embedded by another model', async () => {
+      cache.stopPeriodicCleanup();
+      TestBed.resetTestingModule();
+      createService([
+        {
+          provide: LLM_PROVIDER,
+          useValue: Object.assign(new TemplateLlmProvider(), { embeddingModel: 'other-model' }),
+        },
+      ]);
+
+      const results = firstValueFrom(service.search('Angular', corpusIndex));
+      await flush();
+
+      await expect(results).rejects.toThrow('other-model');
+    });
+  });
+});
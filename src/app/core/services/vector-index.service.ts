@@ -0,0 +1,296 @@
+import { HttpClient } from '@angular/common/http';
+import { inject, Injectable, signal } from '@angular/core';
+
+import type { Observable } from 'rxjs';
+import { catchError, defer, forkJoin, map, of, shareReplay, switchMap, tap } from 'rxjs';
+
+import { CACHE_CONFIG, CACHE_TAGS, CHATBOT_CONFIG, CHATBOT_ENDPOINTS } from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
+import { CACHE_STORAGE_ADAPTER } from '@shared/services/cache/cache-storage.adapter';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+
+import type { CorpusChunk, PackedEmbeddings, RetrievedChunk } from '../models/chatbot.model';
+import { EmbeddingsFileSchema } from '../models/chatbot.model';
+import type { ContentValidationIssue } from '../models/content-validation';
+import { ContentValidationError } from '../models/content-validation';
+
+import type { ChatbotStatus } from './chatbot.service';
+import type { CorpusIndex } from './corpus-index';
+import { LLM_PROVIDER } from './llm.provider';
+import type { VectorSearchOptions } from './vector-index';
+import { decodeVectors, VectorIndex } from './vector-index';
+
+/** Cache key of the decoded embeddings */
+const EMBEDDINGS_CACHE_KEY = 'chatbot:embeddings';
+
+/**
+ * Decoded embeddings as kept in the cache
+ */
+interface CachedEmbeddings extends PackedEmbeddings {
+  /** Every chunk id listed in the downloaded file, including skipped ones */
+  fileIds: number[];
+}
+
+/**
+ * Semantic search over the chatbot knowledge base
+ *
+ * Loads the precomputed chunk embeddings (`embeddings.json`), checks them
+ * against the ids of the corpus loaded by `ChatbotService` and searches them
+ * by cosine similarity ({@link VectorIndex}). Questions are embedded with the
+ * `LLM_PROVIDER`, whose `embeddingModel` must match the model the file was
+ * produced with. `ChatbotService` combines these results with BM25 when the
+ * models match.
+ *
+ * The decoded vectors are kept in IndexedDB through `CacheService`
+ * (`CACHE_CONFIG.STATIC_CONTENT_TTL`, tagged `CACHE_TAGS.CONTENT`), so
+ * repeat visits skip the download and decoding. Cached vectors mentioning a
+ * chunk that is no longer in the corpus are discarded; chunks the file has no
+ * embedding for are reported once, when it is downloaded.
+ *
+ * @example
+ * ```typescript
+ * export class RelatedChunksComponent {
+ *   private readonly chatbot = inject(ChatbotService);
+ *   private readonly vectors = inject(VectorIndexService);
+ *
+ *   readonly related$ = this.chatbot
+ *     .loadCorpus()
+ *     .pipe(
+ *       switchMap((corpus) =>
+ *         this.vectors.search('Angular performance', corpus, { category: 'projects' })
+ *       )
+ *     );
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class VectorIndexService {
+  private readonly http = inject(HttpClient);
+  private readonly cache = inject(CacheService);
+  private readonly storageAdapter = inject(CACHE_STORAGE_ADAPTER);
+  private readonly errorHandler = inject(ErrorHandlerService);
+  private readonly llm = inject(LLM_PROVIDER);
+
+  private readonly _status = signal<ChatbotStatus>('idle');
+
+  private index$?: Observable<VectorIndex>;
+  private corpus?: CorpusIndex;
+
+  /**
+   * Loading state of the embeddings
+   */
+  readonly status = this._status.asReadonly();
+
+  /**
+   * Loads the embeddings of a corpus into a vector index
+   *
+   * The index is built once per corpus and shared; a failed load is retried
+   * by the next call. Embeddings of unknown or repeated chunk ids are
+   * reported and skipped, as are corpus chunks without an embedding.
+   *
+   * @param corpus - Knowledge base loaded by `ChatbotService.loadCorpus()`
+   * @returns Observable of the index
+   */
+  load(corpus: CorpusIndex): Observable<VectorIndex> {
+    if (!this.index$ || this.corpus !== corpus) {
+      const { chunks } = corpus;
+      this.corpus = corpus;
+      this._status.set('loading');
+      this.index$ = this.loadEmbeddings(chunks).pipe(
+        map((embeddings) => new VectorIndex(chunks, embeddings)),
+        tap({
+          next: () => this._status.set('ready'),
+          error: () => {
+            this._status.set('error');
+            this.index$ = undefined;
+          },
+        }),
+        shareReplay({ bufferSize: 1, refCount: false })
+      );
+    }
+    return this.index$;
+  }
+
+  /**
+   * Finds the chunks closest in meaning to a question
+   *
+   * @param question - Free-text question
+   * @param corpus - Knowledge base loaded by `ChatbotService.loadCorpus()`
+   * @param options - Result limit (default: `CHATBOT_CONFIG.TOP_K`) and metadata filters
+   * @returns Observable of the matching chunks, most similar first
+   * @throws Error if the provider embeds with a different model than the file
+   */
+  search(
+    question: string,
+    corpus: CorpusIndex,
+    options: VectorSearchOptions = {}
+  ): Observable<RetrievedChunk[]> {
+    return forkJoin([this.load(corpus), this.llm.embed([question])]).pipe(
+      map(([index, [query]]) => {
+        if (index.model !== this.llm.embeddingModel) {
+          throw new Error(
+            `Embeddings were produced by ${index.model}, but questions are embedded by ${this.llm.embeddingModel}`
+          );
+        }
+        return index.search(query, { limit: CHATBOT_CONFIG.TOP_K, ...options });
+      })
+    );
+  }
+
+  /**
+   * Reads the embeddings from the cache, or downloads and caches them
+   *
+   * The cached entry is only reused when it was produced by the provider's
+   * embedding model and holds a vector for every corpus chunk the file covered.
+   */
+  private loadEmbeddings(chunks: CorpusChunk[]): Observable<PackedEmbeddings> {
+    const ids = new Set(chunks.map((chunk) => chunk.id));
+
+    return defer(() => this.cache.getAsync<CachedEmbeddings>(EMBEDDINGS_CACHE_KEY)).pipe(
+      catchError(() => of(null)),
+      switchMap((cached) =>
+        cached && this.isFresh(cached, ids)
+          ? of(cached)
+          : this.http.get<unknown>(CHATBOT_ENDPOINTS.EMBEDDINGS).pipe(
+              map((data) => this.parseEmbeddings(data, ids)),
+              tap((embeddings) => this.persist(embeddings))
+            )
+      )
+    );
+  }
+
+  /**
+   * Whether cached embeddings match the current model, and hold exactly the
+   * corpus chunks their file covered
+   *
+   * Corpus chunks the file had no embedding for don't make the entry stale,
+   * as downloading the same file again would not add them.
+   */
+  private isFresh(cached: CachedEmbeddings, corpusIds: Set<number>): boolean {
+    if (!Array.isArray(cached.fileIds)) {
+      return false;
+    }
+    const cachedIds = new Set(cached.ids);
+    const coveredIds = new Set(cached.fileIds.filter((id) => corpusIds.has(id)));
+    return (
+      cached.vectors instanceof Float32Array &&
+      cached.model === this.llm.embeddingModel &&
+      cachedIds.size === coveredIds.size &&
+      [...coveredIds].every((id) => cachedIds.has(id))
+    );
+  }
+
+  /**
+   * Validates and decodes the raw embeddings payload against the corpus ids
+   *
+   * @throws ContentValidationError if the payload is malformed
+   */
+  private parseEmbeddings(data: unknown, corpusIds: Set<number>): CachedEmbeddings {
+    const result = EmbeddingsFileSchema.safeParse(data);
+    if (!result.success) {
+      throw this.report(
+        result.error.issues.map((issue) => ({
+          index: -1,
+          path: issue.path.join('.'),
+          message: issue.message,
+        })),
+        'high'
+      );
+    }
+
+    const { model, dimensions, ids, vectors: encoded } = result.data;
+    const vectors = this.decode(encoded);
+    if (vectors?.length !== ids.length * dimensions) {
+      throw this.report(
+        [
+          {
+            index: -1,
+            path: 'vectors',
+            message: vectors
+              ? `Expected ${ids.length} vectors of ${dimensions} values, got ${vectors.length} values`
+              : 'Must encode 32-bit floats',
+          },
+        ],
+        'high'
+      );
+    }
+
+    const seen = new Set<number>();
+    const issues: ContentValidationIssue[] = [];
+    const rows = ids.flatMap((id, index) => {
+      const known = corpusIds.has(id) && !seen.has(id);
+      if (!known) {
+        issues.push({
+          index,
+          id: String(id),
+          path: 'ids',
+          message: seen.has(id) ? `Duplicate id "${id}"` : 'No corpus chunk with this id',
+        });
+      }
+      seen.add(id);
+      return known ? [index] : [];
+    });
+    [...corpusIds]
+      .filter((id) => !seen.has(id))
+      .forEach((id) =>
+        issues.push({ index: -1, id: String(id), path: 'ids', message: 'Missing embedding' })
+      );
+
+    if (issues.length > 0) {
+      this.report(issues, 'medium');
+    }
+
+    const packed = new Float32Array(rows.length * dimensions);
+    rows.forEach((row, i) =>
+      packed.set(vectors.subarray(row * dimensions, (row + 1) * dimensions), i * dimensions)
+    );
+    return { model, dimensions, ids: rows.map((row) => ids[row]), vectors: packed, fileIds: ids };
+  }
+
+  /**
+   * Decodes the packed vectors, or returns null if they are not valid base64 floats
+   */
+  private decode(encoded: string): Float32Array | null {
+    try {
+      return decodeVectors(encoded);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Reports invalid embeddings through the error handler
+   *
+   * @returns The reported error
+   */
+  private report(
+    issues: ContentValidationIssue[],
+    severity: 'medium' | 'high'
+  ): ContentValidationError {
+    const error = new ContentValidationError(CHATBOT_ENDPOINTS.EMBEDDINGS, issues);
+    this.errorHandler.handleError(error, {
+      source: 'VectorIndexService',
+      action: 'parseEmbeddings',
+      showToast: false,
+      severity,
+      data: { issues },
+    });
+    return error;
+  }
+
+  /**
+   * Keeps the decoded embeddings in IndexedDB; skipped when it is unavailable,
+   * as typed arrays don't survive the localStorage fallback
+   */
+  private persist(embeddings: CachedEmbeddings): void {
+    if (!this.storageAdapter) {
+      return;
+    }
+    void this.cache.setAsync(EMBEDDINGS_CACHE_KEY, embeddings, {
+      ttl: CACHE_CONFIG.STATIC_CONTENT_TTL,
+      tags: [CACHE_TAGS.CONTENT],
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import type { CorpusChunk, PackedEmbeddings } from '../models/chatbot.model';
+
+import { decodeVectors, VectorIndex } from './vector-index';
+
+describe('decodeVectors', () => {
+  it('should decode little-endian 32-bit floats', () => {
+    const bytes = new Uint8Array(new Float32Array([1, -0.5, 0.25]).buffer);
+    const base64 = window.btoa(String.fromCharCode(...bytes));
+
+    expect(decodeVectors(base64)).toEqual(new Float32Array([1, -0.5, 0.25]));
+  });
+
+  it('should reject data that is not a whole number of floats', () => {
+    expect(() => decodeVectors(window.btoa('abcde'))).toThrow(RangeError);
+  });
+});
+
+describe('VectorIndex', () => {
+  const chunks: CorpusChunk[] = [
+    {
+      id: 1,
+      text: 'Angular',
+      metadata: { category: 'technical-skills', topic: 'angular', source: 'resume' },
+    },
+    {
+      id: 2,
+      text: 'Dashboard',
+      metadata: { category: 'projects', topic: 'dashboards', source: 'portfolio' },
+    },
+    {
+      id: 3,
+      text: 'Mentoring',
+      metadata: { category: 'leadership', topic: 'mentoring', source: 'resume' },
+    },
+    { id: 4, text: 'No embedding' },
+  ];
+  const embeddings: PackedEmbeddings = {
+    model: 'test',
+    dimensions: 3,
+    ids: [1, 2, 3, 99],
+    // Rows are deliberately not unit length
+    vectors: new Float32Array([2, 0, 0, 1, 1, 0, 0, 0, 5, 1, 1, 1]),
+  };
+  const index = new VectorIndex(chunks, embeddings);
+
+  it('should index the chunks that have an embedding', () => {
+    expect(index.size).toBe(3);
+    expect(index.model).toBe('test');
+    expect(index.dimensions).toBe(3);
+  });
+
+  it('should rank chunks by cosine similarity', () => {
+    const results = index.search([1, 0.2, 0]);
+
+    expect(results.map((result) => result.chunk.id)).toEqual([1, 2]);
+    expect(results[0].score).toBeCloseTo(1 / Math.hypot(1, 0.2));
+    expect(results[1].score).toBeCloseTo(1.2 / (Math.hypot(1, 0.2) * Math.SQRT2));
+  });
+
+  it('should not depend on the query length', () => {
+    expect(index.search([10, 2, 0])).toEqual(index.search([1, 0.2, 0]));
+  });
+
+  it('should respect the limit', () => {
+    expect(index.search([1, 1, 1], { limit: 2 })).toHaveLength(2);
+  });
+
+  it.each([
+    [{ category: 'leadership' as const }, [3]],
+    [{ topic: 'dashboards' }, [2]],
+    [{ source: 'resume' }, [1, 3]],
+    [{ source: 'resume', topic: 'angular' }, [1]],
+  ])('should filter by metadata %o', (filters, ids) => {
+    const results = index.search([1, 1, 1], filters);
+
+    expect(results.map((result) => result.chunk.id).sort()).toEqual(ids);
+  });
+
+  it('should omit dissimilar chunks and handle a zero query', () => {
+    expect(index.search([-1, -1, 0])).toEqual([]);
+    expect(index.search([0, 0, 0])).toEqual([]);
+  });
+
+  it('should reject a query of the wrong length', () => {
+    expect(() => index.search([1, 0])).toThrow(RangeError);
+  });
+});
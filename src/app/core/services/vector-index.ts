@@ -0,0 +1,135 @@
+/* eslint-disable no-undef */
+import type {
+  CorpusCategory,
+  CorpusChunk,
+  PackedEmbeddings,
+  RetrievedChunk,
+} from '../models/chatbot.model';
+
+/**
+ * Options for {@link VectorIndex.search}
+ */
+export interface VectorSearchOptions {
+  /** Maximum number of results */
+  limit?: number;
+  /** Only return chunks of this category */
+  category?: CorpusCategory;
+  /** Only return chunks about this topic */
+  topic?: string;
+  /** Only return chunks from this source document */
+  source?: string;
+}
+
+/**
+ * Decodes base64 rows of little-endian 32-bit floats
+ *
+ * @throws RangeError if the data is not a whole number of floats
+ */
+export function decodeVectors(base64: string): Float32Array {
+  const binary = atob(base64);
+  if (binary.length % 4 !== 0) {
+    throw new RangeError(`Expected a multiple of 4 bytes, got ${binary.length}`);
+  }
+
+  const view = new DataView(Uint8Array.from(binary, (char) => char.charCodeAt(0)).buffer);
+  return Float32Array.from({ length: binary.length / 4 }, (_, i) => view.getFloat32(i * 4, true));
+}
+
+/**
+ * Indexed chunk with its unit-length vector
+ */
+interface IndexedVector {
+  chunk: CorpusChunk;
+  vector: Float32Array;
+}
+
+/**
+ * In-memory cosine similarity index over precomputed chunk embeddings
+ *
+ * Rows are normalized once when the index is built, so a search is a single
+ * dot product per chunk. Embeddings whose id is not in `chunks` are ignored,
+ * and chunks without an embedding are never returned.
+ *
+ * @example
+ * ```typescript
+ * const index = new VectorIndex(chunks, embeddings);
+ * const results = index.search(queryVector, { limit: 3, category: 'projects' });
+ * ```
+ */
+export class VectorIndex {
+  private readonly entries: IndexedVector[] = [];
+
+  /** Embedding model the vectors were produced with */
+  readonly model: string;
+
+  /** Length of each vector */
+  readonly dimensions: number;
+
+  constructor(chunks: readonly CorpusChunk[], embeddings: PackedEmbeddings) {
+    const byId = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+    const { dimensions, ids, vectors } = embeddings;
+
+    this.model = embeddings.model;
+    this.dimensions = dimensions;
+
+    ids.forEach((id, row) => {
+      const chunk = byId.get(id);
+      if (chunk) {
+        this.entries.push({
+          chunk,
+          vector: normalize(vectors.subarray(row * dimensions, (row + 1) * dimensions)),
+        });
+      }
+    });
+  }
+
+  /**
+   * Number of searchable chunks
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Ranks chunks by cosine similarity to a query vector
+   *
+   * @param query - Query embedding from the same model
+   * @param options - Result limit and metadata filters
+   * @returns Matching chunks, most similar first; chunks with a similarity of
+   * zero or less are omitted
+   * @throws RangeError if the query length differs from the index dimensions
+   */
+  search(query: ArrayLike<number>, options: VectorSearchOptions = {}): RetrievedChunk[] {
+    if (query.length !== this.dimensions) {
+      throw new RangeError(`Expected a ${this.dimensions}-dimensional query, got ${query.length}`);
+    }
+
+    const { limit = Infinity, category, topic, source } = options;
+    const unit = normalize(Float32Array.from(query));
+
+    return this.entries
+      .filter(({ chunk: { metadata } }) => !category || metadata?.category === category)
+      .filter(({ chunk: { metadata } }) => !topic || metadata?.topic === topic)
+      .filter(({ chunk: { metadata } }) => !source || metadata?.source === source)
+      .map(({ chunk, vector }) => ({ chunk, score: dot(unit, vector) }))
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.chunk.id - b.chunk.id)
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Copy of a vector scaled to unit length; the zero vector stays zero
+ */
+function normalize(vector: Float32Array): Float32Array {
+  const norm = Math.sqrt(dot(vector, vector));
+  return norm > 0 ? vector.map((value) => value / norm) : vector.slice();
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,157 @@
+import { firstValueFrom } from 'rxjs';
+import type { Mock } from 'vitest';
+
+import { CHATBOT_CONFIG } from '@shared/constants';
+
+import corpus from '../../../assets/chatbot/corpus.json';
+import type { ChatMessage, CorpusChunk } from '../models/chatbot.model';
+
+import type { LlmGenerateRequest } from './llm.provider';
+import type { WebLlmEngine, WebLlmEngineConfig, WebLlmOptions } from './web-llm.provider';
+import { WEB_LLM_SYSTEM_PROMPT, WebLlmProvider } from './web-llm.provider';
+
+describe('WebLlmProvider', () => {
+  const chunk = (corpus as CorpusChunk[])[0];
+  const request: LlmGenerateRequest = {
+    question: 'How long has Jay worked with Angular?',
+    sources: [{ chunk, score: 2 }],
+    history: [],
+  };
+
+  let engine: WebLlmEngine;
+  let createEngine: Mock<WebLlmOptions['createEngine']>;
+  let provider: WebLlmProvider;
+
+  /**
+   * Streams the tokens as WebLLM completion chunks, waiting for `pause`
+   * after each one
+   */
+  async function* completion(tokens: string[], pause: Promise<void> = Promise.resolve()) {
+    for (const content of tokens) {
+      await Promise.resolve();
+      yield { choices: [{ delta: { content } }] };
+      await pause;
+    }
+  }
+
+  function message(role: ChatMessage['role'], text: string): ChatMessage {
+    return { id: text, role, text, sources: [], streaming: false, createdAt: '' };
+  }
+
+  beforeEach(() => {
+    engine = {
+      chat: {
+        completions: {
+          create: vi.fn(async () => completion(['Five ', 'years. ', '[1]'])),
+        },
+      },
+      embeddings: {
+        create: vi.fn(async ({ input }: { input: string[] }) => ({
+          data: input.map((_, i) => ({ embedding: [i, 1] })),
+        })),
+      },
+      interruptGenerate: vi.fn(),
+    };
+    createEngine = vi.fn(async (_: string, config: WebLlmEngineConfig) => {
+      config.initProgressCallback({ progress: 0.5, text: 'Fetching weights' });
+      return engine;
+    });
+    provider = new WebLlmProvider({ model: 'test-model', createEngine });
+  });
+
+  describe('load', () => {
+    it('should create the engine once and report progress', async () => {
+      expect(provider.loadProgress().status).toBe('idle');
+
+      const loading = firstValueFrom(provider.load());
+      expect(provider.loadProgress()).toEqual({
+        status: 'loading',
+        progress: 0.5,
+        text: 'Fetching weights',
+      });
+      await loading;
+      await firstValueFrom(provider.load());
+
+      expect(createEngine).toHaveBeenCalledExactlyOnceWith('test-model', expect.any(Object));
+      expect(provider.loadProgress()).toEqual({ status: 'ready', progress: 1, text: '' });
+    });
+
+    it('should report a failed load and retry on the next call', async () => {
+      createEngine.mockRejectedValueOnce(new Error('WebGPU is not available'));
+
+      await expect(firstValueFrom(provider.load())).rejects.toThrow('WebGPU is not available');
+      expect(provider.loadProgress()).toEqual({
+        status: 'error',
+        progress: 0,
+        text: 'WebGPU is not available',
+      });
+
+      await firstValueFrom(provider.load());
+      expect(createEngine).toHaveBeenCalledTimes(2);
+      expect(provider.loadProgress().status).toBe('ready');
+    });
+  });
+
+  describe('generate', () => {
+    it('should stream tokens and emit the full answer', async () => {
+      const onToken = vi.fn();
+
+      const answer = await firstValueFrom(provider.generate(request, { onToken }));
+
+      expect(answer).toBe('Five years. [1]');
+      expect(onToken.mock.calls).toEqual([
+        ['Five ', 'Five '],
+        ['years. ', 'Five years. '],
+        ['[1]', 'Five years. [1]'],
+      ]);
+      expect(engine.interruptGenerate).not.toHaveBeenCalled();
+    });
+
+    it('should interrupt the engine when unsubscribed', async () => {
+      vi.mocked(engine.chat.completions.create).mockImplementationOnce(async () =>
+        completion(['Five ', 'years. '], new Promise(() => undefined))
+      );
+      const onToken = vi.fn();
+      const subscription = provider.generate(request, { onToken }).subscribe();
+      await vi.waitFor(() => expect(onToken).toHaveBeenCalled());
+
+      subscription.unsubscribe();
+
+      expect(engine.interruptGenerate).toHaveBeenCalled();
+    });
+
+    it('should fail when the engine fails', async () => {
+      vi.mocked(engine.chat.completions.create).mockRejectedValueOnce(new Error('Device lost'));
+
+      await expect(firstValueFrom(provider.generate(request))).rejects.toThrow('Device lost');
+    });
+  });
+
+  describe('buildMessages', () => {
+    it('should ground the question in numbered sources after recent history', () => {
+      const history = Array.from({ length: 8 }, (_, i) =>
+        message(i % 2 ? 'assistant' : 'user', `Message ${i}`)
+      );
+
+      const messages = provider.buildMessages({ ...request, history });
+
+      expect(messages[0]).toEqual({ role: 'system', content: WEB_LLM_SYSTEM_PROMPT });
+      expect(messages.slice(1, -1).map((entry) => entry.content)).toEqual(
+        history.slice(-CHATBOT_CONFIG.PROMPT_HISTORY).map((entry) => entry.text)
+      );
+      expect(messages[messages.length - 1]).toEqual({
+        role: 'user',
+        content: `Sources:\n[1] ${chunk.text}\n\nQuestion: ${request.question}`,
+      });
+    });
+  });
+
+  describe('embed', () => {
+    it('should return one vector per text', async () => {
+      const vectors = await firstValueFrom(provider.embed(['a', 'b']));
+
+      expect(engine.embeddings.create).toHaveBeenCalledWith({ input: ['a', 'b'] });
+      expect(vectors).toEqual([Float32Array.from([0, 1]), Float32Array.from([1, 1])]);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { signal } from '@angular/core';
+
+import { defer, map, Observable, shareReplay, switchMap, tap } from 'rxjs';
+
+import { CHATBOT_CONFIG } from '@shared/constants';
+
+import type {
+  LlmGenerateRequest,
+  LlmLoadProgress,
+  LlmProvider,
+  LlmStreamCallbacks,
+} from './llm.provider';
+
+/**
+ * Chat message in the OpenAI-style format used by WebLLM
+ */
+export interface WebLlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Progress report sent by WebLLM while a model downloads and compiles
+ */
+export interface WebLlmProgressReport {
+  /** Share loaded, from 0 to 1 */
+  progress: number;
+  /** Human-readable description */
+  text: string;
+}
+
+/**
+ * Engine options passed to `createEngine`
+ */
+export interface WebLlmEngineConfig {
+  initProgressCallback: (report: WebLlmProgressReport) => void;
+}
+
+/**
+ * Part of the WebLLM `MLCEngine` API used by {@link WebLlmProvider}
+ *
+ * Declared here so the app compiles without the `@mlc-ai/web-llm` package.
+ */
+export interface WebLlmEngine {
+  chat: {
+    completions: {
+      create(request: {
+        messages: WebLlmMessage[];
+        stream: true;
+        temperature?: number;
+      }): Promise<AsyncIterable<{ choices: { delta: { content?: string | null } }[] }>>;
+    };
+  };
+  embeddings: {
+    create(request: {
+      input: string[];
+      model?: string;
+    }): Promise<{ data: { embedding: number[] }[] }>;
+  };
+  interruptGenerate(): void;
+}
+
+/**
+ * Options of {@link WebLlmProvider}
+ */
+export interface WebLlmOptions {
+  /** WebLLM model id */
+  model: string;
+  /** Creates the engine, typically `CreateMLCEngine` from `@mlc-ai/web-llm` */
+  createEngine: (model: string, config: WebLlmEngineConfig) => Promise<WebLlmEngine>;
+  /** WebLLM id of an embedding model loaded by the engine (default: `model`) */
+  embeddingModel?: string;
+  /** Sampling temperature; low values keep answers close to the sources */
+  temperature?: number;
+}
+
+/** Instructions given to the model before each question */
+export const WEB_LLM_SYSTEM_PROMPT =
+  "You answer questions about Jay's career for visitors of Jay's portfolio. Answer only " +
+  'from the numbered sources, in at most three sentences, and cite them with markers ' +
+  "like [1]. If the sources don't answer the question, say so.";
+
+/**
+ * Provider that runs a WebLLM model in the browser on WebGPU
+ *
+ * The engine is created on the first `load()`, `generate()` or `embed()`
+ * call, reporting download and compilation progress through `loadProgress`.
+ * Embedding requires the engine to serve an embedding model.
+ *
+ * Provided with `provideWebLlm()`.
+ */
+export class WebLlmProvider implements LlmProvider {
+  private readonly _loadProgress = signal<LlmLoadProgress>({
+    status: 'idle',
+    progress: 0,
+    text: '',
+  });
+
+  private engine$?: Observable<WebLlmEngine>;
+
+  readonly loadProgress = this._loadProgress.asReadonly();
+
+  readonly embeddingModel: string;
+
+  constructor(private readonly options: WebLlmOptions) {
+    this.embeddingModel = options.embeddingModel ?? options.model;
+  }
+
+  load(): Observable<void> {
+    return this.loadEngine().pipe(map(() => undefined));
+  }
+
+  generate(request: LlmGenerateRequest, callbacks: LlmStreamCallbacks = {}): Observable<string> {
+    return this.loadEngine().pipe(
+      switchMap(
+        (engine) =>
+          new Observable<string>((subscriber) => {
+            let done = false;
+
+            (async () => {
+              const chunks = await engine.chat.completions.create({
+                messages: this.buildMessages(request),
+                stream: true,
+                temperature: this.options.temperature ?? 0.2,
+              });
+              let text = '';
+              for await (const chunk of chunks) {
+                if (done) {
+                  return;
+                }
+                const token = chunk.choices[0]?.delta.content ?? '';
+                if (token) {
+                  text += token;
+                  callbacks.onToken?.(token, text);
+                }
+              }
+              done = true;
+              subscriber.next(text.trim());
+              subscriber.complete();
+            })().catch((error: unknown) => {
+              done = true;
+              subscriber.error(error);
+            });
+
+            return () => {
+              if (!done) {
+                done = true;
+                engine.interruptGenerate();
+              }
+            };
+          })
+      )
+    );
+  }
+
+  embed(texts: string[]): Observable<Float32Array[]> {
+    return this.loadEngine().pipe(
+      switchMap((engine) =>
+        engine.embeddings.create({ input: texts, model: this.options.embeddingModel })
+      ),
+      map(({ data }) => data.map(({ embedding }) => Float32Array.from(embedding)))
+    );
+  }
+
+  /**
+   * Prompt for a request: instructions, recent conversation, then the
+   * numbered sources with the question
+   */
+  buildMessages({ question, sources, history }: LlmGenerateRequest): WebLlmMessage[] {
+    const context = sources.map((source, i) => `[${i + 1}] ${source.chunk.text}`).join('\n');
+
+    return [
+      { role: 'system', content: WEB_LLM_SYSTEM_PROMPT },
+      ...history
+        .slice(-CHATBOT_CONFIG.PROMPT_HISTORY)
+        .map((message): WebLlmMessage => ({ role: message.role, content: message.text })),
+      {
+        role: 'user',
+        content: `Sources:\n${context || '(none)'}\n\nQuestion: ${question}`,
+      },
+    ];
+  }
+
+  /**
+   * Creates the engine once; a failed load is retried by the next call
+   */
+  private loadEngine(): Observable<WebLlmEngine> {
+    if (!this.engine$) {
+      this._loadProgress.set({ status: 'loading', progress: 0, text: '' });
+      this.engine$ = defer(() =>
+        this.options.createEngine(this.options.model, {
+          initProgressCallback: ({ progress, text }) =>
+            this._loadProgress.set({ status: 'loading', progress, text }),
+        })
+      ).pipe(
+        tap({
+          next: () => this._loadProgress.set({ status: 'ready', progress: 1, text: '' }),
+          error: (error: unknown) => {
+            this._loadProgress.set({
+              status: 'error',
+              progress: 0,
+              text: error instanceof Error ? error.message : String(error),
+            });
+            this.engine$ = undefined;
+          },
+        }),
+        shareReplay({ bufferSize: 1, refCount: false })
+      );
+    }
+    return this.engine$;
+  }
+}
@@ -4,6 +4,9 @@ import { TestBed } from '@angular/core/testing';
 
 import { of, throwError } from 'rxjs';
 
+import { CACHE_TAGS } from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
+
 import type { CaseStudy } from '../models/case-study.model';
 import { CaseStudiesService } from '../services/case-studies.service';
 
@@ -241,6 +244,29 @@ describe('CaseStudiesStore', () => {
       store.setSearchQuery('');
       expect(store.filteredCaseStudies().length).toBe(3);
     });
+
+    it('should match every word, most recent first among equal matches', () => {
+      store.setSearchQuery('performance');
+      expect(store.filteredCaseStudies().map((cs) => cs.id)).toEqual(['cs-3', 'cs-1']);
+
+      store.setSearchQuery('performance ux');
+      expect(store.filteredCaseStudies().map((cs) => cs.id)).toEqual(['cs-1']);
+    });
+
+    it('should tolerate typos', () => {
+      store.setSearchQuery('colaboration');
+      expect(store.filteredCaseStudies().map((cs) => cs.id)).toEqual(['cs-2']);
+    });
+
+    it('should look up matched ranges for highlighting', () => {
+      store.setSearchQuery('lead dev');
+
+      expect(store.matchRanges()('cs-2', 'role')).toEqual([
+        { start: 0, end: 4 },
+        { start: 5, end: 8 },
+      ]);
+      expect(store.matchRanges()('cs-2', 'tags', 1)).toEqual([]);
+    });
   });
 
   describe('toggleTag', () => {
@@ -285,6 +311,50 @@ describe('CaseStudiesStore', () => {
     });
   });
 
+  describe('setFilters', () => {
+    it('should set the given filters only', () => {
+      store.setSearchQuery('dashboard');
+      store.setFilters({ selectedTags: ['Angular', 'UX'] });
+
+      expect(store.searchQuery()).toBe('dashboard');
+      expect(store.selectedTags()).toEqual(['Angular', 'UX']);
+    });
+  });
+
+  describe('pagination', () => {
+    beforeEach(() => {
+      vi.spyOn(caseStudiesService, 'getAll').mockReturnValue(of(mockCaseStudies));
+      store.loadCaseStudies();
+      store.setPageSize(2);
+    });
+
+    it('should page the filtered case studies, most recent first', () => {
+      expect(store.total()).toBe(3);
+      expect(store.pageCount()).toBe(2);
+      expect(store.pagedCaseStudies().map((cs) => cs.id)).toEqual(['cs-3', 'cs-2']);
+
+      store.setPage(2);
+
+      expect(store.pagedCaseStudies().map((cs) => cs.id)).toEqual(['cs-1']);
+      expect(store.hasMore()).toBe(false);
+    });
+
+    it('should accumulate pages for infinite scroll', () => {
+      store.loadMore();
+
+      expect(store.loadedCaseStudies()).toHaveLength(3);
+      expect(store.hasMore()).toBe(false);
+    });
+
+    it('should return to the first page when a filter changes', () => {
+      store.setPage(2);
+      store.setSearchQuery('Case Study 1');
+
+      expect(store.page()).toBe(1);
+      expect(store.pagedCaseStudies().map((cs) => cs.id)).toEqual(['cs-1']);
+    });
+  });
+
   describe('hasActiveFilters', () => {
     it('should return false when no filters are active', () => {
       expect(store.hasActiveFilters()).toBe(false);
@@ -325,6 +395,36 @@ describe('CaseStudiesStore', () => {
     });
   });
 
+  describe('refresh', () => {
+    it('should invalidate content and reload loaded case studies', () => {
+      const getAll = vi.spyOn(caseStudiesService, 'getAll').mockReturnValue(of(mockCaseStudies));
+      const invalidateTag = vi.spyOn(TestBed.inject(CacheService), 'invalidateTag');
+      store.loadCaseStudies();
+
+      store.refresh();
+
+      expect(invalidateTag).toHaveBeenCalledWith(CACHE_TAGS.CONTENT);
+      expect(getAll).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not load case studies that were never loaded', () => {
+      const getAll = vi.spyOn(caseStudiesService, 'getAll').mockReturnValue(of(mockCaseStudies));
+
+      TestBed.inject(CacheService).invalidateTag(CACHE_TAGS.CONTENT);
+
+      expect(getAll).not.toHaveBeenCalled();
+    });
+
+    it('should ignore invalidations of other tags', () => {
+      const getAll = vi.spyOn(caseStudiesService, 'getAll').mockReturnValue(of(mockCaseStudies));
+      store.loadCaseStudies();
+
+      TestBed.inject(CacheService).invalidateTag(CACHE_TAGS.GITHUB);
+
+      expect(getAll).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('reset', () => {
     it('should reset store to initial state', () => {
       vi.spyOn(caseStudiesService, 'getAll').mockReturnValue(of(mockCaseStudies));
@@ -1,18 +1,58 @@
 import { computed, inject } from '@angular/core';
-import { patchState, signalStore, withComputed, withMethods, withState } from '@ngrx/signals';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import {
+  patchState,
+  signalStore,
+  withComputed,
+  withHooks,
+  withMethods,
+  withState,
+} from '@ngrx/signals';
 import { rxMethod } from '@ngrx/signals/rxjs-interop';
 
 import { catchError, of, pipe, switchMap, tap } from 'rxjs';
 
+import { CACHE_TAGS } from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
 import { flatten, uniqueBy } from '@shared/utilities/array-object/array-object.utils';
 
 import type { CaseStudy } from '../models/case-study.model';
 import { CaseStudiesService } from '../services/case-studies.service';
 
+import type { PaginationState } from './pagination';
+import {
+  clampPage,
+  clampPageSize,
+  getPageCount,
+  initialPaginationState,
+  paginate,
+  paginateThrough,
+} from './pagination';
+import type { SearchField } from './search-index';
+import { SearchIndex } from './search-index';
+
+/**
+ * Case study fields matched by the search query
+ */
+export type CaseStudySearchField =
+  'title' | 'client' | 'technologies' | 'tags' | 'role' | 'description';
+
+/**
+ * Searched case study fields, by weight
+ */
+export const CASE_STUDY_SEARCH_FIELDS: SearchField<CaseStudy, CaseStudySearchField>[] = [
+  { name: 'title', weight: 3, value: (cs) => cs.title },
+  { name: 'client', weight: 2, value: (cs) => cs.client },
+  { name: 'technologies', weight: 2, value: (cs) => cs.technologies },
+  { name: 'tags', weight: 2, value: (cs) => cs.tags },
+  { name: 'role', weight: 1.5, value: (cs) => cs.role },
+  { name: 'description', weight: 1, value: (cs) => cs.description },
+];
+
 /**
  * State interface for the Case Studies Store
  */
-interface CaseStudiesState {
+interface CaseStudiesState extends PaginationState {
   caseStudies: CaseStudy[];
   selectedCaseStudy: CaseStudy | null;
   isLoading: boolean;
@@ -31,6 +71,7 @@ const initialState: CaseStudiesState = {
   error: null,
   searchQuery: '',
   selectedTags: [],
+  ...initialPaginationState,
 };
 
 /**
@@ -39,6 +80,8 @@ const initialState: CaseStudiesState = {
  * Provides reactive state management with:
  * - Signal-based reactivity for automatic updates
  * - Computed selectors for filtering and searching
+ * - Ranked, typo-tolerant search with match ranges for `HighlightPipe`
+ * - Paging of the filtered case studies; changing a filter returns to the first page
  * - Methods for state updates and async operations
  * - Type-safe API surface
  *
@@ -60,7 +103,18 @@ const initialState: CaseStudiesState = {
 export const CaseStudiesStore = signalStore(
   { providedIn: 'root' },
   withState(initialState),
-  withComputed(({ caseStudies, selectedCaseStudy, searchQuery, selectedTags }) => ({
+  withComputed(({ caseStudies, searchQuery }) => {
+    const searchIndex = computed(() => new SearchIndex(caseStudies(), CASE_STUDY_SEARCH_FIELDS));
+
+    return {
+      /**
+       * Case studies matching the search query, best first, with their
+       * matched ranges (every case study, unscored, without a query)
+       */
+      searchResults: computed(() => searchIndex().search(searchQuery())),
+    };
+  }),
+  withComputed(({ caseStudies, selectedCaseStudy, searchQuery, searchResults, selectedTags }) => ({
     /**
      * Number of total case studies
      */
@@ -68,23 +122,13 @@ export const CaseStudiesStore = signalStore(
 
     /**
      * Filtered case studies based on search and tags
+     *
+     * While searching, case studies are ranked by relevance first and the
+     * published date breaks ties.
      */
     filteredCaseStudies: computed(() => {
-      let filtered = [...caseStudies()];
-
-      // Apply search filter
-      const query = searchQuery().toLowerCase().trim();
-      if (query) {
-        filtered = filtered.filter(
-          (cs) =>
-            cs.title.toLowerCase().includes(query) ||
-            cs.description.toLowerCase().includes(query) ||
-            cs.client.toLowerCase().includes(query) ||
-            cs.role.toLowerCase().includes(query) ||
-            cs.technologies.some((tech) => tech.toLowerCase().includes(query)) ||
-            (cs.tags && cs.tags.some((tag) => tag.toLowerCase().includes(query)))
-        );
-      }
+      const scores = new Map(searchResults().map((result) => [result.item, result.score]));
+      let filtered = [...scores.keys()];
 
       // Apply tag filter (technology filter)
       const tags = selectedTags();
@@ -96,14 +140,31 @@ export const CaseStudiesStore = signalStore(
         );
       }
 
-      // Sort by published date (most recent first)
+      // Sort by relevance, then published date (most recent first)
       filtered.sort(
-        (a, b) => new Date(b.publishedDate).getTime() - new Date(a.publishedDate).getTime()
+        (a, b) =>
+          scores.get(b)! - scores.get(a)! ||
+          new Date(b.publishedDate).getTime() - new Date(a.publishedDate).getTime()
       );
 
       return filtered;
     }),
 
+    /**
+     * Looks up the ranges of a case study field matched by the search query
+     *
+     * @example
+     * ```html
+     * <h3 [innerHTML]="caseStudy.title | highlight: store.matchRanges()(caseStudy.id, 'title')"></h3>
+     * ```
+     */
+    matchRanges: computed(() => {
+      const matches = new Map(searchResults().map((result) => [result.item.id, result.matches]));
+      return (id: string, field: CaseStudySearchField, index = 0) =>
+        matches.get(id)?.find((match) => match.field === field && match.index === index)?.ranges ??
+        [];
+    }),
+
     /**
      * Case studies filtered by specific technology
      */
@@ -148,6 +209,40 @@ export const CaseStudiesStore = signalStore(
       return searchQuery().length > 0 || selectedTags().length > 0;
     }),
   })),
+  withComputed(({ filteredCaseStudies, page, pageSize }) => ({
+    /**
+     * Number of case studies matching the filters
+     */
+    total: computed(() => filteredCaseStudies().length),
+
+    /**
+     * Number of pages of filtered case studies (at least one)
+     */
+    pageCount: computed(() => getPageCount(filteredCaseStudies().length, pageSize())),
+
+    /**
+     * Whether pages after the current one exist
+     */
+    hasMore: computed(() => page() < getPageCount(filteredCaseStudies().length, pageSize())),
+
+    /**
+     * Filtered case studies on the current page
+     */
+    pagedCaseStudies: computed(() =>
+      paginate(
+        filteredCaseStudies(),
+        clampPage(page(), filteredCaseStudies().length, pageSize()),
+        pageSize()
+      )
+    ),
+
+    /**
+     * Filtered case studies on every page up to the current one, for infinite scroll
+     */
+    loadedCaseStudies: computed(() =>
+      paginateThrough(filteredCaseStudies(), page(), pageSize())
+    ),
+  })),
   withMethods((store, caseStudiesService = inject(CaseStudiesService)) => ({
     /**
      * Loads all case studies from the service
@@ -228,7 +323,7 @@ export const CaseStudiesStore = signalStore(
      * ```
      */
     setSearchQuery(query: string): void {
-      patchState(store, { searchQuery: query });
+      patchState(store, { searchQuery: query, page: 1 });
     },
 
     /**
@@ -247,7 +342,23 @@ export const CaseStudiesStore = signalStore(
       const newTags = currentTags.includes(tag)
         ? currentTags.filter((t) => t !== tag)
         : [...currentTags, tag];
-      patchState(store, { selectedTags: newTags });
+      patchState(store, { selectedTags: newTags, page: 1 });
+    },
+
+    /**
+     * Sets several filters at once, leaving the others unchanged
+     *
+     * Used to restore filters from the URL (see {@link syncFiltersWithQueryParams}).
+     *
+     * @param filters - Search query and/or selected tags
+     *
+     * @example
+     * ```typescript
+     * this.store.setFilters({ searchQuery: 'dashboard', selectedTags: ['Angular'] });
+     * ```
+     */
+    setFilters(filters: Partial<Pick<CaseStudiesState, 'searchQuery' | 'selectedTags'>>): void {
+      patchState(store, { ...filters, page: 1 });
     },
 
     /**
@@ -259,7 +370,55 @@ export const CaseStudiesStore = signalStore(
      * ```
      */
     clearFilters(): void {
-      patchState(store, { searchQuery: '', selectedTags: [] });
+      patchState(store, { searchQuery: '', selectedTags: [], page: 1 });
+    },
+
+    /**
+     * Goes to a page of the filtered case studies
+     *
+     * @param page - Page number, limited to the available pages
+     *
+     * @example
+     * ```typescript
+     * this.store.setPage(2);
+     * ```
+     */
+    setPage(page: number): void {
+      patchState(store, { page: clampPage(page, store.total(), store.pageSize()) });
+    },
+
+    /**
+     * Sets the number of case studies per page
+     *
+     * Moves to the page containing the first case study currently shown.
+     *
+     * @param pageSize - Case studies per page (see `PAGINATION_CONFIG.PAGE_SIZE_OPTIONS`)
+     *
+     * @example
+     * ```typescript
+     * this.store.setPageSize(6);
+     * ```
+     */
+    setPageSize(pageSize: number): void {
+      const size = clampPageSize(pageSize);
+      const first = (store.page() - 1) * store.pageSize();
+      patchState(store, { pageSize: size, page: Math.floor(first / size) + 1 });
+    },
+
+    /**
+     * Adds the next page to `loadedCaseStudies`; does nothing on the last page
+     *
+     * @example
+     * ```typescript
+     * onScrollEnd() {
+     *   this.store.loadMore();
+     * }
+     * ```
+     */
+    loadMore(): void {
+      if (store.hasMore()) {
+        patchState(store, { page: store.page() + 1 });
+      }
     },
 
     /**
@@ -282,5 +441,38 @@ export const CaseStudiesStore = signalStore(
     reset(): void {
       patchState(store, initialState);
     },
-  }))
+  })),
+  withMethods((store, cache = inject(CacheService)) => ({
+    /**
+     * Refetches all content
+     *
+     * Invalidates every `CACHE_TAGS.CONTENT` cache entry; this store and the
+     * other content stores reload the data they have loaded.
+     *
+     * @example
+     * ```typescript
+     * onRefresh() {
+     *   this.store.refresh();
+     * }
+     * ```
+     */
+    refresh(): void {
+      cache.invalidateTag(CACHE_TAGS.CONTENT);
+    },
+  })),
+  withHooks({
+    /**
+     * Reloads loaded case studies when content is invalidated
+     */
+    onInit(store) {
+      inject(CacheService)
+        .tagInvalidations(CACHE_TAGS.CONTENT)
+        .pipe(takeUntilDestroyed())
+        .subscribe(() => {
+          if (store.caseStudies().length > 0) {
+            store.loadCaseStudies();
+          }
+        });
+    },
+  })
 );
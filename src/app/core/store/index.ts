@@ -2,4 +2,9 @@
  * Core Store
  * Export all NgRx SignalStores
  */
+export * from './case-studies.store';
+export * from './pagination';
 export * from './project.store';
+export * from './project-facets';
+export * from './query-params-sync';
+export * from './search-index';
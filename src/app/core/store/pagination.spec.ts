@@ -0,0 +1,36 @@
+import { PAGINATION_CONFIG } from '@shared/constants';
+
+import { clampPage, clampPageSize, getPageCount, paginate, paginateThrough } from './pagination';
+
+describe('pagination', () => {
+  const items = [1, 2, 3, 4, 5];
+
+  it('should count pages, with at least one', () => {
+    expect(getPageCount(5, 2)).toBe(3);
+    expect(getPageCount(4, 2)).toBe(2);
+    expect(getPageCount(0, 12)).toBe(1);
+  });
+
+  it('should keep pages within range', () => {
+    expect(clampPage(0, 5, 2)).toBe(1);
+    expect(clampPage(2.7, 5, 2)).toBe(2);
+    expect(clampPage(9, 5, 2)).toBe(3);
+  });
+
+  it('should keep page sizes within range', () => {
+    expect(clampPageSize(0)).toBe(1);
+    expect(clampPageSize(24)).toBe(24);
+    expect(clampPageSize(1000)).toBe(PAGINATION_CONFIG.MAX_PAGE_SIZE);
+  });
+
+  it('should return the items of one page', () => {
+    expect(paginate(items, 1, 2)).toEqual([1, 2]);
+    expect(paginate(items, 3, 2)).toEqual([5]);
+    expect(paginate(items, 4, 2)).toEqual([]);
+  });
+
+  it('should return the items of every page up to the given one', () => {
+    expect(paginateThrough(items, 2, 2)).toEqual([1, 2, 3, 4]);
+    expect(paginateThrough(items, 3, 2)).toEqual(items);
+  });
+});
@@ -0,0 +1,62 @@
+import { PAGINATION_CONFIG } from '@shared/constants';
+
+/**
+ * Paging state shared by list stores
+ */
+export interface PaginationState {
+  /** Current page, starting at 1 */
+  page: number;
+  /** Items per page */
+  pageSize: number;
+}
+
+/**
+ * Initial paging state (first page, `PAGINATION_CONFIG.DEFAULT_PAGE_SIZE`)
+ */
+export const initialPaginationState: PaginationState = {
+  page: 1,
+  pageSize: PAGINATION_CONFIG.DEFAULT_PAGE_SIZE,
+};
+
+/**
+ * Number of pages needed for `total` items; an empty list still has one page
+ */
+export function getPageCount(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+/**
+ * Limits a page number to the pages available for `total` items
+ */
+export function clampPage(page: number, total: number, pageSize: number): number {
+  return Math.min(Math.max(1, Math.floor(page)), getPageCount(total, pageSize));
+}
+
+/**
+ * Limits a page size to whole numbers between 1 and `PAGINATION_CONFIG.MAX_PAGE_SIZE`
+ */
+export function clampPageSize(pageSize: number): number {
+  return Math.min(Math.max(1, Math.floor(pageSize)), PAGINATION_CONFIG.MAX_PAGE_SIZE);
+}
+
+/**
+ * Items on one page
+ *
+ * @param items - Full, filtered list
+ * @param page - Page number, starting at 1
+ * @param pageSize - Items per page
+ */
+export function paginate<T>(items: readonly T[], page: number, pageSize: number): T[] {
+  return items.slice((page - 1) * pageSize, page * pageSize);
+}
+
+/**
+ * Items on every page up to and including `page`, as shown by infinite scroll
+ *
+ * @param items - Full, filtered list
+ * @param page - Last loaded page, starting at 1
+ * @param pageSize - Items per page
+ */
+export function paginateThrough<T>(items: readonly T[], page: number, pageSize: number): T[] {
+  return items.slice(0, page * pageSize);
+}
@@ -0,0 +1,151 @@
+import type { Project } from '../models/project.model';
+
+import type { ProjectFacetModes, ProjectFacetSelection } from './project-facets';
+import {
+  countFacetValues,
+  defaultFacetModes,
+  emptyFacetSelection,
+  getProjectFacetValues,
+  matchesFacets,
+} from './project-facets';
+
+describe('project facets', () => {
+  function project(
+    id: string,
+    category: string,
+    technologies: string[],
+    createdDate: string,
+    metadata?: Project['metadata']
+  ): Project {
+    return {
+      id,
+      slug: id,
+      title: id,
+      description: id,
+      shortDescription: id,
+      technologies,
+      category,
+      featured: false,
+      images: { thumbnail: '', hero: '', gallery: [] },
+      links: {},
+      createdDate,
+      metadata,
+    };
+  }
+
+  const projects = [
+    project('a', 'Web App', ['Angular', 'RxJS'], '2024-01-10', {
+      status: 'Active',
+      teamSize: 'Solo',
+    }),
+    project('b', 'Web App', ['Angular', 'NgRx'], '2023-06-01', { status: 'Completed' }),
+    project('c', 'Library', ['Angular', 'RxJS', 'NgRx'], '2024-09-30'),
+    project('d', 'Tool', ['Node.js'], '2022-03-15', { status: 'Archived', teamSize: '2-3' }),
+  ];
+
+  function select(selection: Partial<ProjectFacetSelection>): ProjectFacetSelection {
+    return { ...emptyFacetSelection, ...selection };
+  }
+
+  function modes(overrides: Partial<ProjectFacetModes>): ProjectFacetModes {
+    return { ...defaultFacetModes, ...overrides };
+  }
+
+  describe('getProjectFacetValues', () => {
+    it.each([
+      ['category', ['Web App']],
+      ['technology', ['Angular', 'RxJS']],
+      ['status', ['Active']],
+      ['teamSize', ['Solo']],
+      ['year', ['2024']],
+    ] as const)('should read the %s', (facet, values) => {
+      expect(getProjectFacetValues(projects[0], facet)).toEqual(values);
+    });
+
+    it('should return no values for missing metadata', () => {
+      expect(getProjectFacetValues(projects[2], 'status')).toEqual([]);
+      expect(getProjectFacetValues(projects[2], 'teamSize')).toEqual([]);
+    });
+  });
+
+  describe('matchesFacets', () => {
+    function ids(selection: Partial<ProjectFacetSelection>, facetModes = defaultFacetModes) {
+      return projects
+        .filter((p) => matchesFacets(p, select(selection), facetModes))
+        .map((p) => p.id);
+    }
+
+    it('should match everything without a selection', () => {
+      expect(ids({})).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should combine values of an OR facet with OR', () => {
+      expect(ids({ technology: ['RxJS', 'Node.js'] })).toEqual(['a', 'c', 'd']);
+    });
+
+    it('should combine values of an AND facet with AND', () => {
+      expect(ids({ technology: ['RxJS', 'NgRx'] }, modes({ technology: 'and' }))).toEqual(['c']);
+    });
+
+    it('should combine facets with AND', () => {
+      expect(ids({ technology: ['Angular'], year: ['2024'], status: ['Active'] })).toEqual(['a']);
+    });
+
+    it('should skip the excluded facet', () => {
+      const selection = select({ category: ['Tool'], technology: ['Angular'] });
+
+      expect(matchesFacets(projects[0], selection, defaultFacetModes, 'category')).toBe(true);
+      expect(matchesFacets(projects[0], selection, defaultFacetModes)).toBe(false);
+    });
+  });
+
+  describe('countFacetValues', () => {
+    function counts(
+      facet: keyof ProjectFacetSelection,
+      selection: Partial<ProjectFacetSelection> = {},
+      facetModes = defaultFacetModes
+    ) {
+      return countFacetValues(projects, select(selection), facetModes)[facet].map(
+        ({ value, count, selected }) => `${value}:${count}${selected ? '*' : ''}`
+      );
+    }
+
+    it('should count every value, most common first', () => {
+      expect(counts('technology')).toEqual(['Angular:3', 'NgRx:2', 'RxJS:2', 'Node.js:1']);
+      expect(counts('year')).toEqual(['2024:2', '2022:1', '2023:1']);
+      expect(counts('status')).toEqual(['Active:1', 'Archived:1', 'Completed:1']);
+    });
+
+    it('should follow the other facets', () => {
+      expect(counts('technology', { category: ['Web App'] })).toEqual([
+        'Angular:2',
+        'NgRx:1',
+        'RxJS:1',
+      ]);
+    });
+
+    it('should ignore the selection of an OR facet in its own counts', () => {
+      expect(counts('category', { category: ['Tool'] })).toEqual([
+        'Web App:2',
+        'Library:1',
+        'Tool:1*',
+      ]);
+    });
+
+    it('should include the selection of an AND facet in its own counts', () => {
+      expect(counts('technology', { technology: ['RxJS'] }, modes({ technology: 'and' }))).toEqual([
+        'Angular:2',
+        'RxJS:2*',
+        'NgRx:1',
+      ]);
+    });
+
+    it('should keep selected values that no longer match', () => {
+      expect(counts('status', { status: ['Archived'], technology: ['Angular'] })).toEqual([
+        'Active:1',
+        'Completed:1',
+        'Archived:0*',
+      ]);
+    });
+  });
+});
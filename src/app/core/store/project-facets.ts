@@ -0,0 +1,148 @@
+import type { Project } from '../models/project.model';
+
+/**
+ * Project properties that can be filtered by
+ */
+export const PROJECT_FACETS = ['category', 'technology', 'status', 'teamSize', 'year'] as const;
+
+/**
+ * Project property that can be filtered by
+ * - category: `category`
+ * - technology: any of `technologies`
+ * - status: `metadata.status`
+ * - teamSize: `metadata.teamSize`
+ * - year: year of `createdDate`
+ */
+export type ProjectFacet = (typeof PROJECT_FACETS)[number];
+
+/**
+ * How the selected values of one facet are combined
+ * - or: Projects with any selected value
+ * - and: Projects with every selected value (only useful for `technology`,
+ *   the one facet with several values per project)
+ */
+export type FacetMode = 'and' | 'or';
+
+/**
+ * Selected values per facet
+ */
+export type ProjectFacetSelection = Record<ProjectFacet, string[]>;
+
+/**
+ * Combination mode per facet
+ */
+export type ProjectFacetModes = Record<ProjectFacet, FacetMode>;
+
+/**
+ * Facet value with the number of projects it would show
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+/**
+ * No facet values selected
+ */
+export const emptyFacetSelection: ProjectFacetSelection = {
+  category: [],
+  technology: [],
+  status: [],
+  teamSize: [],
+  year: [],
+};
+
+/**
+ * Every facet combines its values with OR
+ */
+export const defaultFacetModes: ProjectFacetModes = {
+  category: 'or',
+  technology: 'or',
+  status: 'or',
+  teamSize: 'or',
+  year: 'or',
+};
+
+/**
+ * Values of a project for one facet; empty when the project has none
+ */
+export function getProjectFacetValues(project: Project, facet: ProjectFacet): string[] {
+  switch (facet) {
+    case 'category':
+      return [project.category];
+    case 'technology':
+      return project.technologies;
+    case 'status':
+      return project.metadata?.status ? [project.metadata.status] : [];
+    case 'teamSize':
+      return project.metadata?.teamSize ? [project.metadata.teamSize] : [];
+    case 'year':
+      return [project.createdDate.slice(0, 4)];
+  }
+}
+
+/**
+ * Whether a project passes the selection of every facet except `exclude`
+ *
+ * Facets without selected values match every project.
+ */
+export function matchesFacets(
+  project: Project,
+  selection: ProjectFacetSelection,
+  modes: ProjectFacetModes,
+  exclude?: ProjectFacet
+): boolean {
+  return PROJECT_FACETS.every((facet) => {
+    const selected = selection[facet];
+    if (facet === exclude || selected.length === 0) {
+      return true;
+    }
+
+    const values = getProjectFacetValues(project, facet);
+    return modes[facet] === 'and'
+      ? selected.every((value) => values.includes(value))
+      : selected.some((value) => values.includes(value));
+  });
+}
+
+/**
+ * Counts the projects each value of every facet would show
+ *
+ * Counts follow the search and the other facets. For an OR facet they ignore
+ * its own selection, so each count is the number of projects that value
+ * alone would show; for an AND facet they include it, so each count is the
+ * number left after also selecting that value. Selected values are kept
+ * with a count of 0 so they can be cleared. Values are ordered by count,
+ * then name.
+ *
+ * @param projects - Projects matching the search
+ * @param selection - Selected values per facet
+ * @param modes - Combination mode per facet
+ */
+export function countFacetValues(
+  projects: readonly Project[],
+  selection: ProjectFacetSelection,
+  modes: ProjectFacetModes
+): Record<ProjectFacet, FacetCount[]> {
+  const counts = {} as Record<ProjectFacet, FacetCount[]>;
+
+  for (const facet of PROJECT_FACETS) {
+    const totals = new Map<string, number>(selection[facet].map((value) => [value, 0]));
+    const exclude = modes[facet] === 'or' ? facet : undefined;
+
+    for (const project of projects) {
+      if (matchesFacets(project, selection, modes, exclude)) {
+        new Set(getProjectFacetValues(project, facet)).forEach((value) =>
+          totals.set(value, (totals.get(value) ?? 0) + 1)
+        );
+      }
+    }
+
+    counts[facet] = [...totals]
+      .map(([value, count]) => ({ value, count, selected: selection[facet].includes(value) }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  return counts;
+}
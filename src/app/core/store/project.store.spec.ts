@@ -2,9 +2,15 @@ import { provideHttpClient } from '@angular/common/http';
 import { provideHttpClientTesting } from '@angular/common/http/testing';
 import { TestBed } from '@angular/core/testing';
 
-import { of, throwError } from 'rxjs';
+import { defer, of, throwError } from 'rxjs';
 
+import { CACHE_TAGS, PAGINATION_CONFIG } from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
+
+import { provideFeatureFlags } from '../config/environment.tokens';
+import type { GitHubRepository, RepositoryStats } from '../models/github.model';
 import type { Project } from '../models/project.model';
+import { GitHubService } from '../services/github.service';
 import { ProjectService } from '../services/project.service';
 
 import { ProjectStore } from './project.store';
@@ -158,6 +164,257 @@ describe('ProjectStore', () => {
       expect(store.isLoading()).toBe(false);
       expect(store.error()).toBe('Failed to load projects');
     });
+
+    it('should fetch through ProjectService on every load', () => {
+      const fetch = vi.fn(() => mockProjects);
+      vi.spyOn(projectService, 'getAll').mockReturnValue(defer(() => of(fetch())));
+
+      store.loadProjects();
+      store.reset();
+      store.loadProjects();
+
+      expect(store.projects()).toEqual(mockProjects);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('loadProjects with GitHub integration', () => {
+    const linkedProjects: Project[] = [
+      { ...mockProjects[0], links: { github: 'https://github.com/MoodyJW/one' } },
+    ];
+
+    /**
+     * Creates a store whose projects load with the given GitHub integration flag
+     */
+    function createStore(enableGitHubIntegration: boolean): InstanceType<typeof ProjectStore> {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          ProjectStore,
+          ProjectService,
+          provideHttpClient(),
+          provideHttpClientTesting(),
+          provideFeatureFlags({ enableGitHubIntegration }),
+        ],
+      });
+      vi.spyOn(TestBed.inject(ProjectService), 'getAll').mockReturnValue(of(linkedProjects));
+      vi.spyOn(TestBed.inject(GitHubService), 'getRepositories').mockReturnValue(of([]));
+
+      return TestBed.inject(ProjectStore);
+    }
+
+    it('should sync GitHub stats after loading when the flag is on', () => {
+      const flaggedStore = createStore(true);
+
+      flaggedStore.loadProjects();
+
+      expect(flaggedStore.projects()).toEqual(linkedProjects);
+      expect(TestBed.inject(GitHubService).getRepositories).toHaveBeenCalledWith('moodyjw');
+    });
+
+    it('should not call GitHub when the flag is off', () => {
+      const unflaggedStore = createStore(false);
+
+      unflaggedStore.loadProjects();
+
+      expect(unflaggedStore.projects()).toEqual(linkedProjects);
+      expect(TestBed.inject(GitHubService).getRepositories).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should invalidate content and refetch loaded projects', () => {
+      const fetch = vi.fn(() => mockProjects);
+      vi.spyOn(projectService, 'getAll').mockReturnValue(defer(() => of(fetch())));
+      const invalidateTag = vi.spyOn(TestBed.inject(CacheService), 'invalidateTag');
+      store.loadProjects();
+
+      store.refresh();
+
+      expect(invalidateTag).toHaveBeenCalledWith(CACHE_TAGS.CONTENT);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(store.projects()).toEqual(mockProjects);
+    });
+
+    it('should not load projects that were never loaded', () => {
+      const getAll = vi.spyOn(projectService, 'getAll').mockReturnValue(of(mockProjects));
+
+      TestBed.inject(CacheService).invalidateTag(CACHE_TAGS.CONTENT);
+
+      expect(getAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncGitHubStats', () => {
+    let githubService: GitHubService;
+
+    const linkedProjects: Project[] = [
+      { ...mockProjects[0], githubStars: 50, links: { github: 'https://github.com/MoodyJW/one' } },
+      { ...mockProjects[1], githubStars: 10, links: { github: 'https://github.com/moodyjw/Two/' } },
+      mockProjects[2],
+    ];
+
+    /**
+     * Builds a repository as returned by GitHubService
+     */
+    function repo(name: string, stars: number): GitHubRepository {
+      return {
+        id: stars,
+        name,
+        fullName: `MoodyJW/${name}`,
+        description: null,
+        htmlUrl: `https://github.com/MoodyJW/${name}`,
+        homepage: null,
+        language: 'TypeScript',
+        topics: [],
+        stars,
+        forks: 2,
+        openIssues: 1,
+        fork: false,
+        archived: false,
+        pushedAt: '2026-10-01T12:00:00Z',
+        updatedAt: '2026-10-01T12:00:00Z',
+      };
+    }
+
+    beforeEach(() => {
+      githubService = TestBed.inject(GitHubService);
+      vi.spyOn(projectService, 'getAll').mockReturnValue(of(linkedProjects));
+      store.loadProjects();
+    });
+
+    it('should merge live stats into projects linking to GitHub', () => {
+      vi.spyOn(githubService, 'getRepositories').mockReturnValue(
+        of([repo('one', 5), repo('Two', 80)])
+      );
+
+      store.syncGitHubStats();
+
+      expect(githubService.getRepositories).toHaveBeenCalledTimes(1);
+      expect(githubService.getRepositories).toHaveBeenCalledWith('moodyjw');
+      expect(store.projects()[1].githubStars).toBe(80);
+      expect(store.projects()[1].githubStats).toEqual({
+        stars: 80,
+        forks: 2,
+        openIssues: 1,
+        primaryLanguage: 'TypeScript',
+        pushedAt: '2026-10-01T12:00:00Z',
+        syncedAt: store.githubSyncedAt(),
+      });
+      expect(store.projects()[2].githubStats).toBeUndefined();
+      expect(store.githubSyncedAt()).not.toBeNull();
+    });
+
+    it('should sort popular projects by live stars', () => {
+      store.setSortBy('popular');
+      expect(store.filteredProjects()[0].id).toBe('project-1');
+
+      vi.spyOn(githubService, 'getRepositories').mockReturnValue(
+        of([repo('one', 5), repo('Two', 80)])
+      );
+      store.syncGitHubStats();
+
+      expect(store.filteredProjects()[0].id).toBe('project-2');
+    });
+
+    it('should keep static stars when GitHub is unreachable', () => {
+      vi.spyOn(githubService, 'getRepositories').mockReturnValue(
+        throwError(() => new Error('offline'))
+      );
+
+      store.syncGitHubStats();
+
+      expect(store.projects()).toEqual(linkedProjects);
+      expect(store.githubSyncedAt()).toBeNull();
+      expect(store.error()).toBeNull();
+    });
+
+    it('should reapply synced stats when projects are reloaded', () => {
+      vi.spyOn(githubService, 'getRepositories').mockReturnValue(of([repo('one', 5)]));
+      store.syncGitHubStats();
+
+      store.loadProjects();
+
+      expect(store.projects()[0].githubStars).toBe(5);
+      expect(store.projects()[1].githubStars).toBe(10);
+    });
+  });
+
+  describe('loadRepositoryStats', () => {
+    let githubService: GitHubService;
+
+    const linkedProjects: Project[] = [
+      { ...mockProjects[0], links: { github: 'https://github.com/MoodyJW/one' } },
+      { ...mockProjects[1], links: { github: 'https://github.com/MoodyJW/two' } },
+      mockProjects[2],
+    ];
+
+    /**
+     * Builds repository statistics as returned by GitHubService
+     */
+    function stats(name: string, languages: [string, number][]): RepositoryStats {
+      return {
+        owner: 'MoodyJW',
+        name,
+        stars: 0,
+        forks: 0,
+        issues: 0,
+        pullRequests: 0,
+        languages: languages.map(([language, size]) => ({ name: language, color: null, size })),
+      };
+    }
+
+    beforeEach(() => {
+      githubService = TestBed.inject(GitHubService);
+      vi.spyOn(projectService, 'getAll').mockReturnValue(of(linkedProjects));
+      store.loadProjects();
+    });
+
+    it('should aggregate languages across linked projects', () => {
+      vi.spyOn(githubService, 'getRepositoryStats').mockImplementation((_owner, name) =>
+        of(
+          name === 'one'
+            ? stats('one', [
+                ['TypeScript', 300],
+                ['HTML', 100],
+              ])
+            : stats('two', [['TypeScript', 100]])
+        )
+      );
+
+      store.loadRepositoryStats(store.projects());
+
+      expect(githubService.getRepositoryStats).toHaveBeenCalledTimes(2);
+      expect(Object.keys(store.repositoryStats())).toEqual(['project-1', 'project-2']);
+      expect(
+        store.languageBreakdown().map(({ name, percentage }) => ({ name, percentage }))
+      ).toEqual([
+        { name: 'TypeScript', percentage: 80 },
+        { name: 'HTML', percentage: 20 },
+      ]);
+    });
+
+    it('should not refetch loaded statistics', () => {
+      vi.spyOn(githubService, 'getRepositoryStats').mockReturnValue(of(stats('one', [])));
+
+      store.loadRepositoryStats([linkedProjects[0]]);
+      store.loadRepositoryStats(store.projects());
+
+      expect(githubService.getRepositoryStats).toHaveBeenCalledTimes(2);
+      expect(githubService.getRepositoryStats).toHaveBeenLastCalledWith('MoodyJW', 'two');
+    });
+
+    it('should skip repositories that cannot be loaded', () => {
+      vi.spyOn(githubService, 'getRepositoryStats').mockImplementation((_owner, name) =>
+        name === 'one' ? throwError(() => new Error('unauthorized')) : of(stats('two', []))
+      );
+
+      store.loadRepositoryStats(store.projects());
+
+      expect(Object.keys(store.repositoryStats())).toEqual(['project-2']);
+      expect(store.languageBreakdown()).toEqual([]);
+      expect(store.error()).toBeNull();
+    });
   });
 
   describe('loadProjectById', () => {
@@ -204,6 +461,196 @@ describe('ProjectStore', () => {
     });
   });
 
+  describe('Search', () => {
+    beforeEach(() => {
+      vi.spyOn(projectService, 'getAll').mockReturnValue(
+        of(
+          mockProjects.map((p) =>
+            p.id === 'project-2' ? { ...p, description: 'Ported from an Angular prototype' } : p
+          )
+        )
+      );
+      store.loadProjects();
+    });
+
+    function ids(): string[] {
+      return store.filteredProjects().map((p) => p.id);
+    }
+
+    it('should rank by relevance, then by the sort order', () => {
+      store.setSearchQuery('angular');
+
+      // Technology matches outrank the description match; ties are most recent first
+      expect(ids()).toEqual(['project-3', 'project-1', 'project-2']);
+    });
+
+    it('should tolerate typos', () => {
+      store.setSearchQuery('angluar librery');
+
+      expect(ids()).toEqual(['project-3']);
+    });
+
+    it('should keep the sort order without a query', () => {
+      store.setSortBy('name');
+
+      expect(ids()).toEqual(['project-1', 'project-2', 'project-3']);
+      expect(store.searchResults().every((result) => result.score === 0)).toBe(true);
+    });
+
+    it('should look up matched ranges for highlighting', () => {
+      store.setSearchQuery('angular proto');
+
+      expect(store.matchRanges()('project-2', 'description')).toEqual([
+        { start: 15, end: 22 },
+        { start: 23, end: 28 },
+      ]);
+      expect(store.matchRanges()('project-2', 'title')).toEqual([]);
+      expect(store.matchRanges()('project-1', 'technologies')).toEqual([]);
+    });
+  });
+
+  describe('Facets', () => {
+    const statuses = ['Active', 'Completed', 'Active'] as const;
+
+    beforeEach(() => {
+      vi.spyOn(projectService, 'getAll').mockReturnValue(
+        of(mockProjects.map((p, i) => ({ ...p, metadata: { status: statuses[i] } })))
+      );
+      store.loadProjects();
+    });
+
+    function ids(): string[] {
+      return store
+        .filteredProjects()
+        .map((p) => p.id)
+        .sort();
+    }
+
+    it('should start with no selection and OR modes', () => {
+      expect(store.facets().technology).toEqual([]);
+      expect(store.facetModes().technology).toBe('or');
+      expect(store.hasActiveFilters()).toBe(false);
+    });
+
+    it('should filter by several facets at once', () => {
+      store.toggleFacetValue('status', 'Active');
+      store.toggleFacetValue('technology', 'Angular');
+      store.toggleFacetValue('year', '2024');
+
+      expect(ids()).toEqual(['project-1', 'project-3']);
+      expect(store.hasActiveFilters()).toBe(true);
+
+      store.toggleFacetValue('category', 'Library');
+      expect(ids()).toEqual(['project-3']);
+    });
+
+    it('should combine technologies with AND when asked', () => {
+      store.setFacetValues('technology', ['Angular', 'RxJS']);
+      expect(ids()).toEqual(['project-1', 'project-3']);
+
+      store.setFacetMode('technology', 'and');
+      expect(ids()).toEqual(['project-3']);
+    });
+
+    it('should expose the technology facet as selectedTags', () => {
+      store.toggleTag('React');
+      expect(store.facets().technology).toEqual(['React']);
+
+      store.setFilters({ selectedTags: ['Angular'] });
+      expect(store.selectedTags()).toEqual(['Angular']);
+      expect(ids()).toEqual(['project-1', 'project-3']);
+    });
+
+    it('should count facet values as other filters change', () => {
+      const count = (value: string) =>
+        store.facetCounts().technology.find((entry) => entry.value === value)?.count;
+
+      expect(count('Angular')).toBe(2);
+      expect(count('React')).toBe(1);
+
+      store.toggleFacetValue('status', 'Completed');
+      expect(count('Angular')).toBeUndefined();
+      expect(count('React')).toBe(1);
+
+      store.setSearchQuery('Project 3');
+      expect(store.facetCounts().status).toEqual([
+        { value: 'Active', count: 1, selected: false },
+        { value: 'Completed', count: 0, selected: true },
+      ]);
+    });
+
+    it('should clear every facet but keep the modes', () => {
+      store.setFacetMode('technology', 'and');
+      store.toggleFacetValue('status', 'Active');
+      store.toggleTag('Angular');
+      store.clearFilters();
+
+      expect(Object.values(store.facets()).flat()).toEqual([]);
+      expect(store.facetModes().technology).toBe('and');
+    });
+  });
+
+  describe('Pagination', () => {
+    beforeEach(() => {
+      vi.spyOn(projectService, 'getAll').mockReturnValue(of(mockProjects));
+      store.loadProjects();
+      store.setSortBy('name');
+      store.setPageSize(2);
+    });
+
+    it('should start on the first page with the default page size', () => {
+      store.reset();
+
+      expect(store.page()).toBe(1);
+      expect(store.pageSize()).toBe(PAGINATION_CONFIG.DEFAULT_PAGE_SIZE);
+    });
+
+    it('should page the filtered projects', () => {
+      expect(store.total()).toBe(3);
+      expect(store.pageCount()).toBe(2);
+      expect(store.hasMore()).toBe(true);
+      expect(store.pagedProjects().map((p) => p.id)).toEqual(['project-1', 'project-2']);
+
+      store.setPage(2);
+
+      expect(store.pagedProjects().map((p) => p.id)).toEqual(['project-3']);
+      expect(store.hasMore()).toBe(false);
+    });
+
+    it('should keep the page within range', () => {
+      store.setPage(5);
+      expect(store.page()).toBe(2);
+
+      store.setPage(0);
+      expect(store.page()).toBe(1);
+    });
+
+    it('should accumulate pages for infinite scroll', () => {
+      store.loadMore();
+      expect(store.loadedProjects()).toHaveLength(3);
+
+      store.loadMore();
+      expect(store.page()).toBe(2);
+    });
+
+    it('should stay on the first shown project when the page size changes', () => {
+      store.setPage(2);
+      store.setPageSize(1);
+
+      expect(store.page()).toBe(3);
+      expect(store.pagedProjects().map((p) => p.id)).toEqual(['project-3']);
+    });
+
+    it('should return to the first page when a filter changes', () => {
+      store.setPage(2);
+      store.toggleTag('Angular');
+
+      expect(store.page()).toBe(1);
+      expect(store.total()).toBe(2);
+      expect(store.hasMore()).toBe(false);
+    });
+  });
+
   describe('State Management Methods', () => {
     it('should clear selection', () => {
       vi.spyOn(projectService, 'getBySlug').mockReturnValue(of(mockProjects[0]));
@@ -220,6 +667,15 @@ describe('ProjectStore', () => {
       expect(store.selectedProject()).toEqual(mockProjects[1]);
     });
 
+    it('should set several filters at once', () => {
+      store.setSearchQuery('dashboard');
+      store.setFilters({ selectedTags: ['Angular'], sortBy: 'popular' });
+
+      expect(store.searchQuery()).toBe('dashboard');
+      expect(store.selectedTags()).toEqual(['Angular']);
+      expect(store.sortBy()).toBe('popular');
+    });
+
     it('should clear error', () => {
       vi.spyOn(projectService, 'getAll').mockReturnValue(
         throwError(() => new Error('Test error'))
@@ -1,31 +1,108 @@
 import { computed } from '@angular/core';
 import { inject } from '@angular/core';
-import { patchState, signalStore, withComputed, withMethods, withState } from '@ngrx/signals';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import {
+  patchState,
+  signalStore,
+  withComputed,
+  withHooks,
+  withMethods,
+  withState,
+} from '@ngrx/signals';
 import { rxMethod } from '@ngrx/signals/rxjs-interop';
 
-import { catchError, of, pipe, switchMap, tap } from 'rxjs';
+import { catchError, EMPTY, forkJoin, map, of, pipe, switchMap, tap } from 'rxjs';
 
+import { CACHE_TAGS } from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
 import { flatten, uniqueBy } from '@shared/utilities/array-object/array-object.utils';
 
-import type { Project } from '../models/project.model';
+import { ENVIRONMENT_FEATURES } from '../config/environment.tokens';
+import type { GitHubRepository, RepositoryStats } from '../models/github.model';
+import type { Project, ProjectGitHubStats } from '../models/project.model';
+import {
+  aggregateLanguages,
+  GitHubService,
+  parseGitHubRepositoryUrl,
+} from '../services/github.service';
 import { ProjectService } from '../services/project.service';
 
+import type { PaginationState } from './pagination';
+import {
+  clampPage,
+  clampPageSize,
+  getPageCount,
+  initialPaginationState,
+  paginate,
+  paginateThrough,
+} from './pagination';
+import type {
+  FacetMode,
+  ProjectFacet,
+  ProjectFacetModes,
+  ProjectFacetSelection,
+} from './project-facets';
+import {
+  countFacetValues,
+  defaultFacetModes,
+  emptyFacetSelection,
+  matchesFacets,
+} from './project-facets';
+import type { SearchField } from './search-index';
+import { SearchIndex } from './search-index';
+
 /**
  * Sort options for projects
  */
-export type ProjectSortBy = 'recent' | 'popular' | 'name';
+export const PROJECT_SORT_OPTIONS = ['recent', 'popular', 'name'] as const;
+
+/**
+ * Sort order for projects
+ */
+export type ProjectSortBy = (typeof PROJECT_SORT_OPTIONS)[number];
+
+/**
+ * Project fields matched by the search query
+ */
+export type ProjectSearchField =
+  'title' | 'technologies' | 'category' | 'shortDescription' | 'description';
+
+/**
+ * Searched project fields, by weight
+ */
+export const PROJECT_SEARCH_FIELDS: SearchField<Project, ProjectSearchField>[] = [
+  { name: 'title', weight: 3, value: (p) => p.title },
+  { name: 'technologies', weight: 2, value: (p) => p.technologies },
+  { name: 'category', weight: 2, value: (p) => p.category },
+  { name: 'shortDescription', weight: 1.5, value: (p) => p.shortDescription },
+  { name: 'description', weight: 1, value: (p) => p.description },
+];
+
+/**
+ * Most languages listed separately in the language breakdown
+ */
+const MAX_LANGUAGES = 6;
 
 /**
  * State interface for the Projects Store
  */
-interface ProjectsState {
+interface ProjectsState extends PaginationState {
   projects: Project[];
   selectedProject: Project | null;
   isLoading: boolean;
   error: string | null;
   searchQuery: string;
-  selectedTags: string[];
+  /** Selected values per facet; `technology` is exposed as `selectedTags` */
+  facets: ProjectFacetSelection;
+  /** How the selected values of each facet are combined */
+  facetModes: ProjectFacetModes;
   sortBy: ProjectSortBy;
+  /** Live GitHub statistics by project id */
+  githubStats: Record<string, ProjectGitHubStats>;
+  /** When GitHub statistics were last merged (ISO 8601), null if never */
+  githubSyncedAt: string | null;
+  /** Repository statistics (including languages) by project id */
+  repositoryStats: Record<string, RepositoryStats>;
 }
 
 /**
@@ -37,16 +114,75 @@ const initialState: ProjectsState = {
   isLoading: false,
   error: null,
   searchQuery: '',
-  selectedTags: [],
+  facets: emptyFacetSelection,
+  facetModes: defaultFacetModes,
   sortBy: 'recent',
+  githubStats: {},
+  githubSyncedAt: null,
+  repositoryStats: {},
+  ...initialPaginationState,
 };
 
+/**
+ * Applies synced GitHub statistics to projects, replacing `githubStars`
+ *
+ * Projects without statistics keep their static values.
+ */
+function withGitHubStats(
+  projects: Project[],
+  githubStats: Record<string, ProjectGitHubStats>
+): Project[] {
+  return projects.map((project) => {
+    const stats = githubStats[project.id];
+    return stats ? { ...project, githubStars: stats.stars, githubStats: stats } : project;
+  });
+}
+
+/**
+ * Matches projects to repositories by their `links.github` URL
+ *
+ * @param projects - Projects to match
+ * @param repos - Repositories fetched from GitHub
+ * @param syncedAt - Sync timestamp (ISO 8601)
+ * @returns Statistics by project id, for matched projects only
+ */
+function toGitHubStats(
+  projects: Project[],
+  repos: GitHubRepository[],
+  syncedAt: string
+): Record<string, ProjectGitHubStats> {
+  const reposByName = new Map(repos.map((repo) => [repo.fullName.toLowerCase(), repo]));
+  const stats: Record<string, ProjectGitHubStats> = {};
+
+  for (const project of projects) {
+    const ref = project.links.github ? parseGitHubRepositoryUrl(project.links.github) : null;
+    const repo = ref && reposByName.get(`${ref.owner}/${ref.name}`.toLowerCase());
+
+    if (repo) {
+      stats[project.id] = {
+        stars: repo.stars,
+        forks: repo.forks,
+        openIssues: repo.openIssues,
+        primaryLanguage: repo.language,
+        pushedAt: repo.pushedAt,
+        syncedAt,
+      };
+    }
+  }
+
+  return stats;
+}
+
 /**
  * NgRx SignalStore for managing projects state
  *
  * Provides reactive state management with:
  * - Signal-based reactivity for automatic updates
  * - Computed selectors for filtering, sorting, and searching
+ * - Ranked, typo-tolerant search with match ranges for `HighlightPipe`
+ * - Faceted filtering (category, technology, status, team size, year) with
+ *   AND/OR modes and counts per value
+ * - Paging of the filtered projects; changing a filter returns to the first page
  * - Methods for state updates and async operations
  * - Type-safe API surface
  *
@@ -68,288 +204,656 @@ const initialState: ProjectsState = {
 export const ProjectStore = signalStore(
   { providedIn: 'root' },
   withState(initialState),
-  withComputed(({ projects, selectedProject, searchQuery, selectedTags, sortBy }) => ({
-    /**
-     * Number of total projects
-     */
-    projectCount: computed(() => projects().length),
+  withComputed(({ projects, searchQuery }) => {
+    const searchIndex = computed(() => new SearchIndex(projects(), PROJECT_SEARCH_FIELDS));
 
-    /**
-     * Featured projects only
-     */
-    featuredProjects: computed(() => projects().filter((p) => p.featured)),
+    return {
+      /**
+       * Projects matching the search query, best first, with their matched
+       * ranges (every project, unscored, without a query)
+       */
+      searchResults: computed(() => searchIndex().search(searchQuery())),
+    };
+  }),
+  withComputed(
+    ({ projects, selectedProject, searchQuery, searchResults, facets, facetModes, sortBy }) => ({
+      /**
+       * Selected technologies (the `technology` facet)
+       */
+      selectedTags: computed(() => facets().technology),
 
-    /**
-     * Projects grouped by category
-     */
-    projectsByCategory: computed(() => {
-      const categories = new Map<string, Project[]>();
-      for (const project of projects()) {
-        const category = project.category;
-        if (!categories.has(category)) {
-          categories.set(category, []);
+      /**
+       * Number of total projects
+       */
+      projectCount: computed(() => projects().length),
+
+      /**
+       * Featured projects only
+       */
+      featuredProjects: computed(() => projects().filter((p) => p.featured)),
+
+      /**
+       * Projects grouped by category
+       */
+      projectsByCategory: computed(() => {
+        const categories = new Map<string, Project[]>();
+        for (const project of projects()) {
+          const category = project.category;
+          if (!categories.has(category)) {
+            categories.set(category, []);
+          }
+          categories.get(category)!.push(project);
         }
-        categories.get(category)!.push(project);
-      }
-      return Object.fromEntries(categories);
-    }),
+        return Object.fromEntries(categories);
+      }),
 
-    /**
-     * Filtered and sorted projects based on search, tags, and sort order
-     */
-    filteredProjects: computed(() => {
-      let filtered = [...projects()];
-
-      // Apply search filter
-      const query = searchQuery().toLowerCase().trim();
-      if (query) {
-        filtered = filtered.filter(
-          (p) =>
-            p.title.toLowerCase().includes(query) ||
-            p.description.toLowerCase().includes(query) ||
-            p.shortDescription.toLowerCase().includes(query) ||
-            p.technologies.some((tech) => tech.toLowerCase().includes(query)) ||
-            p.category.toLowerCase().includes(query)
+      /**
+       * Filtered and sorted projects based on search, facets, and sort order
+       *
+       * While searching, projects are ranked by relevance first and the sort
+       * order breaks ties.
+       */
+      filteredProjects: computed(() => {
+        const scores = new Map(searchResults().map((result) => [result.item, result.score]));
+        const filtered = [...scores.keys()].filter((p) => matchesFacets(p, facets(), facetModes()));
+
+        // Apply sorting
+        const sort = sortBy();
+        filtered.sort((a, b) => {
+          const relevance = scores.get(b)! - scores.get(a)!;
+          if (relevance !== 0) {
+            return relevance;
+          }
+          switch (sort) {
+            case 'recent':
+              return new Date(b.createdDate).getTime() - new Date(a.createdDate).getTime();
+            case 'popular':
+              return (b.githubStars || 0) - (a.githubStars || 0);
+            case 'name':
+              return a.title.localeCompare(b.title);
+            default:
+              return 0;
+          }
+        });
+
+        return filtered;
+      }),
+
+      /**
+       * Values of every facet with the number of projects each would show
+       *
+       * Follows the search and the other facets (see {@link countFacetValues}),
+       * e.g. `facetCounts().technology` → `[{ value: 'Angular', count: 5, selected: true }, ...]`.
+       */
+      facetCounts: computed(() =>
+        countFacetValues(
+          searchResults().map((result) => result.item),
+          facets(),
+          facetModes()
+        )
+      ),
+
+      /**
+       * Looks up the ranges of a project field matched by the search query
+       *
+       * @example
+       * ```html
+       * <h3 [innerHTML]="project.title | highlight: store.matchRanges()(project.id, 'title')"></h3>
+       * ```
+       */
+      matchRanges: computed(() => {
+        const matches = new Map(searchResults().map((result) => [result.item.id, result.matches]));
+        return (id: string, field: ProjectSearchField, index = 0) =>
+          matches.get(id)?.find((match) => match.field === field && match.index === index)
+            ?.ranges ?? [];
+      }),
+
+      /**
+       * Projects filtered by specific technology
+       */
+      projectsByTechnology: computed(() => {
+        return (technology: string) =>
+          projects().filter((p) => p.technologies.includes(technology));
+      }),
+
+      /**
+       * Checks if a project is currently selected
+       */
+      hasSelection: computed(() => selectedProject() !== null),
+
+      /**
+       * Gets unique technologies from all projects
+       */
+      allTechnologies: computed(() => {
+        const allTechnologies = flatten(
+          projects().map((p) => p.technologies),
+          1
         );
-      }
-
-      // Apply tag filter (technology filter)
-      const tags = selectedTags();
-      if (tags.length > 0) {
-        filtered = filtered.filter((p) => tags.some((tag) => p.technologies.includes(tag)));
-      }
-
-      // Apply sorting
-      const sort = sortBy();
-      filtered.sort((a, b) => {
-        switch (sort) {
-          case 'recent':
-            return new Date(b.createdDate).getTime() - new Date(a.createdDate).getTime();
-          case 'popular':
-            return (b.githubStars || 0) - (a.githubStars || 0);
-          case 'name':
-            return a.title.localeCompare(b.title);
-          default:
-            return 0;
-        }
-      });
+        return uniqueBy(allTechnologies).sort();
+      }),
 
-      return filtered;
-    }),
+      /**
+       * Gets unique categories from all projects
+       */
+      allCategories: computed(() => {
+        const categories = projects().map((p) => p.category);
+        return uniqueBy(categories).sort();
+      }),
 
+      /**
+       * Checks if any filters are active
+       */
+      hasActiveFilters: computed(() => {
+        return (
+          searchQuery().length > 0 || Object.values(facets()).some((values) => values.length > 0)
+        );
+      }),
+    })
+  ),
+  withComputed(({ filteredProjects, page, pageSize }) => ({
     /**
-     * Projects filtered by specific technology
+     * Number of projects matching the filters
      */
-    projectsByTechnology: computed(() => {
-      return (technology: string) => projects().filter((p) => p.technologies.includes(technology));
-    }),
+    total: computed(() => filteredProjects().length),
 
     /**
-     * Checks if a project is currently selected
+     * Number of pages of filtered projects (at least one)
      */
-    hasSelection: computed(() => selectedProject() !== null),
+    pageCount: computed(() => getPageCount(filteredProjects().length, pageSize())),
 
     /**
-     * Gets unique technologies from all projects
+     * Whether pages after the current one exist
      */
-    allTechnologies: computed(() => {
-      const allTechnologies = flatten(
-        projects().map((p) => p.technologies),
-        1
-      );
-      return uniqueBy(allTechnologies).sort();
-    }),
+    hasMore: computed(() => page() < getPageCount(filteredProjects().length, pageSize())),
 
     /**
-     * Gets unique categories from all projects
+     * Filtered projects on the current page
      */
-    allCategories: computed(() => {
-      const categories = projects().map((p) => p.category);
-      return uniqueBy(categories).sort();
-    }),
+    pagedProjects: computed(() =>
+      paginate(
+        filteredProjects(),
+        clampPage(page(), filteredProjects().length, pageSize()),
+        pageSize()
+      )
+    ),
 
     /**
-     * Checks if any filters are active
+     * Filtered projects on every page up to the current one, for infinite scroll
      */
-    hasActiveFilters: computed(() => {
-      return searchQuery().length > 0 || selectedTags().length > 0;
-    }),
+    loadedProjects: computed(() => paginateThrough(filteredProjects(), page(), pageSize())),
+  })),
+  withComputed(({ projects, repositoryStats }) => ({
+    /**
+     * Language shares across the repositories of all loaded projects
+     *
+     * Only includes projects whose statistics were loaded with
+     * {@link loadRepositoryStats}; languages beyond the six largest are
+     * combined into `Other`.
+     */
+    languageBreakdown: computed(() =>
+      aggregateLanguages(
+        projects()
+          .map((p) => repositoryStats()[p.id])
+          .filter((stats) => stats !== undefined),
+        MAX_LANGUAGES
+      )
+    ),
   })),
-  withMethods((store, projectService = inject(ProjectService)) => ({
+  withMethods((store, githubService = inject(GitHubService)) => ({
     /**
-     * Loads all projects from the service
+     * Merges live repository statistics into projects linking to GitHub
+     *
+     * Repositories are fetched once per owner through `GitHubService`
+     * (cached for `CACHE_CONFIG.GITHUB_DATA_TTL`) and replace `githubStars`,
+     * so the `popular` sort uses live counts. When GitHub cannot be reached,
+     * projects keep their static `githubStars` (or previously synced
+     * statistics) and `githubSyncedAt` is left unchanged.
      *
      * @example
      * ```typescript
-     * ngOnInit() {
-     *   this.store.loadProjects();
-     * }
+     * this.store.syncGitHubStats();
      * ```
      */
-    loadProjects: rxMethod<void>(
+    syncGitHubStats: rxMethod<void>(
       pipe(
-        tap(() => patchState(store, { isLoading: true, error: null })),
-        switchMap(() =>
-          projectService.getAll().pipe(
-            tap((projects) =>
-              patchState(store, {
-                projects,
-                isLoading: false,
-                error: null,
-              })
-            ),
-            catchError((error) => {
+        switchMap(() => {
+          const owners = uniqueBy(
+            store
+              .projects()
+              .map((p) => (p.links.github ? parseGitHubRepositoryUrl(p.links.github) : null))
+              .filter((ref) => ref !== null)
+              .map((ref) => ref.owner.toLowerCase())
+          );
+
+          if (owners.length === 0) {
+            return EMPTY;
+          }
+
+          return forkJoin(
+            owners.map((owner) =>
+              githubService
+                .getRepositories(owner)
+                .pipe(catchError(() => of<GitHubRepository[]>([])))
+            )
+          ).pipe(
+            tap((results) => {
+              const syncedAt = new Date().toISOString();
+              const stats = toGitHubStats(store.projects(), results.flat(), syncedAt);
+
+              if (Object.keys(stats).length === 0) {
+                return;
+              }
+
+              const githubStats = { ...store.githubStats(), ...stats };
               patchState(store, {
-                isLoading: false,
-                error: error.message || 'Failed to load projects',
+                githubStats,
+                githubSyncedAt: syncedAt,
+                projects: withGitHubStats(store.projects(), githubStats),
               });
-              return of([]);
             })
-          )
-        )
+          );
+        })
       )
     ),
 
     /**
-     * Loads a specific project by slug and sets it as selected
+     * Loads repository statistics, including languages, for projects linking to GitHub
      *
-     * @param slug - The URL-friendly slug of the project
+     * Statistics already in `repositoryStats` are not fetched again; failed
+     * requests (e.g. without an API token) are skipped. Accepts a signal, so
+     * the statistics follow the loaded or selected projects.
+     *
+     * @param projects - Projects to load statistics for
      *
      * @example
      * ```typescript
-     * this.store.selectProject('angular-portfolio');
+     * this.store.loadRepositoryStats(this.store.projects, { injector: this.injector });
      * ```
      */
-    selectProject: rxMethod<string>(
+    loadRepositoryStats: rxMethod<Project[]>(
       pipe(
-        tap(() => patchState(store, { isLoading: true, error: null })),
-        switchMap((slug) =>
-          projectService.getBySlug(slug).pipe(
-            tap((project) =>
-              patchState(store, {
-                selectedProject: project || null,
-                isLoading: false,
-                error: project ? null : `Project "${slug}" not found`,
-              })
-            ),
-            catchError((error) => {
+        switchMap((projects) => {
+          const requests = projects
+            .filter((p) => !store.repositoryStats()[p.id])
+            .map((p) => ({
+              id: p.id,
+              ref: p.links.github ? parseGitHubRepositoryUrl(p.links.github) : null,
+            }))
+            .filter(({ ref }) => ref !== null)
+            .map(({ id, ref }) =>
+              githubService.getRepositoryStats(ref!.owner, ref!.name).pipe(
+                map((stats) => ({ id, stats })),
+                catchError(() => of(null))
+              )
+            );
+
+          if (requests.length === 0) {
+            return EMPTY;
+          }
+
+          return forkJoin(requests).pipe(
+            tap((results) => {
+              const loaded = results.filter((result) => result !== null);
+              if (loaded.length === 0) {
+                return;
+              }
+
               patchState(store, {
-                isLoading: false,
-                error: error.message || 'Failed to load project',
+                repositoryStats: {
+                  ...store.repositoryStats(),
+                  ...Object.fromEntries(loaded.map(({ id, stats }) => [id, stats])),
+                },
               });
-              return of(undefined);
             })
-          )
-        )
+          );
+        })
       )
     ),
+  })),
+  withMethods(
+    (
+      store,
+      projectService = inject(ProjectService),
+      cache = inject(CacheService),
+      features = inject(ENVIRONMENT_FEATURES)
+    ) => ({
+      /**
+       * Loads all projects from the service
+       *
+       * The list is cached by `cacheInterceptor` (see `ProjectService.getAll()`).
+       * Synced GitHub statistics are reapplied, and {@link syncGitHubStats} runs when
+       * the `enableGitHubIntegration` flag of `ENVIRONMENT_FEATURES` is on.
+       *
+       * @example
+       * ```typescript
+       * ngOnInit() {
+       *   this.store.loadProjects();
+       * }
+       * ```
+       */
+      loadProjects: rxMethod<void>(
+        pipe(
+          tap(() => patchState(store, { isLoading: true, error: null })),
+          switchMap(() =>
+            projectService.getAll().pipe(
+              tap((projects) => {
+                patchState(store, {
+                  projects: withGitHubStats(projects, store.githubStats()),
+                  isLoading: false,
+                  error: null,
+                });
 
-    /**
-     * Sets the search query for filtering projects
-     *
-     * @param query - Search string to filter projects
-     *
-     * @example
-     * ```typescript
-     * this.store.setSearchQuery('angular');
-     * ```
-     */
-    setSearchQuery(query: string): void {
-      patchState(store, { searchQuery: query });
-    },
+                if (features.enableGitHubIntegration) {
+                  store.syncGitHubStats();
+                }
+              }),
+              catchError((error) => {
+                patchState(store, {
+                  isLoading: false,
+                  error: error.message || 'Failed to load projects',
+                });
+                return of([]);
+              })
+            )
+          )
+        )
+      ),
 
-    /**
-     * Toggles a technology tag filter
-     * If the tag is selected, it will be removed. If not, it will be added.
-     *
-     * @param tag - Technology tag to toggle
-     *
-     * @example
-     * ```typescript
-     * this.store.toggleTag('Angular');
-     * ```
-     */
-    toggleTag(tag: string): void {
-      const currentTags = store.selectedTags();
-      const newTags = currentTags.includes(tag)
-        ? currentTags.filter((t) => t !== tag)
-        : [...currentTags, tag];
-      patchState(store, { selectedTags: newTags });
-    },
+      /**
+       * Refetches all content
+       *
+       * Invalidates every `CACHE_TAGS.CONTENT` cache entry; this store and the
+       * other content stores reload the data they have loaded.
+       *
+       * @example
+       * ```typescript
+       * onRefresh() {
+       *   this.store.refresh();
+       * }
+       * ```
+       */
+      refresh(): void {
+        cache.invalidateTag(CACHE_TAGS.CONTENT);
+      },
 
-    /**
-     * Sets the sort order for projects
-     *
-     * @param sort - Sort option ('recent', 'popular', or 'name')
-     *
-     * @example
-     * ```typescript
-     * this.store.setSortBy('popular');
-     * ```
-     */
-    setSortBy(sort: ProjectSortBy): void {
-      patchState(store, { sortBy: sort });
-    },
+      /**
+       * Loads a specific project by slug and sets it as selected
+       *
+       * @param slug - The URL-friendly slug of the project
+       *
+       * @example
+       * ```typescript
+       * this.store.selectProject('angular-portfolio');
+       * ```
+       */
+      selectProject: rxMethod<string>(
+        pipe(
+          tap(() => patchState(store, { isLoading: true, error: null })),
+          switchMap((slug) =>
+            projectService.getBySlug(slug).pipe(
+              tap((project) =>
+                patchState(store, {
+                  selectedProject: project || null,
+                  isLoading: false,
+                  error: project ? null : `Project "${slug}" not found`,
+                })
+              ),
+              catchError((error) => {
+                patchState(store, {
+                  isLoading: false,
+                  error: error.message || 'Failed to load project',
+                });
+                return of(undefined);
+              })
+            )
+          )
+        )
+      ),
 
-    /**
-     * Clears all filters (search query and selected tags)
-     *
-     * @example
-     * ```typescript
-     * this.store.clearFilters();
-     * ```
-     */
-    clearFilters(): void {
-      patchState(store, { searchQuery: '', selectedTags: [] });
-    },
+      /**
+       * Sets the search query for filtering projects
+       *
+       * @param query - Search string to filter projects
+       *
+       * @example
+       * ```typescript
+       * this.store.setSearchQuery('angular');
+       * ```
+       */
+      setSearchQuery(query: string): void {
+        patchState(store, { searchQuery: query, page: 1 });
+      },
 
-    /**
-     * Clears the currently selected project
-     */
-    clearSelection(): void {
-      patchState(store, { selectedProject: null });
-    },
+      /**
+       * Toggles a technology tag filter
+       * If the tag is selected, it will be removed. If not, it will be added.
+       *
+       * @param tag - Technology tag to toggle
+       *
+       * @example
+       * ```typescript
+       * this.store.toggleTag('Angular');
+       * ```
+       */
+      toggleTag(tag: string): void {
+        const currentTags = store.selectedTags();
+        const newTags = currentTags.includes(tag)
+          ? currentTags.filter((t) => t !== tag)
+          : [...currentTags, tag];
+        patchState(store, { facets: { ...store.facets(), technology: newTags }, page: 1 });
+      },
 
-    /**
-     * Clears any error state
-     */
-    clearError(): void {
-      patchState(store, { error: null });
-    },
+      /**
+       * Toggles a value of any facet
+       *
+       * @param facet - Facet the value belongs to
+       * @param value - Value to select or deselect (years as `'2024'`)
+       *
+       * @example
+       * ```typescript
+       * this.store.toggleFacetValue('status', 'Active');
+       * ```
+       */
+      toggleFacetValue(facet: ProjectFacet, value: string): void {
+        const current = store.facets()[facet];
+        const values = current.includes(value)
+          ? current.filter((v) => v !== value)
+          : [...current, value];
+        patchState(store, { facets: { ...store.facets(), [facet]: values }, page: 1 });
+      },
 
-    /**
-     * Resets the store to initial state
-     */
-    reset(): void {
-      patchState(store, initialState);
-    },
+      /**
+       * Replaces the selected values of a facet; an empty array clears it
+       *
+       * @param facet - Facet to set
+       * @param values - Values to select
+       *
+       * @example
+       * ```typescript
+       * this.store.setFacetValues('year', ['2024', '2025']);
+       * ```
+       */
+      setFacetValues(facet: ProjectFacet, values: string[]): void {
+        patchState(store, { facets: { ...store.facets(), [facet]: values }, page: 1 });
+      },
 
-    /**
-     * Legacy method for backward compatibility
-     * @deprecated Use selectProject instead
-     */
-    loadProjectById: rxMethod<string>(
-      pipe(
-        tap(() => patchState(store, { isLoading: true, error: null })),
-        switchMap((id) =>
-          projectService.getProjectById(id).pipe(
-            tap((project) =>
-              patchState(store, {
-                selectedProject: project || null,
-                isLoading: false,
-                error: project ? null : `Project with ID "${id}" not found`,
+      /**
+       * Sets whether a facet shows projects with any (`'or'`) or every (`'and'`)
+       * selected value
+       *
+       * @param facet - Facet to set
+       * @param mode - Combination mode
+       *
+       * @example
+       * ```typescript
+       * // Projects using both Angular and RxJS
+       * this.store.setFacetMode('technology', 'and');
+       * ```
+       */
+      setFacetMode(facet: ProjectFacet, mode: FacetMode): void {
+        patchState(store, { facetModes: { ...store.facetModes(), [facet]: mode }, page: 1 });
+      },
+
+      /**
+       * Sets the sort order for projects
+       *
+       * @param sort - Sort option ('recent', 'popular', or 'name')
+       *
+       * @example
+       * ```typescript
+       * this.store.setSortBy('popular');
+       * ```
+       */
+      setSortBy(sort: ProjectSortBy): void {
+        patchState(store, { sortBy: sort, page: 1 });
+      },
+
+      /**
+       * Sets several filters at once, leaving the others unchanged
+       *
+       * Used to restore filters from the URL (see {@link syncFiltersWithQueryParams}).
+       *
+       * @param filters - Search query, selected tags and/or sort order
+       *
+       * @example
+       * ```typescript
+       * this.store.setFilters({ selectedTags: ['Angular'], sortBy: 'popular' });
+       * ```
+       */
+      setFilters(
+        filters: Partial<Pick<ProjectsState, 'searchQuery' | 'sortBy'> & { selectedTags: string[] }>
+      ): void {
+        const { selectedTags, ...rest } = filters;
+        patchState(store, {
+          ...rest,
+          ...(selectedTags && { facets: { ...store.facets(), technology: selectedTags } }),
+          page: 1,
+        });
+      },
+
+      /**
+       * Clears all filters (search query and every facet); facet modes are kept
+       *
+       * @example
+       * ```typescript
+       * this.store.clearFilters();
+       * ```
+       */
+      clearFilters(): void {
+        patchState(store, { searchQuery: '', facets: emptyFacetSelection, page: 1 });
+      },
+
+      /**
+       * Goes to a page of the filtered projects
+       *
+       * @param page - Page number, limited to the available pages
+       *
+       * @example
+       * ```typescript
+       * this.store.setPage(2);
+       * ```
+       */
+      setPage(page: number): void {
+        patchState(store, { page: clampPage(page, store.total(), store.pageSize()) });
+      },
+
+      /**
+       * Sets the number of projects per page
+       *
+       * Moves to the page containing the first project currently shown.
+       *
+       * @param pageSize - Projects per page (see `PAGINATION_CONFIG.PAGE_SIZE_OPTIONS`)
+       *
+       * @example
+       * ```typescript
+       * this.store.setPageSize(24);
+       * ```
+       */
+      setPageSize(pageSize: number): void {
+        const size = clampPageSize(pageSize);
+        const first = (store.page() - 1) * store.pageSize();
+        patchState(store, { pageSize: size, page: Math.floor(first / size) + 1 });
+      },
+
+      /**
+       * Adds the next page to `loadedProjects`; does nothing on the last page
+       *
+       * @example
+       * ```typescript
+       * onScrollEnd() {
+       *   this.store.loadMore();
+       * }
+       * ```
+       */
+      loadMore(): void {
+        if (store.hasMore()) {
+          patchState(store, { page: store.page() + 1 });
+        }
+      },
+
+      /**
+       * Clears the currently selected project
+       */
+      clearSelection(): void {
+        patchState(store, { selectedProject: null });
+      },
+
+      /**
+       * Clears any error state
+       */
+      clearError(): void {
+        patchState(store, { error: null });
+      },
+
+      /**
+       * Resets the store to initial state
+       */
+      reset(): void {
+        patchState(store, initialState);
+      },
+
+      /**
+       * Legacy method for backward compatibility
+       * @deprecated Use selectProject instead
+       */
+      loadProjectById: rxMethod<string>(
+        pipe(
+          tap(() => patchState(store, { isLoading: true, error: null })),
+          switchMap((id) =>
+            projectService.getProjectById(id).pipe(
+              tap((project) =>
+                patchState(store, {
+                  selectedProject: project || null,
+                  isLoading: false,
+                  error: project ? null : `Project with ID "${id}" not found`,
+                })
+              ),
+              catchError((error) => {
+                patchState(store, {
+                  isLoading: false,
+                  error: error.message || 'Failed to load project',
+                });
+                return of(undefined);
               })
-            ),
-            catchError((error) => {
-              patchState(store, {
-                isLoading: false,
-                error: error.message || 'Failed to load project',
-              });
-              return of(undefined);
-            })
+            )
           )
         )
-      )
-    ),
-  }))
+      ),
+    })
+  ),
+  withHooks({
+    /**
+     * Reloads loaded projects when content is invalidated
+     */
+    onInit(store) {
+      inject(CacheService)
+        .tagInvalidations(CACHE_TAGS.CONTENT)
+        .pipe(takeUntilDestroyed())
+        .subscribe(() => {
+          if (store.projects().length > 0) {
+            store.loadProjects();
+          }
+        });
+    },
+  })
 );
@@ -0,0 +1,205 @@
+// @vitest-environment jsdom
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { Component, inject } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter, Router } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+
+import { DEBOUNCE_DELAYS } from '@shared/constants';
+
+import { CaseStudiesStore } from './case-studies.store';
+import { PROJECT_SORT_OPTIONS, ProjectStore } from './project.store';
+import { syncFiltersWithQueryParams } from './query-params-sync';
+
+@Component({ selector: 'app-projects-page', template: '' })
+class ProjectsPageComponent {
+  readonly store = inject(ProjectStore);
+
+  constructor() {
+    syncFiltersWithQueryParams(this.store, {
+      sortOptions: PROJECT_SORT_OPTIONS,
+      defaultSort: 'recent',
+    });
+  }
+}
+
+@Component({ selector: 'app-case-studies-page', template: '' })
+class CaseStudiesPageComponent {
+  readonly store = inject(CaseStudiesStore);
+
+  constructor() {
+    syncFiltersWithQueryParams(this.store);
+  }
+}
+
+@Component({ selector: 'app-other-page', template: '' })
+class OtherPageComponent {}
+
+describe('syncFiltersWithQueryParams', () => {
+  let harness: RouterTestingHarness;
+  let router: Router;
+  let projects: InstanceType<typeof ProjectStore>;
+  let caseStudies: InstanceType<typeof CaseStudiesStore>;
+
+  async function open(url: string): Promise<void> {
+    const navigation = harness.navigateByUrl(url);
+    await vi.advanceTimersByTimeAsync(0);
+    await navigation;
+  }
+
+  /**
+   * Lets the debounced URL update run
+   */
+  async function settle(): Promise<void> {
+    await vi.advanceTimersByTimeAsync(DEBOUNCE_DELAYS.SEARCH);
+  }
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([
+          { path: 'projects', component: ProjectsPageComponent },
+          { path: 'case-studies', component: CaseStudiesPageComponent },
+          { path: 'about', component: OtherPageComponent },
+        ]),
+      ],
+    });
+    router = TestBed.inject(Router);
+    projects = TestBed.inject(ProjectStore);
+    caseStudies = TestBed.inject(CaseStudiesStore);
+
+    const creating = RouterTestingHarness.create();
+    await vi.advanceTimersByTimeAsync(0);
+    harness = await creating;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('from the URL', () => {
+    it('should restore the filters of a shared link', async () => {
+      await open('/projects?q=dashboard&tags=Angular,RxJS&sort=popular');
+
+      expect(projects.searchQuery()).toBe('dashboard');
+      expect(projects.selectedTags()).toEqual(['Angular', 'RxJS']);
+      expect(projects.sortBy()).toBe('popular');
+    });
+
+    it('should follow later navigation, such as the back button', async () => {
+      await open('/projects?tags=Angular');
+      await open('/projects?tags=Angular,RxJS&sort=name');
+      await open('/projects?tags=Angular');
+
+      expect(projects.selectedTags()).toEqual(['Angular']);
+      expect(projects.sortBy()).toBe('recent');
+    });
+
+    it('should clear filters missing from the URL', async () => {
+      projects.setFilters({ searchQuery: 'old', selectedTags: ['Vue'], sortBy: 'name' });
+      await open('/projects');
+
+      expect(projects.searchQuery()).toBe('');
+      expect(projects.selectedTags()).toEqual([]);
+      expect(projects.sortBy()).toBe('recent');
+    });
+
+    it('should replace an unknown sort with the default', async () => {
+      const navigate = vi.spyOn(router, 'navigate');
+      await open('/projects?q=api&sort=stars');
+      await settle();
+
+      expect(projects.sortBy()).toBe('recent');
+      expect(router.url).toBe('/projects?q=api');
+      expect(navigate).toHaveBeenCalledWith([], expect.objectContaining({ replaceUrl: true }));
+    });
+  });
+
+  describe('to the URL', () => {
+    beforeEach(async () => {
+      await open('/projects');
+      await settle();
+    });
+
+    it('should debounce search updates and replace the history entry', async () => {
+      const navigate = vi.spyOn(router, 'navigate');
+
+      projects.setSearchQuery('a');
+      await vi.advanceTimersByTimeAsync(100);
+      projects.setSearchQuery('ang');
+      await vi.advanceTimersByTimeAsync(DEBOUNCE_DELAYS.SEARCH - 1);
+      expect(navigate).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(navigate).toHaveBeenCalledTimes(1);
+      expect(navigate).toHaveBeenCalledWith([], expect.objectContaining({ replaceUrl: true }));
+      expect(router.url).toBe('/projects?q=ang');
+    });
+
+    it('should push a history entry when tags or the sort order change', async () => {
+      const navigate = vi.spyOn(router, 'navigate');
+
+      projects.toggleTag('Angular');
+      projects.toggleTag('RxJS');
+      await settle();
+      expect(router.url).toBe('/projects?tags=Angular,RxJS');
+
+      projects.setSortBy('name');
+      await settle();
+      expect(router.url).toBe('/projects?tags=Angular,RxJS&sort=name');
+
+      expect(navigate).toHaveBeenCalledTimes(2);
+      expect(navigate.mock.calls.every(([, extras]) => extras?.replaceUrl === false)).toBe(true);
+    });
+
+    it('should drop cleared filters and the default sort', async () => {
+      projects.setFilters({ searchQuery: 'api', selectedTags: ['Go'], sortBy: 'name' });
+      await settle();
+
+      projects.clearFilters();
+      projects.setSortBy('recent');
+      await settle();
+
+      expect(router.url).toBe('/projects');
+    });
+
+    it('should keep other query parameters', async () => {
+      await open('/projects?page=2');
+      await settle();
+
+      projects.setSearchQuery('api');
+      await settle();
+
+      expect(router.url).toBe('/projects?page=2&q=api');
+    });
+
+    it('should stop once the page is left', async () => {
+      await open('/about');
+      const navigate = vi.spyOn(router, 'navigate');
+
+      projects.setSearchQuery('api');
+      await settle();
+
+      expect(navigate).not.toHaveBeenCalled();
+      expect(router.url).toBe('/about');
+    });
+  });
+
+  describe('without sort options', () => {
+    it('should sync the search and tags but leave the sort parameter alone', async () => {
+      await open('/case-studies?q=dashboard&sort=name');
+      await settle();
+
+      expect(caseStudies.searchQuery()).toBe('dashboard');
+
+      caseStudies.toggleTag('UX');
+      await settle();
+
+      expect(router.url).toBe('/case-studies?q=dashboard&sort=name&tags=UX');
+    });
+  });
+});
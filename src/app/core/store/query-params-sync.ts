@@ -0,0 +1,174 @@
+import type { Signal } from '@angular/core';
+import { assertInInjectionContext, computed, DestroyRef, inject, Injector } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import type { ParamMap, Params } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
+
+import { debounceTime } from 'rxjs';
+
+import { DEBOUNCE_DELAYS } from '@shared/constants';
+
+/**
+ * Query parameter names used for list filters
+ */
+export const FILTER_QUERY_PARAMS = {
+  SEARCH: 'q',
+  TAGS: 'tags',
+  SORT: 'sort',
+} as const;
+
+/**
+ * Filter values written back to a store
+ */
+export interface QueryParamFilters<TSort extends string = string> {
+  searchQuery?: string;
+  selectedTags?: string[];
+  sortBy?: TSort;
+}
+
+/**
+ * Store with filters that can be kept in the URL
+ *
+ * Satisfied by `ProjectStore` and `CaseStudiesStore`.
+ */
+export interface FilterQueryParamsStore<TSort extends string = string> {
+  readonly searchQuery: Signal<string>;
+  readonly selectedTags: Signal<string[]>;
+  readonly sortBy?: Signal<TSort>;
+  setFilters(filters: QueryParamFilters<TSort>): void;
+}
+
+/**
+ * Options for {@link syncFiltersWithQueryParams}
+ */
+export interface FilterQueryParamsOptions<TSort extends string = string> {
+  /** Accepted `sort` values; the sort order is not synced without them */
+  sortOptions?: readonly TSort[];
+  /** Sort order left out of the URL and used for unknown `sort` values */
+  defaultSort?: TSort;
+  /** Injector to use outside an injection context */
+  injector?: Injector;
+}
+
+/**
+ * Filter query parameters; null removes a parameter from the URL
+ */
+type FilterParams = Record<string, string | null>;
+
+/**
+ * Keeps store filters and the current route's query parameters in sync
+ *
+ * The URL is read into the store whenever it changes (including back and
+ * forward navigation): `q` sets `searchQuery`, `tags` (comma-separated) sets
+ * `selectedTags` and `sort` sets `sortBy`, falling back to `defaultSort` when
+ * missing or unknown. Store changes are written back after
+ * `DEBOUNCE_DELAYS.SEARCH`; typing a search replaces the current history
+ * entry, while changing tags or the sort order pushes a new one so the back
+ * button restores the previous selection. Empty filters and the default sort
+ * are left out of the URL, and other query parameters are kept.
+ *
+ * Stops syncing when the injector is destroyed.
+ *
+ * @param store - Store to sync
+ * @param options - Sort options and injector
+ *
+ * @example
+ * ```typescript
+ * export class ProjectsListComponent {
+ *   readonly store = inject(ProjectStore);
+ *
+ *   constructor() {
+ *     syncFiltersWithQueryParams(this.store, {
+ *       sortOptions: PROJECT_SORT_OPTIONS,
+ *       defaultSort: 'recent',
+ *     });
+ *   }
+ * }
+ * ```
+ */
+export function syncFiltersWithQueryParams<TSort extends string>(
+  store: FilterQueryParamsStore<TSort>,
+  options: FilterQueryParamsOptions<TSort> = {}
+): void {
+  if (!options.injector) {
+    assertInInjectionContext(syncFiltersWithQueryParams);
+  }
+  const injector = options.injector ?? inject(Injector);
+  const router = injector.get(Router);
+  const route = injector.get(ActivatedRoute);
+  const { sortOptions, defaultSort } = options;
+  const syncSort = !!sortOptions && !!store.sortBy;
+
+  const fromUrl = route.queryParamMap.subscribe((params) => {
+    const filters = readFilters(params, sortOptions, defaultSort);
+    const changed: QueryParamFilters<TSort> = {};
+
+    if (filters.searchQuery !== store.searchQuery()) {
+      changed.searchQuery = filters.searchQuery;
+    }
+    if (filters.selectedTags.join(',') !== store.selectedTags().join(',')) {
+      changed.selectedTags = filters.selectedTags;
+    }
+    if (syncSort && filters.sortBy && filters.sortBy !== store.sortBy!()) {
+      changed.sortBy = filters.sortBy;
+    }
+
+    if (Object.keys(changed).length > 0) {
+      store.setFilters(changed);
+    }
+  });
+
+  const params = computed<FilterParams>(() => ({
+    [FILTER_QUERY_PARAMS.SEARCH]: store.searchQuery() || null,
+    [FILTER_QUERY_PARAMS.TAGS]: store.selectedTags().join(',') || null,
+    ...(syncSort && {
+      [FILTER_QUERY_PARAMS.SORT]: store.sortBy!() === defaultSort ? null : store.sortBy!(),
+    }),
+  }));
+
+  // The first write only tidies up the URL the page was opened with
+  let initial = true;
+  const toUrl = toObservable(params, { injector })
+    .pipe(debounceTime(DEBOUNCE_DELAYS.SEARCH))
+    .subscribe((next) => {
+      const current = route.snapshot.queryParamMap;
+      const changed = Object.keys(next).filter((key) => next[key] !== current.get(key));
+      const replaceUrl = initial || changed.every((key) => key === FILTER_QUERY_PARAMS.SEARCH);
+      initial = false;
+      if (changed.length === 0) {
+        return;
+      }
+
+      void router.navigate([], {
+        relativeTo: route,
+        queryParams: next as Params,
+        queryParamsHandling: 'merge',
+        replaceUrl,
+      });
+    });
+
+  injector.get(DestroyRef).onDestroy(() => {
+    fromUrl.unsubscribe();
+    toUrl.unsubscribe();
+  });
+}
+
+/**
+ * Reads filter values from query parameters
+ */
+function readFilters<TSort extends string>(
+  params: ParamMap,
+  sortOptions: readonly TSort[] | undefined,
+  defaultSort: TSort | undefined
+): QueryParamFilters<TSort> & { searchQuery: string; selectedTags: string[] } {
+  const sort = params.get(FILTER_QUERY_PARAMS.SORT);
+
+  return {
+    searchQuery: params.get(FILTER_QUERY_PARAMS.SEARCH) ?? '',
+    selectedTags: (params.get(FILTER_QUERY_PARAMS.TAGS) ?? '')
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0),
+    sortBy: sortOptions?.find((option) => option === sort) ?? defaultSort,
+  };
+}
@@ -0,0 +1,122 @@
+import type { SearchField } from './search-index';
+import { editDistance, SearchIndex } from './search-index';
+
+interface Doc {
+  id: string;
+  title: string;
+  description: string;
+  technologies: string[];
+}
+
+describe('editDistance', () => {
+  it.each([
+    ['angular', 'angular', 0],
+    ['angluar', 'angular', 1],
+    ['dashbord', 'dashboard', 1],
+    ['reakt', 'react', 1],
+    ['typscrip', 'typescript', 2],
+  ])('should count the edits between %s and %s', (a, b, expected) => {
+    expect(editDistance(a, b)).toBe(expected);
+  });
+
+  it('should stop counting past the maximum', () => {
+    expect(editDistance('vue', 'angular', 2)).toBe(3);
+    expect(editDistance('kotlin', 'python', 1)).toBe(2);
+  });
+});
+
+describe('SearchIndex', () => {
+  const docs: Doc[] = [
+    {
+      id: 'dashboard',
+      title: 'Analytics Dashboard',
+      description: 'Real-time charts for product teams',
+      technologies: ['Angular', 'TypeScript', 'D3.js'],
+    },
+    {
+      id: 'shop',
+      title: 'Online Shop',
+      description: 'Storefront with an Angular admin dashboard',
+      technologies: ['React', 'Node.js'],
+    },
+    {
+      id: 'api',
+      title: 'Payments API',
+      description: 'Services for testing payment providers',
+      technologies: ['Go', 'PostgreSQL'],
+    },
+  ];
+  const fields: SearchField<Doc>[] = [
+    { name: 'title', weight: 3, value: (doc) => doc.title },
+    { name: 'technologies', weight: 2, value: (doc) => doc.technologies },
+    { name: 'description', weight: 1, value: (doc) => doc.description },
+  ];
+  const index = new SearchIndex(docs, fields);
+  const ids = (query: string) => index.search(query).map((result) => result.item.id);
+
+  it('should index every item', () => {
+    expect(index.size).toBe(3);
+  });
+
+  it('should return every item, unscored, for a query without words', () => {
+    expect(index.search('  ').map((result) => [result.item.id, result.score])).toEqual([
+      ['dashboard', 0],
+      ['shop', 0],
+      ['api', 0],
+    ]);
+  });
+
+  it('should rank matches in heavier fields first', () => {
+    expect(ids('dashboard')).toEqual(['dashboard', 'shop']);
+    expect(ids('angular')).toEqual(['dashboard', 'shop']);
+  });
+
+  it('should require every word of the query', () => {
+    expect(ids('angular storefront')).toEqual(['shop']);
+    expect(ids('angular kotlin')).toEqual([]);
+  });
+
+  it('should match stems, prefixes and words inside longer words', () => {
+    expect(ids('payment')).toEqual(['api']);
+    expect(ids('tested')).toEqual(['api']);
+    expect(ids('analy')).toEqual(['dashboard']);
+    expect(ids('script')).toEqual(['dashboard']);
+  });
+
+  it('should tolerate typos in longer words only', () => {
+    expect(ids('angluar dashbord')).toEqual(['dashboard', 'shop']);
+    expect(ids('postgrsql')).toEqual(['api']);
+    expect(ids('gp')).toEqual([]);
+  });
+
+  it('should prefer exact matches to typos', () => {
+    const [exact] = index.search('shop');
+    const [typo] = index.search('shap');
+
+    expect(exact.item.id).toBe('shop');
+    expect(typo.item.id).toBe('shop');
+    expect(exact.score).toBeGreaterThan(typo.score);
+  });
+
+  it('should report matched ranges per field value', () => {
+    const [result] = index.search('angluar dash');
+
+    expect(result.matches).toEqual([
+      { field: 'title', index: 0, ranges: [{ start: 10, end: 14 }] },
+      { field: 'technologies', index: 0, ranges: [{ start: 0, end: 7 }] },
+    ]);
+  });
+
+  it('should report ranges in the original text', () => {
+    const [result] = index.search('node');
+
+    expect(result.matches).toEqual([
+      { field: 'technologies', index: 1, ranges: [{ start: 0, end: 4 }] },
+    ]);
+  });
+
+  it('should limit the number of results', () => {
+    expect(index.search('angular', { limit: 1 })).toHaveLength(1);
+    expect(index.search('', { limit: 2 })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,301 @@
+import type { HighlightRange } from '@shared/pipes/highlight/highlight.pipe';
+import { stem } from '@shared/utilities/text/text.utils';
+
+/**
+ * Searchable text of an item, with its weight in the score
+ */
+export interface SearchField<T, F extends string = string> {
+  /** Field name, reported with matches */
+  name: F;
+  /** Relative importance, e.g. 3 for a title and 1 for a description */
+  weight: number;
+  /** Text of the field; lists (such as technologies) are matched value by value */
+  value: (item: T) => string | readonly string[] | undefined;
+}
+
+/**
+ * Matched text in one value of a field
+ */
+export interface SearchMatch<F extends string = string> {
+  field: F;
+  /** Position of the value in the field (always 0 for a text field) */
+  index: number;
+  /** Matched character ranges, ready for `HighlightPipe` */
+  ranges: HighlightRange[];
+}
+
+/**
+ * Item matching a query
+ */
+export interface SearchResult<T, F extends string = string> {
+  item: T;
+  /** Relevance; higher is better */
+  score: number;
+  matches: SearchMatch<F>[];
+}
+
+/**
+ * Options for {@link SearchIndex.search}
+ */
+export interface SearchOptions {
+  /** Maximum number of results */
+  limit?: number;
+}
+
+/**
+ * Quality of each kind of term match, multiplied by the field weight
+ */
+const MATCH_QUALITY = {
+  EXACT: 1,
+  PREFIX: 0.75,
+  TYPO: 0.6,
+  INFIX: 0.5,
+} as const;
+
+/** Shortest query term matched inside a longer word */
+const MIN_INFIX_LENGTH = 3;
+
+/** Shortest query term allowed a typo */
+const MIN_TYPO_LENGTH = 4;
+
+/** Shortest query term allowed a second typo */
+const MIN_TWO_TYPO_LENGTH = 8;
+
+/**
+ * Word of a field value, with its position in the original text
+ */
+interface IndexedToken {
+  text: string;
+  stem: string;
+  start: number;
+}
+
+/**
+ * Indexed field value
+ */
+interface IndexedValue<F extends string> {
+  field: F;
+  index: number;
+  weight: number;
+  tokens: IndexedToken[];
+}
+
+/**
+ * Indexed item
+ */
+interface IndexedItem<T, F extends string> {
+  item: T;
+  values: IndexedValue<F>[];
+}
+
+/**
+ * Query term, lowercase and stemmed
+ */
+interface QueryTerm {
+  text: string;
+  stem: string;
+  maxTypos: number;
+}
+
+/**
+ * Splits text into lowercase words with their offsets
+ */
+function tokenizeWithOffsets(text: string): IndexedToken[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => {
+    const word = match[0].toLowerCase();
+    return { text: word, stem: stem(word), start: match.index };
+  });
+}
+
+/**
+ * Edit distance (insertions, deletions, substitutions and swaps of adjacent
+ * letters) between two words, or `max + 1` once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforeRow = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforeRow[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+
+  return Math.min(row[b.length], max + 1);
+}
+
+/**
+ * Best match of a query term against one word
+ *
+ * @returns Match quality and the matched range, or null when they don't match
+ */
+function matchToken(
+  term: QueryTerm,
+  token: IndexedToken
+): { quality: number; range: HighlightRange } | null {
+  const whole = { start: token.start, end: token.start + token.text.length };
+
+  if (term.stem === token.stem) {
+    return { quality: MATCH_QUALITY.EXACT, range: whole };
+  }
+  if (token.text.startsWith(term.text)) {
+    return {
+      quality: MATCH_QUALITY.PREFIX,
+      range: { start: token.start, end: token.start + term.text.length },
+    };
+  }
+  if (term.maxTypos > 0) {
+    const typos = editDistance(term.stem, token.stem, term.maxTypos);
+    if (typos <= term.maxTypos) {
+      return { quality: MATCH_QUALITY.TYPO / typos, range: whole };
+    }
+  }
+
+  const offset = term.text.length >= MIN_INFIX_LENGTH ? token.text.indexOf(term.text) : -1;
+  if (offset > 0) {
+    const start = token.start + offset;
+    return { quality: MATCH_QUALITY.INFIX, range: { start, end: start + term.text.length } };
+  }
+  return null;
+}
+
+/**
+ * In-memory, field-weighted search index for list filtering
+ *
+ * Words are lowercased and lightly stemmed (see {@link stem}), so "projects"
+ * finds "Project". Every query word must match a word of some field, either
+ * exactly, as the start of a word (for search-as-you-type), with a typo (one
+ * from 4 letters, two from 8) or inside a longer word ("script" in
+ * "TypeScript"). A result scores the field weight times the match quality for
+ * each word and field it matches, and reports the matched ranges.
+ *
+ * @example
+ * ```typescript
+ * const index = new SearchIndex(projects, [
+ *   { name: 'title', weight: 3, value: (p) => p.title },
+ *   { name: 'technologies', weight: 2, value: (p) => p.technologies },
+ * ]);
+ * const [best] = index.search('angluar dashbord');
+ * // best.matches → [
+ * //   { field: 'title', index: 0, ranges: [{ start: 0, end: 7 }, { start: 8, end: 17 }] },
+ * //   { field: 'technologies', index: 0, ranges: [{ start: 0, end: 7 }] },
+ * // ]
+ * ```
+ */
+export class SearchIndex<T, F extends string = string> {
+  private readonly items: IndexedItem<T, F>[];
+
+  constructor(items: readonly T[], fields: readonly SearchField<T, F>[]) {
+    this.items = items.map((item) => ({
+      item,
+      values: fields.flatMap((field) => {
+        const value = field.value(item) ?? [];
+        const texts = typeof value === 'string' ? [value] : value;
+        return texts.map((text, index) => ({
+          field: field.name,
+          index,
+          weight: field.weight,
+          tokens: tokenizeWithOffsets(text),
+        }));
+      }),
+    }));
+  }
+
+  /**
+   * Number of indexed items
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Ranks items against a query
+   *
+   * @param query - Free text typed by the user
+   * @param options - Result limit
+   * @returns Items matching every word of the query, best first (ties keep
+   * the indexed order); every item, unscored, for a query without words
+   */
+  search(query: string, options: SearchOptions = {}): SearchResult<T, F>[] {
+    const terms: QueryTerm[] = tokenizeWithOffsets(query).map((token) => ({
+      text: token.text,
+      stem: token.stem,
+      maxTypos:
+        token.text.length >= MIN_TWO_TYPO_LENGTH ? 2 : token.text.length >= MIN_TYPO_LENGTH ? 1 : 0,
+    }));
+    const { limit = Infinity } = options;
+
+    if (terms.length === 0) {
+      return this.items
+        .slice(0, limit)
+        .map((indexed) => ({ item: indexed.item, score: 0, matches: [] }));
+    }
+
+    return this.items
+      .map((indexed) => this.match(indexed, terms))
+      .filter((result): result is SearchResult<T, F> => result !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Scores an item, or returns null when a query term matches none of its fields
+   */
+  private match(indexed: IndexedItem<T, F>, terms: QueryTerm[]): SearchResult<T, F> | null {
+    const ranges = new Map<IndexedValue<F>, HighlightRange[]>();
+    let score = 0;
+
+    for (const term of terms) {
+      const best = new Map<F, number>();
+
+      for (const value of indexed.values) {
+        for (const token of value.tokens) {
+          const match = matchToken(term, token);
+          if (match) {
+            best.set(
+              value.field,
+              Math.max(best.get(value.field) ?? 0, value.weight * match.quality)
+            );
+            ranges.set(value, [...(ranges.get(value) ?? []), match.range]);
+          }
+        }
+      }
+
+      if (best.size === 0) {
+        return null;
+      }
+      best.forEach((fieldScore) => (score += fieldScore));
+    }
+
+    return {
+      item: indexed.item,
+      score,
+      matches: indexed.values
+        .filter((value) => ranges.has(value))
+        .map((value) => ({
+          field: value.field,
+          index: value.index,
+          ranges: ranges.get(value)!.sort((a, b) => a.start - b.start),
+        })),
+    };
+  }
+}
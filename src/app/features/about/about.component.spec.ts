@@ -1,35 +1,103 @@
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
 import type { ComponentFixture} from '@angular/core/testing';
 import { TestBed } from '@angular/core/testing';
 
+import { of } from 'rxjs';
+
+import type { FeatureFlag } from '@core/config';
+import { ENVIRONMENT_FEATURES } from '@core/config';
+import type { Project } from '@core/models';
+import { GitHubService, ProjectService } from '@core/services';
+import { environment } from '@environments/environment';
+
 import { AboutComponent } from './about.component';
 
 describe('AboutComponent', () => {
   let component: AboutComponent;
   let fixture: ComponentFixture<AboutComponent>;
+  let features: Record<FeatureFlag, boolean>;
 
   beforeEach(async () => {
+    features = { ...environment.features, enableGitHubIntegration: false };
+
     await TestBed.configureTestingModule({
       imports: [AboutComponent],
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: ENVIRONMENT_FEATURES, useValue: features },
+      ],
     }).compileComponents();
-
-    fixture = TestBed.createComponent(AboutComponent);
-    component = fixture.componentInstance;
-    fixture.detectChanges();
   });
 
-  it('should create', () => {
-    expect(component).toBeTruthy();
-  });
+  describe('Default', () => {
+    beforeEach(() => {
+      fixture = TestBed.createComponent(AboutComponent);
+      component = fixture.componentInstance;
+      fixture.detectChanges();
+    });
+
+    it('should create', () => {
+      expect(component).toBeTruthy();
+    });
 
-  it('should render the page title', () => {
-    const compiled = fixture.nativeElement as HTMLElement;
-    const title = compiled.querySelector('.about__title');
-    expect(title?.textContent).toContain('About Me');
+    it('should render the page title', () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+      const title = compiled.querySelector('.about__title');
+      expect(title?.textContent).toContain('About Me');
+    });
+
+    it('should render the description', () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+      const description = compiled.querySelector('.about__description');
+      expect(description).toBeTruthy();
+    });
+
+    it('should not show languages without GitHub integration', () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('app-language-chart')).toBeNull();
+    });
   });
 
-  it('should render the description', () => {
-    const compiled = fixture.nativeElement as HTMLElement;
-    const description = compiled.querySelector('.about__description');
-    expect(description).toBeTruthy();
+  describe('GitHub Integration', () => {
+    const project = {
+      id: 'portfolio',
+      slug: 'portfolio',
+      links: { github: 'https://github.com/MoodyJW/portfolio' },
+    } as Project;
+
+    beforeEach(() => {
+      features.enableGitHubIntegration = true;
+      vi.spyOn(TestBed.inject(ProjectService), 'getAll').mockReturnValue(of([project]));
+      vi.spyOn(TestBed.inject(GitHubService), 'getRepositories').mockReturnValue(of([]));
+      vi.spyOn(TestBed.inject(GitHubService), 'getRepositoryStats').mockReturnValue(
+        of({
+          owner: 'MoodyJW',
+          name: 'portfolio',
+          stars: 0,
+          forks: 0,
+          issues: 0,
+          pullRequests: 0,
+          languages: [{ name: 'TypeScript', color: '#3178c6', size: 100 }],
+        })
+      );
+
+      fixture = TestBed.createComponent(AboutComponent);
+      fixture.detectChanges();
+    });
+
+    it('should show the language breakdown across projects', () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+
+      expect(TestBed.inject(GitHubService).getRepositoryStats).toHaveBeenCalledWith(
+        'MoodyJW',
+        'portfolio'
+      );
+      expect(compiled.querySelector('app-language-chart')).toBeTruthy();
+      expect(compiled.querySelector('app-language-chart .chart-legend__item')?.textContent).toContain(
+        'TypeScript'
+      );
+    });
   });
 });
@@ -1,4 +1,7 @@
+import { provideHttpClient } from '@angular/common/http';
+
 import type { Meta, StoryObj } from '@storybook/angular';
+import { applicationConfig } from '@storybook/angular';
 
 import { AboutComponent } from './about.component';
 
@@ -6,6 +9,11 @@ const meta: Meta<AboutComponent> = {
   title: 'Features/About',
   component: AboutComponent,
   tags: ['autodocs'],
+  decorators: [
+    applicationConfig({
+      providers: [provideHttpClient()],
+    }),
+  ],
   parameters: {
     layout: 'fullscreen',
     docs: {
@@ -1,8 +1,10 @@
 import type { OnInit } from '@angular/core';
-import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { ChangeDetectionStrategy, Component, inject, Injector } from '@angular/core';
 import { Title } from '@angular/platform-browser';
 
-import { ContainerComponent } from '@shared/components';
+import { ContainerComponent, LanguageChartComponent } from '@shared/components';
+import { ENVIRONMENT_FEATURES } from '@core/config';
+import { ProjectStore } from '@core/store';
 
 /**
  * About page component
@@ -10,6 +12,9 @@ import { ContainerComponent } from '@shared/components';
  * Displays professional bio, skills, experience timeline, and certifications.
  * This is a placeholder component that will be enhanced in Phase 4 Part 4.
  *
+ * When GitHub integration is enabled, shows the language breakdown across
+ * all project repositories.
+ *
  * @example
  * ```html
  * <app-about />
@@ -18,15 +23,24 @@ import { ContainerComponent } from '@shared/components';
 @Component({
   selector: 'app-about',
   standalone: true,
-  imports: [ContainerComponent],
+  imports: [ContainerComponent, LanguageChartComponent],
   templateUrl: './about.component.html',
   styleUrl: './about.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class AboutComponent implements OnInit {
   private readonly titleService = inject(Title);
+  private readonly injector = inject(Injector);
+  protected readonly store = inject(ProjectStore);
+
+  protected readonly showLanguages = inject(ENVIRONMENT_FEATURES).enableGitHubIntegration;
 
   ngOnInit(): void {
     this.titleService.setTitle('MoodyJW - About');
+
+    if (this.showLanguages) {
+      this.store.loadProjects();
+      this.store.loadRepositoryStats(this.store.projects, { injector: this.injector });
+    }
   }
 }
@@ -1,78 +1,130 @@
 // @vitest-environment jsdom
-import type { ComponentFixture } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
 import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { RouterTestingHarness } from '@angular/router/testing';
+
+import { of } from 'rxjs';
 
 import { LABELS } from '@shared/constants';
+import type { CaseStudy } from '@core/models/case-study.model';
+import { CaseStudiesService } from '@core/services/case-studies.service';
+import { CaseStudiesStore } from '@core/store';
 
 import { CaseStudiesComponent } from './case-studies.component';
 
 describe('CaseStudiesComponent', () => {
+  let harness: RouterTestingHarness;
   let component: CaseStudiesComponent;
-  let fixture: ComponentFixture<CaseStudiesComponent>;
+
+  function caseStudy(id: string, title: string, technologies: string[]): CaseStudy {
+    return {
+      id,
+      slug: id,
+      title,
+      description: `${title} description`,
+      client: 'Client',
+      role: 'Developer',
+      duration: '3 months',
+      challenge: 'Challenge',
+      solution: 'Solution',
+      results: { metrics: [], impact: 'Impact' },
+      technologies,
+      images: { thumbnail: '/thumb.jpg', hero: '/hero.jpg', gallery: [] },
+      publishedDate: '2024-01-01',
+    };
+  }
+
+  const caseStudies = [
+    caseStudy('dashboard', 'Enterprise Dashboard', ['Angular', 'RxJS']),
+    caseStudy('shop', 'E-commerce Platform', ['Angular', 'NgRx']),
+    caseStudy('design-system', 'Design System', ['Storybook']),
+  ];
+
+  function cardTitles(): string[] {
+    return Array.from(
+      harness.routeNativeElement!.querySelectorAll('.case-studies__card-title'),
+      (title) => title.textContent!.trim()
+    );
+  }
+
+  async function open(url: string): Promise<void> {
+    component = await harness.navigateByUrl(url, CaseStudiesComponent);
+    harness.detectChanges();
+  }
 
   beforeEach(async () => {
-    await TestBed.configureTestingModule({
-      imports: [CaseStudiesComponent],
-    }).compileComponents();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([{ path: 'case-studies', component: CaseStudiesComponent }]),
+      ],
+    });
+    vi.spyOn(TestBed.inject(CaseStudiesService), 'getAll').mockReturnValue(of(caseStudies));
+
+    harness = await RouterTestingHarness.create();
+  });
 
-    fixture = TestBed.createComponent(CaseStudiesComponent);
-    component = fixture.componentInstance;
-    fixture.detectChanges();
+  afterEach(() => {
+    TestBed.inject(CaseStudiesStore).reset();
   });
 
-  it('should create', () => {
+  it('should create', async () => {
+    await open('/case-studies');
+
     expect(component).toBeTruthy();
   });
 
-  it('should expose labels', () => {
+  it('should expose labels', async () => {
+    await open('/case-studies');
+
     expect(component['LABELS']).toBe(LABELS);
   });
 
-  it('should have case studies signal', () => {
-    const caseStudies = component['caseStudies']();
-    expect(Array.isArray(caseStudies)).toBe(true);
-    expect(caseStudies.length).toBe(3);
+  it('should render the case studies from the store', async () => {
+    await open('/case-studies');
+
+    expect(cardTitles()).toEqual(['Enterprise Dashboard', 'E-commerce Platform', 'Design System']);
   });
 
-  it('should have correct case study structure', () => {
-    const caseStudies = component['caseStudies']();
-    const firstStudy = caseStudies[0];
+  it('should render technologies for each case study', async () => {
+    await open('/case-studies');
 
-    expect(firstStudy).toHaveProperty('id');
-    expect(firstStudy).toHaveProperty('title');
-    expect(firstStudy).toHaveProperty('description');
-    expect(firstStudy).toHaveProperty('technologies');
-    expect(Array.isArray(firstStudy.technologies)).toBe(true);
+    const tags = harness.routeNativeElement!.querySelectorAll('.case-studies__card-tech-tag');
+    expect(Array.from(tags, (tag) => tag.textContent!.trim())).toContain('Storybook');
   });
 
-  it('should have Enterprise Dashboard case study', () => {
-    const caseStudies = component['caseStudies']();
-    const enterpriseDashboard = caseStudies.find(cs => cs.title === 'Enterprise Dashboard');
+  it('should filter the rendered case studies from the URL', async () => {
+    await open('/case-studies?tags=NgRx');
 
-    expect(enterpriseDashboard).toBeTruthy();
-    expect(enterpriseDashboard?.technologies).toContain('Angular');
-    expect(enterpriseDashboard?.technologies).toContain('TypeScript');
+    expect(cardTitles()).toEqual(['E-commerce Platform']);
   });
 
-  it('should have E-commerce Platform case study', () => {
-    const caseStudies = component['caseStudies']();
-    const ecommerce = caseStudies.find(cs => cs.title === 'E-commerce Platform');
+  it('should show an empty state when no case study matches', async () => {
+    await open('/case-studies?q=nothing-matches-this');
 
-    expect(ecommerce).toBeTruthy();
-    expect(ecommerce?.technologies).toContain('NgRx');
+    expect(cardTitles()).toEqual([]);
+    expect(
+      harness.routeNativeElement!.querySelector('.case-studies__empty')?.textContent
+    ).toContain(LABELS.EMPTY_STATES.NO_RESULTS);
   });
 
-  it('should have Design System case study', () => {
-    const caseStudies = component['caseStudies']();
-    const designSystem = caseStudies.find(cs => cs.title === 'Design System');
+  it('should show an empty state when there are no case studies', async () => {
+    vi.mocked(TestBed.inject(CaseStudiesService).getAll).mockReturnValue(of([]));
+    await open('/case-studies');
 
-    expect(designSystem).toBeTruthy();
-    expect(designSystem?.technologies).toContain('Storybook');
+    expect(
+      harness.routeNativeElement!.querySelector('.case-studies__empty')?.textContent
+    ).toContain(LABELS.EMPTY_STATES.NO_CASE_STUDIES);
   });
 
-  it('should render case studies in template', () => {
-    const compiled = fixture.nativeElement as HTMLElement;
-    const caseStudyElements = compiled.querySelectorAll('.case-study, article, .card');
-    expect(caseStudyElements.length).toBeGreaterThanOrEqual(0);
+  it('should page the case studies', async () => {
+    TestBed.inject(CaseStudiesStore).setPageSize(2);
+    await open('/case-studies');
+
+    expect(cardTitles()).toHaveLength(2);
+    expect(harness.routeNativeElement!.querySelector('app-pagination')).toBeTruthy();
   });
 });
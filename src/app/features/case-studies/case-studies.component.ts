@@ -1,20 +1,27 @@
-import type { OnInit} from '@angular/core';
-import { ChangeDetectionStrategy, Component, inject, signal } from '@angular/core';
+import type { OnInit } from '@angular/core';
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
 import { Meta, Title } from '@angular/platform-browser';
 
+import { PaginationComponent } from '@shared/components';
 import { LABELS } from '@shared/constants';
+import { CaseStudiesStore, syncFiltersWithQueryParams } from '@core/store';
 
-interface CaseStudy {
-  id: number;
-  title: string;
-  description: string;
-  technologies: string[];
-}
-
+/**
+ * Case studies list page component
+ *
+ * Renders the current page of `CaseStudiesStore.pagedCaseStudies`. The
+ * search and tag filters are kept in the `q` and `tags` query parameters,
+ * so filtered views can be bookmarked and shared.
+ *
+ * @example
+ * ```html
+ * <app-case-studies />
+ * ```
+ */
 @Component({
   selector: 'app-case-studies',
   standalone: true,
-  imports: [],
+  imports: [PaginationComponent],
   templateUrl: './case-studies.component.html',
   styleUrl: './case-studies.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -22,32 +29,15 @@ interface CaseStudy {
 export class CaseStudiesComponent implements OnInit {
   private readonly meta = inject(Meta);
   private readonly metaTitle = inject(Title);
+  /** Filters kept in the `q` and `tags` query parameters */
+  protected readonly store = inject(CaseStudiesStore);
 
   /** UI labels */
   protected readonly LABELS = LABELS;
-  protected readonly caseStudies = signal<CaseStudy[]>([
-    {
-      id: 1,
-      title: 'Enterprise Dashboard',
-      description:
-        'Built a scalable enterprise dashboard with real-time data visualization using Angular signals and standalone components.',
-      technologies: ['Angular', 'TypeScript', 'RxJS', 'SCSS'],
-    },
-    {
-      id: 2,
-      title: 'E-commerce Platform',
-      description:
-        'Developed a high-performance e-commerce platform with advanced state management and lazy-loaded routes.',
-      technologies: ['Angular', 'NgRx', 'Angular Material', 'Firebase'],
-    },
-    {
-      id: 3,
-      title: 'Design System',
-      description:
-        'Created a comprehensive design system with custom theming using CSS variables and reusable components.',
-      technologies: ['Angular', 'SCSS', 'Storybook', 'Design Tokens'],
-    },
-  ]);
+
+  constructor() {
+    syncFiltersWithQueryParams(this.store);
+  }
 
   ngOnInit(): void {
     this.metaTitle.setTitle('MoodyJW - Case Studies');
@@ -55,5 +45,6 @@ export class CaseStudiesComponent implements OnInit {
       name: 'case-studies',
       content: 'Case Studies page of MoodyJW Portfolio',
     });
+    this.store.loadCaseStudies();
   }
 }
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { NEVER, of } from 'rxjs';
+
+import { GitHubService } from '@core/services/github.service';
+
+import { GitHubStore } from '../../github.store';
+
+import { GitHubContributionsComponent } from './github-contributions.component';
+
+describe('GitHubContributionsComponent', () => {
+  let fixture: ComponentFixture<GitHubContributionsComponent>;
+  let compiled: HTMLElement;
+  let githubService: GitHubService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GitHubContributionsComponent],
+      providers: [GitHubStore, provideHttpClient(), provideHttpClientTesting()],
+    }).compileComponents();
+
+    githubService = TestBed.inject(GitHubService);
+    fixture = TestBed.createComponent(GitHubContributionsComponent);
+    compiled = fixture.nativeElement as HTMLElement;
+  });
+
+  it('should show a skeleton while the calendar loads', () => {
+    vi.spyOn(githubService, 'getContributionCalendar').mockReturnValue(NEVER);
+    TestBed.inject(GitHubStore).loadContributions();
+    fixture.detectChanges();
+
+    expect(compiled.querySelector('[data-test="contributions-loading"]')).toBeTruthy();
+  });
+
+  it('should render the heatmap', () => {
+    vi.spyOn(githubService, 'getContributionCalendar').mockReturnValue(
+      of({ totalContributions: 1, weeks: [{ days: [{ date: '2026-10-18', count: 1 }] }] })
+    );
+    TestBed.inject(GitHubStore).loadContributions();
+    fixture.detectChanges();
+
+    expect(compiled.querySelector('app-contribution-heatmap')).toBeTruthy();
+  });
+});
@@ -0,0 +1,25 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+
+import { CardComponent, ContributionHeatmapComponent, SkeletonComponent } from '@shared/components';
+
+import { GitHubStore } from '../../github.store';
+import { GitHubSectionErrorComponent } from '../github-section-error/github-section-error.component';
+
+/**
+ * Contributions tab of the GitHub page: contribution heatmap of the last year
+ */
+@Component({
+  selector: 'app-github-contributions',
+  standalone: true,
+  imports: [
+    CardComponent,
+    ContributionHeatmapComponent,
+    SkeletonComponent,
+    GitHubSectionErrorComponent,
+  ],
+  templateUrl: './github-contributions.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GitHubContributionsComponent {
+  protected readonly store = inject(GitHubStore);
+}
@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { NEVER, throwError } from 'rxjs';
+
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+import { GitHubService } from '@core/services/github.service';
+
+import { GitHubStore } from '../../github.store';
+
+import { GitHubOverviewComponent } from './github-overview.component';
+
+describe('GitHubOverviewComponent', () => {
+  let fixture: ComponentFixture<GitHubOverviewComponent>;
+  let compiled: HTMLElement;
+  let githubService: GitHubService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GitHubOverviewComponent],
+      providers: [GitHubStore, provideHttpClient(), provideHttpClientTesting()],
+    }).compileComponents();
+
+    githubService = TestBed.inject(GitHubService);
+    vi.spyOn(TestBed.inject(ErrorHandlerService), 'handleError').mockImplementation(
+      () => undefined
+    );
+    fixture = TestBed.createComponent(GitHubOverviewComponent);
+    compiled = fixture.nativeElement as HTMLElement;
+  });
+
+  it('should show skeletons while the profile loads', () => {
+    vi.spyOn(githubService, 'getProfile').mockReturnValue(NEVER);
+    TestBed.inject(GitHubStore).loadProfile();
+    fixture.detectChanges();
+
+    expect(compiled.querySelector('[data-test="overview-loading"] app-skeleton')).toBeTruthy();
+  });
+
+  it('should retry the profile and repositories', () => {
+    vi.spyOn(githubService, 'getProfile').mockReturnValue(throwError(() => new Error('offline')));
+    vi.spyOn(githubService, 'getRepositories').mockReturnValue(NEVER);
+    TestBed.inject(GitHubStore).loadProfile();
+    fixture.detectChanges();
+
+    compiled.querySelector<HTMLButtonElement>('[role="alert"] button')!.click();
+
+    expect(githubService.getProfile).toHaveBeenCalledTimes(2);
+    expect(githubService.getRepositories).toHaveBeenCalledTimes(1);
+  });
+});
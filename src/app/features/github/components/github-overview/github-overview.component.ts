@@ -0,0 +1,29 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+
+import { CardComponent, GridComponent, SkeletonComponent } from '@shared/components';
+
+import { GitHubStore } from '../../github.store';
+import { GitHubSectionErrorComponent } from '../github-section-error/github-section-error.component';
+
+/**
+ * Overview tab of the GitHub page: profile and repository totals
+ */
+@Component({
+  selector: 'app-github-overview',
+  standalone: true,
+  imports: [CardComponent, GridComponent, SkeletonComponent, GitHubSectionErrorComponent],
+  templateUrl: './github-overview.component.html',
+  styleUrl: './github-overview.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GitHubOverviewComponent {
+  protected readonly store = inject(GitHubStore);
+
+  /**
+   * Reloads the profile and repositories
+   */
+  protected retry(): void {
+    this.store.loadProfile();
+    this.store.loadRepositories();
+  }
+}
@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { NEVER, of } from 'rxjs';
+
+import { GitHubService } from '@core/services/github.service';
+
+import { GitHubStore } from '../../github.store';
+
+import { GitHubRepositoriesComponent } from './github-repositories.component';
+
+describe('GitHubRepositoriesComponent', () => {
+  let fixture: ComponentFixture<GitHubRepositoriesComponent>;
+  let compiled: HTMLElement;
+  let githubService: GitHubService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GitHubRepositoriesComponent],
+      providers: [GitHubStore, provideHttpClient(), provideHttpClientTesting()],
+    }).compileComponents();
+
+    githubService = TestBed.inject(GitHubService);
+    fixture = TestBed.createComponent(GitHubRepositoriesComponent);
+    compiled = fixture.nativeElement as HTMLElement;
+  });
+
+  it('should show placeholder cards while repositories load', () => {
+    vi.spyOn(githubService, 'getRepositories').mockReturnValue(NEVER);
+    TestBed.inject(GitHubStore).loadRepositories();
+    fixture.detectChanges();
+
+    expect(compiled.querySelectorAll('app-skeleton')).toHaveLength(6);
+  });
+
+  it('should show an empty state without repositories', () => {
+    vi.spyOn(githubService, 'getRepositories').mockReturnValue(of([]));
+    TestBed.inject(GitHubStore).loadRepositories();
+    fixture.detectChanges();
+
+    expect(compiled.querySelector('.github-repositories__empty')).toBeTruthy();
+  });
+});
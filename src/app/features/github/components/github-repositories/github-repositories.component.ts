@@ -0,0 +1,27 @@
+import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+
+import { CardComponent, GridComponent, SkeletonComponent } from '@shared/components';
+import { formatDateMedium } from '@shared/utilities/date/date.utils';
+
+import { GitHubStore } from '../../github.store';
+import { GitHubSectionErrorComponent } from '../github-section-error/github-section-error.component';
+
+/**
+ * Repositories tab of the GitHub page: own repositories, most recently pushed first
+ */
+@Component({
+  selector: 'app-github-repositories',
+  standalone: true,
+  imports: [CardComponent, GridComponent, SkeletonComponent, GitHubSectionErrorComponent],
+  templateUrl: './github-repositories.component.html',
+  styleUrl: './github-repositories.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GitHubRepositoriesComponent {
+  protected readonly store = inject(GitHubStore);
+
+  /** Number of placeholder cards while loading */
+  protected readonly placeholders = [1, 2, 3, 4, 5, 6];
+
+  protected readonly formatDate = formatDateMedium;
+}
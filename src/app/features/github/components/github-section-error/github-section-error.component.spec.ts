@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { GitHubSectionErrorComponent } from './github-section-error.component';
+
+describe('GitHubSectionErrorComponent', () => {
+  let fixture: ComponentFixture<GitHubSectionErrorComponent>;
+  let compiled: HTMLElement;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GitHubSectionErrorComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(GitHubSectionErrorComponent);
+    compiled = fixture.nativeElement as HTMLElement;
+    fixture.componentRef.setInput('message', 'Could not load profile from GitHub.');
+    fixture.componentRef.setInput('retryLabel', 'Retry loading GitHub profile');
+    fixture.detectChanges();
+  });
+
+  it('should announce the message', () => {
+    const alert = compiled.querySelector('[role="alert"]');
+    expect(alert?.textContent).toContain('Could not load profile from GitHub.');
+  });
+
+  it('should label the retry button', () => {
+    const button = compiled.querySelector('button');
+    expect(button?.getAttribute('aria-label')).toBe('Retry loading GitHub profile');
+  });
+
+  it('should emit retry when the button is clicked', () => {
+    const retry = vi.fn();
+    fixture.componentInstance.retry.subscribe(retry);
+
+    compiled.querySelector('button')!.click();
+
+    expect(retry).toHaveBeenCalledTimes(1);
+  });
+});
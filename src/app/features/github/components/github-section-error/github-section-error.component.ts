@@ -0,0 +1,38 @@
+import { ChangeDetectionStrategy, Component, input, output } from '@angular/core';
+
+import { ButtonComponent } from '@shared/components';
+
+/**
+ * Error message with a retry button for a GitHub page section
+ */
+@Component({
+  selector: 'app-github-section-error',
+  standalone: true,
+  imports: [ButtonComponent],
+  styleUrl: './github-section-error.component.scss',
+  template: `
+    <div class="github-section-error" role="alert">
+      <p class="github-section-error__message">{{ message() }}</p>
+      <app-button variant="secondary" size="sm" [ariaLabel]="retryLabel()" (clicked)="retry.emit()">
+        Retry
+      </app-button>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GitHubSectionErrorComponent {
+  /**
+   * User-facing error message
+   */
+  readonly message = input.required<string>();
+
+  /**
+   * Accessible name of the retry button
+   */
+  readonly retryLabel = input<string>('Retry');
+
+  /**
+   * Emits when the retry button is clicked
+   */
+  readonly retry = output<void>();
+}
@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+import { Title } from '@angular/platform-browser';
+
+import { of, throwError } from 'rxjs';
+
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+import type { GitHubProfile, GitHubRepository } from '@core/models/github.model';
+import { GitHubService } from '@core/services/github.service';
+
+import { GitHubComponent } from './github.component';
+
+describe('GitHubComponent', () => {
+  let fixture: ComponentFixture<GitHubComponent>;
+  let element: HTMLElement;
+  let githubService: GitHubService;
+
+  const profile: GitHubProfile = {
+    login: 'MoodyJW',
+    name: 'Jay Moody',
+    avatarUrl: 'https://avatars.githubusercontent.com/u/1',
+    htmlUrl: 'https://github.com/MoodyJW',
+    bio: 'Frontend engineer',
+    company: null,
+    location: null,
+    blog: null,
+    publicRepos: 2,
+    followers: 10,
+    following: 3,
+    createdAt: '2015-01-01T00:00:00Z',
+  };
+
+  const repository: GitHubRepository = {
+    id: 1,
+    name: 'portfolio',
+    fullName: 'MoodyJW/portfolio',
+    description: 'Angular portfolio',
+    htmlUrl: 'https://github.com/MoodyJW/portfolio',
+    homepage: null,
+    language: 'TypeScript',
+    topics: [],
+    stars: 12,
+    forks: 3,
+    openIssues: 0,
+    fork: false,
+    archived: false,
+    pushedAt: '2026-10-01T12:00:00Z',
+    updatedAt: '2026-10-01T12:00:00Z',
+  };
+
+  /**
+   * Clicks the tab with the given label
+   */
+  function selectTab(label: string): void {
+    const tab = Array.from(element.querySelectorAll<HTMLElement>('[role="tab"]')).find(
+      (button) => button.textContent?.trim() === label
+    );
+    (tab!.querySelector('button') ?? tab!).click();
+    fixture.detectChanges();
+  }
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GitHubComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    }).compileComponents();
+
+    githubService = TestBed.inject(GitHubService);
+    vi.spyOn(TestBed.inject(ErrorHandlerService), 'handleError').mockImplementation(
+      () => undefined
+    );
+    vi.spyOn(githubService, 'getProfile').mockReturnValue(of(profile));
+    vi.spyOn(githubService, 'getRepositories').mockReturnValue(of([repository]));
+    vi.spyOn(githubService, 'getContributionCalendar').mockReturnValue(
+      throwError(() => new Error('Unauthorized'))
+    );
+
+    fixture = TestBed.createComponent(GitHubComponent);
+    element = fixture.nativeElement;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(fixture.componentInstance).toBeTruthy();
+  });
+
+  it('should set the page title', () => {
+    expect(TestBed.inject(Title).getTitle()).toBe('MoodyJW - GitHub');
+  });
+
+  it('should render Overview, Contributions and Repositories tabs', () => {
+    const tabs = Array.from(element.querySelectorAll('[role="tab"]')).map((tab) =>
+      tab.textContent?.trim()
+    );
+    expect(tabs).toEqual(['Overview', 'Contributions', 'Repositories']);
+  });
+
+  it('should show the profile and totals on the overview', () => {
+    expect(element.querySelector('[data-test="overview-profile"]')?.textContent).toContain(
+      'Jay Moody'
+    );
+    expect(element.querySelector('[data-test="overview-stars"]')?.textContent).toContain('12');
+  });
+
+  it('should list repositories', () => {
+    selectTab('Repositories');
+
+    const cards = element.querySelectorAll('[data-test="repository"]');
+    expect(cards).toHaveLength(1);
+    expect(cards[0].textContent).toContain('portfolio');
+    expect(cards[0].textContent).toContain('Angular portfolio');
+  });
+
+  it('should offer a retry when a section fails', () => {
+    selectTab('Contributions');
+    expect(element.querySelector('[role="alert"]')?.textContent).toContain(
+      'Could not load contributions from GitHub.'
+    );
+
+    vi.mocked(githubService.getContributionCalendar).mockReturnValue(
+      of({ totalContributions: 0, weeks: [] })
+    );
+    element.querySelector<HTMLButtonElement>('[role="alert"] button')!.click();
+    fixture.detectChanges();
+
+    expect(githubService.getContributionCalendar).toHaveBeenCalledTimes(2);
+    expect(element.querySelector('[role="alert"]')).toBeNull();
+    expect(element.querySelector('app-contribution-heatmap')).toBeTruthy();
+  });
+});
@@ -0,0 +1,74 @@
+import { provideHttpClient } from '@angular/common/http';
+import { inject, provideAppInitializer } from '@angular/core';
+
+import { provideGitHubFixtures } from '@core/services/github.transport';
+import type { Meta, StoryObj } from '@storybook/angular';
+import { applicationConfig, moduleMetadata } from '@storybook/angular';
+
+import { GitHubContributionsComponent } from './components/github-contributions/github-contributions.component';
+import { GitHubOverviewComponent } from './components/github-overview/github-overview.component';
+import { GitHubRepositoriesComponent } from './components/github-repositories/github-repositories.component';
+import { GitHubComponent } from './github.component';
+import { GitHubStore } from './github.store';
+
+/**
+ * Provides a `GitHubStore` loaded from the fixtures to a single section
+ */
+const withLoadedStore = applicationConfig({
+  providers: [GitHubStore, provideAppInitializer(() => inject(GitHubStore).loadAll())],
+});
+
+const meta: Meta<GitHubComponent> = {
+  title: 'Features/GitHub',
+  component: GitHubComponent,
+  tags: ['autodocs'],
+  decorators: [
+    applicationConfig({
+      providers: [provideHttpClient(), provideGitHubFixtures()],
+    }),
+    moduleMetadata({
+      imports: [GitHubOverviewComponent, GitHubContributionsComponent, GitHubRepositoriesComponent],
+    }),
+  ],
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'GitHub page with Overview, Contributions and Repositories tabs. Stories render the recorded fixtures (`provideGitHubFixtures()`), so they work offline and look the same on every run.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<GitHubComponent>;
+
+/**
+ * Full page, opened on the Overview tab
+ */
+export const Default: Story = {};
+
+/**
+ * Profile and repository totals
+ */
+export const Overview: Story = {
+  decorators: [withLoadedStore],
+  render: () => ({ template: '<app-github-overview />' }),
+};
+
+/**
+ * Contribution heatmap of the last year
+ */
+export const Contributions: Story = {
+  decorators: [withLoadedStore],
+  render: () => ({ template: '<app-github-contributions />' }),
+};
+
+/**
+ * Repository cards
+ */
+export const Repositories: Story = {
+  decorators: [withLoadedStore],
+  render: () => ({ template: '<app-github-repositories />' }),
+};
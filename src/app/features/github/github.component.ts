@@ -0,0 +1,53 @@
+import type { OnInit } from '@angular/core';
+import { ChangeDetectionStrategy, Component, inject, signal } from '@angular/core';
+import { Title } from '@angular/platform-browser';
+
+import { ContainerComponent, TabComponent, TabsComponent } from '@shared/components';
+
+import { GitHubContributionsComponent } from './components/github-contributions/github-contributions.component';
+import { GitHubOverviewComponent } from './components/github-overview/github-overview.component';
+import { GitHubRepositoriesComponent } from './components/github-repositories/github-repositories.component';
+import { GitHubStore } from './github.store';
+
+/**
+ * GitHub stats page component
+ *
+ * Shows the GitHub profile, contribution heatmap and repositories of the
+ * configured user in Overview, Contributions and Repositories tabs. Each tab
+ * loads independently and offers a retry when its request fails.
+ *
+ * Only routed when `environment.features.enableGitHubIntegration` is on.
+ *
+ * @example
+ * ```html
+ * <app-github />
+ * ```
+ */
+@Component({
+  selector: 'app-github',
+  standalone: true,
+  imports: [
+    ContainerComponent,
+    TabsComponent,
+    TabComponent,
+    GitHubOverviewComponent,
+    GitHubContributionsComponent,
+    GitHubRepositoriesComponent,
+  ],
+  providers: [GitHubStore],
+  templateUrl: './github.component.html',
+  styleUrl: './github.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class GitHubComponent implements OnInit {
+  private readonly titleService = inject(Title);
+  private readonly store = inject(GitHubStore);
+
+  /** Selected tab */
+  protected readonly activeTab = signal('overview');
+
+  ngOnInit(): void {
+    this.titleService.setTitle('MoodyJW - GitHub');
+    this.store.loadAll();
+  }
+}
@@ -0,0 +1,199 @@
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { of, throwError } from 'rxjs';
+
+import { CACHE_TAGS } from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+import type { GitHubProfile, GitHubRepository } from '@core/models/github.model';
+import { GitHubRateLimitError, GitHubService } from '@core/services/github.service';
+
+import { GitHubStore } from './github.store';
+
+describe('GitHubStore', () => {
+  let store: InstanceType<typeof GitHubStore>;
+  let githubService: GitHubService;
+  let errorHandler: ErrorHandlerService;
+
+  const profile = { login: 'MoodyJW', name: 'Jay Moody' } as GitHubProfile;
+
+  /**
+   * Builds a repository as returned by GitHubService
+   */
+  function repo(name: string, overrides: Partial<GitHubRepository> = {}): GitHubRepository {
+    return {
+      id: name.length,
+      name,
+      fullName: `MoodyJW/${name}`,
+      description: null,
+      htmlUrl: `https://github.com/MoodyJW/${name}`,
+      homepage: null,
+      language: 'TypeScript',
+      topics: [],
+      stars: 1,
+      forks: 1,
+      openIssues: 0,
+      fork: false,
+      archived: false,
+      pushedAt: '2026-10-01T12:00:00Z',
+      updatedAt: '2026-10-01T12:00:00Z',
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [GitHubStore, provideHttpClient(), provideHttpClientTesting()],
+    });
+
+    store = TestBed.inject(GitHubStore);
+    githubService = TestBed.inject(GitHubService);
+    errorHandler = TestBed.inject(ErrorHandlerService);
+    vi.spyOn(errorHandler, 'handleError').mockImplementation(() => undefined);
+  });
+
+  it('should start empty', () => {
+    expect(store.profile()).toBeNull();
+    expect(store.repositories()).toEqual([]);
+    expect(store.calendar()).toBeNull();
+    expect(store.loading()).toEqual({ profile: false, repositories: false, contributions: false });
+  });
+
+  describe('loadAll', () => {
+    it('should load every section', () => {
+      const calendar = { totalContributions: 3, weeks: [] };
+      vi.spyOn(githubService, 'getProfile').mockReturnValue(of(profile));
+      vi.spyOn(githubService, 'getRepositories').mockReturnValue(of([repo('one')]));
+      vi.spyOn(githubService, 'getContributionCalendar').mockReturnValue(of(calendar));
+
+      store.loadAll();
+
+      expect(store.profile()).toEqual(profile);
+      expect(store.repositories()).toHaveLength(1);
+      expect(store.calendar()).toEqual(calendar);
+      expect(store.errors()).toEqual({ profile: null, repositories: null, contributions: null });
+    });
+
+    it('should keep other sections when one fails', () => {
+      vi.spyOn(githubService, 'getProfile').mockReturnValue(of(profile));
+      vi.spyOn(githubService, 'getRepositories').mockReturnValue(of([]));
+      vi.spyOn(githubService, 'getContributionCalendar').mockReturnValue(
+        throwError(() => new Error('Unauthorized'))
+      );
+
+      store.loadAll();
+
+      expect(store.profile()).toEqual(profile);
+      expect(store.errors().contributions).toBe('Could not load contributions from GitHub.');
+      expect(store.loading().contributions).toBe(false);
+    });
+  });
+
+  describe('errors', () => {
+    it('should report failures to ErrorHandlerService', () => {
+      const error = new Error('offline');
+      vi.spyOn(githubService, 'getRepositories').mockReturnValue(throwError(() => error));
+
+      store.loadRepositories();
+
+      expect(errorHandler.handleError).toHaveBeenCalledWith(
+        error,
+        expect.objectContaining({ source: 'GitHubStore', showToast: false })
+      );
+      expect(store.errors().repositories).toBe('Could not load repositories from GitHub.');
+    });
+
+    it('should explain rate limits', () => {
+      vi.spyOn(githubService, 'getProfile').mockReturnValue(
+        throwError(
+          () =>
+            new GitHubRateLimitError({
+              resource: 'core',
+              limit: 60,
+              remaining: 0,
+              used: 60,
+              resetAt: Date.now() + 60_000,
+            })
+        )
+      );
+
+      store.loadProfile();
+
+      expect(store.errors().profile).toMatch(/^GitHub's rate limit was reached\. Try again after/);
+    });
+
+    it('should clear the error when a retry succeeds', () => {
+      vi.spyOn(githubService, 'getProfile')
+        .mockReturnValueOnce(throwError(() => new Error('offline')))
+        .mockReturnValueOnce(of(profile));
+
+      store.loadProfile();
+      expect(store.errors().profile).not.toBeNull();
+
+      store.loadProfile();
+      expect(store.errors().profile).toBeNull();
+      expect(store.profile()).toEqual(profile);
+    });
+  });
+
+  describe('refresh', () => {
+    it('should invalidate GitHub data and reload loaded sections', () => {
+      const getProfile = vi.spyOn(githubService, 'getProfile').mockReturnValue(of(profile));
+      const getRepositories = vi
+        .spyOn(githubService, 'getRepositories')
+        .mockReturnValue(of([repo('one')]));
+      const getCalendar = vi.spyOn(githubService, 'getContributionCalendar');
+      const invalidateTag = vi.spyOn(TestBed.inject(CacheService), 'invalidateTag');
+      store.loadProfile();
+      store.loadRepositories();
+
+      store.refresh();
+
+      expect(invalidateTag).toHaveBeenCalledWith(CACHE_TAGS.GITHUB);
+      expect(getProfile).toHaveBeenCalledTimes(2);
+      expect(getRepositories).toHaveBeenCalledTimes(2);
+      expect(getCalendar).not.toHaveBeenCalled();
+    });
+
+    it('should ignore content invalidations', () => {
+      const getProfile = vi.spyOn(githubService, 'getProfile').mockReturnValue(of(profile));
+      store.loadProfile();
+
+      TestBed.inject(CacheService).invalidateTag(CACHE_TAGS.CONTENT);
+
+      expect(getProfile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('computed', () => {
+    beforeEach(() => {
+      vi.spyOn(githubService, 'getRepositories').mockReturnValue(
+        of([
+          repo('old', { stars: 5, forks: 2, pushedAt: '2025-01-01T00:00:00Z' }),
+          repo('new', { stars: 3, language: 'Go', pushedAt: '2026-09-01T00:00:00Z' }),
+          repo('forked', { fork: true, stars: 0, language: null }),
+          repo('retired', { archived: true, stars: 1 }),
+        ])
+      );
+      store.loadRepositories();
+    });
+
+    it('should list own active repositories, most recently pushed first', () => {
+      expect(store.sourceRepositories().map((r) => r.name)).toEqual(['new', 'old']);
+    });
+
+    it('should total stars and forks', () => {
+      expect(store.totalStars()).toBe(9);
+      expect(store.totalForks()).toBe(5);
+    });
+
+    it('should rank primary languages by repository count', () => {
+      expect(store.topLanguages()).toEqual([
+        { name: 'TypeScript', count: 2 },
+        { name: 'Go', count: 1 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { computed, inject } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import {
+  patchState,
+  signalStore,
+  withComputed,
+  withHooks,
+  withMethods,
+  withState,
+} from '@ngrx/signals';
+import { rxMethod } from '@ngrx/signals/rxjs-interop';
+
+import type { Observable } from 'rxjs';
+import { catchError, EMPTY, pipe, switchMap, tap } from 'rxjs';
+
+import { CACHE_TAGS } from '@shared/constants';
+import { CacheService } from '@shared/services/cache/cache.service';
+import { ErrorHandlerService } from '@shared/services/error-handler/error-handler.service';
+import type {
+  ContributionCalendar,
+  GitHubProfile,
+  GitHubRepository,
+} from '@core/models/github.model';
+import { GitHubRateLimitError, GitHubService } from '@core/services/github.service';
+
+/**
+ * Independently loaded part of the GitHub page
+ */
+export type GitHubSection = 'profile' | 'repositories' | 'contributions';
+
+/**
+ * State interface for the GitHub Store
+ */
+interface GitHubState {
+  profile: GitHubProfile | null;
+  repositories: GitHubRepository[];
+  calendar: ContributionCalendar | null;
+  /** Whether each section is loading */
+  loading: Record<GitHubSection, boolean>;
+  /** User-facing error of each section's last load, null if it succeeded */
+  errors: Record<GitHubSection, string | null>;
+}
+
+/**
+ * Initial state for the GitHub Store
+ */
+const initialState: GitHubState = {
+  profile: null,
+  repositories: [],
+  calendar: null,
+  loading: { profile: false, repositories: false, contributions: false },
+  errors: { profile: null, repositories: null, contributions: null },
+};
+
+/**
+ * User-facing message for a failed section load
+ */
+function toErrorMessage(section: GitHubSection, error: unknown): string {
+  if (error instanceof GitHubRateLimitError) {
+    const resetAt = new Date(error.rateLimit.resetAt).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+    return `GitHub's rate limit was reached. Try again after ${resetAt}.`;
+  }
+  return `Could not load ${section} from GitHub.`;
+}
+
+/**
+ * NgRx SignalStore for the GitHub page
+ *
+ * Loads the profile, repositories and contribution calendar through
+ * `GitHubService` as separate sections, so one failing request (e.g. the
+ * GraphQL calendar without an API token) does not hide the others. Failures
+ * are reported to `ErrorHandlerService` and kept per section for a retry.
+ * Loaded sections reload when the `CACHE_TAGS.GITHUB` cache entries are
+ * invalidated (see {@link refresh}).
+ *
+ * Provided by `GitHubComponent`, so state lives as long as the page.
+ *
+ * @example
+ * ```typescript
+ * @Component({ providers: [GitHubStore] })
+ * export class GitHubComponent {
+ *   readonly store = inject(GitHubStore);
+ *
+ *   ngOnInit() {
+ *     this.store.loadAll();
+ *   }
+ * }
+ * ```
+ */
+export const GitHubStore = signalStore(
+  withState(initialState),
+  withComputed(({ repositories }) => ({
+    /**
+     * Own repositories (no forks or archived ones), most recently pushed first
+     */
+    sourceRepositories: computed(() =>
+      repositories()
+        .filter((repo) => !repo.fork && !repo.archived)
+        .sort((a, b) => new Date(b.pushedAt).getTime() - new Date(a.pushedAt).getTime())
+    ),
+
+    /**
+     * Stars across all repositories
+     */
+    totalStars: computed(() => repositories().reduce((sum, repo) => sum + repo.stars, 0)),
+
+    /**
+     * Forks across all repositories
+     */
+    totalForks: computed(() => repositories().reduce((sum, repo) => sum + repo.forks, 0)),
+
+    /**
+     * Primary languages by number of repositories, most used first
+     */
+    topLanguages: computed(() => {
+      const counts = new Map<string, number>();
+      for (const repo of repositories()) {
+        if (repo.language) {
+          counts.set(repo.language, (counts.get(repo.language) ?? 0) + 1);
+        }
+      }
+      return [...counts.entries()]
+        .map(([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+    }),
+  })),
+  withMethods(
+    (
+      store,
+      githubService = inject(GitHubService),
+      errorHandler = inject(ErrorHandlerService),
+      cache = inject(CacheService)
+    ) => {
+      /**
+       * Loads one section, tracking its loading and error state
+       */
+      const loadSection = <T>(
+        section: GitHubSection,
+        request: () => Observable<T>,
+        apply: (value: T) => Partial<GitHubState>
+      ) =>
+        rxMethod<void>(
+          pipe(
+            tap(() =>
+              patchState(store, {
+                loading: { ...store.loading(), [section]: true },
+                errors: { ...store.errors(), [section]: null },
+              })
+            ),
+            switchMap(() =>
+              request().pipe(
+                tap((value) =>
+                  patchState(store, {
+                    ...apply(value),
+                    loading: { ...store.loading(), [section]: false },
+                  })
+                ),
+                catchError((error: unknown) => {
+                  errorHandler.handleError(error, {
+                    source: 'GitHubStore',
+                    action: `load ${section}`,
+                    showToast: false,
+                    severity: 'low',
+                  });
+                  patchState(store, {
+                    loading: { ...store.loading(), [section]: false },
+                    errors: { ...store.errors(), [section]: toErrorMessage(section, error) },
+                  });
+                  return EMPTY;
+                })
+              )
+            )
+          )
+        );
+
+      const loadProfile = loadSection(
+        'profile',
+        () => githubService.getProfile(),
+        (profile) => ({ profile })
+      );
+      const loadRepositories = loadSection(
+        'repositories',
+        () => githubService.getRepositories(),
+        (repositories) => ({ repositories })
+      );
+      const loadContributions = loadSection(
+        'contributions',
+        () => githubService.getContributionCalendar(),
+        (calendar) => ({ calendar })
+      );
+
+      return {
+        /**
+         * Loads the profile of the configured GitHub user
+         */
+        loadProfile,
+
+        /**
+         * Loads the repositories of the configured GitHub user
+         */
+        loadRepositories,
+
+        /**
+         * Loads the contribution calendar of the last year
+         */
+        loadContributions,
+
+        /**
+         * Loads all sections
+         *
+         * @example
+         * ```typescript
+         * ngOnInit() {
+         *   this.store.loadAll();
+         * }
+         * ```
+         */
+        loadAll(): void {
+          loadProfile();
+          loadRepositories();
+          loadContributions();
+        },
+
+        /**
+         * Refetches GitHub data
+         *
+         * Invalidates every `CACHE_TAGS.GITHUB` cache entry, so loaded
+         * sections are fetched again.
+         */
+        refresh(): void {
+          cache.invalidateTag(CACHE_TAGS.GITHUB);
+        },
+      };
+    }
+  ),
+  withHooks({
+    /**
+     * Reloads loaded sections when GitHub data is invalidated
+     */
+    onInit(store) {
+      inject(CacheService)
+        .tagInvalidations(CACHE_TAGS.GITHUB)
+        .pipe(takeUntilDestroyed())
+        .subscribe(() => {
+          if (store.profile()) {
+            store.loadProfile();
+          }
+          if (store.repositories().length > 0) {
+            store.loadRepositories();
+          }
+          if (store.calendar()) {
+            store.loadContributions();
+          }
+        });
+    },
+  })
+);
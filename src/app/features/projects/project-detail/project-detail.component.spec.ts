@@ -1,17 +1,33 @@
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
 import type { ComponentFixture} from '@angular/core/testing';
 import { TestBed } from '@angular/core/testing';
 import { ActivatedRoute } from '@angular/router';
 
+import { of } from 'rxjs';
+
+import type { FeatureFlag } from '@core/config';
+import { ENVIRONMENT_FEATURES } from '@core/config';
+import type { Project } from '@core/models';
+import { GitHubService, ProjectService } from '@core/services';
+import { environment } from '@environments/environment';
+
 import { ProjectDetailComponent } from './project-detail.component';
 
 describe('ProjectDetailComponent', () => {
   let component: ProjectDetailComponent;
   let fixture: ComponentFixture<ProjectDetailComponent>;
+  let features: Record<FeatureFlag, boolean>;
 
   beforeEach(async () => {
+    features = { ...environment.features, enableGitHubIntegration: false };
+
     await TestBed.configureTestingModule({
       imports: [ProjectDetailComponent],
       providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: ENVIRONMENT_FEATURES, useValue: features },
         {
           provide: ActivatedRoute,
           useValue: {
@@ -49,4 +65,50 @@ describe('ProjectDetailComponent', () => {
     const slug = compiled.querySelector('.project-detail__slug');
     expect(slug?.textContent).toContain('test-project');
   });
+
+  it('should not show languages without GitHub integration', () => {
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('app-language-chart')).toBeNull();
+  });
+
+  describe('GitHub Integration', () => {
+    beforeEach(() => {
+      features.enableGitHubIntegration = true;
+      vi.spyOn(TestBed.inject(ProjectService), 'getBySlug').mockReturnValue(
+        of({
+          id: 'test-project',
+          slug: 'test-project',
+          links: { github: 'https://github.com/MoodyJW/test-project' },
+        } as Project)
+      );
+      vi.spyOn(TestBed.inject(GitHubService), 'getRepositoryStats').mockReturnValue(
+        of({
+          owner: 'MoodyJW',
+          name: 'test-project',
+          stars: 0,
+          forks: 0,
+          issues: 0,
+          pullRequests: 0,
+          languages: [
+            { name: 'TypeScript', color: '#3178c6', size: 300 },
+            { name: 'SCSS', color: '#c6538c', size: 100 },
+          ],
+        })
+      );
+
+      fixture = TestBed.createComponent(ProjectDetailComponent);
+      fixture.detectChanges();
+    });
+
+    it("should show the language breakdown of the project's repository", () => {
+      const compiled = fixture.nativeElement as HTMLElement;
+
+      expect(TestBed.inject(GitHubService).getRepositoryStats).toHaveBeenCalledWith(
+        'MoodyJW',
+        'test-project'
+      );
+      expect(compiled.querySelectorAll('.language-chart__bar-segment')).toHaveLength(2);
+      expect(compiled.querySelector('app-language-chart .chart-legend')?.textContent).toContain('75.0%');
+    });
+  });
 });
@@ -1,6 +1,8 @@
+import { provideHttpClient } from '@angular/common/http';
 import { ActivatedRoute } from '@angular/router';
 
 import type { Meta, StoryObj } from '@storybook/angular';
+import { applicationConfig } from '@storybook/angular';
 
 import { ProjectDetailComponent } from './project-detail.component';
 
@@ -18,6 +20,9 @@ const meta: Meta<ProjectDetailComponent> = {
     },
   },
   decorators: [
+    applicationConfig({
+      providers: [provideHttpClient()],
+    }),
     (story) => ({
       ...story(),
       providers: [
@@ -1,8 +1,11 @@
 import type { OnInit } from '@angular/core';
-import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
+import { ChangeDetectionStrategy, Component, computed, inject, Injector } from '@angular/core';
 import { ActivatedRoute } from '@angular/router';
 
-import { ContainerComponent } from '@shared/components';
+import { ContainerComponent, LanguageChartComponent } from '@shared/components';
+import { ENVIRONMENT_FEATURES } from '@core/config';
+import { aggregateLanguages } from '@core/services';
+import { ProjectStore } from '@core/store';
 
 /**
  * Project detail page component
@@ -10,6 +13,9 @@ import { ContainerComponent } from '@shared/components';
  * Displays detailed information about a single portfolio project.
  * This is a placeholder component that will be enhanced in Phase 4 Part 3.
  *
+ * When GitHub integration is enabled, shows the language breakdown of the
+ * project's repository.
+ *
  * @example
  * ```html
  * <app-project-detail />
@@ -18,17 +24,41 @@ import { ContainerComponent } from '@shared/components';
 @Component({
   selector: 'app-project-detail',
   standalone: true,
-  imports: [ContainerComponent],
+  imports: [ContainerComponent, LanguageChartComponent],
   templateUrl: './project-detail.component.html',
   styleUrl: './project-detail.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class ProjectDetailComponent implements OnInit {
   private readonly route = inject(ActivatedRoute);
+  private readonly injector = inject(Injector);
+  private readonly store = inject(ProjectStore);
 
   protected slug: string | null = null;
 
+  protected readonly showLanguages = inject(ENVIRONMENT_FEATURES).enableGitHubIntegration;
+
+  /**
+   * Language shares of the selected project's repository
+   */
+  protected readonly languages = computed(() => {
+    const project = this.store.selectedProject();
+    const stats = project ? this.store.repositoryStats()[project.id] : undefined;
+    return stats ? aggregateLanguages([stats]) : [];
+  });
+
   ngOnInit(): void {
     this.slug = this.route.snapshot.paramMap.get('slug');
+
+    if (this.showLanguages && this.slug) {
+      this.store.selectProject(this.slug);
+      this.store.loadRepositoryStats(
+        computed(() => {
+          const project = this.store.selectedProject();
+          return project ? [project] : [];
+        }),
+        { injector: this.injector }
+      );
+    }
   }
 }
@@ -1,4 +1,8 @@
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+
 import type { Meta, StoryObj } from '@storybook/angular';
+import { applicationConfig } from '@storybook/angular';
 
 import { ProjectsListComponent } from './projects-list.component';
 
@@ -15,6 +19,11 @@ const meta: Meta<ProjectsListComponent> = {
       },
     },
   },
+  decorators: [
+    applicationConfig({
+      providers: [provideHttpClient(), provideRouter([])],
+    }),
+  ],
 };
 
 export default meta;
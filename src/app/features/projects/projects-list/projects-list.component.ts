@@ -3,11 +3,14 @@ import { ChangeDetectionStrategy, Component, inject } from '@angular/core';
 import { Title } from '@angular/platform-browser';
 
 import { ContainerComponent } from '@shared/components';
+import { PROJECT_SORT_OPTIONS, ProjectStore, syncFiltersWithQueryParams } from '@core/store';
 
 /**
  * Projects list page component
  *
- * Displays a filterable, sortable grid of portfolio projects.
+ * Displays a filterable, sortable grid of portfolio projects. The search,
+ * tag and sort filters are kept in the `q`, `tags` and `sort` query
+ * parameters, so filtered views can be bookmarked and shared.
  * This is a placeholder component that will be enhanced in Phase 4 Part 2.
  *
  * @example
@@ -25,6 +28,14 @@ import { ContainerComponent } from '@shared/components';
 })
 export class ProjectsListComponent implements OnInit {
   private readonly titleService = inject(Title);
+  protected readonly store = inject(ProjectStore);
+
+  constructor() {
+    syncFiltersWithQueryParams(this.store, {
+      sortOptions: PROJECT_SORT_OPTIONS,
+      defaultSort: 'recent',
+    });
+  }
 
   ngOnInit(): void {
     this.titleService.setTitle('MoodyJW - Projects');
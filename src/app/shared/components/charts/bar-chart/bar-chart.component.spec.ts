@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { THEMES, ThemeService } from '@core/theme';
+
+import type { ChartDatum } from '../chart.utils';
+
+import { BarChartComponent } from './bar-chart.component';
+
+describe('BarChartComponent', () => {
+  let component: BarChartComponent;
+  let fixture: ComponentFixture<BarChartComponent>;
+  let element: HTMLElement;
+
+  const data: ChartDatum[] = [
+    { label: 'Jan', value: 40 },
+    { label: 'Feb', value: 80 },
+    { label: 'Mar', value: 20, color: '#123456' },
+    { label: 'Apr', value: -5 },
+  ];
+
+  function bars(): SVGRectElement[] {
+    return Array.from(element.querySelectorAll('[data-test="bar-chart-bar"]'));
+  }
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [BarChartComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(BarChartComponent);
+    component = fixture.componentInstance;
+    element = fixture.nativeElement;
+    fixture.componentRef.setInput('data', data);
+    fixture.componentRef.setInput('ariaLabel', 'Commits per month');
+    fixture.detectChanges();
+  });
+
+  it('should create with OnPush change detection', () => {
+    const metadata = (BarChartComponent as unknown as { ɵcmp: { onPush: boolean } }).ɵcmp;
+    expect(component).toBeTruthy();
+    expect(metadata.onPush).toBe(true);
+  });
+
+  it('should show an empty state without data', () => {
+    fixture.componentRef.setInput('data', []);
+    fixture.detectChanges();
+
+    expect(element.querySelector('[data-test="chart-empty"]')).toBeTruthy();
+    expect(element.querySelector('[data-test="bar-chart-svg"]')).toBeNull();
+  });
+
+  it('should scale bars to the rounded axis maximum', () => {
+    const [jan, feb, , apr] = component.layout().bars;
+
+    expect(bars()).toHaveLength(4);
+    expect(component.layout().ticks.map((tick) => tick.label)).toEqual([
+      '0',
+      '20',
+      '40',
+      '60',
+      '80',
+    ]);
+    expect(feb.height).toBeCloseTo(jan.height * 2);
+    expect(apr.height).toBe(0);
+  });
+
+  it('should hide the SVG from assistive technology', () => {
+    expect(element.querySelector('svg')?.getAttribute('aria-hidden')).toBe('true');
+  });
+
+  it('should color bars from the active theme and follow theme changes', () => {
+    const themeService = TestBed.inject(ThemeService);
+    expect(bars()[0].getAttribute('fill')).toBe(themeService.activeTheme().tokens.primary);
+    expect(bars()[2].getAttribute('fill')).toBe('#123456');
+
+    const other = THEMES.find((theme) => theme.slug !== themeService.activeTheme().slug)!;
+    themeService.setTheme(other.slug);
+    fixture.detectChanges();
+
+    expect(bars()[0].getAttribute('fill')).toBe(other.tokens.primary);
+  });
+
+  it('should render a visually hidden data table', () => {
+    fixture.componentRef.setInput('labelHeader', 'Month');
+    fixture.componentRef.setInput('valueHeader', 'Commits');
+    fixture.detectChanges();
+
+    const table = element.querySelector('app-chart-data-table');
+    const headers = Array.from(table?.querySelectorAll('thead th') ?? []).map((th) =>
+      th.textContent?.trim()
+    );
+
+    expect(table?.classList).toContain('sr-only');
+    expect(table?.querySelector('caption')?.textContent).toContain('Commits per month');
+    expect(headers).toEqual(['Month', 'Commits']);
+    expect(table?.querySelectorAll('tbody tr')).toHaveLength(4);
+
+    fixture.componentRef.setInput('showTable', true);
+    fixture.detectChanges();
+    expect(table?.classList).not.toContain('sr-only');
+  });
+
+  it('should format values with the given formatter', () => {
+    fixture.componentRef.setInput('formatValue', (value: number) => `${value} pts`);
+    fixture.detectChanges();
+
+    expect(element.querySelector('tbody td')?.textContent).toBe('40 pts');
+  });
+});
@@ -0,0 +1,102 @@
+import type { Meta, StoryObj } from '@storybook/angular';
+
+import type { ChartDatum } from '../chart.utils';
+
+import { BarChartComponent } from './bar-chart.component';
+
+const monthlyCommits: ChartDatum[] = [
+  { label: 'Jan', value: 42 },
+  { label: 'Feb', value: 57 },
+  { label: 'Mar', value: 31 },
+  { label: 'Apr', value: 64 },
+  { label: 'May', value: 88 },
+  { label: 'Jun', value: 73 },
+  { label: 'Jul', value: 49 },
+  { label: 'Aug', value: 56 },
+  { label: 'Sep', value: 91 },
+  { label: 'Oct', value: 77 },
+  { label: 'Nov', value: 38 },
+  { label: 'Dec', value: 25 },
+];
+
+const meta: Meta<BarChartComponent> = {
+  title: 'Shared/Charts/BarChart',
+  component: BarChartComponent,
+  tags: ['autodocs'],
+  argTypes: {
+    height: {
+      control: { type: 'number', min: 120, max: 480, step: 20 },
+      description: 'Height of the chart in pixels',
+      table: { defaultValue: { summary: '240' } },
+    },
+    showTable: {
+      control: 'boolean',
+      description: 'Whether the data table is shown visually',
+      table: { defaultValue: { summary: 'false' } },
+    },
+    ariaLabel: {
+      control: 'text',
+      description: 'Accessible name of the chart and caption of the data table',
+    },
+  },
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Vertical SVG bar chart colored from the active theme, with fewer ticks and labels on narrow containers and an accessible data table.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<BarChartComponent>;
+
+export const Default: Story = {
+  args: {
+    data: monthlyCommits,
+    ariaLabel: 'Commits per month',
+    labelHeader: 'Month',
+    valueHeader: 'Commits',
+  },
+};
+
+export const CustomColors: Story = {
+  args: {
+    data: [
+      { label: 'Passed', value: 412, color: '#388E3C' },
+      { label: 'Skipped', value: 18, color: '#FBC02D' },
+      { label: 'Failed', value: 3, color: '#D32F2F' },
+    ],
+    ariaLabel: 'Test results',
+    labelHeader: 'Result',
+    valueHeader: 'Tests',
+  },
+};
+
+export const Narrow: Story = {
+  args: Default.args,
+  render: (args) => ({
+    props: args,
+    template: `
+      <div style="max-width: 360px;">
+        <app-bar-chart [data]="data" [ariaLabel]="ariaLabel" />
+      </div>
+    `,
+  }),
+  parameters: {
+    docs: {
+      description: {
+        story: 'Below the tablet breakpoint the axis has fewer ticks and labels are skipped.',
+      },
+    },
+  },
+};
+
+export const WithTable: Story = {
+  args: { ...Default.args, showTable: true },
+};
+
+export const Empty: Story = {
+  args: { data: [], ariaLabel: 'Commits per month' },
+};
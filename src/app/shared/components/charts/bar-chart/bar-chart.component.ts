@@ -0,0 +1,180 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+
+import { ThemeService } from '@core/theme';
+
+import type { ChartDatum, ChartTick, ChartValueFormatter } from '../chart.utils';
+import {
+  CHART_MARGIN,
+  chartLabelStep,
+  chartPalette,
+  chartTicks,
+  formatChartValue,
+  injectHostWidth,
+  isCompactChart,
+} from '../chart.utils';
+import type { ChartTableRow } from '../chart-data-table/chart-data-table.component';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+
+/**
+ * A rendered bar
+ */
+export interface ChartBar {
+  /** Datum the bar represents */
+  datum: ChartDatum;
+  /** Left edge */
+  x: number;
+  /** Top edge */
+  y: number;
+  /** Bar width */
+  width: number;
+  /** Bar height */
+  height: number;
+  /** Horizontal center, where the x-axis label goes */
+  center: number;
+  /** Fill color */
+  color: string;
+  /** X-axis label (empty when skipped to avoid overlap) */
+  axisLabel: string;
+}
+
+/** Width used until the chart is measured */
+const DEFAULT_WIDTH = 800;
+
+/** Share of each band taken by its bar */
+const BAR_RATIO = 0.7;
+
+/**
+ * Vertical bar chart drawn as SVG.
+ *
+ * @remarks
+ * - Bars use the theme's `primary` color unless a datum sets `color`, and
+ *   follow theme changes; axes and labels use the theme's text colors
+ * - Sizes itself to its container: below `BREAKPOINTS.TABLET` it shows
+ *   fewer ticks, and x-axis labels are skipped whenever they would overlap
+ * - The SVG is hidden from assistive technology, which reads the data table
+ *   instead; the table is visually hidden unless `showTable` is set
+ *
+ * @example
+ * ```html
+ * <app-bar-chart
+ *   [data]="[{ label: 'Jan', value: 42 }, { label: 'Feb', value: 57 }]"
+ *   ariaLabel="Contributions per month"
+ *   labelHeader="Month"
+ *   valueHeader="Contributions"
+ * />
+ * ```
+ */
+@Component({
+  selector: 'app-bar-chart',
+  standalone: true,
+  imports: [ChartDataTableComponent],
+  templateUrl: './bar-chart.component.html',
+  styleUrl: './bar-chart.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BarChartComponent {
+  private readonly themeService = inject(ThemeService);
+
+  /**
+   * Bars in display order
+   */
+  readonly data = input<ChartDatum[]>([]);
+
+  /**
+   * Accessible name of the chart and caption of the data table
+   */
+  readonly ariaLabel = input<string>('Bar chart');
+
+  /**
+   * Height of the chart in pixels
+   */
+  readonly height = input<number>(240);
+
+  /**
+   * Header of the label column in the data table
+   */
+  readonly labelHeader = input<string>('Category');
+
+  /**
+   * Header of the value column in the data table
+   */
+  readonly valueHeader = input<string>('Value');
+
+  /**
+   * Formats values for the axis and the data table
+   */
+  readonly formatValue = input<ChartValueFormatter>(formatChartValue);
+
+  /**
+   * Whether the data table is shown visually
+   */
+  readonly showTable = input<boolean>(false);
+
+  /**
+   * Rendered width of the chart
+   */
+  readonly width = injectHostWidth(DEFAULT_WIDTH);
+
+  /**
+   * Scale, ticks and bars for the current size and theme
+   */
+  readonly layout = computed(() => {
+    const width = this.width();
+    const height = this.height();
+    const data = this.data();
+    const format = this.formatValue();
+    const [color] = chartPalette(this.themeService.activeTheme().tokens);
+
+    const plotWidth = Math.max(0, width - CHART_MARGIN.left - CHART_MARGIN.right);
+    const plotHeight = Math.max(0, height - CHART_MARGIN.top - CHART_MARGIN.bottom);
+    const bottom = CHART_MARGIN.top + plotHeight;
+
+    const values = data.map((datum) => Math.max(0, datum.value));
+    const tickValues = chartTicks(Math.max(0, ...values), isCompactChart(width) ? 3 : 5);
+    const top = tickValues[tickValues.length - 1];
+    const scale = (value: number) => bottom - (value / top) * plotHeight;
+
+    const band = data.length > 0 ? plotWidth / data.length : 0;
+    const step = chartLabelStep(data.length, plotWidth);
+
+    const bars: ChartBar[] = data.map((datum, index) => {
+      const x = CHART_MARGIN.left + index * band + (band * (1 - BAR_RATIO)) / 2;
+      const y = scale(values[index]);
+      return {
+        datum,
+        x,
+        y,
+        width: band * BAR_RATIO,
+        height: bottom - y,
+        center: x + (band * BAR_RATIO) / 2,
+        color: datum.color ?? color,
+        axisLabel: index % step === 0 ? datum.label : '',
+      };
+    });
+
+    const ticks: ChartTick[] = tickValues.map((value) => ({
+      y: scale(value),
+      label: format(value),
+    }));
+
+    return {
+      width,
+      height,
+      bottom,
+      left: CHART_MARGIN.left,
+      right: width - CHART_MARGIN.right,
+      bars,
+      ticks,
+    };
+  });
+
+  /**
+   * Data table rows
+   */
+  readonly tableRows = computed<ChartTableRow[]>(() =>
+    this.data().map((datum) => ({
+      header: datum.label,
+      cells: [this.formatValue()(datum.value)],
+    }))
+  );
+}
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { ChartDataTableComponent } from './chart-data-table.component';
+
+describe('ChartDataTableComponent', () => {
+  let fixture: ComponentFixture<ChartDataTableComponent>;
+  let compiled: HTMLElement;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ChartDataTableComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ChartDataTableComponent);
+    compiled = fixture.nativeElement as HTMLElement;
+
+    fixture.componentRef.setInput('caption', 'Commits per quarter');
+    fixture.componentRef.setInput('columns', ['Quarter', 'Commits', 'Reviews']);
+    fixture.componentRef.setInput('rows', [
+      { header: 'Q1', cells: ['120', '40'] },
+      { header: 'Q2', cells: ['98', '52'] },
+    ]);
+    fixture.detectChanges();
+  });
+
+  it('should caption the table', () => {
+    expect(compiled.querySelector('caption')?.textContent).toContain('Commits per quarter');
+  });
+
+  it('should render column headers', () => {
+    const headers = compiled.querySelectorAll('thead th[scope="col"]');
+    expect(Array.from(headers).map((th) => th.textContent)).toEqual([
+      'Quarter',
+      'Commits',
+      'Reviews',
+    ]);
+  });
+
+  it('should render a row header and cells per row', () => {
+    const rows = compiled.querySelectorAll('tbody tr');
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].querySelector('th[scope="row"]')?.textContent).toBe('Q1');
+    expect(Array.from(rows[0].querySelectorAll('td')).map((td) => td.textContent)).toEqual([
+      '120',
+      '40',
+    ]);
+  });
+});
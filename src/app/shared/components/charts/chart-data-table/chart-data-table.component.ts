@@ -0,0 +1,67 @@
+import { ChangeDetectionStrategy, Component, input } from '@angular/core';
+
+/**
+ * A row of a chart data table
+ */
+export interface ChartTableRow {
+  /** Row header, e.g. the category or x-axis label */
+  header: string;
+  /** Formatted cell values, one per value column */
+  cells: string[];
+}
+
+/**
+ * Chart data table subcomponent
+ *
+ * Data table alternative to a chart for screen readers. Charts hide their
+ * SVG from assistive technology and render this table, visually hidden
+ * unless the chart's `showTable` is set.
+ */
+@Component({
+  selector: 'app-chart-data-table',
+  standalone: true,
+  styleUrl: './chart-data-table.component.scss',
+  template: `
+    <table class="chart-data-table" data-test="chart-table">
+      <caption>
+        {{
+          caption()
+        }}
+      </caption>
+      <thead>
+        <tr>
+          @for (column of columns(); track $index) {
+            <th scope="col">{{ column }}</th>
+          }
+        </tr>
+      </thead>
+      <tbody>
+        @for (row of rows(); track $index) {
+          <tr>
+            <th scope="row">{{ row.header }}</th>
+            @for (cell of row.cells; track $index) {
+              <td>{{ cell }}</td>
+            }
+          </tr>
+        }
+      </tbody>
+    </table>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ChartDataTableComponent {
+  /**
+   * Table caption (the chart's accessible name)
+   */
+  readonly caption = input.required<string>();
+
+  /**
+   * Column headers, starting with the row header column
+   */
+  readonly columns = input<string[]>([]);
+
+  /**
+   * Table rows
+   */
+  readonly rows = input<ChartTableRow[]>([]);
+}
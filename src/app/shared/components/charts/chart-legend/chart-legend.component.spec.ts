@@ -0,0 +1,47 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { ChartLegendComponent } from './chart-legend.component';
+
+describe('ChartLegendComponent', () => {
+  let fixture: ComponentFixture<ChartLegendComponent>;
+  let compiled: HTMLElement;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ChartLegendComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ChartLegendComponent);
+    compiled = fixture.nativeElement as HTMLElement;
+
+    fixture.componentRef.setInput('items', [
+      { label: 'Commits', color: '#0049db', value: '120' },
+      { label: 'Reviews', color: '#ffd600' },
+    ]);
+    fixture.detectChanges();
+  });
+
+  it('should be hidden from assistive technology', () => {
+    expect(compiled.querySelector('ul')?.getAttribute('aria-hidden')).toBe('true');
+  });
+
+  it('should render a swatch, label and value per item', () => {
+    const items = compiled.querySelectorAll('.chart-legend__item');
+
+    expect(items).toHaveLength(2);
+    expect(items[0].querySelector('.chart-legend__label')?.textContent).toBe('Commits');
+    expect(items[0].querySelector('.chart-legend__value')?.textContent).toBe('120');
+    expect(
+      (items[1].querySelector('.chart-legend__swatch') as HTMLElement).style.backgroundColor
+    ).toBe('rgb(255, 214, 0)');
+  });
+
+  it('should stack entries when vertical', () => {
+    fixture.componentRef.setInput('vertical', true);
+    fixture.detectChanges();
+
+    expect(compiled.querySelector('.chart-legend--vertical')).toBeTruthy();
+  });
+});
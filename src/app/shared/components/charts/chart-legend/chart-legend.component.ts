@@ -0,0 +1,44 @@
+import { ChangeDetectionStrategy, Component, input } from '@angular/core';
+
+import type { ChartLegendItem } from '../chart.utils';
+
+/**
+ * Chart legend subcomponent
+ *
+ * Color swatches with labels (and optional values) for multi-series and
+ * donut charts. Hidden from assistive technology, which reads the chart's
+ * data table instead. Renders nothing without items.
+ */
+@Component({
+  selector: 'app-chart-legend',
+  standalone: true,
+  styleUrl: './chart-legend.component.scss',
+  template: `
+    <ul
+      class="chart-legend"
+      [class.chart-legend--vertical]="vertical()"
+      aria-hidden="true"
+      data-test="chart-legend"
+    >
+      @for (item of items(); track item.label) {
+        <li class="chart-legend__item">
+          <span class="chart-legend__swatch" [style.background-color]="item.color"></span>
+          <span class="chart-legend__label">{{ item.label }}</span>
+          <span class="chart-legend__value">{{ item.value }}</span>
+        </li>
+      }
+    </ul>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ChartLegendComponent {
+  /**
+   * Legend entries in display order
+   */
+  readonly items = input<ChartLegendItem[]>([]);
+
+  /**
+   * Whether entries are stacked instead of wrapping in a row
+   */
+  readonly vertical = input<boolean>(false);
+}
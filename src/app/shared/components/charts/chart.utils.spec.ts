@@ -0,0 +1,56 @@
+import { BREAKPOINTS } from '@shared/constants';
+
+import {
+  chartLabelStep,
+  chartPalette,
+  chartTicks,
+  formatChartValue,
+  isCompactChart,
+} from './chart.utils';
+
+describe('chart utils', () => {
+  describe('chartTicks', () => {
+    it('should use round steps covering the maximum', () => {
+      expect(chartTicks(87, 5)).toEqual([0, 20, 40, 60, 80, 100]);
+      expect(chartTicks(100, 5)).toEqual([0, 20, 40, 60, 80, 100]);
+      expect(chartTicks(4, 3)).toEqual([0, 2, 4]);
+    });
+
+    it('should handle fractional and empty ranges', () => {
+      expect(chartTicks(0.3, 3)).toEqual([0, 0.1, 0.2, 0.3]);
+      expect(chartTicks(0, 5)).toEqual([0, 1]);
+      expect(chartTicks(Number.NaN, 5)).toEqual([0, 1]);
+    });
+  });
+
+  describe('chartLabelStep', () => {
+    it('should skip labels only when they would overlap', () => {
+      expect(chartLabelStep(6, 600)).toBe(1);
+      expect(chartLabelStep(12, 200)).toBe(3);
+      expect(chartLabelStep(5, 0)).toBe(5);
+    });
+  });
+
+  it('should build the palette from theme tokens in order', () => {
+    const tokens = {
+      primary: '#111111',
+      accent: '#222222',
+      info: '#333333',
+      success: '#444444',
+      warning: '#555555',
+      error: '#666666',
+    };
+
+    expect(chartPalette(tokens)).toEqual(Object.values(tokens));
+  });
+
+  it('should use the compact layout below the tablet breakpoint', () => {
+    expect(isCompactChart(BREAKPOINTS.TABLET - 1)).toBe(true);
+    expect(isCompactChart(BREAKPOINTS.TABLET)).toBe(false);
+  });
+
+  it('should format values with grouping and one decimal', () => {
+    expect(formatChartValue(12345)).toBe('12,345');
+    expect(formatChartValue(2.25)).toBe('2.3');
+  });
+});
@@ -0,0 +1,168 @@
+import type { Signal } from '@angular/core';
+import { DestroyRef, ElementRef, inject, signal } from '@angular/core';
+
+import { BREAKPOINTS } from '@shared/constants';
+
+/**
+ * A labelled value, e.g. one bar or donut segment
+ */
+export interface ChartDatum {
+  /** Category label */
+  label: string;
+  /** Value (negative values are drawn as 0) */
+  value: number;
+  /** Color override; defaults to the theme palette */
+  color?: string;
+}
+
+/**
+ * A named series of values, one per chart label
+ */
+export interface ChartSeries {
+  /** Series name, shown in the legend and table header */
+  name: string;
+  /** Values in label order */
+  values: number[];
+  /** Color override; defaults to the theme palette */
+  color?: string;
+}
+
+/**
+ * A y-axis tick
+ */
+export interface ChartTick {
+  /** Vertical position */
+  y: number;
+  /** Formatted value */
+  label: string;
+}
+
+/**
+ * A legend entry
+ */
+export interface ChartLegendItem {
+  /** Entry label */
+  label: string;
+  /** Swatch color */
+  color: string;
+  /** Formatted value shown after the label (optional) */
+  value?: string;
+}
+
+/**
+ * Theme tokens a chart palette is built from
+ */
+export interface ChartPaletteTokens {
+  primary: string;
+  accent: string;
+  info: string;
+  success: string;
+  warning: string;
+  error: string;
+}
+
+/**
+ * Formats a value for axis labels, tooltips and data tables
+ */
+export type ChartValueFormatter = (value: number) => string;
+
+/**
+ * Space around the plot area of axis charts, in SVG units
+ */
+export const CHART_MARGIN = { top: 8, right: 8, bottom: 24, left: 40 } as const;
+
+/**
+ * Narrowest space an x-axis label gets before labels are skipped
+ */
+const MIN_LABEL_WIDTH = 48;
+
+/**
+ * Series colors in order, taken from the theme tokens
+ *
+ * @example
+ * ```typescript
+ * const palette = chartPalette(themeService.activeTheme().tokens);
+ * ```
+ */
+export function chartPalette(tokens: ChartPaletteTokens): string[] {
+  return [tokens.primary, tokens.accent, tokens.info, tokens.success, tokens.warning, tokens.error];
+}
+
+/**
+ * Default value formatter, e.g. `12,345`
+ */
+export function formatChartValue(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+}
+
+/**
+ * Evenly spaced, rounded axis ticks from 0 to at least `max`
+ *
+ * Steps are 1, 2 or 5 times a power of ten.
+ *
+ * @param max - Largest value to cover
+ * @param count - Approximate number of intervals
+ * @returns Ticks in ascending order, starting at 0
+ *
+ * @example
+ * ```typescript
+ * chartTicks(87, 5); // [0, 20, 40, 60, 80, 100]
+ * ```
+ */
+export function chartTicks(max: number, count: number): number[] {
+  if (!(max > 0)) {
+    return [0, 1];
+  }
+
+  const rough = max / Math.max(1, count);
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) ?? rough;
+  const ticks = [];
+  for (let tick = 0; tick < max + step; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * Whether a chart this wide uses its compact layout (fewer ticks and labels)
+ */
+export function isCompactChart(width: number): boolean {
+  return width < BREAKPOINTS.TABLET;
+}
+
+/**
+ * How many x-axis labels to advance per shown label so they don't overlap
+ *
+ * @param count - Number of labels
+ * @param plotWidth - Width available to the labels
+ */
+export function chartLabelStep(count: number, plotWidth: number): number {
+  const fits = Math.max(1, Math.floor(plotWidth / MIN_LABEL_WIDTH));
+  return Math.max(1, Math.ceil(count / fits));
+}
+
+/**
+ * Tracks the rendered width of the host element
+ *
+ * Must be called in an injection context. Keeps `fallback` where
+ * `ResizeObserver` is unavailable (server rendering, tests) or the host has
+ * no width yet.
+ *
+ * @param fallback - Width used until the host is measured
+ * @returns Signal of the width in pixels
+ */
+export function injectHostWidth(fallback: number): Signal<number> {
+  const width = signal(fallback);
+
+  if (typeof ResizeObserver !== 'undefined') {
+    const host = inject<ElementRef<HTMLElement>>(ElementRef).nativeElement;
+    const observer = new ResizeObserver(([entry]) => {
+      width.set(Math.round(entry.contentRect.width) || fallback);
+    });
+    observer.observe(host);
+    inject(DestroyRef).onDestroy(() => observer.disconnect());
+  }
+
+  return width.asReadonly();
+}
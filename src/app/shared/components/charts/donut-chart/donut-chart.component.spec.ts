@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { THEMES, ThemeService } from '@core/theme';
+
+import type { ChartDatum } from '../chart.utils';
+
+import { DonutChartComponent } from './donut-chart.component';
+
+describe('DonutChartComponent', () => {
+  let component: DonutChartComponent;
+  let fixture: ComponentFixture<DonutChartComponent>;
+  let element: HTMLElement;
+
+  const data: ChartDatum[] = [
+    { label: 'Closed', value: 48 },
+    { label: 'Open', value: 12 },
+    { label: 'Draft', value: 0 },
+  ];
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [DonutChartComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(DonutChartComponent);
+    component = fixture.componentInstance;
+    element = fixture.nativeElement;
+    fixture.componentRef.setInput('data', data);
+    fixture.componentRef.setInput('centerLabel', 'Issues');
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show an empty state when the total is 0', () => {
+    fixture.componentRef.setInput('data', [{ label: 'None', value: 0 }]);
+    fixture.detectChanges();
+
+    expect(element.querySelector('[data-test="chart-empty"]')).toBeTruthy();
+  });
+
+  it('should size segments by share of the total', () => {
+    const [closed, open] = component.segments();
+
+    expect(component.total()).toBe(60);
+    expect(closed.share).toBe(80);
+    expect(open.share).toBe(20);
+    expect(open.offset).toBe(80);
+    expect(element.querySelectorAll('[data-test="donut-chart-segment"]')).toHaveLength(3);
+    expect(element.querySelector('.donut-chart__total')?.textContent).toBe('60');
+    expect(element.querySelector('.donut-chart__center-label')?.textContent).toBe('Issues');
+  });
+
+  it('should color segments from the theme palette and follow theme changes', () => {
+    const themeService = TestBed.inject(ThemeService);
+    const { tokens } = themeService.activeTheme();
+    expect(component.segments().map((segment) => segment.color)).toEqual([
+      tokens.primary,
+      tokens.accent,
+      tokens.info,
+    ]);
+
+    const other = THEMES.find((theme) => theme.slug !== themeService.activeTheme().slug)!;
+    themeService.setTheme(other.slug);
+    fixture.detectChanges();
+
+    expect(element.querySelector('[data-test="donut-chart-segment"]')?.getAttribute('stroke')).toBe(
+      other.tokens.primary
+    );
+  });
+
+  it('should list values and shares in the legend and data table', () => {
+    expect(element.querySelector('.chart-legend__value')?.textContent).toBe('48 (80.0%)');
+
+    const cells = Array.from(element.querySelectorAll('tbody tr:first-child > *')).map((cell) =>
+      cell.textContent?.trim()
+    );
+    expect(cells).toEqual(['Closed', '48', '80.0%']);
+    expect(element.querySelector('app-chart-data-table')?.classList).toContain('sr-only');
+  });
+});
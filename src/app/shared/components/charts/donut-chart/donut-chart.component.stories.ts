@@ -0,0 +1,58 @@
+import type { Meta, StoryObj } from '@storybook/angular';
+
+import { DonutChartComponent } from './donut-chart.component';
+
+const meta: Meta<DonutChartComponent> = {
+  title: 'Shared/Charts/DonutChart',
+  component: DonutChartComponent,
+  tags: ['autodocs'],
+  argTypes: {
+    centerLabel: {
+      control: 'text',
+      description: 'Label under the total in the center',
+      table: { defaultValue: { summary: 'Total' } },
+    },
+    showTable: {
+      control: 'boolean',
+      description: 'Whether the data table is shown visually',
+      table: { defaultValue: { summary: 'false' } },
+    },
+    ariaLabel: {
+      control: 'text',
+      description: 'Accessible name of the chart and caption of the data table',
+    },
+  },
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'SVG donut chart of parts of a whole colored from the theme palette, with the total in the center, a legend and an accessible data table.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<DonutChartComponent>;
+
+export const Default: Story = {
+  args: {
+    data: [
+      { label: 'Merged', value: 48 },
+      { label: 'Open', value: 12 },
+      { label: 'Closed', value: 7 },
+      { label: 'Draft', value: 3 },
+    ],
+    ariaLabel: 'Pull requests by state',
+    centerLabel: 'Pull requests',
+    labelHeader: 'State',
+  },
+};
+
+export const WithTable: Story = {
+  args: { ...Default.args, showTable: true },
+};
+
+export const Empty: Story = {
+  args: { data: [], ariaLabel: 'Pull requests by state' },
+};
@@ -0,0 +1,170 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+
+import { ThemeService } from '@core/theme';
+
+import type { ChartDatum, ChartLegendItem, ChartValueFormatter } from '../chart.utils';
+import { chartPalette, formatChartValue, injectHostWidth, isCompactChart } from '../chart.utils';
+import type { ChartTableRow } from '../chart-data-table/chart-data-table.component';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+import { ChartLegendComponent } from '../chart-legend/chart-legend.component';
+
+/**
+ * A rendered donut segment
+ */
+export interface DonutSegment {
+  /** Datum the segment represents */
+  datum: ChartDatum;
+  /** Stroke color */
+  color: string;
+  /** Share of the total (0-100) */
+  share: number;
+  /** Share of all segments before this one (0-100) */
+  offset: number;
+}
+
+/**
+ * Segment share of the ring's circumference, which is 100 for r = 100 / 2π
+ */
+const DONUT_RADIUS = 15.9155;
+
+/** Width used until the chart is measured */
+const DEFAULT_WIDTH = 320;
+
+/**
+ * Donut chart of parts of a whole drawn as SVG, with a legend.
+ *
+ * @remarks
+ * - Segments take colors from the theme palette (`primary`, `accent`,
+ *   `info`, `success`, `warning`, `error`) unless a datum sets `color`, and
+ *   follow theme changes
+ * - The total is shown in the center with `centerLabel`
+ * - Below `BREAKPOINTS.TABLET` the legend moves under the donut
+ * - The SVG and legend are hidden from assistive technology, which reads
+ *   the data table instead (value and share per segment)
+ *
+ * @example
+ * ```html
+ * <app-donut-chart
+ *   [data]="[{ label: 'Open', value: 12 }, { label: 'Closed', value: 48 }]"
+ *   ariaLabel="Issues by state"
+ *   centerLabel="Issues"
+ * />
+ * ```
+ */
+@Component({
+  selector: 'app-donut-chart',
+  standalone: true,
+  imports: [ChartDataTableComponent, ChartLegendComponent],
+  templateUrl: './donut-chart.component.html',
+  styleUrl: './donut-chart.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class DonutChartComponent {
+  private readonly themeService = inject(ThemeService);
+
+  /**
+   * Segments in display order
+   */
+  readonly data = input<ChartDatum[]>([]);
+
+  /**
+   * Accessible name of the chart and caption of the data table
+   */
+  readonly ariaLabel = input<string>('Donut chart');
+
+  /**
+   * Label under the total in the center
+   */
+  readonly centerLabel = input<string>('Total');
+
+  /**
+   * Header of the label column in the data table
+   */
+  readonly labelHeader = input<string>('Category');
+
+  /**
+   * Header of the value column in the data table
+   */
+  readonly valueHeader = input<string>('Value');
+
+  /**
+   * Formats values for the center, legend and data table
+   */
+  readonly formatValue = input<ChartValueFormatter>(formatChartValue);
+
+  /**
+   * Whether the data table is shown visually
+   */
+  readonly showTable = input<boolean>(false);
+
+  /**
+   * Radius of the donut ring
+   */
+  readonly radius = DONUT_RADIUS;
+
+  /**
+   * Rendered width of the chart
+   */
+  readonly width = injectHostWidth(DEFAULT_WIDTH);
+
+  /**
+   * Whether the compact layout (legend under the donut) is used
+   */
+  readonly compact = computed(() => isCompactChart(this.width()));
+
+  /**
+   * Sum of all values
+   */
+  readonly total = computed(() =>
+    this.data().reduce((sum, datum) => sum + Math.max(0, datum.value), 0)
+  );
+
+  /**
+   * Segments with their colors and positions
+   */
+  readonly segments = computed<DonutSegment[]>(() => {
+    const palette = chartPalette(this.themeService.activeTheme().tokens);
+    const total = this.total();
+
+    let offset = 0;
+    return this.data().map((datum, index) => {
+      const share = total > 0 ? (Math.max(0, datum.value) / total) * 100 : 0;
+      const segment = {
+        datum,
+        color: datum.color ?? palette[index % palette.length],
+        share,
+        offset,
+      };
+      offset += share;
+      return segment;
+    });
+  });
+
+  /**
+   * Legend entries with values and shares
+   */
+  readonly legendItems = computed<ChartLegendItem[]>(() =>
+    this.segments().map((segment) => ({
+      label: segment.datum.label,
+      color: segment.color,
+      value: `${this.formatValue()(segment.datum.value)} (${formatShare(segment.share)})`,
+    }))
+  );
+
+  /**
+   * Data table rows
+   */
+  readonly tableRows = computed<ChartTableRow[]>(() =>
+    this.segments().map((segment) => ({
+      header: segment.datum.label,
+      cells: [this.formatValue()(segment.datum.value), formatShare(segment.share)],
+    }))
+  );
+}
+
+/**
+ * Formats a share, e.g. "42.5%"
+ */
+function formatShare(share: number): string {
+  return `${share.toFixed(1)}%`;
+}
@@ -0,0 +1,28 @@
+export { BarChartComponent } from './bar-chart/bar-chart.component';
+export type { ChartBar } from './bar-chart/bar-chart.component';
+export { ChartDataTableComponent } from './chart-data-table/chart-data-table.component';
+export type { ChartTableRow } from './chart-data-table/chart-data-table.component';
+export { ChartLegendComponent } from './chart-legend/chart-legend.component';
+export {
+  CHART_MARGIN,
+  chartLabelStep,
+  chartPalette,
+  chartTicks,
+  formatChartValue,
+  injectHostWidth,
+  isCompactChart,
+} from './chart.utils';
+export type {
+  ChartDatum,
+  ChartLegendItem,
+  ChartPaletteTokens,
+  ChartSeries,
+  ChartTick,
+  ChartValueFormatter,
+} from './chart.utils';
+export { DonutChartComponent } from './donut-chart/donut-chart.component';
+export type { DonutSegment } from './donut-chart/donut-chart.component';
+export { LineChartComponent } from './line-chart/line-chart.component';
+export type { ChartAxisLabel, ChartLine } from './line-chart/line-chart.component';
+export { SparklineComponent } from './sparkline/sparkline.component';
+export type { SparklineTone } from './sparkline/sparkline.component';
@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { BREAKPOINTS } from '@shared/constants';
+import { THEMES, ThemeService } from '@core/theme';
+
+import type { ChartSeries } from '../chart.utils';
+
+import { LineChartComponent } from './line-chart.component';
+
+describe('LineChartComponent', () => {
+  let component: LineChartComponent;
+  let fixture: ComponentFixture<LineChartComponent>;
+  let element: HTMLElement;
+  let resize: ((entries: { contentRect: { width: number } }[]) => void) | null;
+
+  const labels = ['Q1', 'Q2', 'Q3', 'Q4'];
+  const series: ChartSeries[] = [
+    { name: 'Commits', values: [120, 98, 143, 171] },
+    { name: 'Reviews', values: [40, 52, 61] },
+  ];
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    resize = null;
+    vi.stubGlobal(
+      'ResizeObserver',
+      class {
+        constructor(callback: typeof resize) {
+          resize = callback;
+        }
+        observe(): void {}
+        disconnect(): void {}
+      }
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [LineChartComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(LineChartComponent);
+    component = fixture.componentInstance;
+    element = fixture.nativeElement;
+    fixture.componentRef.setInput('labels', labels);
+    fixture.componentRef.setInput('series', series);
+    fixture.componentRef.setInput('labelHeader', 'Quarter');
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show an empty state without series', () => {
+    fixture.componentRef.setInput('series', []);
+    fixture.detectChanges();
+
+    expect(element.querySelector('[data-test="chart-empty"]')).toBeTruthy();
+  });
+
+  it('should draw a line per series through every label', () => {
+    const lines = element.querySelectorAll('[data-test="line-chart-line"]');
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0].getAttribute('d')?.match(/[ML]/g)).toHaveLength(4);
+    // Missing values are drawn as 0
+    expect(component.layout().lines[1].points[3].y).toBe(component.layout().bottom);
+  });
+
+  it('should color series from the theme palette and follow theme changes', () => {
+    const themeService = TestBed.inject(ThemeService);
+    const { tokens } = themeService.activeTheme();
+    expect(component.layout().lines.map((line) => line.color)).toEqual([
+      tokens.primary,
+      tokens.accent,
+    ]);
+
+    const other = THEMES.find((theme) => theme.slug !== themeService.activeTheme().slug)!;
+    themeService.setTheme(other.slug);
+    fixture.detectChanges();
+
+    expect(element.querySelector('[data-test="line-chart-line"]')?.getAttribute('stroke')).toBe(
+      other.tokens.primary
+    );
+  });
+
+  it('should show a legend for several series only', () => {
+    expect(element.querySelectorAll('.chart-legend__item')).toHaveLength(2);
+
+    fixture.componentRef.setInput('series', [series[0]]);
+    fixture.detectChanges();
+    expect(element.querySelectorAll('.chart-legend__item')).toHaveLength(0);
+  });
+
+  it('should switch to the compact layout on narrow containers', () => {
+    expect(component.compact()).toBe(false);
+    expect(component.layout().ticks.length).toBeGreaterThan(4);
+
+    resize?.([{ contentRect: { width: BREAKPOINTS.MOBILE } }]);
+    fixture.detectChanges();
+
+    expect(component.width()).toBe(BREAKPOINTS.MOBILE);
+    expect(component.compact()).toBe(true);
+    expect(component.layout().ticks.length).toBeLessThanOrEqual(4);
+    expect(element.querySelector('.line-chart--compact')).toBeTruthy();
+  });
+
+  it('should render a data table with a column per series', () => {
+    const table = element.querySelector('app-chart-data-table');
+    const headers = Array.from(table?.querySelectorAll('thead th') ?? []).map((th) =>
+      th.textContent?.trim()
+    );
+    const firstRow = Array.from(table?.querySelectorAll('tbody tr:first-child > *') ?? []).map(
+      (cell) => cell.textContent?.trim()
+    );
+
+    expect(table?.classList).toContain('sr-only');
+    expect(headers).toEqual(['Quarter', 'Commits', 'Reviews']);
+    expect(firstRow).toEqual(['Q1', '120', '40']);
+  });
+});
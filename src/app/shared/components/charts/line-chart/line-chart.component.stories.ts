@@ -0,0 +1,87 @@
+import type { Meta, StoryObj } from '@storybook/angular';
+
+import type { ChartSeries } from '../chart.utils';
+
+import { LineChartComponent } from './line-chart.component';
+
+const weeks = Array.from({ length: 12 }, (_, i) => `W${i + 1}`);
+
+const activity: ChartSeries[] = [
+  { name: 'Commits', values: [18, 24, 21, 30, 27, 35, 41, 38, 33, 45, 49, 52] },
+  { name: 'Reviews', values: [6, 9, 8, 12, 10, 14, 13, 17, 15, 19, 18, 22] },
+  { name: 'Issues closed', values: [3, 5, 2, 6, 4, 7, 9, 5, 8, 6, 10, 11] },
+];
+
+const meta: Meta<LineChartComponent> = {
+  title: 'Shared/Charts/LineChart',
+  component: LineChartComponent,
+  tags: ['autodocs'],
+  argTypes: {
+    height: {
+      control: { type: 'number', min: 120, max: 480, step: 20 },
+      description: 'Height of the chart in pixels',
+      table: { defaultValue: { summary: '240' } },
+    },
+    showTable: {
+      control: 'boolean',
+      description: 'Whether the data table is shown visually',
+      table: { defaultValue: { summary: 'false' } },
+    },
+    ariaLabel: {
+      control: 'text',
+      description: 'Accessible name of the chart and caption of the data table',
+    },
+  },
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'SVG line chart of one or more series colored from the theme palette, with a legend, a compact layout on narrow containers and an accessible data table.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<LineChartComponent>;
+
+export const SingleSeries: Story = {
+  args: {
+    labels: weeks,
+    series: [activity[0]],
+    ariaLabel: 'Commits per week',
+    labelHeader: 'Week',
+  },
+};
+
+export const MultipleSeries: Story = {
+  args: {
+    labels: weeks,
+    series: activity,
+    ariaLabel: 'Activity per week',
+    labelHeader: 'Week',
+  },
+};
+
+export const Narrow: Story = {
+  args: MultipleSeries.args,
+  render: (args) => ({
+    props: args,
+    template: `
+      <div style="max-width: 360px;">
+        <app-line-chart [labels]="labels" [series]="series" [ariaLabel]="ariaLabel" />
+      </div>
+    `,
+  }),
+  parameters: {
+    docs: {
+      description: {
+        story: 'Below the tablet breakpoint point markers are hidden and labels are skipped.',
+      },
+    },
+  },
+};
+
+export const WithTable: Story = {
+  args: { ...MultipleSeries.args, showTable: true },
+};
@@ -0,0 +1,205 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+
+import { ThemeService } from '@core/theme';
+
+import type { ChartLegendItem, ChartSeries, ChartTick, ChartValueFormatter } from '../chart.utils';
+import {
+  CHART_MARGIN,
+  chartLabelStep,
+  chartPalette,
+  chartTicks,
+  formatChartValue,
+  injectHostWidth,
+  isCompactChart,
+} from '../chart.utils';
+import type { ChartTableRow } from '../chart-data-table/chart-data-table.component';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+import { ChartLegendComponent } from '../chart-legend/chart-legend.component';
+
+/**
+ * A rendered line
+ */
+export interface ChartLine {
+  /** Series the line represents */
+  series: ChartSeries;
+  /** Stroke color */
+  color: string;
+  /** SVG path through the points */
+  path: string;
+  /** Point positions */
+  points: { x: number; y: number }[];
+}
+
+/**
+ * An x-axis label
+ */
+export interface ChartAxisLabel {
+  /** Horizontal position */
+  x: number;
+  /** Label text (empty when skipped to avoid overlap) */
+  label: string;
+}
+
+/** Width used until the chart is measured */
+const DEFAULT_WIDTH = 800;
+
+/**
+ * Line chart of one or more series drawn as SVG.
+ *
+ * @remarks
+ * - Series take colors from the theme palette (`primary`, `accent`, `info`,
+ *   `success`, `warning`, `error`) unless they set `color`, and follow
+ *   theme changes
+ * - Sizes itself to its container: below `BREAKPOINTS.TABLET` it shows
+ *   fewer ticks and no point markers, and x-axis labels are skipped
+ *   whenever they would overlap
+ * - A legend is shown for more than one series
+ * - The SVG and legend are hidden from assistive technology, which reads
+ *   the data table instead (one row per label, one column per series)
+ *
+ * @example
+ * ```html
+ * <app-line-chart
+ *   [labels]="['Q1', 'Q2', 'Q3', 'Q4']"
+ *   [series]="[{ name: 'Commits', values: [120, 98, 143, 171] }]"
+ *   ariaLabel="Commits per quarter"
+ *   labelHeader="Quarter"
+ * />
+ * ```
+ */
+@Component({
+  selector: 'app-line-chart',
+  standalone: true,
+  imports: [ChartDataTableComponent, ChartLegendComponent],
+  templateUrl: './line-chart.component.html',
+  styleUrl: './line-chart.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class LineChartComponent {
+  private readonly themeService = inject(ThemeService);
+
+  /**
+   * X-axis labels
+   */
+  readonly labels = input<string[]>([]);
+
+  /**
+   * Series, each with one value per label
+   */
+  readonly series = input<ChartSeries[]>([]);
+
+  /**
+   * Accessible name of the chart and caption of the data table
+   */
+  readonly ariaLabel = input<string>('Line chart');
+
+  /**
+   * Height of the chart in pixels
+   */
+  readonly height = input<number>(240);
+
+  /**
+   * Header of the label column in the data table
+   */
+  readonly labelHeader = input<string>('Label');
+
+  /**
+   * Formats values for the axis and the data table
+   */
+  readonly formatValue = input<ChartValueFormatter>(formatChartValue);
+
+  /**
+   * Whether the data table is shown visually
+   */
+  readonly showTable = input<boolean>(false);
+
+  /**
+   * Rendered width of the chart
+   */
+  readonly width = injectHostWidth(DEFAULT_WIDTH);
+
+  /**
+   * Whether the compact layout is used
+   */
+  readonly compact = computed(() => isCompactChart(this.width()));
+
+  /**
+   * Scale, ticks, labels and lines for the current size and theme
+   */
+  readonly layout = computed(() => {
+    const width = this.width();
+    const height = this.height();
+    const labels = this.labels();
+    const format = this.formatValue();
+    const palette = chartPalette(this.themeService.activeTheme().tokens);
+
+    const plotWidth = Math.max(0, width - CHART_MARGIN.left - CHART_MARGIN.right);
+    const plotHeight = Math.max(0, height - CHART_MARGIN.top - CHART_MARGIN.bottom);
+    const bottom = CHART_MARGIN.top + plotHeight;
+
+    const max = Math.max(0, ...this.series().flatMap((series) => series.values));
+    const tickValues = chartTicks(max, this.compact() ? 3 : 5);
+    const top = tickValues[tickValues.length - 1];
+
+    const gap = labels.length > 1 ? plotWidth / (labels.length - 1) : 0;
+    const x = (index: number) =>
+      CHART_MARGIN.left + (labels.length > 1 ? index * gap : plotWidth / 2);
+    const y = (value: number) => bottom - (Math.max(0, value) / top) * plotHeight;
+    const step = chartLabelStep(labels.length, plotWidth);
+
+    const lines: ChartLine[] = this.series().map((series, index) => {
+      const points = labels.map((_, i) => ({ x: x(i), y: y(series.values[i] ?? 0) }));
+      return {
+        series,
+        color: series.color ?? palette[index % palette.length],
+        path: points.map((point, i) => `${i === 0 ? 'M' : 'L'}${point.x},${point.y}`).join(' '),
+        points,
+      };
+    });
+
+    const ticks: ChartTick[] = tickValues.map((value) => ({ y: y(value), label: format(value) }));
+    const axisLabels: ChartAxisLabel[] = labels.map((label, index) => ({
+      x: x(index),
+      label: index % step === 0 ? label : '',
+    }));
+
+    return {
+      width,
+      height,
+      bottom,
+      left: CHART_MARGIN.left,
+      right: width - CHART_MARGIN.right,
+      lines,
+      ticks,
+      axisLabels,
+    };
+  });
+
+  /**
+   * Legend entries (none for a single series)
+   */
+  readonly legendItems = computed<ChartLegendItem[]>(() => {
+    const lines = this.layout().lines;
+    return lines.length > 1
+      ? lines.map((line) => ({ label: line.series.name, color: line.color }))
+      : [];
+  });
+
+  /**
+   * Data table columns
+   */
+  readonly tableColumns = computed(() => [
+    this.labelHeader(),
+    ...this.series().map((series) => series.name),
+  ]);
+
+  /**
+   * Data table rows
+   */
+  readonly tableRows = computed<ChartTableRow[]>(() =>
+    this.labels().map((label, index) => ({
+      header: label,
+      cells: this.series().map((series) => this.formatValue()(series.values[index] ?? 0)),
+    }))
+  );
+}
@@ -0,0 +1,73 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { THEMES, ThemeService } from '@core/theme';
+
+import { SparklineComponent } from './sparkline.component';
+
+describe('SparklineComponent', () => {
+  let component: SparklineComponent;
+  let fixture: ComponentFixture<SparklineComponent>;
+  let element: HTMLElement;
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [SparklineComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(SparklineComponent);
+    component = fixture.componentInstance;
+    element = fixture.nativeElement;
+    fixture.componentRef.setInput('values', [3, 7, 5, 9]);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should render nothing without values', () => {
+    fixture.componentRef.setInput('values', []);
+    fixture.detectChanges();
+
+    expect(element.querySelector('svg')).toBeNull();
+  });
+
+  it('should span the full height between the lowest and highest value', () => {
+    const { path, last, height } = component.layout();
+    const ys = path.match(/,[\d.]+/g)?.map((y) => Number(y.slice(1)));
+
+    expect(Math.max(...(ys ?? []))).toBe(height - 3);
+    expect(Math.min(...(ys ?? []))).toBe(3);
+    expect(last.y).toBe(3);
+  });
+
+  it('should draw in the theme token named by tone', () => {
+    const themeService = TestBed.inject(ThemeService);
+    fixture.componentRef.setInput('tone', 'success');
+    fixture.detectChanges();
+
+    expect(element.querySelector('path')?.getAttribute('stroke')).toBe(
+      themeService.activeTheme().tokens.success
+    );
+
+    const other = THEMES.find((theme) => theme.slug !== themeService.activeTheme().slug)!;
+    themeService.setTheme(other.slug);
+    fixture.detectChanges();
+
+    expect(element.querySelector('path')?.getAttribute('stroke')).toBe(other.tokens.success);
+  });
+
+  it('should label data table rows', () => {
+    const headers = () =>
+      Array.from(element.querySelectorAll('tbody th')).map((th) => th.textContent?.trim());
+
+    expect(headers()).toEqual(['Point 1', 'Point 2', 'Point 3', 'Point 4']);
+
+    fixture.componentRef.setInput('labels', ['W1', 'W2', 'W3', 'W4']);
+    fixture.detectChanges();
+    expect(headers()).toEqual(['W1', 'W2', 'W3', 'W4']);
+  });
+});
@@ -0,0 +1,76 @@
+import type { Meta, StoryObj } from '@storybook/angular';
+
+import { SparklineComponent } from './sparkline.component';
+
+const weeklyCommits = [12, 18, 9, 22, 27, 19, 31, 24, 35, 29, 38, 42];
+
+const meta: Meta<SparklineComponent> = {
+  title: 'Shared/Charts/Sparkline',
+  component: SparklineComponent,
+  tags: ['autodocs'],
+  argTypes: {
+    tone: {
+      control: 'select',
+      options: ['primary', 'accent', 'info', 'success', 'warning', 'error'],
+      description: 'Theme token the line is drawn in',
+      table: { type: { summary: 'SparklineTone' }, defaultValue: { summary: 'primary' } },
+    },
+    height: {
+      control: { type: 'number', min: 16, max: 96, step: 4 },
+      description: 'Height of the sparkline in pixels',
+      table: { defaultValue: { summary: '32' } },
+    },
+    showTable: {
+      control: 'boolean',
+      description: 'Whether the data table is shown visually',
+      table: { defaultValue: { summary: 'false' } },
+    },
+  },
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Small SVG trend line without axes, drawn in a theme token, with an accessible data table.',
+      },
+    },
+  },
+  render: (args) => ({
+    props: args,
+    template: `
+      <div style="max-width: 200px;">
+        <app-sparkline
+          [values]="values"
+          [ariaLabel]="ariaLabel"
+          [tone]="tone"
+          [height]="height"
+          [showTable]="showTable"
+        />
+      </div>
+    `,
+  }),
+};
+
+export default meta;
+type Story = StoryObj<SparklineComponent>;
+
+export const Default: Story = {
+  args: { values: weeklyCommits, ariaLabel: 'Commits per week' },
+};
+
+export const Tones: Story = {
+  render: () => ({
+    props: { values: weeklyCommits },
+    template: `
+      <div style="display: grid; gap: 1rem; max-width: 200px;">
+        <app-sparkline [values]="values" ariaLabel="Primary trend" tone="primary" />
+        <app-sparkline [values]="values" ariaLabel="Success trend" tone="success" />
+        <app-sparkline [values]="values" ariaLabel="Warning trend" tone="warning" />
+        <app-sparkline [values]="values" ariaLabel="Error trend" tone="error" />
+      </div>
+    `,
+  }),
+};
+
+export const WithTable: Story = {
+  args: { ...Default.args, showTable: true },
+};
@@ -0,0 +1,128 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+
+import { ThemeService } from '@core/theme';
+
+import type { ChartPaletteTokens, ChartValueFormatter } from '../chart.utils';
+import { formatChartValue, injectHostWidth } from '../chart.utils';
+import type { ChartTableRow } from '../chart-data-table/chart-data-table.component';
+import { ChartDataTableComponent } from '../chart-data-table/chart-data-table.component';
+
+/**
+ * Theme token a sparkline is drawn in
+ */
+export type SparklineTone = keyof ChartPaletteTokens;
+
+/** Width used until the sparkline is measured */
+const DEFAULT_WIDTH = 120;
+
+/** Space kept around the line so the stroke and end marker are not clipped */
+const PADDING = 3;
+
+/**
+ * Small inline trend line without axes, drawn as SVG.
+ *
+ * @remarks
+ * - Drawn in the theme token named by `tone` and follows theme changes
+ * - Stretches to the width of its container; the last value is marked
+ * - The SVG is hidden from assistive technology, which reads the data table
+ *   instead; the table is visually hidden unless `showTable` is set
+ *
+ * @example
+ * ```html
+ * <app-sparkline
+ *   [values]="weeklyCommits()"
+ *   [labels]="weekLabels()"
+ *   ariaLabel="Commits per week"
+ *   tone="success"
+ * />
+ * ```
+ */
+@Component({
+  selector: 'app-sparkline',
+  standalone: true,
+  imports: [ChartDataTableComponent],
+  templateUrl: './sparkline.component.html',
+  styleUrl: './sparkline.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SparklineComponent {
+  private readonly themeService = inject(ThemeService);
+
+  /**
+   * Values in chronological order
+   */
+  readonly values = input<number[]>([]);
+
+  /**
+   * Label of each value for the data table (default: "Point 1", "Point 2", ...)
+   */
+  readonly labels = input<string[]>([]);
+
+  /**
+   * Accessible name of the sparkline and caption of the data table
+   */
+  readonly ariaLabel = input<string>('Trend');
+
+  /**
+   * Theme token the line is drawn in
+   */
+  readonly tone = input<SparklineTone>('primary');
+
+  /**
+   * Height of the sparkline in pixels
+   */
+  readonly height = input<number>(32);
+
+  /**
+   * Formats values for the data table
+   */
+  readonly formatValue = input<ChartValueFormatter>(formatChartValue);
+
+  /**
+   * Whether the data table is shown visually
+   */
+  readonly showTable = input<boolean>(false);
+
+  /**
+   * Rendered width of the sparkline
+   */
+  readonly width = injectHostWidth(DEFAULT_WIDTH);
+
+  /**
+   * Line color from the active theme
+   */
+  readonly color = computed(() => this.themeService.activeTheme().tokens[this.tone()]);
+
+  /**
+   * Path and end marker for the current size
+   */
+  readonly layout = computed(() => {
+    const width = this.width();
+    const height = this.height();
+    const values = this.values();
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+
+    const x = (index: number) =>
+      values.length > 1
+        ? PADDING + (index / (values.length - 1)) * (width - 2 * PADDING)
+        : width / 2;
+    const y = (value: number) =>
+      height - PADDING - ((value - min) / range) * (height - 2 * PADDING);
+
+    const points = values.map((value, index) => ({ x: x(index), y: y(value) }));
+    const path = points.map((point, i) => `${i === 0 ? 'M' : 'L'}${point.x},${point.y}`).join(' ');
+
+    return { width, height, path, last: points[points.length - 1] ?? { x: 0, y: 0 } };
+  });
+
+  /**
+   * Data table rows
+   */
+  readonly tableRows = computed<ChartTableRow[]>(() =>
+    this.values().map((value, index) => ({
+      header: this.labels()[index] ?? `Point ${index + 1}`,
+      cells: [this.formatValue()(value)],
+    }))
+  );
+}
@@ -0,0 +1,232 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import type { ContributionCalendar, ContributionDay } from '@core/models/github.model';
+import { THEMES, ThemeService } from '@core/theme';
+
+import { ContributionHeatmapComponent } from './contribution-heatmap.component';
+
+/**
+ * Builds a calendar of consecutive days starting on a date, grouped into
+ * Sunday-first weeks like GitHub's
+ */
+function buildCalendar(start: string, counts: number[]): ContributionCalendar {
+  const weeks: { days: ContributionDay[] }[] = [];
+  const first = new Date(`${start}T00:00:00Z`);
+
+  counts.forEach((count, i) => {
+    const date = new Date(first.getTime() + i * 24 * 60 * 60 * 1000);
+    if (i === 0 || date.getUTCDay() === 0) {
+      weeks.push({ days: [] });
+    }
+    weeks[weeks.length - 1].days.push({ date: date.toISOString().slice(0, 10), count });
+  });
+
+  return { totalContributions: counts.reduce((sum, count) => sum + count, 0), weeks };
+}
+
+describe('ContributionHeatmapComponent', () => {
+  let component: ContributionHeatmapComponent;
+  let fixture: ComponentFixture<ContributionHeatmapComponent>;
+  let element: HTMLElement;
+
+  // Thursday 2026-01-01 through Saturday 2026-02-28 (9 weeks, first one partial)
+  const counts = Array.from({ length: 59 }, (_, i) => (i % 5 === 0 ? 0 : i % 8));
+  counts[10] = 12;
+  const calendar = buildCalendar('2026-01-01', counts);
+
+  function cell(index: number): HTMLElement {
+    return element.querySelector(`[data-index="${index}"]`) as HTMLElement;
+  }
+
+  function press(index: number, key: string, init: KeyboardEventInit = {}): void {
+    cell(index).dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, ...init }));
+    fixture.detectChanges();
+  }
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [ContributionHeatmapComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ContributionHeatmapComponent);
+    component = fixture.componentInstance;
+    element = fixture.nativeElement;
+    fixture.componentRef.setInput('calendar', calendar);
+    fixture.detectChanges();
+  });
+
+  describe('Component Creation', () => {
+    it('should create', () => {
+      expect(component).toBeTruthy();
+    });
+
+    it('should use OnPush change detection', () => {
+      const metadata = (ContributionHeatmapComponent as unknown as { ɵcmp: { onPush: boolean } })
+        .ɵcmp;
+      expect(metadata.onPush).toBe(true);
+    });
+  });
+
+  describe('Rendering', () => {
+    it('should show an empty state without data', () => {
+      fixture.componentRef.setInput('calendar', null);
+      fixture.detectChanges();
+
+      expect(element.querySelector('[data-test="heatmap-empty"]')).toBeTruthy();
+      expect(element.querySelector('[data-test="heatmap-grid"]')).toBeNull();
+    });
+
+    it('should render seven weekday rows with one cell per day', () => {
+      const rows = element.querySelectorAll('[role="row"]');
+      expect(rows).toHaveLength(7);
+      expect(element.querySelectorAll('[data-index]')).toHaveLength(59);
+      expect(component.rows()[0]).toHaveLength(9);
+    });
+
+    it('should place days in their weekday row', () => {
+      // 2026-01-01 is a Thursday; the first week has no Sunday-Wednesday
+      expect(component.rows()[4][0]?.day.date).toBe('2026-01-01');
+      expect(component.rows()[0][0]).toBeNull();
+      expect(component.rows()[0][1]?.day.date).toBe('2026-01-04');
+    });
+
+    it('should label cells for screen readers', () => {
+      expect(cell(0).getAttribute('aria-label')).toBe(
+        'No contributions on Thursday, January 1, 2026'
+      );
+      expect(cell(1).getAttribute('aria-label')).toBe('1 contribution on Friday, January 2, 2026');
+      expect(cell(10).getAttribute('aria-label')).toBe(
+        '12 contributions on Sunday, January 11, 2026'
+      );
+    });
+
+    it('should show the total and month labels', () => {
+      expect(element.querySelector('[data-test="heatmap-total"]')?.textContent).toContain(
+        `${calendar.totalContributions} contributions`
+      );
+      expect(component.monthLabels().filter(Boolean)).toEqual(['Jan', 'Feb']);
+    });
+  });
+
+  describe('Color Scale', () => {
+    it('should scale levels relative to the busiest day', () => {
+      expect(cell(0).getAttribute('data-level')).toBe('0');
+      expect(cell(10).getAttribute('data-level')).toBe('4');
+      expect(cell(1).getAttribute('data-level')).toBe('1');
+    });
+
+    it('should derive colors from the active theme', () => {
+      const { tokens } = TestBed.inject(ThemeService).activeTheme();
+
+      expect(component.palette()).toHaveLength(5);
+      expect(component.palette()[0]).toBe(tokens.border);
+      expect(component.palette()[4].toLowerCase()).toBe(tokens.primary.toLowerCase());
+    });
+
+    it('should update colors when the theme changes', () => {
+      const themeService = TestBed.inject(ThemeService);
+      const other = THEMES.find((theme) => theme.slug !== themeService.activeTheme().slug)!;
+
+      themeService.setTheme(other.slug);
+      fixture.detectChanges();
+
+      expect(component.palette()[0]).toBe(other.tokens.border);
+    });
+  });
+
+  describe('Summary Table', () => {
+    it('should fall back to the table for short ranges', () => {
+      fixture.componentRef.setInput('calendar', buildCalendar('2026-03-01', [1, 0, 4]));
+      fixture.detectChanges();
+
+      expect(element.querySelector('[data-test="heatmap-table"]')).toBeTruthy();
+      expect(element.querySelector('[data-test="heatmap-grid"]')).toBeNull();
+    });
+
+    it('should show the table when requested', () => {
+      fixture.componentRef.setInput('display', 'table');
+      fixture.detectChanges();
+
+      const rows = element.querySelectorAll('[data-test="heatmap-table"] tbody tr');
+      expect(rows).toHaveLength(2);
+      expect(rows[0].querySelector('th')?.textContent).toContain('January 2026');
+    });
+
+    it('should keep the heatmap when forced', () => {
+      fixture.componentRef.setInput('calendar', buildCalendar('2026-03-01', [1, 0, 4]));
+      fixture.componentRef.setInput('display', 'heatmap');
+      fixture.detectChanges();
+
+      expect(element.querySelector('[data-test="heatmap-grid"]')).toBeTruthy();
+    });
+
+    it('should summarize each month', () => {
+      const [january] = component.summary();
+      const januaryCounts = counts.slice(0, 31);
+
+      expect(january.total).toBe(januaryCounts.reduce((sum, count) => sum + count, 0));
+      expect(january.activeDays).toBe(januaryCounts.filter((count) => count > 0).length);
+      expect(january.busiestDay).toEqual({ date: '2026-01-11', count: 12 });
+    });
+  });
+
+  describe('Keyboard Navigation', () => {
+    it('should make only the last day tabbable initially', () => {
+      expect(element.querySelectorAll('[tabindex="0"]')).toHaveLength(1);
+      expect(cell(58).getAttribute('tabindex')).toBe('0');
+    });
+
+    it('should move by day with up/down and by week with left/right', () => {
+      press(58, 'ArrowLeft');
+      expect(component.activeIndex()).toBe(51);
+      expect(document.activeElement).toBe(cell(51));
+
+      press(51, 'ArrowUp');
+      expect(component.activeIndex()).toBe(50);
+
+      press(50, 'ArrowDown');
+      press(51, 'ArrowRight');
+      expect(component.activeIndex()).toBe(58);
+    });
+
+    it('should not move past the first or last day', () => {
+      press(58, 'ArrowDown');
+      press(58, 'ArrowRight');
+      expect(component.activeIndex()).toBe(58);
+    });
+
+    it('should jump within a row with Home/End and to the ends with Ctrl', () => {
+      press(58, 'Home');
+      expect(component.activeIndex()).toBe(2);
+
+      press(2, 'End');
+      expect(component.activeIndex()).toBe(58);
+
+      press(58, 'Home', { ctrlKey: true });
+      expect(component.activeIndex()).toBe(0);
+
+      press(0, 'End', { ctrlKey: true });
+      expect(component.activeIndex()).toBe(58);
+    });
+
+    it('should select a day with Enter, Space or click', () => {
+      const selected = vi.fn();
+      component.daySelected.subscribe(selected);
+
+      press(10, 'Enter');
+      press(11, ' ');
+      cell(12).click();
+
+      expect(selected.mock.calls.map(([day]) => day.date)).toEqual([
+        '2026-01-11',
+        '2026-01-12',
+        '2026-01-13',
+      ]);
+      fixture.detectChanges();
+      expect(cell(12).getAttribute('tabindex')).toBe('0');
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import type { ContributionCalendar, ContributionDay } from '@core/models/github.model';
+import type { Meta, StoryObj } from '@storybook/angular';
+
+import { ContributionHeatmapComponent } from './contribution-heatmap.component';
+
+/**
+ * Builds a deterministic calendar of `days` days ending on 2026-10-17
+ */
+function sampleCalendar(days: number): ContributionCalendar {
+  const end = Date.UTC(2026, 9, 17);
+  const weeks: { days: ContributionDay[] }[] = [];
+  let total = 0;
+
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(end - i * 24 * 60 * 60 * 1000);
+    const weekday = date.getUTCDay();
+    const count = weekday === 0 || weekday === 6 ? i % 3 : ((i * 7) % 11) % 9;
+    total += count;
+
+    if (weeks.length === 0 || weekday === 0) {
+      weeks.push({ days: [] });
+    }
+    weeks[weeks.length - 1].days.push({ date: date.toISOString().slice(0, 10), count });
+  }
+
+  return { totalContributions: total, weeks };
+}
+
+const meta: Meta<ContributionHeatmapComponent> = {
+  title: 'Shared/ContributionHeatmap',
+  component: ContributionHeatmapComponent,
+  tags: ['autodocs'],
+  argTypes: {
+    display: {
+      control: 'select',
+      options: ['auto', 'heatmap', 'table'],
+      description: 'Presentation mode',
+      table: {
+        type: { summary: 'ContributionHeatmapDisplay' },
+        defaultValue: { summary: 'auto' },
+      },
+    },
+    minWeeks: {
+      control: 'number',
+      description: 'Fewest weeks shown as a heatmap in auto mode',
+      table: {
+        type: { summary: 'number' },
+        defaultValue: { summary: '4' },
+      },
+    },
+    ariaLabel: {
+      control: 'text',
+      description: 'Accessible name of the grid',
+    },
+  },
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'GitHub contribution heatmap colored from the active theme, with keyboard-navigable cells and a summary table fallback.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<ContributionHeatmapComponent>;
+
+// Full year
+export const LastYear: Story = {
+  args: {
+    calendar: sampleCalendar(365),
+    ariaLabel: 'Contributions in the last year',
+  },
+};
+
+// Three months
+export const LastQuarter: Story = {
+  args: {
+    calendar: sampleCalendar(91),
+    ariaLabel: 'Contributions in the last quarter',
+  },
+};
+
+// Summary table
+export const SummaryTable: Story = {
+  args: {
+    calendar: sampleCalendar(365),
+    display: 'table',
+    ariaLabel: 'Contributions in the last year',
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'Monthly summary table, also used automatically for ranges shorter than `minWeeks`.',
+      },
+    },
+  },
+};
+
+// No data
+export const Empty: Story = {
+  args: {
+    calendar: null,
+  },
+};
@@ -0,0 +1,359 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  ElementRef,
+  inject,
+  input,
+  output,
+  signal,
+} from '@angular/core';
+
+import type { ContributionCalendar, ContributionDay } from '@core/models/github.model';
+import { ThemeService } from '@core/theme';
+
+import type { ContributionMonthSummary } from './contribution-summary-table/contribution-summary-table.component';
+import { ContributionSummaryTableComponent } from './contribution-summary-table/contribution-summary-table.component';
+
+/**
+ * How the calendar is presented
+ * - heatmap: weeks × days grid
+ * - table: monthly summary table
+ * - auto: heatmap, or the table when there are fewer than `minWeeks` weeks
+ */
+export type ContributionHeatmapDisplay = 'auto' | 'heatmap' | 'table';
+
+/**
+ * Intensity level of a cell (0 = no contributions, 4 = busiest)
+ */
+export type ContributionLevel = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * A rendered heatmap cell
+ */
+export interface ContributionCell {
+  /** Day the cell represents */
+  day: ContributionDay;
+  /** Index of the day in the calendar */
+  index: number;
+  /** Intensity level */
+  level: ContributionLevel;
+  /** Accessible description, e.g. "3 contributions on Friday, October 2, 2026" */
+  label: string;
+}
+
+/** Weekday labels, Sunday first (GitHub weeks start on Sunday) */
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Share of the primary color mixed into the background for levels 1-4 */
+const LEVEL_MIX = [0.25, 0.5, 0.75, 1];
+
+/**
+ * GitHub contribution calendar rendered as a weeks × days heatmap.
+ *
+ * @remarks
+ * - Colors are derived from the active theme: empty days use the `border`
+ *   token, levels 1-4 blend `primary` into `background`, and the scale
+ *   updates when the theme changes
+ * - Cells form an ARIA grid with a roving tabindex: arrow keys move by day
+ *   (up/down) and week (left/right), Home/End jump within a weekday row,
+ *   Ctrl+Home/Ctrl+End to the first/last day, Enter/Space select a day
+ * - Each cell has a label such as "3 contributions on Friday, October 2, 2026"
+ * - Falls back to a monthly summary table for short ranges or when
+ *   `display` is `table`
+ *
+ * @example
+ * ```html
+ * <app-contribution-heatmap
+ *   [calendar]="calendar()"
+ *   ariaLabel="Contributions in the last year"
+ *   (daySelected)="showDay($event)"
+ * />
+ * ```
+ */
+@Component({
+  selector: 'app-contribution-heatmap',
+  standalone: true,
+  imports: [ContributionSummaryTableComponent],
+  templateUrl: './contribution-heatmap.component.html',
+  styleUrl: './contribution-heatmap.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ContributionHeatmapComponent {
+  private readonly themeService = inject(ThemeService);
+  private readonly elementRef = inject<ElementRef<HTMLElement>>(ElementRef);
+
+  /**
+   * Contribution data (null while loading or unavailable)
+   */
+  readonly calendar = input<ContributionCalendar | null>(null);
+
+  /**
+   * Accessible name of the heatmap grid
+   */
+  readonly ariaLabel = input<string>('Contribution calendar');
+
+  /**
+   * Presentation mode
+   */
+  readonly display = input<ContributionHeatmapDisplay>('auto');
+
+  /**
+   * Fewest weeks shown as a heatmap in `auto` mode
+   */
+  readonly minWeeks = input<number>(4);
+
+  /**
+   * Emits when a day is clicked or activated with Enter/Space
+   */
+  readonly daySelected = output<ContributionDay>();
+
+  /**
+   * Index of the focusable cell (null = last day)
+   */
+  private readonly _activeIndex = signal<number | null>(null);
+
+  /**
+   * All days in chronological order
+   */
+  readonly days = computed(() => this.calendar()?.weeks.flatMap((week) => week.days) ?? []);
+
+  /**
+   * Total contributions in the range
+   */
+  readonly total = computed(() => this.calendar()?.totalContributions ?? 0);
+
+  /**
+   * Whether the summary table is shown instead of the heatmap
+   */
+  readonly showTable = computed(() => {
+    const display = this.display();
+    const weeks = this.calendar()?.weeks.length ?? 0;
+    return display === 'table' || (display === 'auto' && weeks < this.minWeeks());
+  });
+
+  /**
+   * Colors for levels 0-4, derived from the active theme
+   */
+  readonly palette = computed(() => {
+    const { tokens } = this.themeService.activeTheme();
+    return [
+      tokens.border,
+      ...LEVEL_MIX.map((ratio) => mixColors(tokens.primary, tokens.background, ratio)),
+    ];
+  });
+
+  /**
+   * Index of the cell that is reachable with Tab
+   */
+  readonly activeIndex = computed(() => {
+    const count = this.days().length;
+    const index = this._activeIndex();
+    return index !== null && index < count ? index : count - 1;
+  });
+
+  /**
+   * Cells grouped into weekday rows (Sunday first); null pads partial weeks
+   */
+  readonly rows = computed(() => {
+    const days = this.days();
+    const max = Math.max(0, ...days.map((day) => day.count));
+    const rows: (ContributionCell | null)[][] = WEEKDAYS.map(() => []);
+
+    let week = 0;
+    days.forEach((day, index) => {
+      const weekday = parseDate(day.date).getUTCDay();
+      if (index > 0 && weekday === 0) {
+        week++;
+      }
+      rows[weekday][week] = {
+        day,
+        index,
+        level: toLevel(day.count, max),
+        label: describeDay(day),
+      };
+    });
+
+    return rows.map((row) => Array.from({ length: week + 1 }, (_, i) => row[i] ?? null));
+  });
+
+  /**
+   * Weekday names with whether they are labelled visually (Mon/Wed/Fri)
+   */
+  readonly weekdays = WEEKDAYS.map((name, index) => ({
+    name,
+    short: name.slice(0, 3),
+    visible: index % 2 === 1,
+  }));
+
+  /**
+   * Month label for each week column (empty unless a month starts that week)
+   */
+  readonly monthLabels = computed(() => {
+    let previous = '';
+    return (this.calendar()?.weeks ?? []).map((week) => {
+      const first = week.days[0];
+      const month = first ? formatMonth(first.date, 'short') : '';
+      const label = month !== previous ? month : '';
+      previous = month;
+      return label;
+    });
+  });
+
+  /**
+   * Monthly totals for the summary table
+   */
+  readonly summary = computed(() => {
+    const months = new Map<string, ContributionMonthSummary>();
+
+    for (const day of this.days()) {
+      const month = formatMonth(day.date, 'long');
+      const entry = months.get(month) ?? { month, total: 0, activeDays: 0, busiestDay: null };
+
+      entry.total += day.count;
+      if (day.count > 0) {
+        entry.activeDays++;
+        if (!entry.busiestDay || day.count > entry.busiestDay.count) {
+          entry.busiestDay = day;
+        }
+      }
+      months.set(month, entry);
+    }
+
+    return [...months.values()];
+  });
+
+  /**
+   * Selects a day and makes its cell the focusable one
+   */
+  selectCell(cell: ContributionCell): void {
+    this._activeIndex.set(cell.index);
+    this.daySelected.emit(cell.day);
+  }
+
+  /**
+   * Handles grid keyboard navigation
+   */
+  handleKeydown(event: KeyboardEvent, cell: ContributionCell): void {
+    const last = this.days().length - 1;
+    const { index } = cell;
+    let next = index;
+
+    switch (event.key) {
+      case 'ArrowUp':
+        next = index - 1;
+        break;
+      case 'ArrowDown':
+        next = index + 1;
+        break;
+      case 'ArrowLeft':
+        next = index - 7;
+        break;
+      case 'ArrowRight':
+        next = index + 7;
+        break;
+      case 'Home':
+        next = event.ctrlKey ? 0 : index % 7;
+        break;
+      case 'End':
+        next = event.ctrlKey ? last : index + Math.floor((last - index) / 7) * 7;
+        break;
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        this.selectCell(cell);
+        return;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    if (next >= 0 && next <= last && next !== index) {
+      this._activeIndex.set(next);
+      this.focusCell(next);
+    }
+  }
+
+  /**
+   * Moves focus to the cell of a day
+   */
+  private focusCell(index: number): void {
+    this.elementRef.nativeElement.querySelector<HTMLElement>(`[data-index="${index}"]`)?.focus();
+  }
+}
+
+/**
+ * Parses a YYYY-MM-DD date as UTC midnight
+ */
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+/**
+ * Formats the month of a date, e.g. "Oct" or "October 2026"
+ */
+function formatMonth(date: string, style: 'short' | 'long'): string {
+  return parseDate(date).toLocaleDateString('en-US', {
+    month: style,
+    year: style === 'long' ? 'numeric' : undefined,
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Describes a day for screen readers
+ */
+function describeDay(day: ContributionDay): string {
+  const date = parseDate(day.date).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+  const count =
+    day.count === 0 ? 'No contributions' : `${day.count} contribution${day.count === 1 ? '' : 's'}`;
+  return `${count} on ${date}`;
+}
+
+/**
+ * Maps a count to a level relative to the busiest day
+ */
+function toLevel(count: number, max: number): ContributionLevel {
+  if (count <= 0 || max <= 0) {
+    return 0;
+  }
+  return Math.min(4, Math.ceil((count / max) * 4)) as ContributionLevel;
+}
+
+/**
+ * Blends two hex colors
+ * @param color - Hex color weighted by `ratio`
+ * @param base - Hex color weighted by `1 - ratio`
+ * @param ratio - Share of `color` (0-1)
+ * @returns Blended color as `#rrggbb`
+ */
+function mixColors(color: string, base: string, ratio: number): string {
+  const a = toRgb(color);
+  const b = toRgb(base);
+  if (!a || !b) {
+    return color;
+  }
+  return `#${a
+    .map((channel, i) => Math.round(channel * ratio + b[i] * (1 - ratio)))
+    .map((channel) => channel.toString(16).padStart(2, '0'))
+    .join('')}`;
+}
+
+/**
+ * Parses `#rgb` or `#rrggbb` into channels
+ */
+function toRgb(hex: string): number[] | null {
+  const match = /^#?([\da-f]{3}|[\da-f]{6})$/i.exec(hex.trim());
+  if (!match) {
+    return null;
+  }
+  const digits =
+    match[1].length === 3 ? [...match[1]].map((digit) => digit + digit).join('') : match[1];
+  return [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16));
+}
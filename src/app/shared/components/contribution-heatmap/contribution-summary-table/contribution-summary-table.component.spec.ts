@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import type { ContributionMonthSummary } from './contribution-summary-table.component';
+import { ContributionSummaryTableComponent } from './contribution-summary-table.component';
+
+describe('ContributionSummaryTableComponent', () => {
+  let component: ContributionSummaryTableComponent;
+  let fixture: ComponentFixture<ContributionSummaryTableComponent>;
+  let compiled: HTMLElement;
+
+  const months: ContributionMonthSummary[] = [
+    {
+      month: 'January 2026',
+      total: 14,
+      activeDays: 3,
+      busiestDay: { date: '2026-01-11', count: 12 },
+    },
+    { month: 'February 2026', total: 0, activeDays: 0, busiestDay: null },
+  ];
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ContributionSummaryTableComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ContributionSummaryTableComponent);
+    component = fixture.componentInstance;
+    compiled = fixture.nativeElement as HTMLElement;
+
+    fixture.componentRef.setInput('caption', 'Contribution calendar: 14 contributions');
+    fixture.componentRef.setInput('months', months);
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should render the caption', () => {
+    expect(compiled.querySelector('caption')?.textContent?.trim()).toBe(
+      'Contribution calendar: 14 contributions'
+    );
+  });
+
+  it('should render one row per month', () => {
+    const rows = compiled.querySelectorAll('tbody tr');
+    expect(rows).toHaveLength(2);
+    expect(
+      Array.from(rows[0].querySelectorAll('th, td')).map((cell) => cell.textContent?.trim())
+    ).toEqual(['January 2026', '14', '3', 'Jan 11 (12)']);
+  });
+
+  it('should show a dash for months without contributions', () => {
+    expect(component.formatBusiestDay(months[1])).toBe('—');
+  });
+});
@@ -0,0 +1,84 @@
+import { ChangeDetectionStrategy, Component, input } from '@angular/core';
+
+import type { ContributionDay } from '@core/models/github.model';
+
+/**
+ * A month in the summary table
+ */
+export interface ContributionMonthSummary {
+  /** Month label, e.g. "October 2026" */
+  month: string;
+  /** Contributions in the month */
+  total: number;
+  /** Days with at least one contribution */
+  activeDays: number;
+  /** Day with the most contributions (null when there were none) */
+  busiestDay: ContributionDay | null;
+}
+
+/**
+ * Contribution summary table subcomponent
+ *
+ * Text alternative to the heatmap: one row per month with its total, active
+ * days and busiest day.
+ */
+@Component({
+  selector: 'app-contribution-summary-table',
+  standalone: true,
+  styleUrl: './contribution-summary-table.component.scss',
+  template: `
+    <table class="contribution-summary-table" data-test="heatmap-table">
+      <caption>
+        {{
+          caption()
+        }}
+      </caption>
+      <thead>
+        <tr>
+          <th scope="col">Month</th>
+          <th scope="col">Contributions</th>
+          <th scope="col">Active days</th>
+          <th scope="col">Busiest day</th>
+        </tr>
+      </thead>
+      <tbody>
+        @for (month of months(); track month.month) {
+          <tr>
+            <th scope="row">{{ month.month }}</th>
+            <td>{{ month.total }}</td>
+            <td>{{ month.activeDays }}</td>
+            <td>{{ formatBusiestDay(month) }}</td>
+          </tr>
+        }
+      </tbody>
+    </table>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ContributionSummaryTableComponent {
+  /**
+   * Table caption
+   */
+  readonly caption = input.required<string>();
+
+  /**
+   * Months in chronological order
+   */
+  readonly months = input<ContributionMonthSummary[]>([]);
+
+  /**
+   * Formats the busiest day of a month, e.g. "Oct 2 (5)", or "—" when there were no contributions
+   */
+  formatBusiestDay(month: ContributionMonthSummary): string {
+    const day = month.busiestDay;
+    if (!day) {
+      return '—';
+    }
+    const date = new Date(`${day.date}T00:00:00Z`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+    return `${date} (${day.count})`;
+  }
+}
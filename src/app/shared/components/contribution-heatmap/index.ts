@@ -0,0 +1,8 @@
+export { ContributionHeatmapComponent } from './contribution-heatmap.component';
+export type {
+  ContributionCell,
+  ContributionHeatmapDisplay,
+  ContributionLevel,
+} from './contribution-heatmap.component';
+export { ContributionSummaryTableComponent } from './contribution-summary-table/contribution-summary-table.component';
+export type { ContributionMonthSummary } from './contribution-summary-table/contribution-summary-table.component';
@@ -2,14 +2,18 @@ export * from './badge';
 export * from './breadcrumb';
 export * from './button';
 export * from './card';
+export * from './charts';
 export * from './container';
+export * from './contribution-heatmap';
 export * from './divider';
 export * from './form-field';
 export * from './grid';
 export * from './icon';
 export * from './input';
+export * from './language-chart';
 export * from './loading-spinner';
 export * from './modal';
+export * from './pagination';
 export * from './skeleton';
 export * from './stack';
 export * from './tabs';
@@ -0,0 +1,2 @@
+export { formatLanguageSize, LanguageChartComponent } from './language-chart.component';
+export type { LanguageChartVariant, LanguageSegment } from './language-chart.component';
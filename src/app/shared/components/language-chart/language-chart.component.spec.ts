@@ -0,0 +1,162 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import type { LanguageShare } from '@core/models/github.model';
+import { THEMES, ThemeService } from '@core/theme';
+
+import { formatLanguageSize, LanguageChartComponent } from './language-chart.component';
+
+describe('LanguageChartComponent', () => {
+  let component: LanguageChartComponent;
+  let fixture: ComponentFixture<LanguageChartComponent>;
+  let element: HTMLElement;
+
+  const languages: LanguageShare[] = [
+    { name: 'TypeScript', color: '#3178c6', size: 412580, percentage: 74.8, repositories: 3 },
+    { name: 'SCSS', color: '#c6538c', size: 98211, percentage: 17.8, repositories: 2 },
+    { name: 'HTML', color: '#e34c26', size: 40377, percentage: 7.3, repositories: 2 },
+    { name: 'Other', color: null, size: 600, percentage: 0.1, repositories: 1 },
+  ];
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [LanguageChartComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(LanguageChartComponent);
+    component = fixture.componentInstance;
+    element = fixture.nativeElement;
+    fixture.componentRef.setInput('languages', languages);
+    fixture.detectChanges();
+  });
+
+  describe('Component Creation', () => {
+    it('should create', () => {
+      expect(component).toBeTruthy();
+    });
+
+    it('should use OnPush change detection', () => {
+      const metadata = (LanguageChartComponent as unknown as { ɵcmp: { onPush: boolean } }).ɵcmp;
+      expect(metadata.onPush).toBe(true);
+    });
+  });
+
+  describe('Rendering', () => {
+    it('should show an empty state without data', () => {
+      fixture.componentRef.setInput('languages', []);
+      fixture.detectChanges();
+
+      expect(element.querySelector('[data-test="language-chart-empty"]')).toBeTruthy();
+      expect(element.querySelector('table')).toBeNull();
+    });
+
+    it('should render a donut chart of code sizes by default', () => {
+      const donut = element.querySelector('[data-test="language-chart-donut"]');
+
+      expect(donut?.tagName.toLowerCase()).toBe('app-donut-chart');
+      expect(donut?.querySelectorAll('[data-test="donut-chart-segment"]')).toHaveLength(4);
+      expect(donut?.querySelector('.donut-chart__total')?.textContent).toContain('551.8 kB');
+    });
+
+    it('should size donut segments by code size with language colors', () => {
+      expect(component.donutData()[0]).toEqual({
+        label: 'TypeScript',
+        value: 412580,
+        color: '#3178c6',
+      });
+    });
+
+    it('should render a stacked bar', () => {
+      fixture.componentRef.setInput('variant', 'bar');
+      fixture.detectChanges();
+
+      const segments = element.querySelectorAll<HTMLElement>('.language-chart__bar-segment');
+      expect(element.querySelector('[data-test="language-chart-donut"]')).toBeNull();
+      expect(segments).toHaveLength(4);
+      expect(segments[0].style.width).toBe('74.8%');
+    });
+
+    it('should list languages with percentages in the legend', () => {
+      fixture.componentRef.setInput('variant', 'bar');
+      fixture.detectChanges();
+
+      const items = element.querySelectorAll('.chart-legend__item');
+      expect(items).toHaveLength(4);
+      expect(items[1].textContent).toContain('SCSS');
+      expect(items[1].textContent).toContain('17.8%');
+    });
+  });
+
+  describe('Colors', () => {
+    it('should use language colors', () => {
+      expect(component.segments()[0].color).toBe('#3178c6');
+    });
+
+    it('should take missing colors from the active theme', () => {
+      const themeService = TestBed.inject(ThemeService);
+      expect(component.segments()[3].color).toBe(themeService.activeTheme().tokens.primary);
+
+      const other = THEMES.find(
+        (theme) => theme.tokens.primary !== themeService.activeTheme().tokens.primary
+      )!;
+      themeService.setTheme(other.slug);
+      fixture.detectChanges();
+
+      expect(component.segments()[3].color).toBe(other.tokens.primary);
+    });
+  });
+
+  describe('Accessibility', () => {
+    describe.each(['donut', 'bar'] as const)('%s', (variant) => {
+      beforeEach(() => {
+        fixture.componentRef.setInput('variant', variant);
+        fixture.detectChanges();
+      });
+
+      it('should hide the chart and legend from assistive technology', () => {
+        const legend = element.querySelector('[data-test="chart-legend"]');
+        expect(legend?.closest('[aria-hidden="true"]')).toBeTruthy();
+      });
+
+      it('should provide a visually hidden data table of sizes and shares', () => {
+        const table = element.querySelector('app-chart-data-table');
+        const firstRow = table?.querySelector('tbody tr');
+
+        expect(table?.classList.contains('sr-only')).toBe(true);
+        expect(table?.querySelector('caption')?.textContent?.trim()).toBe('Language breakdown');
+        expect(table?.querySelectorAll('tbody tr')).toHaveLength(4);
+        expect(
+          Array.from(table?.querySelectorAll('thead th') ?? []).map((cell) => cell.textContent)
+        ).toEqual(['Language', 'Size', 'Share']);
+        expect(
+          Array.from(firstRow?.querySelectorAll('th, td') ?? []).map((cell) =>
+            cell.textContent?.trim()
+          )
+        ).toEqual(['TypeScript', '412.6 kB', '74.8%']);
+      });
+
+      it('should show the table when requested', () => {
+        fixture.componentRef.setInput('showTable', true);
+        fixture.componentRef.setInput('ariaLabel', 'Languages across all projects');
+        fixture.detectChanges();
+
+        const table = element.querySelector('app-chart-data-table');
+        expect(table?.classList.contains('sr-only')).toBe(false);
+        expect(table?.querySelector('caption')?.textContent?.trim()).toBe(
+          'Languages across all projects'
+        );
+      });
+    });
+  });
+});
+
+describe('formatLanguageSize', () => {
+  it('should format sizes', () => {
+    expect(formatLanguageSize(600)).toBe('600 B');
+    expect(formatLanguageSize(412580)).toBe('412.6 kB');
+    expect(formatLanguageSize(1_500_000)).toBe('1.5 MB');
+    expect(formatLanguageSize(2_000_000_000_000)).toBe('2000.0 GB');
+  });
+});
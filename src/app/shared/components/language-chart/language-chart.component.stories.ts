@@ -0,0 +1,89 @@
+import type { LanguageShare } from '@core/models/github.model';
+import type { Meta, StoryObj } from '@storybook/angular';
+
+import { LanguageChartComponent } from './language-chart.component';
+
+const sampleLanguages: LanguageShare[] = [
+  { name: 'TypeScript', color: '#3178c6', size: 412580, percentage: 62.4, repositories: 5 },
+  { name: 'SCSS', color: '#c6538c', size: 98211, percentage: 14.9, repositories: 4 },
+  { name: 'HTML', color: '#e34c26', size: 60377, percentage: 9.1, repositories: 4 },
+  { name: 'Go', color: '#00ADD8', size: 45120, percentage: 6.8, repositories: 1 },
+  { name: 'JavaScript', color: '#f1e05a', size: 30104, percentage: 4.6, repositories: 3 },
+  { name: 'Other', color: null, size: 14520, percentage: 2.2, repositories: 2 },
+];
+
+const meta: Meta<LanguageChartComponent> = {
+  title: 'Shared/LanguageChart',
+  component: LanguageChartComponent,
+  tags: ['autodocs'],
+  argTypes: {
+    variant: {
+      control: 'select',
+      options: ['donut', 'bar'],
+      description: 'Chart style',
+      table: {
+        type: { summary: 'LanguageChartVariant' },
+        defaultValue: { summary: 'donut' },
+      },
+    },
+    showTable: {
+      control: 'boolean',
+      description: 'Whether the data table is shown visually',
+      table: {
+        type: { summary: 'boolean' },
+        defaultValue: { summary: 'false' },
+      },
+    },
+    ariaLabel: {
+      control: 'text',
+      description: 'Accessible name of the chart and caption of the data table',
+    },
+  },
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Share of code per language as a donut or stacked bar chart, with a legend and an accessible data table.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<LanguageChartComponent>;
+
+export const Donut: Story = {
+  args: {
+    languages: sampleLanguages,
+    variant: 'donut',
+  },
+};
+
+export const Bar: Story = {
+  args: {
+    languages: sampleLanguages,
+    variant: 'bar',
+  },
+};
+
+export const WithTable: Story = {
+  args: {
+    languages: sampleLanguages,
+    showTable: true,
+    ariaLabel: 'Languages across all projects',
+  },
+};
+
+export const SingleLanguage: Story = {
+  args: {
+    languages: [
+      { name: 'TypeScript', color: '#3178c6', size: 412580, percentage: 100, repositories: 1 },
+    ],
+  },
+};
+
+export const Empty: Story = {
+  args: {
+    languages: [],
+  },
+};
@@ -0,0 +1,154 @@
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+
+import type { LanguageShare } from '@core/models/github.model';
+import { ThemeService } from '@core/theme';
+
+import type { ChartDatum, ChartLegendItem } from '../charts/chart.utils';
+import type { ChartTableRow } from '../charts/chart-data-table/chart-data-table.component';
+import { ChartDataTableComponent } from '../charts/chart-data-table/chart-data-table.component';
+import { ChartLegendComponent } from '../charts/chart-legend/chart-legend.component';
+import { DonutChartComponent } from '../charts/donut-chart/donut-chart.component';
+
+/**
+ * Chart style
+ * - donut: ring of segments
+ * - bar: single stacked bar
+ */
+export type LanguageChartVariant = 'donut' | 'bar';
+
+/**
+ * A language with its chart color
+ */
+export interface LanguageSegment {
+  /** Language the segment represents */
+  language: LanguageShare;
+  /** Segment color */
+  color: string;
+  /** Percentage for display, e.g. "42.5%" */
+  percentage: string;
+}
+
+/**
+ * Formats a code size in bytes, e.g. "412.6 kB"
+ */
+export function formatLanguageSize(bytes: number): string {
+  const units = ['kB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = -1;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  return unit < 0 ? `${bytes} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Share of code per language as a donut or stacked bar chart, with a legend
+ * and a data table.
+ *
+ * @remarks
+ * - The donut is a `DonutChartComponent` of code sizes; the stacked bar uses
+ *   the shared `ChartLegendComponent` and `ChartDataTableComponent`
+ * - Uses each language's GitHub color; languages without one (and `Other`)
+ *   take colors from the active theme
+ * - The chart and legend are hidden from assistive technology, which reads
+ *   the data table instead (size and share per language); the table is
+ *   visually hidden unless `showTable` is set
+ *
+ * @example
+ * ```html
+ * <app-language-chart
+ *   [languages]="store.languageBreakdown()"
+ *   variant="bar"
+ *   ariaLabel="Languages across all projects"
+ * />
+ * ```
+ */
+@Component({
+  selector: 'app-language-chart',
+  standalone: true,
+  imports: [ChartDataTableComponent, ChartLegendComponent, DonutChartComponent],
+  templateUrl: './language-chart.component.html',
+  styleUrl: './language-chart.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class LanguageChartComponent {
+  private readonly themeService = inject(ThemeService);
+
+  /**
+   * Language shares, largest first (e.g. `ProjectStore.languageBreakdown()`)
+   */
+  readonly languages = input<LanguageShare[]>([]);
+
+  /**
+   * Chart style
+   */
+  readonly variant = input<LanguageChartVariant>('donut');
+
+  /**
+   * Accessible name of the chart and caption of the data table
+   */
+  readonly ariaLabel = input<string>('Language breakdown');
+
+  /**
+   * Whether the data table is shown visually
+   */
+  readonly showTable = input<boolean>(false);
+
+  /**
+   * Formats code sizes for the donut and data table
+   */
+  readonly formatSize = formatLanguageSize;
+
+  /**
+   * Data table columns, starting with the row header column
+   */
+  readonly tableColumns = ['Language', 'Size', 'Share'];
+
+  /**
+   * Languages with their colors
+   */
+  readonly segments = computed<LanguageSegment[]>(() => {
+    const { tokens } = this.themeService.activeTheme();
+    const fallbacks = [tokens.primary, tokens.accent, tokens.info, tokens.success, tokens.warning];
+
+    let fallback = 0;
+    return this.languages().map((language) => ({
+      language,
+      color: language.color ?? fallbacks[fallback++ % fallbacks.length],
+      percentage: `${language.percentage.toFixed(1)}%`,
+    }));
+  });
+
+  /**
+   * Donut segments, sized by code size
+   */
+  readonly donutData = computed<ChartDatum[]>(() =>
+    this.segments().map((segment) => ({
+      label: segment.language.name,
+      value: segment.language.size,
+      color: segment.color,
+    }))
+  );
+
+  /**
+   * Legend entries of the stacked bar
+   */
+  readonly legendItems = computed<ChartLegendItem[]>(() =>
+    this.segments().map((segment) => ({
+      label: segment.language.name,
+      color: segment.color,
+      value: segment.percentage,
+    }))
+  );
+
+  /**
+   * Data table rows of the stacked bar
+   */
+  readonly tableRows = computed<ChartTableRow[]>(() =>
+    this.segments().map((segment) => ({
+      header: segment.language.name,
+      cells: [formatLanguageSize(segment.language.size), segment.percentage],
+    }))
+  );
+}
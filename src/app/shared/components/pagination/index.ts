@@ -0,0 +1,2 @@
+export { PaginationComponent } from './pagination.component';
+export type { PaginationItem, PaginationMode } from './pagination.component';
@@ -0,0 +1,218 @@
+// @vitest-environment jsdom
+import type { ComponentFixture } from '@angular/core/testing';
+import { TestBed } from '@angular/core/testing';
+
+import { PAGINATION_CONFIG } from '@shared/constants';
+
+import { PaginationComponent } from './pagination.component';
+
+describe('PaginationComponent', () => {
+  let component: PaginationComponent;
+  let fixture: ComponentFixture<PaginationComponent>;
+  let element: HTMLElement;
+
+  function setInputs(inputs: Record<string, unknown>): void {
+    Object.entries(inputs).forEach(([name, value]) => fixture.componentRef.setInput(name, value));
+    fixture.detectChanges();
+  }
+
+  function pageButtons(): HTMLButtonElement[] {
+    return Array.from(element.querySelectorAll<HTMLButtonElement>('.pagination__button'));
+  }
+
+  function button(label: string): HTMLButtonElement {
+    return element.querySelector<HTMLButtonElement>(`[aria-label="${label}"]`)!;
+  }
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PaginationComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(PaginationComponent);
+    component = fixture.componentInstance;
+    element = fixture.nativeElement;
+    setInputs({ page: 1, total: 30, pageSize: 12 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  describe('pages', () => {
+    it('should summarize the items shown', () => {
+      setInputs({ page: 3, itemLabel: 'projects' });
+
+      const summary = element.querySelector('[data-test="pagination-summary"]');
+      expect(summary?.textContent?.trim()).toBe('Showing 25–30 of 30 projects');
+      expect(summary?.getAttribute('aria-live')).toBe('polite');
+    });
+
+    it('should summarize an empty list', () => {
+      setInputs({ total: 0 });
+
+      expect(component.range()).toEqual({ from: 0, to: 0 });
+      expect(element.querySelector('.pagination__pages')).toBeNull();
+    });
+
+    it('should label page buttons and mark the current page', () => {
+      setInputs({ page: 2 });
+
+      const current = button('Page 2');
+      expect(button('Page 1').getAttribute('aria-current')).toBeNull();
+      expect(current.getAttribute('aria-current')).toBe('page');
+      expect(current.classList).toContain('pagination__button--current');
+      expect(element.querySelector('nav')?.getAttribute('aria-label')).toBe('Pagination');
+    });
+
+    it('should emit the chosen page', () => {
+      const pages: number[] = [];
+      component.pageChange.subscribe((page) => pages.push(page));
+
+      button('Page 3').click();
+      button('Next page').click();
+      button('Page 1').click();
+
+      expect(pages).toEqual([3, 2]);
+    });
+
+    it('should disable previous and next at the ends', () => {
+      expect(button('Previous page').disabled).toBe(true);
+      expect(button('Next page').disabled).toBe(false);
+
+      setInputs({ page: 3 });
+
+      expect(button('Previous page').disabled).toBe(false);
+      expect(button('Next page').disabled).toBe(true);
+    });
+
+    it.each([
+      [1, [1, 2, 3, 4, 5, null, 20]],
+      [4, [1, 2, 3, 4, 5, null, 20]],
+      [10, [1, null, 9, 10, 11, null, 20]],
+      [18, [1, null, 16, 17, 18, 19, 20]],
+    ])('should shorten long ranges around page %i', (page, expected) => {
+      setInputs({ page, total: 200, pageSize: 10 });
+
+      expect(component.pageItems().map((item) => item.page)).toEqual(expected);
+      const ellipses = expected.filter((entry) => entry === null).length;
+      // Page buttons plus previous and next
+      expect(pageButtons()).toHaveLength(expected.length - ellipses + 2);
+      expect(element.querySelectorAll('.pagination__ellipsis')).toHaveLength(ellipses);
+    });
+
+    it('should never show fewer than five entries', () => {
+      setInputs({ page: 10, total: 200, pageSize: 10, maxPageButtons: 2 });
+
+      expect(component.pageItems().map((item) => item.page)).toEqual([1, null, 10, null, 20]);
+    });
+  });
+
+  describe('page size', () => {
+    it('should offer the configured page sizes', () => {
+      expect(element.querySelector('app-select')).toBeTruthy();
+      expect(component.sizeOptions().map((option) => option.value)).toEqual(
+        PAGINATION_CONFIG.PAGE_SIZE_OPTIONS
+      );
+    });
+
+    it('should emit a newly selected size only', () => {
+      const sizes: number[] = [];
+      component.pageSizeChange.subscribe((size) => sizes.push(size));
+
+      component.onPageSizeChange(12);
+      component.onPageSizeChange(null);
+      component.onPageSizeChange(24);
+
+      expect(sizes).toEqual([24]);
+    });
+
+    it('should hide the selector when asked', () => {
+      setInputs({ showPageSize: false });
+
+      expect(element.querySelector('app-select')).toBeNull();
+    });
+  });
+
+  describe('infinite scroll', () => {
+    let observe: ReturnType<typeof vi.fn>;
+    let disconnect: ReturnType<typeof vi.fn>;
+    let notify: (isIntersecting: boolean) => void;
+
+    beforeEach(() => {
+      observe = vi.fn();
+      disconnect = vi.fn();
+      vi.stubGlobal(
+        'IntersectionObserver',
+        class {
+          constructor(callback: (entries: Partial<IntersectionObserverEntry>[]) => void) {
+            notify = (isIntersecting) => callback([{ isIntersecting }]);
+          }
+          observe = observe;
+          disconnect = disconnect;
+        }
+      );
+    });
+
+    it('should request the next page when the end of the list is reached', () => {
+      const loadMore = vi.fn();
+      component.loadMore.subscribe(loadMore);
+      setInputs({ mode: 'infinite' });
+
+      expect(observe).toHaveBeenCalledWith(element.querySelector('.pagination__sentinel'));
+      notify(false);
+      expect(loadMore).not.toHaveBeenCalled();
+
+      notify(true);
+      expect(loadMore).toHaveBeenCalledTimes(1);
+      expect(element.querySelector('.pagination__pages')).toBeNull();
+    });
+
+    it('should check again after each loaded page', () => {
+      setInputs({ mode: 'infinite' });
+      setInputs({ page: 2 });
+
+      expect(disconnect).toHaveBeenCalledTimes(1);
+      expect(observe).toHaveBeenCalledTimes(2);
+    });
+
+    it('should summarize every loaded item', () => {
+      setInputs({ mode: 'infinite', page: 2 });
+
+      expect(component.range()).toEqual({ from: 1, to: 24 });
+    });
+
+    it('should wait while a page is loading', () => {
+      const loadMore = vi.fn();
+      component.loadMore.subscribe(loadMore);
+      setInputs({ mode: 'infinite', loading: true });
+
+      notify(true);
+
+      expect(loadMore).not.toHaveBeenCalled();
+    });
+
+    it('should stop observing once every page is loaded', () => {
+      setInputs({ mode: 'infinite' });
+      setInputs({ page: 3 });
+
+      expect(disconnect).toHaveBeenCalled();
+      expect(element.querySelector('.pagination__sentinel')).toBeNull();
+      expect(element.querySelector('app-button')).toBeNull();
+    });
+
+    it('should offer a button for keyboard users', () => {
+      const loadMore = vi.fn();
+      component.loadMore.subscribe(loadMore);
+      setInputs({ mode: 'infinite', itemLabel: 'projects' });
+
+      button('Load more projects').click();
+
+      expect(loadMore).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { PAGINATION_CONFIG } from '@shared/constants';
+import type { Meta, StoryObj } from '@storybook/angular';
+
+import { PaginationComponent } from './pagination.component';
+
+const meta: Meta<PaginationComponent> = {
+  title: 'Shared/Pagination',
+  component: PaginationComponent,
+  tags: ['autodocs'],
+  argTypes: {
+    page: {
+      control: { type: 'number', min: 1 },
+      description: 'Current page, starting at 1',
+    },
+    total: {
+      control: { type: 'number', min: 0 },
+      description: 'Total number of items across all pages',
+    },
+    pageSize: {
+      control: 'select',
+      options: PAGINATION_CONFIG.PAGE_SIZE_OPTIONS,
+      description: 'Items per page',
+      table: { defaultValue: { summary: String(PAGINATION_CONFIG.DEFAULT_PAGE_SIZE) } },
+    },
+    mode: {
+      control: 'radio',
+      options: ['pages', 'infinite'],
+      description: 'Page buttons or infinite scroll',
+      table: { type: { summary: 'PaginationMode' }, defaultValue: { summary: 'pages' } },
+    },
+    maxPageButtons: {
+      control: { type: 'number', min: 5, max: 11 },
+      description: 'Most entries in the list of page buttons',
+      table: { defaultValue: { summary: '7' } },
+    },
+    showPageSize: {
+      control: 'boolean',
+      description: 'Whether to show the page size selector',
+      table: { defaultValue: { summary: 'true' } },
+    },
+    loading: {
+      control: 'boolean',
+      description: 'Whether the next page is being loaded',
+      table: { defaultValue: { summary: 'false' } },
+    },
+  },
+  parameters: {
+    docs: {
+      description: {
+        component:
+          'Accessible page navigation with a page size selector, or infinite scroll with a "Load more" fallback. Stateless: bind it to a store.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<PaginationComponent>;
+
+export const Default: Story = {
+  args: { page: 1, total: 40, pageSize: 12, itemLabel: 'projects' },
+};
+
+export const ManyPages: Story = {
+  args: { page: 10, total: 480, pageSize: 24, itemLabel: 'projects' },
+};
+
+export const WithoutPageSize: Story = {
+  args: { page: 2, total: 30, pageSize: 6, showPageSize: false },
+};
+
+export const InfiniteScroll: Story = {
+  args: {
+    mode: 'infinite',
+    page: 1,
+    total: 40,
+    pageSize: 12,
+    showPageSize: false,
+    itemLabel: 'case studies',
+  },
+};
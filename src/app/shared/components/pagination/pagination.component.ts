@@ -0,0 +1,270 @@
+import type { ElementRef } from '@angular/core';
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  effect,
+  input,
+  output,
+  viewChild,
+} from '@angular/core';
+
+import { PAGINATION_CONFIG } from '@shared/constants';
+
+import { ButtonComponent } from '../button/button.component';
+import { IconComponent } from '../icon/icon.component';
+import type { SelectOption } from '../select/select.component';
+import { SelectComponent } from '../select/select.component';
+
+/**
+ * How further items are reached
+ * - pages: Previous/next and numbered page buttons
+ * - infinite: Next page is requested when the end of the list scrolls into view
+ */
+export type PaginationMode = 'pages' | 'infinite';
+
+/**
+ * Entry in the list of page buttons; `page` is null for an ellipsis
+ */
+export interface PaginationItem {
+  key: string;
+  page: number | null;
+}
+
+/** Distance below the viewport at which infinite scroll requests the next page */
+const INFINITE_SCROLL_MARGIN = '200px';
+
+/**
+ * Accessible pagination with a page size selector and optional infinite scroll.
+ *
+ * @remarks
+ * - Stateless: `page`, `pageSize` and `total` come from the parent (usually a
+ *   store) and changes are emitted through `pageChange`, `pageSizeChange`
+ *   and `loadMore`
+ * - Page buttons are labelled "Page n" and the current one has
+ *   `aria-current="page"`; long ranges are shortened with ellipses
+ * - The "Showing x–y of z" summary is announced politely as it changes
+ * - In `infinite` mode an `IntersectionObserver` emits `loadMore` when the
+ *   end of the list approaches; the "Load more" button remains for keyboard
+ *   users and browsers without `IntersectionObserver`
+ *
+ * @example
+ * ```html
+ * <app-pagination
+ *   [page]="store.page()"
+ *   [pageSize]="store.pageSize()"
+ *   [total]="store.total()"
+ *   itemLabel="projects"
+ *   (pageChange)="store.setPage($event)"
+ *   (pageSizeChange)="store.setPageSize($event)"
+ * />
+ *
+ * <!-- Infinite scroll, placed after a list of store.loadedProjects() -->
+ * <app-pagination
+ *   mode="infinite"
+ *   [page]="store.page()"
+ *   [pageSize]="store.pageSize()"
+ *   [total]="store.total()"
+ *   [showPageSize]="false"
+ *   (loadMore)="store.loadMore()"
+ * />
+ * ```
+ */
+@Component({
+  selector: 'app-pagination',
+  standalone: true,
+  imports: [ButtonComponent, IconComponent, SelectComponent],
+  templateUrl: './pagination.component.html',
+  styleUrl: './pagination.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PaginationComponent {
+  /**
+   * Current page, starting at 1 (in `infinite` mode: the last loaded page)
+   */
+  readonly page = input.required<number>();
+
+  /**
+   * Total number of items across all pages
+   */
+  readonly total = input.required<number>();
+
+  /**
+   * Items per page
+   */
+  readonly pageSize = input<number>(PAGINATION_CONFIG.DEFAULT_PAGE_SIZE);
+
+  /**
+   * Page sizes offered by the size selector
+   */
+  readonly pageSizeOptions = input<readonly number[]>(PAGINATION_CONFIG.PAGE_SIZE_OPTIONS);
+
+  /**
+   * Whether to show the page size selector
+   */
+  readonly showPageSize = input<boolean>(true);
+
+  /**
+   * Page buttons or infinite scroll
+   */
+  readonly mode = input<PaginationMode>('pages');
+
+  /**
+   * Most entries in the list of page buttons, including first, last and ellipses (minimum 5)
+   */
+  readonly maxPageButtons = input<number>(7);
+
+  /**
+   * Whether the next page is being loaded; infinite scroll waits while true
+   */
+  readonly loading = input<boolean>(false);
+
+  /**
+   * Name of the items in the summary, e.g. "projects"
+   */
+  readonly itemLabel = input<string>('items');
+
+  /**
+   * ARIA label of the navigation landmark
+   */
+  readonly ariaLabel = input<string>('Pagination');
+
+  /**
+   * Emitted with the page to show
+   */
+  readonly pageChange = output<number>();
+
+  /**
+   * Emitted with the selected page size
+   */
+  readonly pageSizeChange = output<number>();
+
+  /**
+   * Emitted when infinite scroll needs the next page
+   */
+  readonly loadMore = output<void>();
+
+  /**
+   * Element at the end of the list watched by infinite scroll
+   */
+  readonly sentinel = viewChild<ElementRef<HTMLElement>>('sentinel');
+
+  /**
+   * Number of pages (at least one)
+   */
+  readonly pageCount = computed(() => Math.max(1, Math.ceil(this.total() / this.pageSize())));
+
+  /**
+   * Whether pages after the current one exist
+   */
+  readonly hasMore = computed(() => this.page() < this.pageCount());
+
+  /**
+   * Range of items shown, 1-based (all loaded items in `infinite` mode)
+   */
+  readonly range = computed(() => {
+    const total = this.total();
+    const first = this.mode() === 'infinite' ? 0 : (this.page() - 1) * this.pageSize();
+    return {
+      from: total === 0 ? 0 : first + 1,
+      to: Math.min(this.page() * this.pageSize(), total),
+    };
+  });
+
+  /**
+   * Page buttons to show, with ellipses for skipped ranges
+   */
+  readonly pageItems = computed(() =>
+    this._getPageItems(this.page(), this.pageCount(), Math.max(5, this.maxPageButtons()))
+  );
+
+  /**
+   * Options of the page size selector
+   */
+  readonly sizeOptions = computed<SelectOption<number>[]>(() =>
+    this.pageSizeOptions().map((size) => ({ label: `${size} per page`, value: size }))
+  );
+
+  constructor() {
+    effect((onCleanup) => {
+      const sentinel = this.sentinel()?.nativeElement;
+      // Observe again after each page and load, so a list that still ends in view keeps loading
+      this.page();
+      this.loading();
+      if (!sentinel || typeof IntersectionObserver === 'undefined') {
+        return;
+      }
+
+      const observer = new IntersectionObserver(
+        (entries) => {
+          if (entries.some((entry) => entry.isIntersecting)) {
+            this.requestMore();
+          }
+        },
+        { rootMargin: `0px 0px ${INFINITE_SCROLL_MARGIN} 0px` }
+      );
+      observer.observe(sentinel);
+      onCleanup(() => observer.disconnect());
+    });
+  }
+
+  /**
+   * Emits `pageChange` for another valid page
+   */
+  goTo(page: number): void {
+    if (page >= 1 && page <= this.pageCount() && page !== this.page()) {
+      this.pageChange.emit(page);
+    }
+  }
+
+  /**
+   * Emits `loadMore` unless the last page is shown or a page is loading
+   */
+  requestMore(): void {
+    if (this.hasMore() && !this.loading()) {
+      this.loadMore.emit();
+    }
+  }
+
+  /**
+   * Emits `pageSizeChange` for a newly selected size
+   */
+  onPageSizeChange(value: number | number[] | null): void {
+    if (typeof value === 'number' && value !== this.pageSize()) {
+      this.pageSizeChange.emit(value);
+    }
+  }
+
+  /**
+   * Lists the first and last page, the current page and its neighbours,
+   * replacing skipped ranges with ellipses so the list never exceeds `max` entries
+   */
+  private _getPageItems(current: number, count: number, max: number): PaginationItem[] {
+    const pages = (from: number, to: number) =>
+      Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    const toItems = (entries: (number | 'start' | 'end')[]) =>
+      entries.map((entry) =>
+        typeof entry === 'number'
+          ? { key: String(entry), page: entry }
+          : { key: `ellipsis-${entry}`, page: null }
+      );
+
+    if (count <= max) {
+      return toItems(pages(1, count));
+    }
+
+    // Entries between the first and last page, and pages around the current one
+    const inner = max - 2;
+    const around = inner - 2;
+    const start = current - Math.floor((around - 1) / 2);
+    const end = start + around - 1;
+
+    if (start <= 3) {
+      return toItems([...pages(1, inner), 'end', count]);
+    }
+    if (end >= count - 2) {
+      return toItems([1, 'start', ...pages(count - inner + 1, count)]);
+    }
+    return toItems([1, 'start', ...pages(start, end), 'end', count]);
+  }
+}
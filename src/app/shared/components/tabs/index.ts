@@ -1 +1,2 @@
+export * from './tab.component';
 export * from './tabs.component';
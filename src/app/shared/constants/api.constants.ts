@@ -9,8 +9,12 @@
 export const API_CONFIG = {
   /** Base URL for local mock data (Mockend pattern) */
   MOCK_DATA_BASE: '/assets/data',
+  /** Base URL for the in-memory mock REST API (served by mockBackendInterceptor) */
+  MOCK_API_BASE: '/api',
   /** Base URL for i18n translations */
   I18N_BASE: '/assets/i18n',
+  /** Base URL for the chatbot knowledge base */
+  CHATBOT_BASE: '/assets/chatbot',
   /** GitHub GraphQL API endpoint (for future GitHub integration) */
   GITHUB_GRAPHQL: 'https://api.github.com/graphql',
   /** GitHub REST API endpoint (for future GitHub integration) */
@@ -22,8 +26,10 @@ export const API_CONFIG = {
  * Used for fetching local JSON files during development
  */
 export const MOCK_ENDPOINTS = {
-  /** Projects/case studies data */
+  /** Projects data */
   PROJECTS: `${API_CONFIG.MOCK_DATA_BASE}/projects.json`,
+  /** Case studies data */
+  CASE_STUDIES: `${API_CONFIG.MOCK_DATA_BASE}/case-studies.json`,
   /** Blog posts data (placeholder for future) */
   BLOG_POSTS: `${API_CONFIG.MOCK_DATA_BASE}/blog-posts.json`,
   /** Skills/technologies data (placeholder for future) */
@@ -31,8 +37,36 @@ export const MOCK_ENDPOINTS = {
 } as const;
 
 /**
- * GitHub API endpoints (placeholders for Phase 4)
- * Will be used for fetching real-time GitHub data
+ * Chatbot knowledge base assets
+ * See `docs/templates/CHATBOT_ASSETS_README.md` for the file formats
+ */
+export const CHATBOT_ENDPOINTS = {
+  /** Chunked career knowledge base */
+  CORPUS: `${API_CONFIG.CHATBOT_BASE}/corpus.json`,
+  /** Precomputed chunk embeddings */
+  EMBEDDINGS: `${API_CONFIG.CHATBOT_BASE}/embeddings.json`,
+} as const;
+
+/**
+ * Mock REST API endpoints (Mockend pattern)
+ * Answered in-memory by `mockBackendInterceptor`; no server is involved
+ */
+export const MOCK_API_ENDPOINTS = {
+  /** Project collection (supports search, tag, sort, page, pageSize) */
+  PROJECTS: `${API_CONFIG.MOCK_API_BASE}/projects`,
+  /** Single project by slug */
+  PROJECT: (slug: string) => `${API_CONFIG.MOCK_API_BASE}/projects/${slug}`,
+  /** Case study collection (supports search, tag, sort, page, pageSize) */
+  CASE_STUDIES: `${API_CONFIG.MOCK_API_BASE}/case-studies`,
+  /** Single case study by slug */
+  CASE_STUDY: (slug: string) => `${API_CONFIG.MOCK_API_BASE}/case-studies/${slug}`,
+  /** Contact form submissions */
+  CONTACT: `${API_CONFIG.MOCK_API_BASE}/contact`,
+} as const;
+
+/**
+ * GitHub REST API endpoints
+ * Used by `GitHubService` for profile and repository data
  */
 export const GITHUB_ENDPOINTS = {
   /** User profile endpoint */
@@ -44,8 +78,8 @@ export const GITHUB_ENDPOINTS = {
 } as const;
 
 /**
- * GitHub GraphQL queries (placeholders for Phase 4)
- * Used for fetching contribution data and statistics
+ * GitHub GraphQL queries
+ * Used by `GitHubService` for contribution data and statistics
  */
 export const GITHUB_GRAPHQL_QUERIES = {
   /** Query for user contribution calendar */
@@ -100,6 +134,26 @@ export const HTTP_HEADERS = {
   CONTENT_TYPE_JSON: { 'Content-Type': 'application/json' },
   /** GitHub API authorization header (use with token) */
   GITHUB_AUTH: (token: string) => ({ Authorization: `Bearer ${token}` }),
+  /** Media type recommended by the GitHub REST API */
+  GITHUB_ACCEPT: { Accept: 'application/vnd.github+json' },
+} as const;
+
+/**
+ * GitHub API rate limit handling
+ */
+export const GITHUB_RATE_LIMIT = {
+  /** Requests kept in reserve; calls are refused below this until the window resets */
+  RESERVE: 5,
+  /** Response headers describing the current rate limit window */
+  HEADERS: {
+    LIMIT: 'X-RateLimit-Limit',
+    REMAINING: 'X-RateLimit-Remaining',
+    USED: 'X-RateLimit-Used',
+    /** Window reset time in UTC epoch seconds */
+    RESET: 'X-RateLimit-Reset',
+    /** Rate limit bucket, e.g. `core` or `graphql` */
+    RESOURCE: 'X-RateLimit-Resource',
+  },
 } as const;
 
 /**
@@ -118,10 +172,16 @@ export const API_TIMEOUTS = {
  * API retry configuration
  */
 export const API_RETRY = {
-  /** Maximum number of retry attempts */
+  /** Maximum number of attempts per request, including the first */
   MAX_ATTEMPTS: 3,
   /** Delay between retries (milliseconds) */
   RETRY_DELAY: 1000,
   /** HTTP status codes that should trigger a retry */
   RETRY_STATUS_CODES: [408, 429, 500, 502, 503, 504],
+  /** Upper bound for a single backoff delay (milliseconds) */
+  MAX_DELAY: 10000,
+  /** Random jitter added to each backoff delay, as a fraction of it */
+  JITTER_RATIO: 0.25,
+  /** HTTP methods that are safe to retry (idempotent) */
+  RETRY_METHODS: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
 } as const;
@@ -121,6 +121,8 @@ export const KEYBOARD_KEYS = {
   ARROW_RIGHT: 'ArrowRight',
   HOME: 'Home',
   END: 'End',
+  PAGE_UP: 'PageUp',
+  PAGE_DOWN: 'PageDown',
 } as const;
 
 /**
@@ -151,6 +153,7 @@ export const LABELS = {
     NO_RESULTS: 'No results found',
     NO_DATA: 'No data available',
     NO_PROJECTS: 'No case studies available yet.',
+    NO_CASE_STUDIES: 'No case studies available yet.',
     NO_SEARCH_RESULTS: 'No projects match your search.',
   },
   /** Loading messages */
@@ -35,6 +35,32 @@ export const LATENCY_CONFIG = {
   MAX_DELAY: 1000,
   /** Whether latency simulation is enabled */
   ENABLED: true,
+  /** Query param that selects a network profile at runtime (e.g. `?network=slow3g`, `?network=off`) */
+  PROFILE_QUERY_PARAM: 'network',
+  /** Query param that seeds the simulation's random number generator (e.g. `?networkSeed=42`) */
+  SEED_QUERY_PARAM: 'networkSeed',
+} as const;
+
+/**
+ * Simulated network profiles used by `latencyInterceptor`
+ * Error statuses are picked at random when a request fails; status 0 is a network error
+ */
+export const NETWORK_PROFILES = {
+  /** Random delay between LATENCY_CONFIG.MIN_DELAY and MAX_DELAY, no failures */
+  default: {
+    minDelay: LATENCY_CONFIG.MIN_DELAY,
+    maxDelay: LATENCY_CONFIG.MAX_DELAY,
+    errorRate: 0,
+    errorStatuses: [],
+  },
+  /** Near-instant responses */
+  fast: { minDelay: 0, maxDelay: 50, errorRate: 0, errorStatuses: [] },
+  /** Slow 3G: long delays, occasional timeouts */
+  slow3g: { minDelay: 2000, maxDelay: 4000, errorRate: 0.05, errorStatuses: [408, 504] },
+  /** Flaky connection: variable delays and frequent server errors */
+  flaky: { minDelay: 200, maxDelay: 1500, errorRate: 0.3, errorStatuses: [500, 502, 503, 504] },
+  /** Offline: every request fails immediately with a network error */
+  offline: { minDelay: 0, maxDelay: 0, errorRate: 1, errorStatuses: [0] },
 } as const;
 
 /**
@@ -49,6 +75,26 @@ export const CACHE_CONFIG = {
   STATIC_CONTENT_TTL: 24 * 60 * 60 * 1000,
   /** Maximum cache size (number of entries) */
   MAX_SIZE: 100,
+  /** Maximum bytes used by persisted cache entries in localStorage (1 MB) */
+  STORAGE_BUDGET_BYTES: 1024 * 1024,
+  /** How long expired HTTP responses may be served while revalidating (1 hour) */
+  STALE_WHILE_REVALIDATE_TTL: 60 * 60 * 1000,
+} as const;
+
+/**
+ * Cache tags for group invalidation
+ */
+export const CACHE_TAGS = {
+  /** All content loaded from the content files */
+  CONTENT: 'content',
+  /** Project data */
+  PROJECTS: 'projects',
+  /** Case study data */
+  CASE_STUDIES: 'case-studies',
+  /** GitHub API data */
+  GITHUB: 'github',
+  /** Data belonging to a single project */
+  project: (slug: string) => `project:${slug}`,
 } as const;
 
 /**
@@ -63,6 +109,42 @@ export const PAGINATION_CONFIG = {
   MAX_PAGE_SIZE: 100,
 } as const;
 
+/**
+ * Career chatbot configuration
+ */
+export const CHATBOT_CONFIG = {
+  /** Number of corpus chunks an answer is grounded in */
+  TOP_K: 3,
+  /** Chunks scoring below this share of the best match are not cited */
+  MIN_RELATIVE_SCORE: 0.35,
+  /** Share of a chunk's score taken from embedding similarity, the rest from BM25 */
+  SEMANTIC_WEIGHT: 0.5,
+  /** Embedding matches below this cosine similarity are ignored */
+  MIN_SIMILARITY: 0.2,
+  /** Sentences quoted per cited chunk */
+  SENTENCES_PER_SOURCE: 2,
+  /** Words revealed per streaming step */
+  STREAM_WORDS_PER_TICK: 3,
+  /** Delay between streaming steps (milliseconds) */
+  STREAM_INTERVAL: 40,
+  /** Messages kept in the conversation history */
+  MAX_HISTORY: 50,
+  /** Earlier messages sent to the language model with a question */
+  PROMPT_HISTORY: 6,
+  /** Length of the vectors produced by the template embedding */
+  EMBEDDING_DIMENSIONS: 384,
+} as const;
+
+/**
+ * Command palette (Ctrl/Cmd+K) configuration
+ */
+export const COMMAND_PALETTE_CONFIG = {
+  /** Results shown per group (pages, projects, case studies, actions) */
+  MAX_RESULTS_PER_GROUP: 5,
+  /** Recent searches remembered */
+  MAX_RECENT_SEARCHES: 5,
+} as const;
+
 /**
  * Animation and transition durations (milliseconds)
  */
@@ -105,6 +187,10 @@ export const STORAGE_KEYS = {
   CACHE_PREFIX: 'moodyjw-cache-',
   /** User preferences */
   USER_PREFERENCES: 'moodyjw-preferences',
+  /** Chatbot conversation (session storage) */
+  CHAT_HISTORY: 'moodyjw-chat-history',
+  /** Command palette recent searches */
+  RECENT_SEARCHES: 'moodyjw-recent-searches',
 } as const;
 
 /**
@@ -202,10 +288,11 @@ export const PERFORMANCE_BUDGETS = {
 
 /**
  * Feature flags for enabling/disabling features
+ *
+ * Per-build flags such as `enableGitHubIntegration` live in
+ * `environment.features` and gate routes through `featureFlagGuard`.
  */
 export const FEATURE_FLAGS = {
-  /** Enable GitHub integration (Phase 4) */
-  ENABLE_GITHUB_INTEGRATION: false,
   /** Enable dark mode toggle */
   ENABLE_DARK_MODE: true,
   /** Enable internationalization */
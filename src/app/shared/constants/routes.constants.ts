@@ -28,6 +28,8 @@ export const ROUTES = {
   ABOUT: 'about',
   /** Contact page route */
   CONTACT: 'contact',
+  /** GitHub stats page route (requires `enableGitHubIntegration`) */
+  GITHUB: 'github',
 } as const;
 
 /**
@@ -46,6 +48,7 @@ export const ROUTE_PATHS = {
   CASE_STUDIES: '/case-studies',
   ABOUT: '/about',
   CONTACT: '/contact',
+  GITHUB: '/github',
 } as const;
 
 /**
@@ -1,4 +1,6 @@
+import { SecurityContext } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
+import { DomSanitizer } from '@angular/platform-browser';
 
 import { beforeEach, describe, expect, it } from 'vitest';
 
@@ -307,4 +309,38 @@ describe('HighlightPipe', () => {
       expect(result).toBeTruthy();
     });
   });
+
+  describe('Match Ranges', () => {
+    const html = (result: ReturnType<HighlightPipe['transform']>) =>
+      TestBed.inject(DomSanitizer).sanitize(SecurityContext.HTML, result);
+
+    it('should highlight the given ranges', () => {
+      const result = pipe.transform('Angular Dashboard', [
+        { start: 8, end: 12 },
+        { start: 0, end: 7 },
+      ]);
+
+      expect(html(result)).toBe('<mark>Angular</mark> <mark>Dash</mark>board');
+    });
+
+    it('should merge overlapping ranges and ignore ranges outside the text', () => {
+      const result = pipe.transform('TypeScript', [
+        { start: 0, end: 4 },
+        { start: 2, end: 10 },
+        { start: 12, end: 20 },
+      ]);
+
+      expect(html(result)).toBe('<mark>TypeScript</mark>');
+    });
+
+    it('should escape HTML around and inside ranges', () => {
+      const result = pipe.transform('<b>Node</b>', [{ start: 3, end: 7 }]);
+
+      expect(html(result)).toBe('&lt;b&gt;<mark>Node</mark>&lt;/b&gt;');
+    });
+
+    it('should return escaped text without ranges', () => {
+      expect(pipe.transform('a < b', [])).toBe('a &lt; b');
+    });
+  });
 });
@@ -3,6 +3,14 @@ import { DOCUMENT, inject, Pipe } from '@angular/core';
 import type { SafeHtml } from '@angular/platform-browser';
 import { DomSanitizer } from '@angular/platform-browser';
 
+/**
+ * Character range to highlight, e.g. a search match (`end` is exclusive)
+ */
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
 /**
  * HighlightPipe
  *
@@ -54,6 +62,14 @@ import { DomSanitizer } from '@angular/platform-browser';
  * }
  * ```
  *
+ * ### Match Ranges
+ * ```html
+ * <!-- Ranges found by a SearchIndex, e.g. from ProjectStore.matchRanges -->
+ * <h3 [innerHTML]="project.title | highlight: store.matchRanges()(project.id, 'title')"></h3>
+ * <!-- Input: "Angular Dashboard" with [{ start: 0, end: 7 }] -->
+ * <!-- Output: "<mark>Angular</mark> Dashboard" -->
+ * ```
+ *
  * ## Styling
  *
  * Style the highlighted text using CSS:
@@ -124,8 +140,8 @@ export class HighlightPipe implements PipeTransform {
    * Highlights search terms in text by wrapping them in <mark> tags.
    *
    * @param value - The text to search and highlight
-   * @param searchTerm - The term to highlight
-   * @param caseSensitive - Whether to match case (default: false)
+   * @param searchTerm - The term to highlight, or the character ranges to highlight
+   * @param caseSensitive - Whether to match case (default: false; ignored for ranges)
    * @returns SafeHtml with highlighted terms or empty string for null/undefined
    *
    * @example
@@ -137,13 +153,17 @@ export class HighlightPipe implements PipeTransform {
    */
   transform(
     value: string | null | undefined,
-    searchTerm: string | null | undefined,
+    searchTerm: string | readonly HighlightRange[] | null | undefined,
     caseSensitive = false
   ): SafeHtml | string {
     if (!value) {
       return '';
     }
 
+    if (searchTerm && typeof searchTerm !== 'string') {
+      return this.highlightRanges(value, searchTerm);
+    }
+
     if (!searchTerm || searchTerm.trim() === '') {
       // No search term, return escaped text
       return this.escapeHtml(value);
@@ -166,6 +186,45 @@ export class HighlightPipe implements PipeTransform {
     return this.sanitizer.bypassSecurityTrustHtml(highlighted);
   }
 
+  /**
+   * Wraps character ranges in <mark> tags, merging ranges that overlap or touch.
+   *
+   * @param text - The text to highlight
+   * @param ranges - Ranges to highlight, in any order; parts outside the text are ignored
+   * @returns SafeHtml with highlighted ranges, or escaped text when no range applies
+   */
+  private highlightRanges(text: string, ranges: readonly HighlightRange[]): SafeHtml | string {
+    const merged: HighlightRange[] = [];
+    for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+      const start = Math.max(0, range.start);
+      const end = Math.min(text.length, range.end);
+      const last = merged[merged.length - 1];
+      if (start >= end) {
+        continue;
+      }
+      if (last && start <= last.end) {
+        last.end = Math.max(last.end, end);
+      } else {
+        merged.push({ start, end });
+      }
+    }
+
+    if (merged.length === 0) {
+      return this.escapeHtml(text);
+    }
+
+    let html = '';
+    let position = 0;
+    for (const { start, end } of merged) {
+      html += this.escapeHtml(text.slice(position, start));
+      html += `<mark>${this.escapeHtml(text.slice(start, end))}</mark>`;
+      position = end;
+    }
+    html += this.escapeHtml(text.slice(position));
+
+    return this.sanitizer.bypassSecurityTrustHtml(html);
+  }
+
   /**
    * Escapes HTML special characters to prevent XSS.
    *
@@ -0,0 +1,59 @@
+import { InjectionToken } from '@angular/core';
+
+import { IndexedDbCacheAdapter } from './indexed-db-cache.adapter';
+
+/**
+ * Cache entry with value and expiration time
+ */
+export interface CacheEntry<T> {
+  /** Cached value */
+  value: T;
+  /** Expiration timestamp (ms since epoch) */
+  expiresAt: number;
+  /** Timestamp when the entry was written (ms since epoch) */
+  storedAt: number;
+  /** Tags used for group invalidation */
+  tags?: string[];
+  /**
+   * Written to localStorage by `set()` for synchronous `get()`; every other
+   * `cache_` entry moves into the adapter once one is available
+   */
+  syncTier?: boolean;
+}
+
+/**
+ * Asynchronous persistent storage used by `CacheService.getAsync`/`setAsync`
+ *
+ * Implementations store entries as-is; expiry is handled by `CacheService`.
+ *
+ * @example
+ * ```typescript
+ * providers: [{ provide: CACHE_STORAGE_ADAPTER, useValue: new FakeCacheStorageAdapter() }]
+ * ```
+ */
+export interface CacheStorageAdapter {
+  /** Read an entry, or null if absent */
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  /** Write (or replace) an entry */
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  /** Remove an entry */
+  delete(key: string): Promise<void>;
+  /** Remove all entries */
+  clear(): Promise<void>;
+  /** List stored keys */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Persistent storage adapter for `CacheService`
+ *
+ * Defaults to IndexedDB when the browser supports it, otherwise `null`
+ * (persistence then falls back to localStorage).
+ */
+export const CACHE_STORAGE_ADAPTER = new InjectionToken<CacheStorageAdapter | null>(
+  'CACHE_STORAGE_ADAPTER',
+  {
+    providedIn: 'root',
+    factory: () => (IndexedDbCacheAdapter.isSupported() ? new IndexedDbCacheAdapter() : null),
+  }
+);
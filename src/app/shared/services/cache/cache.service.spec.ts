@@ -1,8 +1,12 @@
 /* eslint-disable no-undef */
 import { TestBed } from '@angular/core/testing';
 
-import type { CacheOptions } from './cache.service';
+import { CACHE_CONFIG } from '@shared/constants';
+
+import type { CacheChange, CacheOptions } from './cache.service';
 import { CacheService } from './cache.service';
+import { CACHE_STORAGE_ADAPTER } from './cache-storage.adapter';
+import { FakeCacheStorageAdapter } from './fake-cache-storage.adapter';
 
 describe('CacheService', () => {
   let service: CacheService;
@@ -420,11 +424,9 @@ describe('CacheService', () => {
 
     it('should handle localStorage errors gracefully', () => {
       // Mock localStorage to throw error
-      const setItemSpy = vi
-        .spyOn(Storage.prototype, 'setItem')
-        .mockImplementation(() => {
-          throw new Error('Quota exceeded');
-        });
+      const setItemSpy = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('Quota exceeded');
+      });
 
       // Should not throw
       expect(() => {
@@ -482,6 +484,414 @@ describe('CacheService', () => {
     });
   });
 
+  describe('LRU Eviction', () => {
+    it('should default to CACHE_CONFIG.MAX_SIZE entries', () => {
+      expect(service.getLimits().maxEntries).toBe(CACHE_CONFIG.MAX_SIZE);
+    });
+
+    it('should evict the least recently used entry when full', () => {
+      service.setLimits({ maxEntries: 2 });
+
+      service.set('a', 1);
+      service.set('b', 2);
+      service.get('a'); // 'b' is now least recently used
+      service.set('c', 3);
+
+      expect(service.keys()).toEqual(['a', 'c']);
+      expect(service.getStats().evictions).toBe(1);
+      expect(service.evictions()).toBe(1);
+    });
+
+    it('should evict expired entries before live ones', () => {
+      service.setLimits({ maxEntries: 2 });
+
+      service.set('short', 1, { ttl: 100 });
+      service.set('long', 2);
+      vi.advanceTimersByTime(200);
+      service.set('new', 3);
+
+      expect(service.keys()).toEqual(['long', 'new']);
+      expect(service.getStats().evictions).toBe(0);
+    });
+
+    it('should not evict when overwriting an existing key', () => {
+      service.setLimits({ maxEntries: 2 });
+
+      service.set('a', 1);
+      service.set('b', 2);
+      service.set('a', 3);
+
+      expect(service.size()).toBe(2);
+      expect(service.getStats().evictions).toBe(0);
+    });
+
+    it('should evict immediately when the limit shrinks', () => {
+      ['a', 'b', 'c'].forEach((key) => service.set(key, key));
+
+      service.setLimits({ maxEntries: 1 });
+
+      expect(service.keys()).toEqual(['c']);
+      expect(service.getStats().evictions).toBe(2);
+    });
+
+    it('should reset eviction counts with resetStats()', () => {
+      service.setLimits({ maxEntries: 1 });
+      service.set('a', 1);
+      service.set('b', 2);
+
+      service.resetStats();
+
+      expect(service.getStats().evictions).toBe(0);
+    });
+  });
+
+  describe('Storage Budget', () => {
+    const value = 'x'.repeat(100);
+
+    function entryBytes(key: string): number {
+      const storageKey = `cache_${key}`;
+      return (storageKey.length + localStorage.getItem(storageKey)!.length) * 2;
+    }
+
+    it('should report bytes used by persisted entries', () => {
+      service.set('a', value, { useLocalStorage: true });
+
+      expect(service.getStats().storageBytes).toBe(entryBytes('a'));
+    });
+
+    it('should evict the oldest persisted entries to stay within budget', () => {
+      service.set('a', value, { useLocalStorage: true });
+      const bytes = entryBytes('a');
+      service.setLimits({ maxStorageBytes: bytes * 2 });
+
+      vi.advanceTimersByTime(1);
+      service.set('b', value, { useLocalStorage: true });
+      vi.advanceTimersByTime(1);
+      service.set('c', value, { useLocalStorage: true });
+
+      expect(localStorage.getItem('cache_a')).toBeNull();
+      expect(localStorage.getItem('cache_b')).toBeTruthy();
+      expect(localStorage.getItem('cache_c')).toBeTruthy();
+      expect(service.getStats().storageEvictions).toBe(1);
+    });
+
+    it('should not count a replaced entry towards the budget', () => {
+      service.set('a', value, { useLocalStorage: true });
+      service.setLimits({ maxStorageBytes: entryBytes('a') });
+
+      service.set('a', value, { useLocalStorage: true });
+
+      expect(localStorage.getItem('cache_a')).toBeTruthy();
+      expect(service.getStats().storageEvictions).toBe(0);
+    });
+
+    it('should keep entries larger than the budget in memory only', () => {
+      service.setLimits({ maxStorageBytes: 10 });
+
+      service.set('big', value, { useLocalStorage: true });
+
+      expect(localStorage.getItem('cache_big')).toBeNull();
+      expect(service.get('big')).toBe(value);
+    });
+
+    it('should evict the oldest entries and retry on QuotaExceededError', () => {
+      service.set('old', value, { useLocalStorage: true });
+      vi.advanceTimersByTime(1);
+
+      const setItem = Storage.prototype.setItem;
+      let failures = 1;
+      vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (
+        this: Storage,
+        key: string,
+        data: string
+      ) {
+        if (failures-- > 0) {
+          throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        }
+        setItem.call(this, key, data);
+      });
+
+      service.set('new', value, { useLocalStorage: true });
+
+      expect(localStorage.getItem('cache_old')).toBeNull();
+      expect(localStorage.getItem('cache_new')).toBeTruthy();
+      expect(service.getStats().storageEvictions).toBe(1);
+    });
+
+    it('should give up when the quota is exceeded with nothing left to evict', () => {
+      vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      });
+
+      expect(() => service.set('key', value, { useLocalStorage: true })).not.toThrow();
+      expect(service.get('key')).toBe(value);
+    });
+
+    it('should leave unrelated localStorage keys alone', () => {
+      localStorage.setItem('theme', 'dark');
+      service.setLimits({ maxStorageBytes: 0 });
+
+      expect(localStorage.getItem('theme')).toBe('dark');
+    });
+  });
+
+  describe('Storage Adapter', () => {
+    let storage: FakeCacheStorageAdapter;
+
+    function createService(): CacheService {
+      service.stopPeriodicCleanup();
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [CacheService, { provide: CACHE_STORAGE_ADAPTER, useValue: storage }],
+      });
+      return TestBed.inject(CacheService);
+    }
+
+    beforeEach(() => {
+      storage = new FakeCacheStorageAdapter();
+    });
+
+    it('should persist values with setAsync()', async () => {
+      service = createService();
+
+      await service.setAsync('key', 'value', { ttl: 1000 });
+
+      expect(storage.entries.get('key')).toEqual(expect.objectContaining({ value: 'value' }));
+      expect(localStorage.getItem('cache_key')).toBeNull();
+      expect(service.get('key')).toBe('value');
+    });
+
+    it('should read from the adapter when memory misses', async () => {
+      service = createService();
+      await service.setAsync('key', 'value');
+      service['cache'].clear();
+
+      expect(await service.getAsync('key')).toBe('value');
+      expect(service.get('key')).toBe('value');
+      expect(service.hits()).toBe(2);
+    });
+
+    it('should drop expired adapter entries', async () => {
+      service = createService();
+      await service.setAsync('key', 'value', { ttl: 1000 });
+      service['cache'].clear();
+      vi.advanceTimersByTime(2000);
+
+      expect(await service.getAsync('key')).toBeNull();
+      expect(storage.entries.has('key')).toBe(false);
+      expect(service.misses()).toBe(1);
+    });
+
+    it('should treat adapter failures as misses', async () => {
+      service = createService();
+      storage.failWith = new Error('Storage unavailable');
+
+      await expect(service.setAsync('key', 'value')).resolves.toBeUndefined();
+      service['cache'].clear();
+
+      expect(await service.getAsync('key')).toBeNull();
+    });
+
+    it('should fall back to localStorage without an adapter', async () => {
+      await service.setAsync('key', 'value');
+      service['cache'].clear();
+
+      expect(localStorage.getItem('cache_key')).toBeTruthy();
+      expect(await service.getAsync('key')).toBe('value');
+    });
+
+    it('should migrate setAsync localStorage entries into the adapter', async () => {
+      await service.setAsync('live', 'value', { ttl: 10_000 });
+      await service.setAsync('expired', 'value', { ttl: 10 });
+      localStorage.setItem('other', 'untouched');
+      vi.advanceTimersByTime(100);
+
+      service = createService();
+      await service.migrated;
+
+      expect(storage.entries.get('live')).toEqual(expect.objectContaining({ value: 'value' }));
+      expect(storage.entries.has('expired')).toBe(false);
+      expect(localStorage.getItem('cache_live')).toBeNull();
+      expect(localStorage.getItem('cache_expired')).toBeNull();
+      expect(localStorage.getItem('other')).toBe('untouched');
+      expect(await service.getAsync('live')).toBe('value');
+    });
+
+    it('should migrate cache_ entries written before the adapter existed', async () => {
+      const entry = { value: 'value', expiresAt: Date.now() + 10_000 };
+      localStorage.setItem('cache_legacy', JSON.stringify(entry));
+
+      service = createService();
+      await service.migrated;
+
+      expect(storage.entries.get('legacy')).toEqual(entry);
+      expect(localStorage.getItem('cache_legacy')).toBeNull();
+      expect(await service.getAsync('legacy')).toBe('value');
+    });
+
+    it('should keep set() localStorage entries readable with get() after a reload', async () => {
+      service.set('key', 'value', { useLocalStorage: true, ttl: 10_000 });
+
+      service = createService();
+      await service.migrated;
+
+      expect(storage.entries.has('key')).toBe(false);
+      expect(localStorage.getItem('cache_key')).toBeTruthy();
+      expect(service.get('key')).toBe('value');
+      expect(await service.getAsync('key')).toBe('value');
+    });
+
+    it('should keep localStorage entries that fail to migrate', async () => {
+      await service.setAsync('key', 'value');
+      storage.failWith = new Error('Storage unavailable');
+
+      service = createService();
+      await service.migrated;
+
+      expect(localStorage.getItem('cache_key')).toBeTruthy();
+    });
+
+    it('should delete and clear adapter entries', async () => {
+      service = createService();
+      await service.setAsync('a', 1);
+      await service.setAsync('b', 2);
+
+      service.delete('a');
+      expect(await service.getAsync('a')).toBeNull();
+      expect(await storage.keys()).toEqual(['b']);
+
+      service.clear();
+      expect(await service.getAsync('b')).toBeNull();
+      expect(await storage.keys()).toEqual([]);
+    });
+  });
+
+  describe('Invalidation', () => {
+    beforeEach(() => {
+      service.set('github:repos', 1, { tags: ['github'] });
+      service.set('github:user', 2, { tags: ['github'] });
+      service.set('http:/assets/data/projects.json', 3, { tags: ['content', 'projects'] });
+      service.set('project:angular-portfolio', 4, {
+        tags: ['projects', 'project:angular-portfolio'],
+      });
+    });
+
+    it('should remove entries carrying a tag', () => {
+      expect(service.invalidateTag('projects')).toBe(2);
+
+      expect(service.keys()).toEqual(['github:repos', 'github:user']);
+    });
+
+    it('should remove entries carrying any of several tags', () => {
+      expect(service.invalidateTag(['github', 'content'])).toBe(3);
+
+      expect(service.keys()).toEqual(['project:angular-portfolio']);
+    });
+
+    it('should remove entries whose key matches a pattern', () => {
+      expect(service.invalidateMatching(/^github:/)).toBe(2);
+
+      expect(service.has('github:repos')).toBe(false);
+      expect(service.has('project:angular-portfolio')).toBe(true);
+    });
+
+    it('should accept a key predicate', () => {
+      expect(service.invalidateMatching((key) => key.endsWith('.json'))).toBe(1);
+
+      expect(service.size()).toBe(3);
+    });
+
+    it('should invalidate persisted localStorage entries', () => {
+      service.set('persisted', 5, { tags: ['github'], useLocalStorage: true });
+      service['cache'].clear();
+
+      expect(service.invalidateTag('github')).toBe(1);
+      expect(localStorage.getItem('cache_persisted')).toBeNull();
+    });
+
+    it('should return 0 when nothing matches', () => {
+      expect(service.invalidateTag('unknown')).toBe(0);
+      expect(service.size()).toBe(4);
+    });
+
+    it('should invalidate storage adapter entries', async () => {
+      const storage = new FakeCacheStorageAdapter();
+      service.stopPeriodicCleanup();
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [CacheService, { provide: CACHE_STORAGE_ADAPTER, useValue: storage }],
+      });
+      service = TestBed.inject(CacheService);
+
+      await service.setAsync('github:repos', 1, { tags: ['github'] });
+      await service.setAsync('projects', 2, { tags: ['projects'] });
+      service['cache'].clear();
+
+      service.invalidateTag('github');
+
+      expect(await service.getAsync('github:repos')).toBeNull();
+      expect(await service.getAsync('projects')).toBe(2);
+      expect(await storage.keys()).toEqual(['projects']);
+    });
+  });
+
+  describe('Changes', () => {
+    it('should start without a change', () => {
+      expect(service.changes()).toBeNull();
+    });
+
+    it('should publish sets with their tags', () => {
+      service.set('key', 'value', { tags: ['github'] });
+
+      expect(service.changes()).toEqual({ type: 'set', keys: ['key'], tags: ['github'] });
+    });
+
+    it('should publish deletes and clears', () => {
+      const changes: CacheChange[] = [];
+      service.changes$.subscribe((change) => changes.push(change));
+
+      service.delete('key');
+      service.clear();
+
+      expect(changes).toEqual([
+        { type: 'delete', keys: ['key'], tags: [] },
+        { type: 'clear', keys: [], tags: [] },
+      ]);
+    });
+
+    it('should publish invalidated keys and tags', () => {
+      service.set('a', 1, { tags: ['projects'] });
+      service.set('b', 2);
+
+      service.invalidateTag('projects');
+
+      expect(service.changes()).toEqual({ type: 'invalidate', keys: ['a'], tags: ['projects'] });
+    });
+
+    it('should emit every change to changes$', () => {
+      const next = vi.fn();
+      service.changes$.subscribe(next);
+
+      service.set('a', 1);
+      service.set('b', 2);
+
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it('should narrow tagInvalidations to invalidations of the given tags', () => {
+      const changes: CacheChange[] = [];
+      service.tagInvalidations(['content', 'github']).subscribe((change) => changes.push(change));
+      service.set('a', 1, { tags: ['content'] });
+
+      service.invalidateTag('projects');
+      service.invalidateMatching(/^a$/);
+      service.invalidateTag('github');
+      service.clear();
+
+      expect(changes).toEqual([{ type: 'invalidate', keys: [], tags: ['github'] }]);
+    });
+  });
+
   describe('Signal Reactivity', () => {
     it('should provide readonly signal for hits', () => {
       const hitsSignal = service.hits;
@@ -517,7 +927,7 @@ describe('CacheService', () => {
 
   describe('Periodic Cleanup', () => {
     it('should start cleanup on initialization', () => {
-      const newService = new CacheService();
+      const newService = TestBed.runInInjectionContext(() => new CacheService());
       expect(newService['cleanupIntervalId']).toBeDefined();
       newService.stopPeriodicCleanup();
     });
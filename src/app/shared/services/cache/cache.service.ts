@@ -1,15 +1,13 @@
 /* eslint-disable no-undef */
-import { Injectable, signal } from '@angular/core';
+import { inject, Injectable, signal } from '@angular/core';
 
-/**
- * Cache entry with value and expiration time
- */
-interface CacheEntry<T> {
-  /** Cached value */
-  value: T;
-  /** Expiration timestamp (ms since epoch) */
-  expiresAt: number;
-}
+import type { Observable } from 'rxjs';
+import { filter, Subject } from 'rxjs';
+
+import { CACHE_CONFIG } from '@shared/constants';
+
+import type { CacheEntry, CacheStorageAdapter } from './cache-storage.adapter';
+import { CACHE_STORAGE_ADAPTER } from './cache-storage.adapter';
 
 /**
  * Cache configuration options
@@ -21,6 +19,30 @@ export interface CacheOptions {
   useLocalStorage?: boolean;
   /** Storage key prefix for localStorage (default: 'cache_') */
   storagePrefix?: string;
+  /** Tags for group invalidation, e.g. `['github', 'project:angular-portfolio']` */
+  tags?: string[];
+}
+
+/**
+ * A change to the cache contents
+ */
+export interface CacheChange {
+  /** What happened */
+  type: 'set' | 'delete' | 'invalidate' | 'clear';
+  /** Affected keys (empty for `clear`) */
+  keys: string[];
+  /** Tags of a `set` entry, or the tags invalidated */
+  tags: string[];
+}
+
+/**
+ * Cache size limits
+ */
+export interface CacheLimits {
+  /** Maximum number of in-memory entries (default: `CACHE_CONFIG.MAX_SIZE`) */
+  maxEntries: number;
+  /** Maximum bytes used by localStorage entries (default: `CACHE_CONFIG.STORAGE_BUDGET_BYTES`) */
+  maxStorageBytes: number;
 }
 
 /**
@@ -35,11 +57,34 @@ export interface CacheStats {
   misses: number;
   /** Hit rate percentage */
   hitRate: number;
+  /** Number of in-memory entries evicted to stay within `maxEntries` */
+  evictions: number;
+  /** Number of localStorage entries evicted to stay within the byte budget */
+  storageEvictions: number;
+  /** Bytes currently used by localStorage entries */
+  storageBytes: number;
 }
 
 /**
  * In-memory caching service with TTL support and optional localStorage fallback
  *
+ * The in-memory tier is bounded by a least-recently-used policy
+ * (`CACHE_CONFIG.MAX_SIZE` entries) and the localStorage tier by a byte
+ * budget (`CACHE_CONFIG.STORAGE_BUDGET_BYTES`); the oldest persisted entries
+ * are evicted to make room, including when the browser reports
+ * `QuotaExceededError`.
+ *
+ * `getAsync`/`setAsync` add a larger asynchronous tier through a
+ * {@link CACHE_STORAGE_ADAPTER} (IndexedDB by default). When an adapter is
+ * available, existing `cache_` localStorage entries are migrated into it on
+ * startup; entries written with `set(..., { useLocalStorage: true })` stay in
+ * localStorage for synchronous `get()`.
+ *
+ * Entries can carry tags and be invalidated as a group (`invalidateTag`) or
+ * by key pattern (`invalidateMatching`); every change is published through
+ * `changes`/`changes$`, and stores reload on `tagInvalidations()` so a
+ * content refresh only refetches the data that depends on it.
+ *
  * @example
  * ```typescript
  * export class DataService {
@@ -73,6 +118,18 @@ export class CacheService {
   /** Cache miss counter */
   private readonly _misses = signal(0);
 
+  /** In-memory eviction counter */
+  private readonly _evictions = signal(0);
+
+  /** localStorage eviction counter */
+  private readonly _storageEvictions = signal(0);
+
+  /** Size limits */
+  private limits: CacheLimits = {
+    maxEntries: CACHE_CONFIG.MAX_SIZE,
+    maxStorageBytes: CACHE_CONFIG.STORAGE_BUDGET_BYTES,
+  };
+
   /** Default TTL in milliseconds (5 minutes) */
   private readonly DEFAULT_TTL = 5 * 60 * 1000;
 
@@ -85,13 +142,39 @@ export class CacheService {
   /** Whether localStorage is available */
   private hasLocalStorage = this.checkLocalStorageAvailability();
 
+  /** Asynchronous persistent tier (null when unavailable) */
+  private readonly storageAdapter = inject(CACHE_STORAGE_ADAPTER);
+
+  /** Storage adapter tasks (migration, deletes, invalidations), run in order */
+  private storageQueue: Promise<void>;
+
+  /** Latest change */
+  private readonly _changes = signal<CacheChange | null>(null);
+
+  /** Stream of all changes */
+  private readonly changesSubject = new Subject<CacheChange>();
+
   /** Public read-only signals for stats */
   readonly hits = this._hits.asReadonly();
   readonly misses = this._misses.asReadonly();
+  readonly evictions = this._evictions.asReadonly();
+  readonly storageEvictions = this._storageEvictions.asReadonly();
+
+  /** Most recent cache change (null until the first one) */
+  readonly changes = this._changes.asReadonly();
+
+  /** Every cache change, including several in the same tick */
+  readonly changes$: Observable<CacheChange> = this.changesSubject.asObservable();
+
+  /** Resolves once `cache_` localStorage entries have been migrated to the storage adapter */
+  readonly migrated: Promise<void>;
 
   constructor() {
     // Start periodic cleanup (every minute)
     this.startPeriodicCleanup();
+
+    this.migrated = this.migrateLocalStorage();
+    this.storageQueue = this.migrated;
   }
 
   /**
@@ -111,6 +194,8 @@ export class CacheService {
         return null;
       }
 
+      // Mark as most recently used
+      this.setMemoryEntry(key, entry);
       this._hits.update((count) => count + 1);
       return entry.value;
     }
@@ -119,7 +204,7 @@ export class CacheService {
     const storedValue = this.getFromLocalStorage<T>(key);
     if (storedValue) {
       // Restore to in-memory cache
-      this.cache.set(key, storedValue as CacheEntry<unknown>);
+      this.setMemoryEntry(key, storedValue);
       this._hits.update((count) => count + 1);
       return storedValue.value;
     }
@@ -132,23 +217,82 @@ export class CacheService {
    * Set a value in the cache
    * @param key - Cache key
    * @param value - Value to cache
-   * @param options - Cache options (ttl, useLocalStorage)
+   * @param options - Cache options (ttl, useLocalStorage, tags)
    */
   set<T>(key: string, value: T, options?: CacheOptions): void {
-    const ttl = options?.ttl ?? this.DEFAULT_TTL;
     const useLocalStorage = options?.useLocalStorage ?? false;
 
-    const entry: CacheEntry<T> = {
-      value,
-      expiresAt: Date.now() + ttl,
-    };
+    const entry = this.createEntry(value, options);
 
     // Store in memory
-    this.cache.set(key, entry as CacheEntry<unknown>);
+    this.setMemoryEntry(key, entry);
 
     // Store in localStorage if enabled
     if (useLocalStorage && this.hasLocalStorage) {
+      // Marked so the migration leaves it for synchronous get()
+      this.setInLocalStorage(key, { ...entry, syncTier: true }, options);
+    }
+
+    this.emitChange({ type: 'set', keys: [key], tags: entry.tags ?? [] });
+  }
+
+  /**
+   * Get a value from the cache, falling back to the storage adapter
+   * @param key - Cache key
+   * @returns Cached value or null if not found or expired
+   */
+  async getAsync<T>(key: string): Promise<T | null> {
+    if (this.cache.has(key) || !this.storageAdapter) {
+      return this.get<T>(key);
+    }
+
+    await this.storageQueue;
+
+    try {
+      const entry = await this.storageAdapter.get<T>(key);
+
+      if (entry && Date.now() <= entry.expiresAt) {
+        // Restore to in-memory cache
+        this.setMemoryEntry(key, entry);
+        this._hits.update((count) => count + 1);
+        return entry.value;
+      }
+
+      if (entry) {
+        await this.storageAdapter.delete(key);
+      }
+    } catch {
+      // Storage unavailable - treat as a miss
+    }
+
+    // Check remaining tiers (and count the miss)
+    return this.get<T>(key);
+  }
+
+  /**
+   * Set a value in memory and persist it to the storage adapter
+   * Falls back to localStorage when no adapter is available
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param options - Cache options (ttl, tags)
+   */
+  async setAsync<T>(key: string, value: T, options?: CacheOptions): Promise<void> {
+    const entry = this.createEntry(value, options);
+    this.setMemoryEntry(key, entry);
+    this.emitChange({ type: 'set', keys: [key], tags: entry.tags ?? [] });
+
+    if (!this.storageAdapter) {
+      // Moves into the adapter once one is available
       this.setInLocalStorage(key, entry, options);
+      return;
+    }
+
+    await this.storageQueue;
+
+    try {
+      await this.storageAdapter.set(key, entry);
+    } catch {
+      // Storage unavailable - keep the in-memory copy only
     }
   }
 
@@ -187,6 +331,11 @@ export class CacheService {
       this.deleteFromLocalStorage(key);
     }
 
+    // Delete from the storage adapter
+    this.enqueueStorageTask((adapter) => adapter.delete(key));
+
+    this.emitChange({ type: 'delete', keys: [key], tags: [] });
+
     return deleted;
   }
 
@@ -201,9 +350,68 @@ export class CacheService {
       this.clearLocalStorage();
     }
 
+    // Clear the storage adapter
+    this.enqueueStorageTask((adapter) => adapter.clear());
+
     // Reset stats
-    this._hits.set(0);
-    this._misses.set(0);
+    this.resetStats();
+
+    this.emitChange({ type: 'clear', keys: [], tags: [] });
+  }
+
+  /**
+   * Remove every entry carrying any of the given tags, in all tiers
+   * @param tags - Tag or tags to invalidate
+   * @returns Number of memory/localStorage entries removed
+   *
+   * @example
+   * ```typescript
+   * this.cacheService.invalidateTag('project:angular-portfolio');
+   * ```
+   */
+  invalidateTag(tags: string | string[]): number {
+    const tagList = Array.isArray(tags) ? tags : [tags];
+    return this.invalidateWhere(
+      (_key, entry) => entry.tags?.some((tag) => tagList.includes(tag)) ?? false,
+      tagList
+    );
+  }
+
+  /**
+   * Stream of `invalidateTag` calls affecting any of the given tags
+   * @param tags - Tag or tags to watch
+   * @returns Invalidation changes naming at least one of the tags
+   *
+   * @example
+   * ```typescript
+   * this.cacheService
+   *   .tagInvalidations(CACHE_TAGS.GITHUB)
+   *   .pipe(takeUntilDestroyed())
+   *   .subscribe(() => this.reload());
+   * ```
+   */
+  tagInvalidations(tags: string | string[]): Observable<CacheChange> {
+    const tagList = Array.isArray(tags) ? tags : [tags];
+    return this.changes$.pipe(
+      filter(
+        (change) => change.type === 'invalidate' && change.tags.some((tag) => tagList.includes(tag))
+      )
+    );
+  }
+
+  /**
+   * Remove every entry whose key matches, in all tiers
+   * @param pattern - Regular expression or predicate tested against keys
+   * @returns Number of memory/localStorage entries removed
+   *
+   * @example
+   * ```typescript
+   * this.cacheService.invalidateMatching(/^github:/);
+   * ```
+   */
+  invalidateMatching(pattern: RegExp | ((key: string) => boolean)): number {
+    const matches = typeof pattern === 'function' ? pattern : (key: string) => pattern.test(key);
+    return this.invalidateWhere((key) => matches(key), []);
   }
 
   /**
@@ -238,6 +446,9 @@ export class CacheService {
       hits,
       misses,
       hitRate: total > 0 ? (hits / total) * 100 : 0,
+      evictions: this._evictions(),
+      storageEvictions: this._storageEvictions(),
+      storageBytes: this.getStorageEntries().reduce((total, entry) => total + entry.bytes, 0),
     };
   }
 
@@ -263,6 +474,28 @@ export class CacheService {
   resetStats(): void {
     this._hits.set(0);
     this._misses.set(0);
+    this._evictions.set(0);
+    this._storageEvictions.set(0);
+  }
+
+  /**
+   * Update size limits, evicting entries that no longer fit
+   * @param limits - Limits to change
+   */
+  setLimits(limits: Partial<CacheLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+    this.enforceMemoryLimit();
+    if (this.hasLocalStorage) {
+      this.evictStorageUntil(this.limits.maxStorageBytes);
+    }
+  }
+
+  /**
+   * Get the current size limits
+   * @returns Size limits
+   */
+  getLimits(): CacheLimits {
+    return { ...this.limits };
   }
 
   /**
@@ -275,6 +508,161 @@ export class CacheService {
     }
   }
 
+  /**
+   * Create a cache entry from options
+   * @param value - Value to cache
+   * @param options - Cache options (ttl, tags)
+   * @returns Cache entry
+   */
+  private createEntry<T>(value: T, options?: CacheOptions): CacheEntry<T> {
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      value,
+      expiresAt: now + (options?.ttl ?? this.DEFAULT_TTL),
+      storedAt: now,
+    };
+
+    if (options?.tags?.length) {
+      entry.tags = [...options.tags];
+    }
+
+    return entry;
+  }
+
+  /**
+   * Remove matching entries from memory and localStorage now, and from the
+   * storage adapter in the background
+   * @param matches - Tests a key and its entry
+   * @param tags - Tags reported in the change
+   * @returns Number of memory/localStorage entries removed
+   */
+  private invalidateWhere(
+    matches: (key: string, entry: CacheEntry<unknown>) => boolean,
+    tags: string[]
+  ): number {
+    const keys = new Set<string>();
+
+    this.cache.forEach((entry, key) => {
+      if (matches(key, entry)) {
+        keys.add(key);
+      }
+    });
+    keys.forEach((key) => this.cache.delete(key));
+
+    for (const { storageKey } of this.getStorageEntries()) {
+      const key = storageKey.slice(this.DEFAULT_STORAGE_PREFIX.length);
+      const entry = this.readStoredEntry(localStorage.getItem(storageKey));
+      if (entry && matches(key, entry)) {
+        localStorage.removeItem(storageKey);
+        keys.add(key);
+      }
+    }
+
+    this.enqueueStorageTask(async (adapter) => {
+      for (const key of await adapter.keys()) {
+        const entry = await adapter.get(key);
+        if (entry && matches(key, entry)) {
+          await adapter.delete(key);
+        }
+      }
+    });
+
+    this.emitChange({ type: 'invalidate', keys: Array.from(keys), tags });
+
+    return keys.size;
+  }
+
+  /**
+   * Run a storage adapter task after the ones already queued
+   * Failures are ignored, like localStorage errors
+   * @param task - Task to run with the adapter
+   */
+  private enqueueStorageTask(task: (adapter: CacheStorageAdapter) => Promise<unknown>): void {
+    const adapter = this.storageAdapter;
+    if (!adapter) {
+      return;
+    }
+
+    this.storageQueue = this.storageQueue
+      .then(() => task(adapter))
+      .then(
+        () => undefined,
+        () => undefined
+      );
+  }
+
+  /**
+   * Publish a cache change
+   * @param change - Change to publish
+   */
+  private emitChange(change: CacheChange): void {
+    this._changes.set(change);
+    this.changesSubject.next(change);
+  }
+
+  /**
+   * Store an entry in memory as the most recently used, evicting if needed
+   * @param key - Cache key
+   * @param entry - Cache entry
+   */
+  private setMemoryEntry<T>(key: string, entry: CacheEntry<T>): void {
+    // Re-insert so Map iteration order reflects recency
+    this.cache.delete(key);
+    this.cache.set(key, entry as CacheEntry<unknown>);
+    this.enforceMemoryLimit();
+  }
+
+  /**
+   * Evict entries until the in-memory tier fits `maxEntries`
+   * Expired entries go first, then the least recently used
+   */
+  private enforceMemoryLimit(): void {
+    if (this.cache.size <= this.limits.maxEntries) {
+      return;
+    }
+
+    this.clearExpired();
+
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= this.limits.maxEntries) {
+        break;
+      }
+      this.cache.delete(key);
+      this._evictions.update((count) => count + 1);
+    }
+  }
+
+  /**
+   * Move `cache_` localStorage entries into the storage adapter
+   * Covers entries from before the adapter existed and `setAsync` fallbacks;
+   * entries written by `set` stay for synchronous readers, and entries that
+   * fail to migrate stay in localStorage for the next attempt
+   */
+  private async migrateLocalStorage(): Promise<void> {
+    if (!this.storageAdapter || !this.hasLocalStorage) {
+      return;
+    }
+
+    const storageKeys = this.getStorageEntries().map((entry) => entry.storageKey);
+
+    for (const storageKey of storageKeys) {
+      const key = storageKey.slice(this.DEFAULT_STORAGE_PREFIX.length);
+      // Expired entries are removed while reading
+      const entry = this.getFromLocalStorage(key);
+
+      if (!entry || entry.syncTier) {
+        continue;
+      }
+
+      try {
+        await this.storageAdapter.set(key, entry);
+        localStorage.removeItem(storageKey);
+      } catch {
+        // Keep the entry in localStorage
+      }
+    }
+  }
+
   /**
    * Start periodic cleanup of expired entries
    */
@@ -345,12 +733,143 @@ export class CacheService {
       return;
     }
 
+    const storageKey = this.getStorageKey(key, options?.storagePrefix);
+    const serialized = JSON.stringify(entry);
+    const bytes = this.getByteSize(storageKey, serialized);
+
+    // Entries larger than the whole budget are kept in memory only
+    if (bytes > this.limits.maxStorageBytes) {
+      return;
+    }
+
+    try {
+      // Replace rather than count the previous value towards the budget
+      localStorage.removeItem(storageKey);
+      this.evictStorageUntil(this.limits.maxStorageBytes - bytes);
+    } catch {
+      return;
+    }
+
+    for (;;) {
+      try {
+        localStorage.setItem(storageKey, serialized);
+        return;
+      } catch (error) {
+        // Make room and retry; give up on other errors or when nothing is left
+        if (!this.isQuotaExceeded(error) || !this.evictOldestStorageEntry()) {
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Evict the oldest localStorage entries until usage fits the given bytes
+   * @param maxBytes - Bytes the cache may use
+   */
+  private evictStorageUntil(maxBytes: number): void {
+    const entries = this.getStorageEntries();
+    let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+
+    for (const entry of entries) {
+      if (total <= maxBytes) {
+        break;
+      }
+      localStorage.removeItem(entry.storageKey);
+      total -= entry.bytes;
+      this._storageEvictions.update((count) => count + 1);
+    }
+  }
+
+  /**
+   * Evict the oldest localStorage entry
+   * @returns True if an entry was evicted
+   */
+  private evictOldestStorageEntry(): boolean {
+    const [oldest] = this.getStorageEntries();
+    if (!oldest) {
+      return false;
+    }
+
+    localStorage.removeItem(oldest.storageKey);
+    this._storageEvictions.update((count) => count + 1);
+    return true;
+  }
+
+  /**
+   * List cache entries in localStorage, oldest first
+   * @returns Storage keys with their size and write time
+   */
+  private getStorageEntries(): { storageKey: string; bytes: number; storedAt: number }[] {
+    if (!this.hasLocalStorage) {
+      return [];
+    }
+
+    const entries: { storageKey: string; bytes: number; storedAt: number }[] = [];
+
     try {
-      const storageKey = this.getStorageKey(key, options?.storagePrefix);
-      localStorage.setItem(storageKey, JSON.stringify(entry));
+      for (let i = 0; i < localStorage.length; i++) {
+        const storageKey = localStorage.key(i);
+        if (!storageKey?.startsWith(this.DEFAULT_STORAGE_PREFIX)) {
+          continue;
+        }
+
+        const serialized = localStorage.getItem(storageKey) ?? '';
+        entries.push({
+          storageKey,
+          bytes: this.getByteSize(storageKey, serialized),
+          storedAt: this.readStoredAt(serialized),
+        });
+      }
     } catch {
-      // Quota exceeded or other error - silently fail
+      return [];
     }
+
+    return entries.sort((a, b) => a.storedAt - b.storedAt);
+  }
+
+  /**
+   * Read the write time of a serialized entry (0 for entries without one)
+   * @param serialized - Serialized cache entry
+   * @returns Timestamp in ms since epoch
+   */
+  private readStoredAt(serialized: string): number {
+    return Number(this.readStoredEntry(serialized)?.storedAt) || 0;
+  }
+
+  /**
+   * Parse a serialized entry
+   * @param serialized - Serialized cache entry
+   * @returns Cache entry, or null if it can't be parsed
+   */
+  private readStoredEntry(serialized: string | null): CacheEntry<unknown> | null {
+    try {
+      return serialized ? (JSON.parse(serialized) as CacheEntry<unknown>) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Approximate bytes used by a localStorage item (UTF-16)
+   * @param storageKey - Storage key
+   * @param serialized - Stored value
+   * @returns Size in bytes
+   */
+  private getByteSize(storageKey: string, serialized: string): number {
+    return (storageKey.length + serialized.length) * 2;
+  }
+
+  /**
+   * Check whether an error is a storage quota error
+   * @param error - Error thrown by localStorage
+   * @returns True for quota errors
+   */
+  private isQuotaExceeded(error: unknown): boolean {
+    return (
+      error instanceof DOMException &&
+      (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+    );
   }
 
   /**
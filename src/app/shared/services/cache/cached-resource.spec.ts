@@ -0,0 +1,123 @@
+import { Injector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+import { of, Subject, throwError } from 'rxjs';
+
+import { CacheService } from './cache.service';
+import type { CachedResourceOptions } from './cached-resource';
+import { cachedResource } from './cached-resource';
+
+describe('cachedResource', () => {
+  const key = 'test:resource';
+  const ttl = 60_000;
+  let cache: CacheService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.localStorage.clear();
+    cache = TestBed.inject(CacheService);
+  });
+
+  afterEach(() => {
+    cache.stopPeriodicCleanup();
+    vi.useRealTimers();
+  });
+
+  function create<T>(options: Omit<CachedResourceOptions<T>, 'key' | 'ttl'>) {
+    return TestBed.runInInjectionContext(() => cachedResource({ key, ttl, ...options }));
+  }
+
+  it('should load the value on creation', () => {
+    const resource = create({ loader: () => of([1]) });
+
+    expect(resource.value()).toEqual([1]);
+    expect(resource.isLoading()).toBe(false);
+    expect(resource.isStale()).toBe(false);
+    expect(resource.error()).toBeNull();
+  });
+
+  it('should report loading until the loader completes', () => {
+    const response = new Subject<number[]>();
+    const resource = create({ loader: () => response });
+
+    expect(resource.isLoading()).toBe(true);
+
+    response.next([1]);
+    response.complete();
+
+    expect(resource.value()).toEqual([1]);
+    expect(resource.isLoading()).toBe(false);
+  });
+
+  it('should serve a cached value without calling the loader', () => {
+    create({ loader: () => of([1]) });
+    const loader = vi.fn(() => of([2]));
+
+    const resource = create({ loader });
+
+    expect(resource.value()).toEqual([1]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should expose stale values while refetching', () => {
+    create({ loader: () => of([1]) });
+    vi.advanceTimersByTime(ttl + 1);
+    const response = new Subject<number[]>();
+
+    const resource = create({ loader: () => response });
+    expect(resource.value()).toEqual([1]);
+    expect(resource.isStale()).toBe(true);
+
+    response.next([2]);
+    expect(resource.value()).toEqual([2]);
+    expect(resource.isStale()).toBe(false);
+  });
+
+  it('should expose errors and keep the last value', () => {
+    create({ loader: () => of([1]) });
+    vi.advanceTimersByTime(ttl + 1);
+
+    const error = new Error('offline');
+    const resource = create({ loader: () => throwError(() => error) });
+
+    expect(resource.value()).toEqual([1]);
+    expect(resource.isStale()).toBe(true);
+    expect(resource.error()).toBe(error);
+    expect(resource.isLoading()).toBe(false);
+  });
+
+  it('should bypass the cache on refresh', () => {
+    let count = 0;
+    const resource = create({ loader: () => of(++count) });
+
+    resource.refresh();
+
+    expect(resource.value()).toBe(2);
+    expect(cache.get(key)).toEqual(expect.objectContaining({ value: 2 }));
+  });
+
+  it('should reload when the entry is invalidated', () => {
+    let count = 0;
+    const resource = create({ loader: () => of(++count), tags: ['items'] });
+
+    cache.invalidateTag('items');
+
+    expect(resource.value()).toBe(2);
+    expect(resource.isStale()).toBe(false);
+  });
+
+  it('should stop listening when the injector is destroyed', () => {
+    const loader = vi.fn(() => of(1));
+    const injector = Injector.create({ providers: [], parent: TestBed.inject(Injector) });
+    cachedResource({ key, ttl, loader, injector });
+
+    injector.destroy();
+    cache.delete(key);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require an injection context without an injector', () => {
+    expect(() => cachedResource({ key, loader: () => of(1) })).toThrow();
+  });
+});
@@ -0,0 +1,124 @@
+import type { Signal } from '@angular/core';
+import { assertInInjectionContext, DestroyRef, inject, Injector, signal } from '@angular/core';
+
+import type { Observable, Subscription } from 'rxjs';
+import { filter } from 'rxjs';
+
+import { CacheService } from './cache.service';
+import type { CachedOptions } from './cached.operator';
+import { cachedWithState } from './cached.operator';
+
+/**
+ * Options for {@link cachedResource}
+ */
+export interface CachedResourceOptions<T> extends Omit<CachedOptions, 'bypass'> {
+  /** Cache key */
+  key: string;
+  /** Creates the request; only subscribed when the cache cannot answer */
+  loader: () => Observable<T>;
+  /** Injector to use outside an injection context */
+  injector?: Injector;
+}
+
+/**
+ * Signal-based view of a cached request
+ */
+export interface CachedResource<T> {
+  /** Latest value (undefined until the first one) */
+  readonly value: Signal<T | undefined>;
+  /** Whether a request is in progress */
+  readonly isLoading: Signal<boolean>;
+  /** Error of the last request (null when it succeeded) */
+  readonly error: Signal<unknown>;
+  /** Whether `value` is expired or invalidated and not yet refetched */
+  readonly isStale: Signal<boolean>;
+  /** Fetch again, bypassing the cache */
+  refresh(): void;
+}
+
+/**
+ * Loads a value through `CacheService` and exposes it as signals
+ *
+ * Uses the same fresh/stale rules as {@link cached}. When the entry is
+ * deleted or invalidated (e.g. `invalidateTag(CACHE_TAGS.GITHUB)`), the
+ * current value is marked stale and reloaded. Subscriptions end when the
+ * injector is destroyed.
+ *
+ * @param options - Key, loader and caching options
+ * @returns Resource signals and `refresh()`
+ *
+ * @example
+ * ```typescript
+ * export class RepositoriesComponent {
+ *   readonly repos = cachedResource({
+ *     key: 'github:repos',
+ *     loader: () => inject(GitHubService).getRepositories(),
+ *     ttl: CACHE_CONFIG.GITHUB_DATA_TTL,
+ *     tags: [CACHE_TAGS.GITHUB],
+ *   });
+ * }
+ * ```
+ */
+export function cachedResource<T>(options: CachedResourceOptions<T>): CachedResource<T> {
+  if (!options.injector) {
+    assertInInjectionContext(cachedResource);
+  }
+
+  const injector = options.injector ?? inject(Injector);
+  const cache = options.cache ?? injector.get(CacheService);
+
+  const value = signal<T | undefined>(undefined);
+  const isLoading = signal(false);
+  const error = signal<unknown>(null);
+  const isStale = signal(false);
+
+  let request: Subscription | undefined;
+
+  const load = (bypass: boolean): void => {
+    request?.unsubscribe();
+    isLoading.set(true);
+    error.set(null);
+
+    request = options
+      .loader()
+      .pipe(cachedWithState(options.key, { ...options, cache, bypass }))
+      .subscribe({
+        next: (result) => {
+          value.set(result.value);
+          isStale.set(result.stale);
+        },
+        error: (err: unknown) => {
+          error.set(err);
+          isLoading.set(false);
+        },
+        complete: () => isLoading.set(false),
+      });
+  };
+
+  const invalidations = cache.changes$
+    .pipe(
+      filter(
+        (change) =>
+          change.type === 'clear' || (change.type !== 'set' && change.keys.includes(options.key))
+      )
+    )
+    .subscribe(() => {
+      isStale.set(true);
+      load(false);
+    });
+
+  injector.get(DestroyRef).onDestroy(() => {
+    request?.unsubscribe();
+    invalidations.unsubscribe();
+  });
+
+  load(false);
+
+  return {
+    value: value.asReadonly(),
+    isLoading: isLoading.asReadonly(),
+    error: error.asReadonly(),
+    isStale: isStale.asReadonly(),
+    refresh: () => load(true),
+  };
+}
@@ -0,0 +1,142 @@
+import { TestBed } from '@angular/core/testing';
+
+import type { Observable } from 'rxjs';
+import { defer, of, throwError } from 'rxjs';
+
+import { CacheService } from './cache.service';
+import { CACHE_STORAGE_ADAPTER } from './cache-storage.adapter';
+import { cached, cachedWithState } from './cached.operator';
+import { FakeCacheStorageAdapter } from './fake-cache-storage.adapter';
+
+describe('cached', () => {
+  const key = 'test:items';
+  const ttl = 60_000;
+  const staleTtl = 30_000;
+  let cache: CacheService;
+  let storage: FakeCacheStorageAdapter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.localStorage.clear();
+    storage = new FakeCacheStorageAdapter();
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: CACHE_STORAGE_ADAPTER, useValue: storage }],
+    });
+
+    cache = TestBed.inject(CacheService);
+  });
+
+  afterEach(() => {
+    cache.stopPeriodicCleanup();
+    vi.useRealTimers();
+  });
+
+  function load<T>(source: Observable<T>, options = {}) {
+    const next = vi.fn();
+    const error = vi.fn();
+    source.pipe(cached<T>(key, { ttl, staleTtl, cache, ...options })).subscribe({ next, error });
+    return { next, error };
+  }
+
+  it('should fetch and cache on a miss', () => {
+    const { next } = load(of([1]));
+
+    expect(next).toHaveBeenCalledWith([1]);
+    expect(cache.has(key)).toBe(true);
+  });
+
+  it('should serve a fresh value without subscribing to the source', () => {
+    load(of([1]));
+
+    const source = vi.fn(() => [2]);
+    const { next } = load(defer(() => of(source())));
+
+    expect(next).toHaveBeenCalledWith([1]);
+    expect(source).not.toHaveBeenCalled();
+  });
+
+  it('should serve a stale value and then the refetched one', () => {
+    load(of([1]));
+    vi.advanceTimersByTime(ttl + 1);
+
+    const { next } = load(of([2]));
+
+    expect(next.mock.calls).toEqual([[[1]], [[2]]]);
+  });
+
+  it('should keep the stale value when the refetch fails', () => {
+    load(of([1]));
+    vi.advanceTimersByTime(ttl + 1);
+
+    const { next, error } = load(throwError(() => new Error('offline')));
+
+    expect(next).toHaveBeenCalledWith([1]);
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('should forward errors when there is nothing cached', () => {
+    const { error } = load(throwError(() => new Error('offline')));
+
+    expect(error).toHaveBeenCalledWith(new Error('offline'));
+  });
+
+  it('should refetch once the stale window has passed', () => {
+    load(of([1]));
+    vi.advanceTimersByTime(ttl + staleTtl + 1);
+
+    const { next } = load(of([2]));
+
+    expect(next.mock.calls).toEqual([[[2]]]);
+  });
+
+  it('should bypass the cached value but store the result', () => {
+    load(of([1]));
+
+    const { next } = load(of([2]), { bypass: true });
+    const { next: after } = load(of([3]));
+
+    expect(next.mock.calls).toEqual([[[2]]]);
+    expect(after).toHaveBeenCalledWith([2]);
+  });
+
+  it('should tag entries for invalidation', () => {
+    load(of([1]), { tags: ['items'] });
+
+    cache.invalidateTag('items');
+
+    expect(cache.has(key)).toBe(false);
+  });
+
+  it('should read persisted values from the storage adapter', async () => {
+    load(of([1]), { persist: true });
+    await vi.waitFor(() => expect(storage.entries.has(key)).toBe(true));
+
+    cache['cache'].clear();
+    const { next } = load(of([2]), { persist: true });
+
+    await vi.waitFor(() => expect(next).toHaveBeenCalledWith([1]));
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the injected CacheService in an injection context', () => {
+    TestBed.runInInjectionContext(() => of([1]).pipe(cached(key)).subscribe());
+
+    expect(cache.get(key)).toEqual(expect.objectContaining({ value: [1] }));
+  });
+
+  describe('cachedWithState', () => {
+    it('should flag stale values', () => {
+      load(of([1]));
+      vi.advanceTimersByTime(ttl + 1);
+
+      const next = vi.fn();
+      of([2]).pipe(cachedWithState(key, { ttl, staleTtl, cache })).subscribe(next);
+
+      expect(next.mock.calls).toEqual([
+        [{ value: [1], stale: true }],
+        [{ value: [2], stale: false }],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { inject } from '@angular/core';
+
+import type { MonoTypeOperatorFunction, Observable, OperatorFunction } from 'rxjs';
+import { catchError, concat, defer, EMPTY, from, map, of, switchMap, tap, throwError } from 'rxjs';
+
+import { CACHE_CONFIG } from '@shared/constants';
+
+import { CacheService } from './cache.service';
+
+/**
+ * Options for {@link cached} and {@link cachedResource}
+ */
+export interface CachedOptions {
+  /** How long a value is fresh, in milliseconds (default: `CACHE_CONFIG.DEFAULT_TTL`) */
+  ttl?: number;
+  /**
+   * How long an expired value may still be served while it is refetched, in
+   * milliseconds (default: `CACHE_CONFIG.STALE_WHILE_REVALIDATE_TTL`, 0 disables)
+   */
+  staleTtl?: number;
+  /** Persist through the storage adapter (default: false) */
+  persist?: boolean;
+  /** Skip the cached value and fetch; the result still replaces it (default: false) */
+  bypass?: boolean;
+  /** Tags for group invalidation */
+  tags?: string[];
+  /** Cache to use (default: injected `CacheService`) */
+  cache?: CacheService;
+}
+
+/**
+ * A value emitted by {@link cachedWithState}
+ */
+export interface CachedResult<T> {
+  value: T;
+  /** Whether the value is past its TTL and a refetch is in progress */
+  stale: boolean;
+}
+
+/**
+ * Shape stored in `CacheService`
+ */
+interface CachedValue<T> {
+  value: T;
+  /** Timestamp (ms since epoch) until which the value is fresh */
+  freshUntil: number;
+}
+
+/**
+ * Like {@link cached}, but emits each value with whether it is stale
+ *
+ * Source errors are always forwarded, including after a stale value.
+ *
+ * @param key - Cache key
+ * @param options - Caching options
+ * @returns Operator emitting cached or fetched values with their staleness
+ */
+export function cachedWithState<T>(
+  key: string,
+  options: CachedOptions = {}
+): OperatorFunction<T, CachedResult<T>> {
+  const cache = options.cache ?? inject(CacheService);
+  const ttl = options.ttl ?? CACHE_CONFIG.DEFAULT_TTL;
+  const staleTtl = options.staleTtl ?? CACHE_CONFIG.STALE_WHILE_REVALIDATE_TTL;
+
+  const store = (value: T): void => {
+    const entry: CachedValue<T> = { value, freshUntil: Date.now() + ttl };
+    const cacheOptions = { ttl: ttl + staleTtl, tags: options.tags };
+
+    if (options.persist) {
+      void cache.setAsync(key, entry, cacheOptions);
+    } else {
+      cache.set(key, entry, cacheOptions);
+    }
+  };
+
+  const lookup = (): Observable<CachedValue<T> | null> => {
+    if (options.bypass) {
+      return of(null);
+    }
+
+    // Memory hits stay synchronous
+    if (cache.has(key) || !options.persist) {
+      return of(cache.get<CachedValue<T>>(key));
+    }
+
+    return from(cache.getAsync<CachedValue<T>>(key));
+  };
+
+  return (source) =>
+    defer(lookup).pipe(
+      switchMap((entry) => {
+        const fetch = source.pipe(
+          tap(store),
+          map((value) => ({ value, stale: false }))
+        );
+
+        if (!entry) {
+          return fetch;
+        }
+
+        if (Date.now() <= entry.freshUntil) {
+          return of({ value: entry.value, stale: false });
+        }
+
+        return concat(of({ value: entry.value, stale: true }), fetch);
+      })
+    );
+}
+
+/**
+ * RxJS operator that reads through `CacheService`
+ *
+ * - A fresh cached value is emitted without subscribing to the source
+ * - An expired value within `staleTtl` is emitted immediately, then the
+ *   source is subscribed and its values are cached and emitted
+ *   (stale-while-revalidate); a failed refetch keeps the stale value
+ * - Otherwise the source values are cached and emitted
+ *
+ * Call it in an injection context or pass `options.cache`.
+ *
+ * @param key - Cache key
+ * @param options - Caching options
+ * @returns Operator caching the source values
+ *
+ * @example
+ * ```typescript
+ * this.githubService
+ *   .getRepositories()
+ *   .pipe(cached('github:repos', { ttl: CACHE_CONFIG.GITHUB_DATA_TTL, persist: true }))
+ *   .subscribe((repos) => this.repos.set(repos));
+ * ```
+ */
+export function cached<T>(key: string, options: CachedOptions = {}): MonoTypeOperatorFunction<T> {
+  const withState = cachedWithState<T>(key, options);
+
+  return (source) =>
+    defer(() => {
+      let servedStale = false;
+
+      return source.pipe(
+        withState,
+        tap((result) => (servedStale = result.stale)),
+        map((result) => result.value),
+        catchError((error: unknown) => (servedStale ? EMPTY : throwError(() => error)))
+      );
+    });
+}
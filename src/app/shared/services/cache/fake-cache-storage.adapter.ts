@@ -0,0 +1,54 @@
+import type { CacheEntry, CacheStorageAdapter } from './cache-storage.adapter';
+
+/**
+ * In-memory `CacheStorageAdapter` for unit tests
+ *
+ * Behaves like the IndexedDB adapter without a browser database. Set
+ * `failWith` to make every operation reject.
+ *
+ * @example
+ * ```typescript
+ * const storage = new FakeCacheStorageAdapter();
+ * TestBed.configureTestingModule({
+ *   providers: [{ provide: CACHE_STORAGE_ADAPTER, useValue: storage }],
+ * });
+ * ```
+ */
+export class FakeCacheStorageAdapter implements CacheStorageAdapter {
+  /** Stored entries */
+  readonly entries = new Map<string, CacheEntry<unknown>>();
+
+  /** Error every operation rejects with, when set */
+  failWith: Error | null = null;
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    this.throwIfFailing();
+    return (this.entries.get(key) as CacheEntry<T> | undefined) ?? null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.throwIfFailing();
+    this.entries.set(key, entry as CacheEntry<unknown>);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.throwIfFailing();
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.throwIfFailing();
+    this.entries.clear();
+  }
+
+  async keys(): Promise<string[]> {
+    this.throwIfFailing();
+    return Array.from(this.entries.keys());
+  }
+
+  private throwIfFailing(): void {
+    if (this.failWith) {
+      throw this.failWith;
+    }
+  }
+}
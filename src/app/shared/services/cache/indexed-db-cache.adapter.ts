@@ -0,0 +1,89 @@
+/* eslint-disable no-undef */
+import type { CacheEntry, CacheStorageAdapter } from './cache-storage.adapter';
+
+/**
+ * IndexedDB-backed storage for `CacheService`
+ *
+ * Entries live in a single object store keyed by cache key, so large
+ * payloads (GitHub contribution data, image metadata) don't count against
+ * the localStorage quota.
+ */
+export class IndexedDbCacheAdapter implements CacheStorageAdapter {
+  /** Lazily opened database connection */
+  private db?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly dbName = 'portfolio-cache',
+    private readonly storeName = 'entries'
+  ) {}
+
+  /**
+   * Check if IndexedDB is available
+   * @returns True if IndexedDB is available
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = await this.request<CacheEntry<T> | undefined>('readonly', (store) =>
+      store.get(key)
+    );
+    return entry ?? null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.request('readwrite', (store) => store.put(entry, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', (store) => store.clear());
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request('readonly', (store) => store.getAllKeys());
+    return keys.map(String);
+  }
+
+  /**
+   * Open the database, creating the object store on first use
+   * @returns Database connection
+   */
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error: unknown) => {
+      // Allow a later call to retry opening
+      this.db = undefined;
+      throw error;
+    });
+
+    return this.db;
+  }
+
+  /**
+   * Run a single request against the object store
+   * @param mode - Transaction mode
+   * @param run - Creates the request
+   * @returns Request result
+   */
+  private async request<R>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> {
+    const db = await this.open();
+
+    return new Promise<R>((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -1,5 +1,9 @@
 export * from './analytics/analytics.service';
 export * from './cache/cache.service';
+export * from './cache/cache-storage.adapter';
+export * from './cache/cached.operator';
+export * from './cache/cached-resource';
+export * from './cache/indexed-db-cache.adapter';
 export * from './error-handler/error-handler.service';
 export * from './logger/logger.service';
 export * from './modal/modal.service';
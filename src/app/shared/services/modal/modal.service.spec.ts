@@ -1,7 +1,23 @@
+import { Component, inject } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
 
-import type { ModalConfig } from './modal.service';
-import { ModalService } from './modal.service';
+import type { ModalConfig, ModalRef } from './modal.service';
+import { MODAL_DATA, MODAL_REF, ModalService } from './modal.service';
+
+@Component({
+  selector: 'app-modal-content-test',
+  template: `<p class="modal-content-test">{{ data.message }}</p>`,
+})
+class ModalContentTestComponent {
+  static instances: ModalContentTestComponent[] = [];
+
+  readonly data = inject<{ message: string }>(MODAL_DATA);
+  readonly modalRef = inject<ModalRef<string>>(MODAL_REF);
+
+  constructor() {
+    ModalContentTestComponent.instances.push(this);
+  }
+}
 
 describe('ModalService', () => {
   let service: ModalService;
@@ -89,6 +105,41 @@ describe('ModalService', () => {
     });
   });
 
+  describe('Custom Components', () => {
+    it('should render the component in the modal body with its data', async () => {
+      const modalRef = service.open({
+        ariaLabel: 'Test modal',
+        component: ModalContentTestComponent,
+        data: { message: 'Hello' },
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      TestBed.tick();
+
+      const content = document.querySelector('.modal__body .modal-content-test');
+      expect(content?.textContent).toBe('Hello');
+
+      modalRef.close();
+    });
+
+    it('should let the component close its modal with a result', async () => {
+      ModalContentTestComponent.instances = [];
+      const modalRef = service.open<string>({
+        ariaLabel: 'Test modal',
+        component: ModalContentTestComponent,
+        data: { message: 'Hello' },
+      });
+
+      const [content] = ModalContentTestComponent.instances;
+      expect(content.modalRef).toBe(modalRef);
+      content.modalRef.close('done');
+
+      expect(await modalRef.afterClosed()).toBe('done');
+      expect(service.openModalsCount).toBe(0);
+      expect(document.querySelector('app-modal-content-test')).toBeNull();
+    });
+  });
+
   describe('Closing Modals', () => {
     it('should close a modal when close is called', async () => {
       const modalRef = service.open({ ariaLabel: 'Test modal' });
@@ -7,6 +7,8 @@ import {
   EnvironmentInjector,
   inject,
   Injectable,
+  InjectionToken,
+  Injector,
   signal,
 } from '@angular/core';
 
@@ -36,7 +38,7 @@ export interface ModalConfig {
   ariaLabelledBy?: string;
   /** Custom component to render in modal body */
   component?: Type<unknown>;
-  /** Data to pass to custom component */
+  /** Data to pass to custom component (inject with `MODAL_DATA`) */
   data?: unknown;
 }
 
@@ -82,6 +84,30 @@ export interface ModalRef<T = unknown> {
   afterClosed: () => Promise<T | undefined>;
 }
 
+/**
+ * Data passed to a component opened with {@link ModalService.open}
+ *
+ * @example
+ * ```typescript
+ * readonly data = inject<{ userId: number }>(MODAL_DATA);
+ * ```
+ */
+export const MODAL_DATA = new InjectionToken<unknown>('MODAL_DATA');
+
+/**
+ * Reference to the modal a component was opened in with {@link ModalService.open}
+ *
+ * @example
+ * ```typescript
+ * private readonly modalRef = inject<ModalRef<boolean>>(MODAL_REF);
+ *
+ * save() {
+ *   this.modalRef.close(true);
+ * }
+ * ```
+ */
+export const MODAL_REF = new InjectionToken<ModalRef>('MODAL_REF');
+
 /**
  * Service for programmatically opening and managing modals.
  *
@@ -129,6 +155,7 @@ export interface ModalRef<T = unknown> {
 })
 export class ModalService {
   private _activeModals = signal<ComponentRef<ModalComponent>[]>([]);
+  private _contents = new Map<ComponentRef<ModalComponent>, ComponentRef<unknown>>();
   private _appRef = signal<ApplicationRef | null>(null);
   private _injector = signal<EnvironmentInjector | null>(null);
 
@@ -143,6 +170,9 @@ export class ModalService {
   /**
    * Open a modal with custom configuration
    *
+   * A `config.component` is rendered in the modal body and can inject
+   * `MODAL_DATA` (`config.data`) and `MODAL_REF` (the returned reference).
+   *
    * @param config Modal configuration
    * @returns Modal reference with close method and afterClosed promise
    */
@@ -154,9 +184,34 @@ export class ModalService {
       throw new Error('ModalService not properly initialized');
     }
 
-    // Create the modal component
+    // Create promise for afterClosed
+    let resolveClose: (result?: T) => void;
+    const afterClosedPromise = new Promise<T | undefined>((resolve) => {
+      resolveClose = resolve;
+    });
+
+    const ref: ModalRef<T> = {
+      close: (result?: T) => close(result),
+      afterClosed: () => afterClosedPromise,
+    };
+
+    // Create the body component, if any, with access to the data and reference
+    const contentRef = config.component
+      ? createComponent(config.component, {
+          environmentInjector,
+          elementInjector: Injector.create({
+            providers: [
+              { provide: MODAL_DATA, useValue: config.data },
+              { provide: MODAL_REF, useValue: ref },
+            ],
+          }),
+        })
+      : null;
+
+    // Create the modal component, projecting the body component into [modal-body]
     const modalRef = createComponent(ModalComponent, {
       environmentInjector,
+      projectableNodes: [[], contentRef ? [contentRef.location.nativeElement] : [], []],
     });
 
     // Set inputs
@@ -176,6 +231,10 @@ export class ModalService {
     }
 
     // Attach to application
+    if (contentRef) {
+      appRef.attachView(contentRef.hostView);
+      this._contents.set(modalRef, contentRef);
+    }
     appRef.attachView(modalRef.hostView);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const domElem = (modalRef.hostView as any).rootNodes[0] as HTMLElement;
@@ -184,12 +243,6 @@ export class ModalService {
     // Track active modal
     this._activeModals.update((modals) => [...modals, modalRef]);
 
-    // Create promise for afterClosed
-    let resolveClose: (result?: T) => void;
-    const afterClosedPromise = new Promise<T | undefined>((resolve) => {
-      resolveClose = resolve;
-    });
-
     // Track if already closing to prevent double-close
     let isClosing = false;
 
@@ -220,6 +273,7 @@ export class ModalService {
 
             currentAppRef.detachView(modalRef.hostView);
             modalRef.destroy();
+            this._destroyContent(modalRef, currentAppRef);
             if (domElem.parentNode) {
               domElem.parentNode.removeChild(domElem);
             }
@@ -239,10 +293,7 @@ export class ModalService {
       close();
     });
 
-    return {
-      close,
-      afterClosed: () => afterClosedPromise,
-    };
+    return ref;
   }
 
   /**
@@ -319,6 +370,7 @@ export class ModalService {
         try {
           currentAppRef.detachView(modal.hostView);
           modal.destroy();
+          this._destroyContent(modal, currentAppRef);
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
           const domElem = (modal.hostView as any).rootNodes[0] as HTMLElement;
           if (domElem && domElem.parentNode) {
@@ -333,6 +385,18 @@ export class ModalService {
     }, 300);
   }
 
+  /**
+   * Destroy the body component rendered in a modal, if any
+   */
+  private _destroyContent(modal: ComponentRef<ModalComponent>, appRef: ApplicationRef): void {
+    const content = this._contents.get(modal);
+    if (content) {
+      this._contents.delete(modal);
+      appRef.detachView(content.hostView);
+      content.destroy();
+    }
+  }
+
   /**
    * Get the number of currently open modals
    */
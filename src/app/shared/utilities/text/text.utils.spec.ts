@@ -0,0 +1,38 @@
+import { splitSentences, stem, tokenize } from './text.utils';
+
+describe('tokenize', () => {
+  it('should lowercase, split on punctuation and drop stop words', () => {
+    expect(tokenize('What does Jay know about Node.js?')).toEqual(['jay', 'node', 'js']);
+  });
+
+  it('should fold plurals and verb forms', () => {
+    expect(tokenize('projects libraries classes status testing mentored')).toEqual([
+      'project',
+      'library',
+      'class',
+      'status',
+      'test',
+      'mentor',
+    ]);
+  });
+});
+
+describe('splitSentences', () => {
+  it('should split on sentence punctuation but not inside terms', () => {
+    expect(splitSentences('Jay uses Node.js daily. Really! Why? Because')).toEqual([
+      'Jay uses Node.js daily.',
+      'Really!',
+      'Why?',
+      'Because',
+    ]);
+  });
+});
+
+describe('stem', () => {
+  it('should leave short words and non-plural endings alone', () => {
+    expect(stem('css')).toBe('css');
+    expect(stem('bus')).toBe('bus');
+    expect(stem('axis')).toBe('axis');
+    expect(stem('red')).toBe('red');
+  });
+});
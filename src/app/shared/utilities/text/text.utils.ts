@@ -0,0 +1,77 @@
+/**
+ * Text utilities for search and retrieval: tokenizing, stemming and
+ * sentence splitting
+ *
+ * @module TextUtils
+ */
+
+/**
+ * Words too common to carry meaning in a question
+ */
+const STOP_WORDS = new Set(
+  (
+    'a about an and any are as at be been by can could did do does for from had has have ' +
+    'how i if in into is it its me my of on or so than that the their them then there these ' +
+    'they this to was we were what when where which who why will with would you your tell ' +
+    'give know much many some more most'
+  ).split(' ')
+);
+
+/**
+ * Splits text into lowercase, lightly stemmed terms without stop words
+ *
+ * Stemming is deliberately light (`projects` → `project`, `libraries` →
+ * `library`, `testing` → `test`, `mentored` → `mentor`), which is enough for
+ * short career questions.
+ *
+ * @example
+ * ```typescript
+ * tokenize('What projects used Node.js?'); // ['project', 'used', 'node', 'js']
+ * ```
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term))
+    .map(stem);
+}
+
+/**
+ * Splits a passage into sentences, keeping their final punctuation
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Folds plural and common verb forms onto a shared stem
+ *
+ * Expects a lowercase term.
+ *
+ * @example
+ * ```typescript
+ * stem('libraries'); // 'library'
+ * ```
+ */
+export function stem(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) {
+    return `${term.slice(0, -3)}y`;
+  }
+  if (/(sses|xes|ches|shes)$/.test(term)) {
+    return term.slice(0, -2);
+  }
+  if (term.length > 3 && term.endsWith('s') && !/(ss|us|is)$/.test(term)) {
+    return term.slice(0, -1);
+  }
+  if (term.length > 6 && term.endsWith('ing')) {
+    return term.slice(0, -3);
+  }
+  if (term.length > 5 && term.endsWith('ed')) {
+    return term.slice(0, -2);
+  }
+  return term;
+}
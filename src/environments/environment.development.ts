@@ -30,6 +30,8 @@ export const environment: Environment = {
   features: {
     /** Enable GitHub integration (Phase 4) */
     enableGitHubIntegration: false,
+    /** Enable the career chatbot */
+    enableChatbot: true,
     /** Enable analytics tracking (disabled in development) */
     enableAnalytics: false,
     /** Enable service worker (PWA) - disabled in dev for hot reload */
@@ -64,6 +66,8 @@ export const environment: Environment = {
     apiToken: '',
     /** Cache duration for GitHub data (shorter in development) */
     cacheDuration: 5 * 60 * 1000, // 5 minutes
+    /** Serve GitHub data from recorded JSON snapshots (works offline) */
+    useFixtures: true,
   },
 
   /** Build information */
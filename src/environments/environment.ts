@@ -32,6 +32,8 @@ export const environment: Environment = {
   features: {
     /** Enable GitHub integration (Phase 4) */
     enableGitHubIntegration: false,
+    /** Enable the career chatbot */
+    enableChatbot: false,
     /** Enable analytics tracking */
     enableAnalytics: true,
     /** Enable service worker (PWA) */
@@ -66,6 +68,8 @@ export const environment: Environment = {
     apiToken: '',
     /** Cache duration for GitHub data (milliseconds) */
     cacheDuration: 30 * 60 * 1000, // 30 minutes
+    /** Serve GitHub data from recorded JSON snapshots instead of the API */
+    useFixtures: false,
   },
 
   /** Build information */
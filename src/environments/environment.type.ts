@@ -10,6 +10,7 @@ export type Environment = {
   };
   features: {
     enableGitHubIntegration: boolean;
+    enableChatbot: boolean;
     enableAnalytics: boolean;
     enableServiceWorker: boolean;
     enableLogging: boolean;
@@ -27,6 +28,7 @@ export type Environment = {
     username: string;
     apiToken: string;
     cacheDuration: number;
+    useFixtures: boolean;
   };
   build: {
     timestamp: string;